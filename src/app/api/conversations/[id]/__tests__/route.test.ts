@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server';
+
+// Mock dependencies before importing modules that use them
+jest.mock('@/lib/conversations');
+jest.mock('@/lib/memories');
+jest.mock('@/lib/supabase');
+
+// Import the modules after mocking
+import { deleteConversation, getConversation, updateConversationTitle } from '@/lib/conversations';
+import { getRecentMessages } from '@/lib/memories';
+import { DELETE, GET, PATCH } from '../route';
+
+// Mock Next.js cookies
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: jest.fn().mockReturnValue({ value: 'mock-cookie-value' }),
+    set: jest.fn(),
+  })),
+}));
+
+// Mock Supabase client
+const mockGetSession = jest.fn();
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: jest.fn(() => ({
+    auth: {
+      getSession: mockGetSession,
+    },
+  })),
+}));
+
+const conversationId = '0b7c5a1e-8f43-4a52-9a0c-2d3f4e5a6b7c';
+const conversation = {
+  id: conversationId,
+  user_id: 'test-user-id',
+  title: 'Trip to Lisbon',
+  created_at: '2025-01-01T10:00:00Z',
+  updated_at: '2025-01-01T10:05:00Z',
+};
+const url = `http://localhost:3000/api/conversations/${conversationId}`;
+const params = { params: { id: conversationId } };
+
+describe('/api/conversations/[id] endpoint', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetSession.mockResolvedValue({
+      data: { session: { user: { id: 'test-user-id' } } },
+      error: null,
+    });
+  });
+
+  it('should return the conversation with its messages', async () => {
+    const messages = [
+      { id: '1', user_id: 'test-user-id', role: 'user', content: 'Plan a trip', conversation_id: conversationId },
+    ];
+    (getConversation as jest.Mock).mockResolvedValueOnce({ data: conversation, error: null });
+    (getRecentMessages as jest.Mock).mockResolvedValueOnce({ data: messages, error: null });
+
+    const response = await GET(new NextRequest(url), params);
+
+    expect(response.status).toBe(200);
+    expect(getConversation).toHaveBeenCalledWith('test-user-id', conversationId);
+    expect(getRecentMessages).toHaveBeenCalledWith('test-user-id', 50, conversationId);
+    expect(await response.json()).toEqual({ conversation, messages });
+  });
+
+  it('should return 404 for a conversation of another user', async () => {
+    (getConversation as jest.Mock).mockResolvedValueOnce({ data: null, error: null });
+
+    const response = await GET(new NextRequest(url), params);
+
+    expect(response.status).toBe(404);
+    expect(getRecentMessages).not.toHaveBeenCalled();
+  });
+
+  it('should rename the conversation', async () => {
+    (updateConversationTitle as jest.Mock).mockResolvedValueOnce({
+      data: { ...conversation, title: 'Lisbon in May' },
+      error: null,
+    });
+
+    const request = new NextRequest(url, { method: 'PATCH', body: JSON.stringify({ title: 'Lisbon in May' }) });
+    const response = await PATCH(request, params);
+
+    expect(response.status).toBe(200);
+    expect(updateConversationTitle).toHaveBeenCalledWith('test-user-id', conversationId, 'Lisbon in May');
+    expect((await response.json()).title).toBe('Lisbon in May');
+  });
+
+  it('should delete the conversation', async () => {
+    (deleteConversation as jest.Mock).mockResolvedValueOnce({ deleted: true, error: null });
+
+    const response = await DELETE(new NextRequest(url, { method: 'DELETE' }), params);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ deleted: true });
+  });
+
+  it('should return 401 if user is not authenticated', async () => {
+    mockGetSession.mockResolvedValueOnce({ data: { session: null }, error: null });
+
+    const response = await DELETE(new NextRequest(url, { method: 'DELETE' }), params);
+
+    expect(response.status).toBe(401);
+    expect(deleteConversation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { CookieOptions, createServerClient } from '@supabase/ssr';
+import { z } from 'zod';
+import { Database } from '@/lib/types/database.types';
+import { deleteConversation, getConversation, updateConversationTitle } from '@/lib/conversations';
+import { getRecentMessages } from '@/lib/memories';
+
+// Define the request schema for PATCH requests using Zod
+const UpdateConversationSchema = z.object({
+  title: z.string().trim().min(1, 'Title cannot be empty').max(200),
+});
+
+/**
+ * Get the ID of the signed-in user
+ * @returns The user ID, or null if there is no session
+ */
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = cookies();
+  const supabase = createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          cookieStore.set({ name, value, ...options });
+        },
+        remove(name: string, options: CookieOptions) {
+          cookieStore.set({ name, value: '', ...options });
+        },
+      },
+    }
+  );
+
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+}
+
+/**
+ * GET /api/conversations/[id]
+ *
+ * Retrieves a conversation thread with its latest messages.
+ *
+ * Query parameters:
+ * - limit: Optional number of messages to retrieve (default: 50, max: 200)
+ *
+ * Response:
+ * - conversation: The conversation
+ * - messages: Its latest messages, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '50', 10) || 50, 200);
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { data: conversation, error } = await getConversation(userId, params.id);
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to fetch conversation' },
+        { status: 500 }
+      );
+    }
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: messages, error: messagesError } = await getRecentMessages(userId, limit, conversation.id);
+
+    if (messagesError) {
+      return NextResponse.json(
+        { error: 'Failed to fetch messages' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ conversation, messages: messages || [] });
+  } catch (error) {
+    console.error('Error in conversation API route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/conversations/[id]
+ *
+ * Renames a conversation thread.
+ *
+ * Request body:
+ * - title: The new title
+ *
+ * Response:
+ * - The updated conversation
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Parse and validate the request body
+    const body = await request.json();
+    const validationResult = UpdateConversationSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await updateConversationTitle(userId, params.id, validationResult.data.title);
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to update conversation' },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in conversation API route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/conversations/[id]
+ *
+ * Deletes a conversation thread together with its messages and summary.
+ *
+ * Response:
+ * - deleted: true
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { deleted, error } = await deleteConversation(userId, params.id);
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to delete conversation' },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('Error in conversation API route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
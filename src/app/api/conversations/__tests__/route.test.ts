@@ -0,0 +1,104 @@
+import { NextRequest } from 'next/server';
+
+// Mock dependencies before importing modules that use them
+jest.mock('@/lib/conversations');
+jest.mock('@/lib/supabase');
+
+// Import the modules after mocking
+import { createConversation, listConversations } from '@/lib/conversations';
+import { GET, POST } from '../route';
+
+// Mock Next.js cookies
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: jest.fn().mockReturnValue({ value: 'mock-cookie-value' }),
+    set: jest.fn(),
+  })),
+}));
+
+// Mock Supabase client
+const mockGetSession = jest.fn();
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: jest.fn(() => ({
+    auth: {
+      getSession: mockGetSession,
+    },
+  })),
+}));
+
+const conversation = {
+  id: '0b7c5a1e-8f43-4a52-9a0c-2d3f4e5a6b7c',
+  user_id: 'test-user-id',
+  title: 'Trip to Lisbon',
+  created_at: '2025-01-01T10:00:00Z',
+  updated_at: '2025-01-01T10:05:00Z',
+};
+
+describe('/api/conversations endpoint', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/conversations', () => {
+    it('should return 401 if user is not authenticated', async () => {
+      mockGetSession.mockResolvedValueOnce({ data: { session: null }, error: null });
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/conversations'));
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: 'Unauthorized' });
+    });
+
+    it('should list the user\'s conversations with pagination', async () => {
+      mockGetSession.mockResolvedValueOnce({
+        data: { session: { user: { id: 'test-user-id' } } },
+        error: null,
+      });
+      (listConversations as jest.Mock).mockResolvedValueOnce({ data: [conversation], count: 21, error: null });
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/conversations?page=2&limit=10'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(listConversations).toHaveBeenCalledWith('test-user-id', 10, 10);
+      expect(data).toEqual({
+        conversations: [conversation],
+        pagination: { page: 2, limit: 10, totalCount: 21, totalPages: 3 },
+      });
+    });
+  });
+
+  describe('POST /api/conversations', () => {
+    it('should create an untitled conversation', async () => {
+      mockGetSession.mockResolvedValueOnce({
+        data: { session: { user: { id: 'test-user-id' } } },
+        error: null,
+      });
+      (createConversation as jest.Mock).mockResolvedValueOnce({
+        data: { ...conversation, title: null },
+        error: null,
+      });
+
+      const request = new NextRequest('http://localhost:3000/api/conversations', {
+        method: 'POST',
+        body: JSON.stringify({}),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(201);
+      expect(createConversation).toHaveBeenCalledWith('test-user-id', undefined);
+      expect((await response.json()).title).toBeNull();
+    });
+
+    it('should return 400 for an empty title', async () => {
+      const request = new NextRequest('http://localhost:3000/api/conversations', {
+        method: 'POST',
+        body: JSON.stringify({ title: '  ' }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+      expect(createConversation).not.toHaveBeenCalled();
+    });
+  });
+});
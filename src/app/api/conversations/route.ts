@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { CookieOptions, createServerClient } from '@supabase/ssr';
+import { z } from 'zod';
+import { Database } from '@/lib/types/database.types';
+import { createConversation, listConversations } from '@/lib/conversations';
+
+// Define the request schema for POST requests using Zod
+const CreateConversationSchema = z.object({
+  title: z.string().trim().min(1, 'Title cannot be empty').max(200).optional(),
+});
+
+/**
+ * GET /api/conversations
+ *
+ * Lists the authenticated user's conversation threads, most recently active first.
+ *
+ * Query parameters:
+ * - page: Optional page number for pagination (default: 1)
+ * - limit: Optional limit for pagination (default: 20, max: 100)
+ *
+ * Response:
+ * - conversations: Array of conversations
+ * - pagination: Pagination information
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get the query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10) || 20, 100);
+    const offset = (page - 1) * limit;
+
+    // Get the user session from Supabase
+    const cookieStore = cookies();
+    const supabase = createServerClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set({ name, value, ...options });
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set({ name, value: '', ...options });
+          },
+        },
+      }
+    );
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { data, count, error } = await listConversations(session.user.id, limit, offset);
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to fetch conversations' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      conversations: data,
+      pagination: {
+        page,
+        limit,
+        totalCount: count,
+        totalPages: Math.ceil(count / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Error in conversations API route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/conversations
+ *
+ * Starts a new conversation thread for the authenticated user.
+ *
+ * Request body:
+ * - title: Optional title; when omitted, the thread is titled from its first task
+ *
+ * Response (status 201):
+ * - The newly created conversation
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse and validate the request body
+    const body = await request.json().catch(() => ({}));
+    const validationResult = CreateConversationSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    // Get the user session from Supabase
+    const cookieStore = cookies();
+    const supabase = createServerClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set({ name, value, ...options });
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set({ name, value: '', ...options });
+          },
+        },
+      }
+    );
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await createConversation(session.user.id, validationResult.data.title);
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to create conversation' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (error) {
+    console.error('Error in conversations API route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { getJobQueue } from '@/lib/orchestration/jobs/queue';
+import { processJobs } from '@/lib/orchestration/jobs/worker';
+
+// Mock the job queue and worker
+jest.mock('@/lib/orchestration/jobs/queue', () => ({
+  getJobQueue: jest.fn(() => ({ name: 'postgres' })),
+}));
+jest.mock('@/lib/orchestration/jobs/worker', () => ({
+  processJobs: jest.fn(),
+}));
+
+function createRequest(body: unknown, authorization?: string) {
+  return new NextRequest('http://localhost:3000/api/jobs/process', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: authorization ? { authorization } : {},
+  });
+}
+
+describe('/api/jobs/process endpoint', () => {
+  const originalSecret = process.env.JOB_WORKER_SECRET;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.JOB_WORKER_SECRET = 'worker-secret';
+  });
+
+  afterAll(() => {
+    process.env.JOB_WORKER_SECRET = originalSecret;
+  });
+
+  it('should process jobs for an authorized worker', async () => {
+    (processJobs as jest.Mock).mockResolvedValueOnce(2);
+
+    const response = await POST(createRequest({ maxJobs: 5 }, 'Bearer worker-secret'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ processed: 2 });
+    expect(processJobs).toHaveBeenCalledWith(getJobQueue(), { maxJobs: 5 });
+  });
+
+  it('should return 401 without the worker secret', async () => {
+    const response = await POST(createRequest({}, 'Bearer wrong-secret'));
+
+    expect(response.status).toBe(401);
+    expect(processJobs).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 when no worker secret is configured', async () => {
+    delete process.env.JOB_WORKER_SECRET;
+
+    const response = await POST(createRequest({}, 'Bearer '));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return 400 for an invalid body', async () => {
+    const response = await POST(createRequest({ maxJobs: 100 }, 'Bearer worker-secret'));
+
+    expect(response.status).toBe(400);
+    expect(processJobs).not.toHaveBeenCalled();
+  });
+});
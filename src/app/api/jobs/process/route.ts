@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { getJobQueue } from '@/lib/orchestration/jobs/queue';
+import { processJobs } from '@/lib/orchestration/jobs/worker';
+
+// Define the request schema using Zod
+const ProcessJobsRequestSchema = z.object({
+  maxJobs: z.number().int().min(1).max(10).optional(),
+});
+
+/**
+ * Check the worker secret sent as a bearer token
+ * @param request The incoming request
+ * @returns Whether the request carries the configured secret
+ */
+function isAuthorizedWorker(request: NextRequest): boolean {
+  const secret = process.env.JOB_WORKER_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get('authorization') || '');
+
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * POST /api/jobs/process
+ *
+ * Process queued async orchestration runs. Call this from a scheduler (for
+ * example a cron job every minute) when ORCHESTRATION_JOB_QUEUE is
+ * 'postgres'; the in-process queue processes its jobs on its own. Jobs whose
+ * worker crashed are picked up again once their lease expires.
+ *
+ * Headers:
+ * - Authorization: Bearer <JOB_WORKER_SECRET>
+ *
+ * Request body:
+ * - maxJobs: Optional maximum number of jobs to process (default: 1, max: 10)
+ *
+ * Response:
+ * - processed: The number of jobs processed
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorizedWorker(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate the request body
+    const body = await request.json().catch(() => ({}));
+    const validationResult = ProcessJobsRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const processed = await processJobs(getJobQueue(), {
+      maxJobs: validationResult.data.maxJobs ?? 1,
+    });
+
+    return NextResponse.json({ processed });
+  } catch (error) {
+    console.error('Error in job processing API route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
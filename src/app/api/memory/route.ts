@@ -4,11 +4,13 @@ import { createServerClient } from '@supabase/ssr';
 import { z } from 'zod';
 import { Database } from '@/lib/types/database.types';
 import { getRecentMessages, saveMessage } from '@/lib/memories';
+import { getConversation } from '@/lib/conversations';
 
 // Define the request schema for POST requests using Zod
 const MemoryRequestSchema = z.object({
   content: z.string().min(1, 'Content is required'),
   role: z.enum(['user', 'assistant', 'system']),
+  conversationId: z.string().uuid().optional(),
 });
 
 /**
@@ -96,6 +98,7 @@ export async function GET(request: NextRequest) {
  * Request body:
  * - content: The content of the memory entry
  * - role: The role of the sender ('user', 'assistant', or 'system')
+ * - conversationId: Optional conversation thread to add the entry to
  * 
  * Response:
  * - The newly created memory entry
@@ -116,7 +119,7 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const { content, role } = validationResult.data;
+    const { content, role, conversationId } = validationResult.data;
 
     // Get the user session from Supabase
     const cookieStore = cookies();
@@ -151,11 +154,31 @@ export async function POST(request: NextRequest) {
 
     const userId = session.user.id;
 
+    // The thread must belong to the user
+    if (conversationId) {
+      const { data: conversation, error: conversationError } = await getConversation(userId, conversationId);
+
+      if (conversationError) {
+        return NextResponse.json(
+          { error: 'Failed to fetch conversation' },
+          { status: 500 }
+        );
+      }
+
+      if (!conversation) {
+        return NextResponse.json(
+          { error: 'Conversation not found' },
+          { status: 404 }
+        );
+      }
+    }
+
     // Save the new message
     const { data, error } = await saveMessage({
       user_id: userId,
       role,
       content,
+      conversation_id: conversationId,
     });
 
     if (error) {
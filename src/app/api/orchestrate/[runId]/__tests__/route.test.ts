@@ -0,0 +1,91 @@
+import { NextRequest } from 'next/server';
+import { DELETE } from '../route';
+import { cancelRun } from '@/lib/orchestration/runStore';
+import { ApiError } from '@/lib/utils/error';
+import { createServerClient } from '@supabase/ssr';
+
+// Mock Next.js cookies
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: jest.fn().mockReturnValue({ value: 'mock-cookie-value' }),
+    set: jest.fn(),
+  })),
+}));
+
+// Mock Supabase client
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: jest.fn(() => ({
+    auth: {
+      getSession: jest.fn().mockResolvedValue({
+        data: {
+          session: {
+            user: {
+              id: 'test-user-id',
+            },
+          },
+        },
+      }),
+    },
+  })),
+}));
+
+// Mock the run store
+jest.mock('@/lib/orchestration/runStore', () => ({
+  cancelRun: jest.fn(),
+}));
+
+function createRequest() {
+  return new NextRequest('http://localhost:3000/api/orchestrate/run-1', {
+    method: 'DELETE',
+  });
+}
+
+describe('DELETE /api/orchestrate/[runId] endpoint', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 202 while an in-flight run is cancelling', async () => {
+    (cancelRun as jest.Mock).mockResolvedValueOnce('cancelling');
+
+    const response = await DELETE(createRequest(), { params: { runId: 'run-1' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(data).toEqual({ runId: 'run-1', status: 'cancelling' });
+    expect(cancelRun).toHaveBeenCalledWith('run-1', 'test-user-id');
+  });
+
+  it('should return 200 when a paused run is cancelled', async () => {
+    (cancelRun as jest.Mock).mockResolvedValueOnce('cancelled');
+
+    const response = await DELETE(createRequest(), { params: { runId: 'run-1' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.status).toBe('cancelled');
+  });
+
+  it('should return the status code of cancellation errors', async () => {
+    (cancelRun as jest.Mock).mockRejectedValueOnce(new ApiError('Run not found', 404));
+
+    const response = await DELETE(createRequest(), { params: { runId: 'run-1' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe('Run not found');
+  });
+
+  it('should return 401 without a session', async () => {
+    (createServerClient as jest.Mock).mockReturnValueOnce({
+      auth: {
+        getSession: jest.fn().mockResolvedValue({ data: { session: null } }),
+      },
+    });
+
+    const response = await DELETE(createRequest(), { params: { runId: 'run-1' } });
+
+    expect(response.status).toBe(401);
+    expect(cancelRun).not.toHaveBeenCalled();
+  });
+});
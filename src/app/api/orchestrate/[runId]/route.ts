@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { CookieOptions, createServerClient } from '@supabase/ssr';
+import { Database } from '@/lib/types/database.types';
+import { cancelRun } from '@/lib/orchestration/runStore';
+import { ApiError } from '@/lib/utils/error';
+
+/**
+ * DELETE /api/orchestrate/[runId]
+ *
+ * Cancel a run. A run in progress is aborted: its model and tool calls are
+ * stopped, it ends with the `cancelled` stop reason and only the tokens
+ * actually used are billed. A run in progress in a worker or on another
+ * instance stops at its next step. A queued run or a run paused for approval
+ * is cancelled directly.
+ *
+ * Response:
+ * - 202 { runId, status: 'cancelling' } if the run was in progress
+ * - 200 { runId, status: 'cancelled' } if the run was queued or awaiting approval
+ * - 404 if the run does not exist, 409 if it has already ended
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { runId: string } }
+) {
+  try {
+    const runId = params.runId;
+
+    // Get the user session
+    const cookieStore = cookies();
+    const supabase = createServerClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set({ name, value, ...options });
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set({ name, value: '', ...options });
+          },
+        },
+      }
+    );
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const status = await cancelRun(runId, session.user.id);
+
+    return NextResponse.json(
+      { runId, status },
+      { status: status === 'cancelling' ? 202 : 200 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error in orchestrate cancel API route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,14 +3,28 @@ import { NextRequest } from 'next/server';
 // Mock dependencies before importing modules that use them
 jest.mock('@/lib/orchestration/orchestrator');
 jest.mock('@/lib/orchestration/contextIntegration');
+jest.mock('@/lib/orchestration/jobs/queue');
+jest.mock('@/lib/orchestration/jobs/callbackUrl');
+jest.mock('@/lib/orchestration/conversationTitles');
+jest.mock('@/lib/conversations');
 jest.mock('@/lib/tools/registry');
 jest.mock('@/lib/memories');
 jest.mock('@/lib/supabase');
+jest.mock('@/lib/orchestration/promptTemplates', () => ({
+  ...jest.requireActual('@/lib/orchestration/promptTemplates'),
+  getPersona: jest.fn(),
+}));
 
 // Import the modules after mocking
 import { orchestrate } from '@/lib/orchestration/orchestrator';
 import { combineMemoryWithInstruction } from '@/lib/orchestration/contextIntegration';
 import { getToolRegistry } from '@/lib/tools/registry';
+import { enqueueOrchestrationJob } from '@/lib/orchestration/jobs/queue';
+import { assertCallbackUrlAllowed } from '@/lib/orchestration/jobs/callbackUrl';
+import { ValidationError } from '@/lib/utils/error';
+import { titleConversation } from '@/lib/orchestration/conversationTitles';
+import { getConversation } from '@/lib/conversations';
+import { getPersona } from '@/lib/orchestration/promptTemplates';
 import { POST } from '../route';
 
 // Mock Next.js cookies and Supabase client
@@ -136,7 +150,239 @@ describe('/api/orchestrate endpoint', () => {
       },
       tools: mockTools,
       maxRetries: 3,
+      signal: expect.anything(),
+    });
+  });
+
+  it('should stream orchestration events when stream is true', async () => {
+    // Mock authenticated session
+    mockGetSession.mockResolvedValueOnce({
+      data: { session: { user: { id: 'test-user-id' } } },
+      error: null,
+    });
+
+    (getToolRegistry as jest.Mock).mockReturnValue({
+      getAllTools: jest.fn().mockResolvedValue([]),
+    });
+    (combineMemoryWithInstruction as jest.Mock).mockResolvedValue([
+      { role: 'user', content: 'Test task' },
+    ]);
+
+    // Mock orchestrator that reports progress through the listener
+    const mockOrchestrationResult = { response: 'Hi', toolCalls: [] };
+    (orchestrate as jest.Mock).mockImplementation(async ({ onEvent }) => {
+      onEvent({ type: 'token', delta: 'Hi' });
+      onEvent({ type: 'done', result: mockOrchestrationResult });
+      return mockOrchestrationResult;
+    });
+
+    // Create request
+    const request = new NextRequest('http://localhost:3000/api/orchestrate', {
+      method: 'POST',
+      body: JSON.stringify({ task: 'Test task', stream: true }),
+    });
+
+    // Call the endpoint
+    const response = await POST(request);
+    const text = await response.text();
+
+    // Verify response
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(text).toBe(
+      'event: token\ndata: {"type":"token","delta":"Hi"}\n\n' +
+      'event: done\ndata: {"type":"done","result":{"response":"Hi","toolCalls":[]}}\n\n'
+    );
+    expect(orchestrate).toHaveBeenCalledWith(
+      expect.objectContaining({ instruction: 'Test task', onEvent: expect.any(Function) })
+    );
+  });
+
+  it('should queue the run and return its ID at once when async is true', async () => {
+    // Mock authenticated session
+    mockGetSession.mockResolvedValueOnce({
+      data: { session: { user: { id: 'test-user-id' } } },
+      error: null,
+    });
+
+    (enqueueOrchestrationJob as jest.Mock).mockResolvedValueOnce({ runId: 'run-1', jobId: 'job-1' });
+
+    // Create request
+    const request = new NextRequest('http://localhost:3000/api/orchestrate', {
+      method: 'POST',
+      body: JSON.stringify({
+        task: 'Test task',
+        async: true,
+        callbackUrl: 'https://example.com/hook',
+      }),
+    });
+
+    // Call the endpoint
+    const response = await POST(request);
+    const data = await response.json();
+
+    // Verify response
+    expect(response.status).toBe(202);
+    expect(data).toEqual({ runId: 'run-1', status: 'queued' });
+    expect(enqueueOrchestrationJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'test-user-id',
+        instruction: 'Test task',
+        callbackUrl: 'https://example.com/hook',
+      })
+    );
+    expect(orchestrate).not.toHaveBeenCalled();
+  });
+
+  it('should use the messages of the conversation and title it from the first task', async () => {
+    const conversationId = '0b7c5a1e-8f43-4a52-9a0c-2d3f4e5a6b7c';
+    mockGetSession.mockResolvedValueOnce({
+      data: { session: { user: { id: 'test-user-id' } } },
+      error: null,
+    });
+    (getConversation as jest.Mock).mockResolvedValueOnce({
+      data: { id: conversationId, user_id: 'test-user-id', title: null },
+      error: null,
+    });
+    (titleConversation as jest.Mock).mockResolvedValueOnce('Test title');
+    (getToolRegistry as jest.Mock).mockReturnValue({
+      getAllTools: jest.fn().mockResolvedValue([]),
+    });
+    (combineMemoryWithInstruction as jest.Mock).mockResolvedValue([
+      { role: 'user', content: 'Test task' },
+    ]);
+    (orchestrate as jest.Mock).mockResolvedValue({ response: 'Done', toolCalls: [] });
+
+    const request = new NextRequest('http://localhost:3000/api/orchestrate', {
+      method: 'POST',
+      body: JSON.stringify({ task: 'Test task', conversationId }),
+    });
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(200);
+    expect(getConversation).toHaveBeenCalledWith('test-user-id', conversationId);
+    expect(combineMemoryWithInstruction).toHaveBeenCalledWith(
+      'test-user-id',
+      'Test task',
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      conversationId
+    );
+    expect(titleConversation).toHaveBeenCalledWith('test-user-id', conversationId, 'Test task');
+  });
+
+  it('should return 404 for a conversation the user does not have', async () => {
+    mockGetSession.mockResolvedValueOnce({
+      data: { session: { user: { id: 'test-user-id' } } },
+      error: null,
+    });
+    (getConversation as jest.Mock).mockResolvedValueOnce({ data: null, error: null });
+
+    const request = new NextRequest('http://localhost:3000/api/orchestrate', {
+      method: 'POST',
+      body: JSON.stringify({ task: 'Test task', conversationId: '0b7c5a1e-8f43-4a52-9a0c-2d3f4e5a6b7c' }),
+    });
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Conversation not found' });
+    expect(orchestrate).not.toHaveBeenCalled();
+  });
+
+  it('should run the task with the persona the user picked', async () => {
+    mockGetSession.mockResolvedValueOnce({
+      data: { session: { user: { id: 'test-user-id' } } },
+      error: null,
+    });
+    (getPersona as jest.Mock).mockResolvedValueOnce({ name: 'travel-agent', variables: {} });
+    (getToolRegistry as jest.Mock).mockReturnValue({
+      getAllTools: jest.fn().mockResolvedValue([]),
+    });
+    (combineMemoryWithInstruction as jest.Mock).mockResolvedValue([]);
+    (orchestrate as jest.Mock).mockResolvedValue({ response: 'Done', toolCalls: [] });
+
+    const request = new NextRequest('http://localhost:3000/api/orchestrate', {
+      method: 'POST',
+      body: JSON.stringify({ task: 'Test task', persona: 'travel-agent' }),
+    });
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(200);
+    expect(getPersona).toHaveBeenCalledWith('travel-agent', 'test-user-id');
+    expect(orchestrate).toHaveBeenCalledWith(expect.objectContaining({ persona: 'travel-agent' }));
+  });
+
+  it('should return 404 for a persona that does not exist', async () => {
+    mockGetSession.mockResolvedValueOnce({
+      data: { session: { user: { id: 'test-user-id' } } },
+      error: null,
+    });
+    (getPersona as jest.Mock).mockResolvedValueOnce(null);
+
+    const request = new NextRequest('http://localhost:3000/api/orchestrate', {
+      method: 'POST',
+      body: JSON.stringify({ task: 'Test task', persona: 'pirate' }),
+    });
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Persona not found' });
+    expect(orchestrate).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for a callback URL without async mode', async () => {
+    const request = new NextRequest('http://localhost:3000/api/orchestrate', {
+      method: 'POST',
+      body: JSON.stringify({ task: 'Test task', callbackUrl: 'https://example.com/hook' }),
     });
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(400);
+    expect(enqueueOrchestrationJob).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for a callback URL that points at a private address', async () => {
+    mockGetSession.mockResolvedValueOnce({
+      data: { session: { user: { id: 'test-user-id' } } },
+      error: null,
+    });
+    (assertCallbackUrlAllowed as jest.Mock).mockRejectedValueOnce(
+      new ValidationError('Invalid callback URL', ['Callback host localhost resolves to an address that is not public'])
+    );
+
+    const request = new NextRequest('http://localhost:3000/api/orchestrate', {
+      method: 'POST',
+      body: JSON.stringify({ task: 'Test task', async: true, callbackUrl: 'http://localhost/hook' }),
+    });
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'Invalid callback URL' });
+    expect(enqueueOrchestrationJob).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for an output schema whose pattern cannot be used', async () => {
+    for (const pattern of ['[unclosed', '^(a+)+$']) {
+      const outputSchema = { type: 'object', properties: { id: { type: 'string', pattern } } };
+      const request = new NextRequest('http://localhost:3000/api/orchestrate', {
+        method: 'POST',
+        body: JSON.stringify({ task: 'Test task', outputSchema }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: 'Invalid request' });
+    }
+    expect(orchestrate).not.toHaveBeenCalled();
   });
 
   it('should handle errors and return 500', async () => {
@@ -4,15 +4,47 @@ import { createServerClient } from '@supabase/ssr';
 import { z } from 'zod';
 import { Database } from '@/lib/types/database.types';
 import { orchestrate } from '@/lib/orchestration/orchestrator';
+import { createOrchestrationEventStream, SSE_HEADERS } from '@/lib/orchestration/streaming';
 import { combineMemoryWithInstruction } from '@/lib/orchestration/contextIntegration';
+import { titleConversation } from '@/lib/orchestration/conversationTitles';
+import { getConversation } from '@/lib/conversations';
+import { getPersona, PERSONA_NAME_PATTERN } from '@/lib/orchestration/promptTemplates';
+import { enqueueOrchestrationJob } from '@/lib/orchestration/jobs/queue';
+import { assertCallbackUrlAllowed } from '@/lib/orchestration/jobs/callbackUrl';
+import { ValidationError } from '@/lib/utils/error';
+import { JsonSchemaShape } from '@/lib/utils/validation';
 import { getToolRegistry } from '@/lib/tools/registry';
 
 // Define the request schema using Zod
 const OrchestrationRequestSchema = z.object({
   task: z.string().min(1, 'Task is required'),
+  conversationId: z.string().uuid().optional(),
   additionalContext: z.string().optional(),
+  persona: z.string().regex(PERSONA_NAME_PATTERN, 'Invalid persona name').optional(),
   maxRetries: z.number().int().min(0).max(5).optional(),
-});
+  stream: z.boolean().optional(),
+  maxSteps: z.number().int().min(1).max(50).optional(),
+  maxWallClockMs: z.number().int().min(1000).max(600000).optional(),
+  maxTotalTokens: z.number().int().min(1).optional(),
+  planner: z.boolean().optional(),
+  routing: z.boolean().optional(),
+  outputSchema: JsonSchemaShape.optional(),
+  maxOutputRetries: z.number().int().min(0).max(5).optional(),
+  async: z.boolean().optional(),
+  callbackUrl: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//.test(url), 'Callback URL must use http or https')
+    .optional(),
+})
+  .refine((data) => !(data.async && data.stream), {
+    message: 'A run cannot be both async and streamed',
+    path: ['stream'],
+  })
+  .refine((data) => !data.callbackUrl || data.async, {
+    message: 'A callback URL requires async mode',
+    path: ['callbackUrl'],
+  });
 
 /**
  * POST /api/orchestrate
@@ -21,13 +53,54 @@ const OrchestrationRequestSchema = z.object({
  * 
  * Request body:
  * - task: The task to be processed by the orchestrator
+ * - conversationId: Optional conversation thread (see /api/conversations); only its messages
+ *   are used as context, and an untitled thread is titled from this task
  * - additionalContext: Optional additional context to include
+ * - persona: Optional persona whose variables and prompt template overrides shape the
+ *   system prompt
  * - maxRetries: Optional maximum number of retries for failed tool calls (default: 2)
+ * - stream: Optional flag to stream progress as Server-Sent Events (default: false)
+ * - maxSteps: Optional maximum number of model calls (default: 10, max: 50)
+ * - maxWallClockMs: Optional time limit for the run in milliseconds (max: 600000)
+ * - maxTotalTokens: Optional token budget for the run
+ * - planner: Optional flag to plan independent tool calls up front and run them in parallel
+ *   before the model writes its answer (default: false)
+ * - routing: Optional flag to classify the task first and run it on a model tier and tool
+ *   subset chosen by the routing rules (default: false)
+ * - outputSchema: Optional JSON Schema; the final answer is produced as JSON, validated
+ *   against it and returned in `output`. Its patterns must compile and may not use nested
+ *   quantifiers or backreferences; formats are limited to date-time, date, email, uri and uuid
+ * - maxOutputRetries: Optional number of times an answer that does not match the output
+ *   schema is sent back for correction (default: 2, max: 5)
+ * - async: Optional flag to queue the run for a worker and return at once (default: false)
+ * - callbackUrl: Optional URL that receives the result with a POST when an async run ends;
+ *   its host must resolve to public addresses (and be in JOB_CALLBACK_ALLOWED_HOSTS when set)
  * 
  * Response:
  * - response: The final response from the orchestrator
  * - toolCalls: Array of tool calls that were made
  * - errors: Any errors that occurred during orchestration
+ * - stopReason: Why the run ended (completed, step_limit, token_limit, timeout, error,
+ *   awaiting_approval, cancelled, invalid_output)
+ * - runId: The ID of the stored run (see /api/runs/[id])
+ * - pendingToolCalls: Tool calls waiting for approval when stopReason is
+ *   awaiting_approval; decide on them with /api/runs/[id]/approve or /reject
+ * - plan: The task plan and the status of each step, when planner is true
+ * - route: The routing rule, model tier, model and tools chosen, when routing is true
+ * - output: The answer as an object matching outputSchema; when it could not be produced,
+ *   stopReason is invalid_output and errors lists the validation errors
+ *
+ * Streaming response (stream: true):
+ * - A `text/event-stream` starting with a `run_started` event carrying the run ID, then
+ *   `route_selected`, `plan_created`, `token`, `tool_call`, `tool_result`, `tool_error`,
+ *   `approval_required` and `usage` events, ending with a `done` event carrying the result
+ *   above (or an `error` event if the run could not complete)
+ *
+ * Async response (async: true), with status 202:
+ * - runId: The ID of the queued run; poll /api/runs/[id] for its status and result
+ * - status: 'queued'
+ *
+ * A run in progress can be cancelled with DELETE /api/orchestrate/[runId].
  */
 export async function POST(request: NextRequest) {
   try {
@@ -45,7 +118,23 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const { task, additionalContext, maxRetries } = validationResult.data;
+    const {
+      task,
+      conversationId,
+      additionalContext,
+      persona,
+      maxRetries,
+      stream,
+      maxSteps,
+      maxWallClockMs,
+      maxTotalTokens,
+      planner,
+      routing,
+      outputSchema,
+      maxOutputRetries,
+      async: runAsync,
+      callbackUrl,
+    } = validationResult.data;
 
     // Get the user session from Supabase
     const cookieStore = cookies();
@@ -78,15 +167,90 @@ export async function POST(request: NextRequest) {
 
     const userId = session.user.id;
 
+    // The thread must belong to the user
+    if (conversationId) {
+      const { data: conversation, error: conversationError } = await getConversation(userId, conversationId);
+
+      if (conversationError) {
+        return NextResponse.json(
+          { error: 'Failed to fetch conversation' },
+          { status: 500 }
+        );
+      }
+
+      if (!conversation) {
+        return NextResponse.json(
+          { error: 'Conversation not found' },
+          { status: 404 }
+        );
+      }
+
+      // Title a new thread from its first task without holding up the run
+      if (!conversation.title) {
+        titleConversation(userId, conversationId, task)
+          .catch(err => console.error('Failed to title conversation:', err));
+      }
+    }
+
+    // The persona must be one of the user's or a global one
+    if (persona && !(await getPersona(persona, userId))) {
+      return NextResponse.json(
+        { error: 'Persona not found' },
+        { status: 404 }
+      );
+    }
+
+    // The server POSTs the result to the callback URL, so it must point at a public host
+    if (callbackUrl) {
+      try {
+        await assertCallbackUrlAllowed(callbackUrl);
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        return NextResponse.json(
+          { error: error.message, details: error.details },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Queue the run for a worker instead of running it inside this request
+    if (runAsync) {
+      const { runId } = await enqueueOrchestrationJob({
+        userId,
+        instruction: task,
+        conversationId,
+        additionalContext,
+        persona,
+        maxRetries: maxRetries ?? 2,
+        maxSteps,
+        maxWallClockMs,
+        maxTotalTokens,
+        planner,
+        routing,
+        outputSchema,
+        maxOutputRetries,
+        callbackUrl,
+      });
+
+      return NextResponse.json({ runId, status: 'queued' }, { status: 202 });
+    }
+
     // Get available tools from the registry
     const toolRegistry = getToolRegistry();
     const availableTools = await toolRegistry.getAllTools(userId);
 
-    // Combine the task with user's conversation memory
-    const messages = await combineMemoryWithInstruction(userId, task);
+    // Combine the task with the user's conversation memory, from the thread if one is given
+    const messages = await combineMemoryWithInstruction(
+      userId,
+      task,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      conversationId
+    );
 
-    // Call the orchestrator
-    const result = await orchestrate({
+    const orchestrationRequest = {
       instruction: task,
       context: {
         userId,
@@ -94,8 +258,30 @@ export async function POST(request: NextRequest) {
         additionalContext,
       },
       tools: availableTools,
+      persona,
       maxRetries: maxRetries ?? 2,
-    });
+      maxSteps,
+      maxWallClockMs,
+      maxTotalTokens,
+      planner,
+      routing,
+      outputSchema,
+      maxOutputRetries,
+      // Stop the run if the client goes away
+      signal: request.signal,
+    };
+
+    // Stream progress events if requested
+    if (stream) {
+      const eventStream = createOrchestrationEventStream((onEvent) =>
+        orchestrate({ ...orchestrationRequest, onEvent })
+      );
+
+      return new Response(eventStream, { headers: SSE_HEADERS });
+    }
+
+    // Call the orchestrator
+    const result = await orchestrate(orchestrationRequest);
 
     // Return the orchestration result
     return NextResponse.json(result);
@@ -0,0 +1,113 @@
+import { NextRequest } from 'next/server';
+import { POST as approve } from '../approve/route';
+import { POST as reject } from '../reject/route';
+import { submitApprovalDecision } from '@/lib/orchestration/approval';
+import { ApiError } from '@/lib/utils/error';
+
+// Mock Next.js cookies
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: jest.fn().mockReturnValue({ value: 'mock-cookie-value' }),
+    set: jest.fn(),
+  })),
+}));
+
+// Mock Supabase client
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: jest.fn(() => ({
+    auth: {
+      getSession: jest.fn().mockResolvedValue({
+        data: {
+          session: {
+            user: {
+              id: 'test-user-id',
+            },
+          },
+        },
+      }),
+    },
+  })),
+}));
+
+// Mock the tool registry
+jest.mock('@/lib/tools/registry', () => ({
+  getToolRegistry: jest.fn(() => ({
+    getAllTools: jest.fn().mockResolvedValue([]),
+  })),
+}));
+
+// Mock the approval module
+jest.mock('@/lib/orchestration/approval', () => ({
+  submitApprovalDecision: jest.fn(),
+}));
+
+function createRequest(action: string, body: unknown) {
+  return new NextRequest(`http://localhost:3000/api/runs/run-1/${action}`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe.each([
+  {
+    action: 'approve',
+    POST: approve,
+    fields: { arguments: { to: 'alice@example.com' } },
+    invalidBody: { arguments: 'not-an-object' },
+  },
+  {
+    action: 'reject',
+    POST: reject,
+    fields: { reason: 'Wrong recipient' },
+    invalidBody: { reason: 42 },
+  },
+])('/api/runs/[id]/$action endpoint', ({ action, POST, fields, invalidBody }) => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should submit the decision and return the resumed result', async () => {
+    (submitApprovalDecision as jest.Mock).mockResolvedValueOnce({
+      response: 'Done',
+      toolCalls: [],
+      stopReason: 'completed',
+      runId: 'run-1',
+    });
+
+    const response = await POST(
+      createRequest(action, { toolCallId: 'call_email', ...fields }),
+      { params: { id: 'run-1' } }
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.stopReason).toBe('completed');
+    expect(submitApprovalDecision).toHaveBeenCalledWith(
+      'run-1',
+      'test-user-id',
+      { toolCallId: 'call_email', action, ...fields },
+      [],
+      undefined,
+      expect.any(AbortSignal)
+    );
+  });
+
+  it('should return the status code of approval errors', async () => {
+    (submitApprovalDecision as jest.Mock).mockRejectedValueOnce(
+      new ApiError('Run is not awaiting approval', 409)
+    );
+
+    const response = await POST(createRequest(action, {}), { params: { id: 'run-1' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.error).toBe('Run is not awaiting approval');
+  });
+
+  it('should return 400 for an invalid body', async () => {
+    const response = await POST(createRequest(action, invalidBody), { params: { id: 'run-1' } });
+
+    expect(response.status).toBe(400);
+    expect(submitApprovalDecision).not.toHaveBeenCalled();
+  });
+});
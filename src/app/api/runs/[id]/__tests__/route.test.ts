@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+
+// Mock Next.js cookies
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: jest.fn().mockReturnValue({ value: 'mock-cookie-value' }),
+    set: jest.fn(),
+  })),
+}));
+
+const mockRun = {
+  id: 'run-1',
+  user_id: 'test-user-id',
+  instruction: 'Search the web',
+  status: 'completed',
+  stop_reason: 'completed',
+  response: 'Here are the results',
+};
+
+const mockSteps = [
+  { run_id: 'run-1', step_index: 0, step_type: 'model_call', model: 'gpt-4.1', total_tokens: 100 },
+  { run_id: 'run-1', step_index: 1, step_type: 'tool_call', tool_name: 'web_search', duration_ms: 250 },
+];
+
+const mockMaybeSingle = jest.fn();
+const mockChildRuns = jest.fn();
+
+// Mock Supabase client
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: jest.fn(() => ({
+    auth: {
+      getSession: jest.fn().mockResolvedValue({
+        data: {
+          session: {
+            user: {
+              id: 'test-user-id',
+            },
+          },
+        },
+      }),
+    },
+    from: jest.fn().mockImplementation((table) => {
+      if (table === 'runs') {
+        return {
+          select: jest.fn().mockReturnThis(),
+          eq: jest.fn().mockReturnThis(),
+          maybeSingle: mockMaybeSingle,
+          order: mockChildRuns,
+        };
+      }
+      return {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        order: jest.fn().mockResolvedValue({ data: mockSteps, error: null }),
+      };
+    }),
+  })),
+}));
+
+describe('/api/runs/[id] endpoint', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockChildRuns.mockResolvedValue({ data: [], error: null });
+  });
+
+  it('should return the run with its steps', async () => {
+    mockMaybeSingle.mockResolvedValueOnce({ data: mockRun, error: null });
+
+    const request = new NextRequest('http://localhost:3000/api/runs/run-1');
+    const response = await GET(request, { params: { id: 'run-1' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.run).toEqual(mockRun);
+    expect(data.steps).toEqual(mockSteps);
+    expect(data.children).toEqual([]);
+  });
+
+  it('should return the runs of the sub-agents the run delegated to', async () => {
+    const childRun = { id: 'run-2', instruction: 'Research hotels', status: 'completed', depth: 1 };
+    mockMaybeSingle.mockResolvedValueOnce({ data: mockRun, error: null });
+    mockChildRuns.mockResolvedValueOnce({ data: [childRun], error: null });
+
+    const request = new NextRequest('http://localhost:3000/api/runs/run-1');
+    const response = await GET(request, { params: { id: 'run-1' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.children).toEqual([childRun]);
+  });
+
+  it('should return 404 when the run does not exist', async () => {
+    mockMaybeSingle.mockResolvedValueOnce({ data: null, error: null });
+
+    const request = new NextRequest('http://localhost:3000/api/runs/missing');
+    const response = await GET(request, { params: { id: 'missing' } });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { createApprovalDecisionHandler } from '../decision';
+
+// Define the request schema using Zod
+const ApproveRequestSchema = z.object({
+  toolCallId: z.string().min(1).optional(),
+  arguments: z.record(z.any()).optional(),
+});
+
+/**
+ * POST /api/runs/[id]/approve
+ *
+ * Approve a tool call that a run paused for, optionally with edited arguments.
+ * Once every pending tool call has been approved or rejected, the run resumes.
+ *
+ * Request body:
+ * - toolCallId: The tool call to approve (optional when only one is pending)
+ * - arguments: Optional edited arguments to run the tool call with
+ *
+ * Response:
+ * - The orchestration result if the run resumed, or
+ * - { runId, status: 'awaiting_approval', pendingToolCalls } if other tool
+ *   calls still need a decision
+ */
+export const POST = createApprovalDecisionHandler('approve', ApproveRequestSchema);
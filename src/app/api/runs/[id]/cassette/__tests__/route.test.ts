@@ -0,0 +1,119 @@
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+
+// Mock Next.js cookies
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: jest.fn().mockReturnValue({ value: 'mock-cookie-value' }),
+    set: jest.fn(),
+  })),
+}));
+
+const mockRun = {
+  id: 'run-1',
+  user_id: 'test-user-id',
+  instruction: 'Search the web',
+  model: 'gpt-4.1',
+  status: 'completed',
+};
+
+const mockSteps = [
+  {
+    run_id: 'run-1',
+    step_index: 0,
+    step_type: 'model_call',
+    model: 'gpt-4.1',
+    input: [{ role: 'user', content: 'Search the web' }],
+    output: {
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'web_search', arguments: { query: 'news' } }],
+    },
+    error: null,
+    prompt_tokens: 80,
+    completion_tokens: 20,
+    total_tokens: 100,
+  },
+  {
+    run_id: 'run-1',
+    step_index: 1,
+    step_type: 'tool_call',
+    tool_name: 'web_search',
+    input: { query: 'news', apiKey: 'sk-live-search-key' },
+    output: { results: [] },
+    error: null,
+  },
+];
+
+const mockMaybeSingle = jest.fn();
+
+// Mock Supabase client
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: jest.fn(() => ({
+    auth: {
+      getSession: jest.fn().mockResolvedValue({
+        data: {
+          session: {
+            user: {
+              id: 'test-user-id',
+            },
+          },
+        },
+      }),
+    },
+    from: jest.fn().mockImplementation((table) => {
+      if (table === 'runs') {
+        return {
+          select: jest.fn().mockReturnThis(),
+          eq: jest.fn().mockReturnThis(),
+          maybeSingle: mockMaybeSingle,
+        };
+      }
+      return {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        order: jest.fn().mockResolvedValue({ data: mockSteps, error: null }),
+      };
+    }),
+  })),
+}));
+
+describe('/api/runs/[id]/cassette endpoint', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the run trace as a cassette with secrets redacted', async () => {
+    mockMaybeSingle.mockResolvedValueOnce({ data: mockRun, error: null });
+
+    const request = new NextRequest('http://localhost:3000/api/runs/run-1/cassette');
+    const response = await GET(request, { params: { id: 'run-1' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="run-run-1.cassette.json"');
+    expect(data).toMatchObject({ version: 1, sourceRunId: 'run-1' });
+    expect(data.entries).toEqual([
+      expect.objectContaining({
+        type: 'model_call',
+        request: { model: 'gpt-4.1', messages: [{ role: 'user', content: 'Search the web' }] },
+        response: expect.objectContaining({ finishReason: 'tool_calls' }),
+      }),
+      {
+        type: 'tool_call',
+        toolName: 'web_search',
+        arguments: { query: 'news', apiKey: '[REDACTED]' },
+        result: { results: [] },
+      },
+    ]);
+  });
+
+  it('should return 404 when the run does not exist', async () => {
+    mockMaybeSingle.mockResolvedValueOnce({ data: null, error: null });
+
+    const request = new NextRequest('http://localhost:3000/api/runs/missing/cassette');
+    const response = await GET(request, { params: { id: 'missing' } });
+
+    expect(response.status).toBe(404);
+  });
+});
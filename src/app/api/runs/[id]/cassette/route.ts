@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { CookieOptions, createServerClient } from '@supabase/ssr';
+import { Database } from '@/lib/types/database.types';
+import { createCassetteFromTrace } from '@/lib/orchestration/cassette';
+
+/**
+ * GET endpoint to download the trace of a run as a replayable cassette
+ *
+ * The cassette replays the run's model calls and tool calls, secrets
+ * redacted, so the run can be reproduced locally as a test fixture.
+ *
+ * Returns the cassette as a JSON file attachment.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const runId = params.id;
+
+    if (!runId) {
+      return NextResponse.json(
+        { error: 'Run ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Get the user session
+    const cookieStore = cookies();
+    const supabase = createServerClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set({ name, value, ...options });
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set({ name, value: '', ...options });
+          },
+        },
+      }
+    );
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get the run
+    const { data: run, error: runError } = await supabase
+      .from('runs')
+      .select('*')
+      .eq('id', runId)
+      .eq('user_id', session.user.id)
+      .maybeSingle();
+
+    if (runError) {
+      console.error('Error fetching run:', runError);
+      return NextResponse.json(
+        { error: 'Failed to fetch run' },
+        { status: 500 }
+      );
+    }
+
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    // Get the step-level trace
+    const { data: steps, error: stepsError } = await supabase
+      .from('run_steps')
+      .select('*')
+      .eq('run_id', runId)
+      .order('step_index', { ascending: true });
+
+    if (stepsError) {
+      console.error('Error fetching run steps:', stepsError);
+      return NextResponse.json(
+        { error: 'Failed to fetch run steps' },
+        { status: 500 }
+      );
+    }
+
+    const cassette = createCassetteFromTrace(run, steps || []);
+
+    return NextResponse.json(cassette, {
+      headers: {
+        'Content-Disposition': `attachment; filename="run-${runId}.cassette.json"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error in run cassette API route:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
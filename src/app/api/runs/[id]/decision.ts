@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { CookieOptions, createServerClient } from '@supabase/ssr';
+import { z } from 'zod';
+import { Database } from '@/lib/types/database.types';
+import { submitApprovalDecision } from '@/lib/orchestration/approval';
+import { ApprovalDecision } from '@/lib/orchestration/types';
+import { getToolRegistry } from '@/lib/tools/registry';
+import { ApiError } from '@/lib/utils/error';
+
+/**
+ * Create the POST handler that records a decision on a tool call a run paused for
+ *
+ * The approve and reject routes share it; they differ only in the action and
+ * the fields their request body may carry besides `toolCallId`.
+ * @param action The decision the route records
+ * @param schema The request body schema; the parsed body becomes the decision
+ * @returns The route handler
+ */
+export function createApprovalDecisionHandler(
+  action: ApprovalDecision['action'],
+  schema: z.ZodType<{ toolCallId?: string }>
+) {
+  return async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+  ) {
+    try {
+      const runId = params.id;
+
+      // Parse and validate the request body
+      const body = await request.json().catch(() => ({}));
+      const validationResult = schema.safeParse(body);
+
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Invalid request',
+            details: validationResult.error.errors
+          },
+          { status: 400 }
+        );
+      }
+
+      // Get the user session
+      const cookieStore = cookies();
+      const supabase = createServerClient<Database>(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+          cookies: {
+            get(name: string) {
+              return cookieStore.get(name)?.value;
+            },
+            set(name: string, value: string, options: CookieOptions) {
+              cookieStore.set({ name, value, ...options });
+            },
+            remove(name: string, options: CookieOptions) {
+              cookieStore.set({ name, value: '', ...options });
+            },
+          },
+        }
+      );
+
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+
+      const userId = session.user.id;
+
+      // The resumed run gets the same tools as a new run
+      const tools = await getToolRegistry().getAllTools(userId);
+
+      const decision = {
+        ...validationResult.data,
+        toolCallId: validationResult.data.toolCallId || '',
+        action,
+      } as ApprovalDecision;
+      // Stop the resumed run if the client goes away
+      const result = await submitApprovalDecision(runId, userId, decision, tools, undefined, request.signal);
+
+      return NextResponse.json(result);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return NextResponse.json(
+          { error: error.message, details: error.details },
+          { status: error.statusCode }
+        );
+      }
+
+      console.error(`Error in run ${action} API route:`, error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  };
+}
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { createApprovalDecisionHandler } from '../decision';
+
+// Define the request schema using Zod
+const RejectRequestSchema = z.object({
+  toolCallId: z.string().min(1).optional(),
+  reason: z.string().max(1000).optional(),
+});
+
+/**
+ * POST /api/runs/[id]/reject
+ *
+ * Reject a tool call that a run paused for. The model is told the call was
+ * rejected (with the reason, if given) and carries on without it once every
+ * pending tool call has been approved or rejected.
+ *
+ * Request body:
+ * - toolCallId: The tool call to reject (optional when only one is pending)
+ * - reason: Optional reason passed on to the model
+ *
+ * Response:
+ * - The orchestration result if the run resumed, or
+ * - { runId, status: 'awaiting_approval', pendingToolCalls } if other tool
+ *   calls still need a decision
+ */
+export const POST = createApprovalDecisionHandler('reject', RejectRequestSchema);
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { CookieOptions, createServerClient } from '@supabase/ssr';
+import { Database } from '@/lib/types/database.types';
+
+/**
+ * GET endpoint to retrieve a single orchestration run with its trace
+ *
+ * Returns:
+ * - run: The run record
+ * - steps: The model calls and tool calls of the run, in order
+ * - children: The runs of the sub-agents the run delegated to, in the order they started;
+ *   each child's own trace is retrieved by its ID
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const runId = params.id;
+
+    if (!runId) {
+      return NextResponse.json(
+        { error: 'Run ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Get the user session
+    const cookieStore = cookies();
+    const supabase = createServerClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set({ name, value, ...options });
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set({ name, value: '', ...options });
+          },
+        },
+      }
+    );
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get the run
+    const { data: run, error: runError } = await supabase
+      .from('runs')
+      .select('*')
+      .eq('id', runId)
+      .eq('user_id', session.user.id)
+      .maybeSingle();
+
+    if (runError) {
+      console.error('Error fetching run:', runError);
+      return NextResponse.json(
+        { error: 'Failed to fetch run' },
+        { status: 500 }
+      );
+    }
+
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    // Get the step-level trace
+    const { data: steps, error: stepsError } = await supabase
+      .from('run_steps')
+      .select('*')
+      .eq('run_id', runId)
+      .order('step_index', { ascending: true });
+
+    if (stepsError) {
+      console.error('Error fetching run steps:', stepsError);
+      return NextResponse.json(
+        { error: 'Failed to fetch run steps' },
+        { status: 500 }
+      );
+    }
+
+    // Get the runs of the sub-agents, whose traces are nested under this one
+    const { data: children, error: childrenError } = await supabase
+      .from('runs')
+      .select('id, instruction, status, stop_reason, model, total_tokens, depth, started_at, completed_at')
+      .eq('parent_run_id', runId)
+      .eq('user_id', session.user.id)
+      .order('started_at', { ascending: true });
+
+    if (childrenError) {
+      console.error('Error fetching sub-agent runs:', childrenError);
+      return NextResponse.json(
+        { error: 'Failed to fetch sub-agent runs' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ run, steps: steps || [], children: children || [] });
+  } catch (error) {
+    console.error('Error in run API route:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
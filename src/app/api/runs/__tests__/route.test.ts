@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+import { createServerClient } from '@supabase/ssr';
+
+// Mock Next.js cookies
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: jest.fn().mockReturnValue({ value: 'mock-cookie-value' }),
+    set: jest.fn(),
+  })),
+}));
+
+const mockRunsQuery = {
+  select: jest.fn().mockReturnThis(),
+  eq: jest.fn().mockReturnThis(),
+  is: jest.fn().mockReturnThis(),
+  order: jest.fn().mockReturnThis(),
+  range: jest.fn().mockResolvedValue({
+    data: [
+      {
+        id: 'run-2',
+        user_id: 'test-user-id',
+        instruction: 'Summarize the news',
+        status: 'completed',
+        stop_reason: 'completed',
+        total_tokens: 150,
+        created_at: '2023-01-02T00:00:00Z',
+      },
+      {
+        id: 'run-1',
+        user_id: 'test-user-id',
+        instruction: 'Search the web',
+        status: 'failed',
+        stop_reason: 'error',
+        total_tokens: 40,
+        created_at: '2023-01-01T00:00:00Z',
+      },
+    ],
+    error: null,
+    count: 12,
+  }),
+};
+
+const mockGetSession = jest.fn();
+
+// Mock Supabase client
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: jest.fn(() => ({
+    auth: {
+      getSession: mockGetSession,
+    },
+    from: jest.fn(() => mockRunsQuery),
+  })),
+}));
+
+describe('/api/runs endpoint', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetSession.mockResolvedValue({
+      data: {
+        session: {
+          user: {
+            id: 'test-user-id',
+          },
+        },
+      },
+    });
+  });
+
+  it('should return a page of runs for the authenticated user', async () => {
+    const request = new NextRequest('http://localhost:3000/api/runs?page=2&limit=5&status=completed');
+
+    const response = await GET(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.runs).toHaveLength(2);
+    expect(data.pagination).toEqual({
+      page: 2,
+      limit: 5,
+      totalCount: 12,
+      totalPages: 3,
+    });
+
+    const client = (createServerClient as jest.Mock).mock.results[0].value;
+    expect(client.from).toHaveBeenCalledWith('runs');
+    expect(mockRunsQuery.eq).toHaveBeenCalledWith('user_id', 'test-user-id');
+    expect(mockRunsQuery.eq).toHaveBeenCalledWith('status', 'completed');
+    // Sub-agent runs are listed with their parent, not on their own
+    expect(mockRunsQuery.is).toHaveBeenCalledWith('parent_run_id', null);
+    expect(mockRunsQuery.range).toHaveBeenCalledWith(5, 9);
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    mockGetSession.mockResolvedValueOnce({ data: { session: null } });
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/runs'));
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { CookieOptions, createServerClient } from '@supabase/ssr';
+import { Database } from '@/lib/types/database.types';
+
+/**
+ * GET endpoint to retrieve the user's orchestration runs
+ *
+ * Only top-level runs are listed; the runs of sub-agents are returned with
+ * the run that delegated to them.
+ *
+ * Query parameters:
+ * - status: Optional run status filter (queued, running, awaiting_approval, completed, failed,
+ *   cancelled)
+ * - page: Optional page number for pagination (default: 1)
+ * - limit: Optional limit for pagination (default: 10, max: 100)
+ *
+ * Returns:
+ * - runs: Array of run records, newest first
+ * - pagination: Pagination information
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get the query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const statusParam = searchParams.get('status');
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '10', 10) || 10, 100);
+    const offset = (page - 1) * limit;
+
+    // Get the user session
+    const cookieStore = cookies();
+    const supabase = createServerClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set({ name, value, ...options });
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set({ name, value: '', ...options });
+          },
+        },
+      }
+    );
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // Build the base query
+    let query = supabase
+      .from('runs')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .is('parent_run_id', null);
+
+    // Apply status filter if provided
+    if (statusParam) {
+      query = query.eq('status', statusParam);
+    }
+
+    // Apply sorting and pagination
+    query = query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    // Execute the query
+    const { data: runs, error, count } = await query;
+
+    if (error) {
+      console.error('Error fetching runs:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch runs' },
+        { status: 500 }
+      );
+    }
+
+    // Format the response
+    const response = {
+      runs: runs || [],
+      pagination: {
+        page,
+        limit,
+        totalCount: count || 0,
+        totalPages: Math.ceil((count || 0) / limit)
+      }
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in runs API route:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
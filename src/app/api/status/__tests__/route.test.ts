@@ -0,0 +1,53 @@
+import { GET } from '../route';
+import { getCircuitBreaker, resetCircuitBreakers } from '@/lib/orchestration/circuitBreaker';
+
+// Mock Next.js cookies
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: jest.fn().mockReturnValue({ value: 'mock-cookie-value' }),
+    set: jest.fn(),
+  })),
+}));
+
+const mockGetSession = jest.fn();
+
+// Mock Supabase client
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: jest.fn(() => ({
+    auth: {
+      getSession: mockGetSession,
+    },
+  })),
+}));
+
+describe('/api/status endpoint', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetCircuitBreakers();
+    mockGetSession.mockResolvedValue({
+      data: { session: { user: { id: 'test-user-id' } } },
+    });
+  });
+
+  it('should return the state of every circuit breaker', async () => {
+    getCircuitBreaker('tool:web_search');
+    for (let i = 0; i < 5; i++) getCircuitBreaker('provider:openai').recordFailure();
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.circuitBreakers).toEqual([
+      expect.objectContaining({ key: 'provider:openai', state: 'open', failures: 5 }),
+      expect.objectContaining({ key: 'tool:web_search', state: 'closed', failures: 0 }),
+    ]);
+  });
+
+  it('should return 401 without a session', async () => {
+    mockGetSession.mockResolvedValueOnce({ data: { session: null } });
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+  });
+});
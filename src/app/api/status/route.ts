@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { CookieOptions, createServerClient } from '@supabase/ssr';
+import { Database } from '@/lib/types/database.types';
+import { getCircuitBreakerStatuses } from '@/lib/orchestration/circuitBreaker';
+import { getClassifierCacheMetrics } from '@/lib/orchestration/classifierCache';
+
+/**
+ * GET endpoint to report the health of model providers and tools
+ *
+ * Circuit breakers and cache counts are kept in memory, so they reflect the
+ * server process that handles the request.
+ *
+ * Returns:
+ * - circuitBreakers: The state of every provider and tool breaker, by key
+ * - classifierCache: The cache hits and misses of every classifier, by name
+ */
+export async function GET() {
+  try {
+    // Get the user session
+    const cookieStore = cookies();
+    const supabase = createServerClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value;
+          },
+          set(name: string, value: string, options: CookieOptions) {
+            cookieStore.set({ name, value, ...options });
+          },
+          remove(name: string, options: CookieOptions) {
+            cookieStore.set({ name, value: '', ...options });
+          },
+        },
+      }
+    );
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      circuitBreakers: getCircuitBreakerStatuses(),
+      classifierCache: getClassifierCacheMetrics(),
+    });
+  } catch (error) {
+    console.error('Error in status API route:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
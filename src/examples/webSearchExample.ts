@@ -11,7 +11,7 @@
  * 3. Execute web searches with different parameters
  */
 
-import { createWebSearchTool, SearchProvider } from '../lib/tools/webSearchTool';
+import { createWebSearchTool, SearchProvider, SearchResults } from '../lib/tools/webSearchTool';
 import { registerTool } from '../lib/tools/registry';
 import { saveToolConfig } from '../lib/toolConfigs';
 import { supabase } from '../lib/supabase';
@@ -99,10 +99,10 @@ async function main() {
     // Example 1: Basic search
     console.log('\nExample 1: Basic search');
     console.log('Searching for "TypeScript best practices"...');
-    const results1 = await webSearchTool.execute({
+    const results1 = (await webSearchTool.execute({
       query: 'TypeScript best practices',
       count: 3,
-    });
+    })) as SearchResults;
 
     console.log(`Found ${results1.results.length} results:`);
     results1.results.forEach((result, index) => {
@@ -117,11 +117,11 @@ async function main() {
 
     // Different parameters based on provider
     if (searchProvider === SearchProvider.BING) {
-      const results2 = await webSearchTool.execute({
+      const results2 = (await webSearchTool.execute({
         query: 'latest AI news',
         count: 3,
         freshness: 'Week',
-      });
+      })) as SearchResults;
 
       console.log(`Found ${results2.results.length} results:`);
       results2.results.forEach((result, index) => {
@@ -131,11 +131,11 @@ async function main() {
       });
     } else if (searchProvider === SearchProvider.GOOGLE) {
       // Google uses dateRestrict parameter which is handled internally
-      const results2 = await webSearchTool.execute({
+      const results2 = (await webSearchTool.execute({
         query: 'latest AI news',
         count: 3,
         freshness: 'Week', // Will be converted to appropriate Google format
-      });
+      })) as SearchResults;
 
       console.log(`Found ${results2.results.length} results:`);
       results2.results.forEach((result, index) => {
@@ -150,11 +150,11 @@ async function main() {
 
     if (searchProvider === SearchProvider.BING) {
       console.log('Searching for "local restaurants" in en-US market...');
-      const results3 = await webSearchTool.execute({
+      const results3 = (await webSearchTool.execute({
         query: 'local restaurants',
         count: 3,
         market: 'en-US',
-      });
+      })) as SearchResults;
 
       console.log(`Found ${results3.results.length} results:`);
       results3.results.forEach((result, index) => {
@@ -165,11 +165,11 @@ async function main() {
     } else if (searchProvider === SearchProvider.GOOGLE) {
       console.log('Searching for "local restaurants" with US geolocation...');
       // For Google, we use the gl parameter which is handled internally
-      const results3 = await webSearchTool.execute({
+      const results3 = (await webSearchTool.execute({
         query: 'local restaurants',
         count: 3,
         market: 'en-US', // Will extract 'US' as the gl parameter
-      });
+      })) as SearchResults;
 
       console.log(`Found ${results3.results.length} results:`);
       results3.results.forEach((result, index) => {
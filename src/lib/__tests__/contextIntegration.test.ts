@@ -5,6 +5,7 @@ import { Message } from '../orchestration/types';
 // Mock the getRecentMessages function
 jest.mock('../memories', () => ({
   getRecentMessages: jest.fn(),
+  getMessagesBetween: jest.fn().mockResolvedValue({ data: [], error: null }),
 }));
 
 describe('Context Integration', () => {
@@ -58,7 +59,7 @@ describe('Context Integration', () => {
       const result = await combineMemoryWithInstruction(userId, newInstruction);
 
       // Check that getRecentMessages was called with the correct parameters
-      expect(getRecentMessages).toHaveBeenCalledWith(userId, 5);
+      expect(getRecentMessages).toHaveBeenCalledWith(userId, 5, undefined);
 
       // Check the result
       expect(result).toHaveLength(5); // 4 memory messages + 1 new instruction
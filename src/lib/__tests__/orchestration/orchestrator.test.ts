@@ -1,6 +1,11 @@
+import { z } from 'zod';
 import { orchestrate } from '../../orchestration/orchestrator';
-import { Tool, OrchestrationRequest } from '../../orchestration/types';
+import { Tool, OrchestrationRequest, OrchestrationEvent } from '../../orchestration/types';
 import { withRetry } from '../../orchestration/retry';
+import { BudgetTimeoutError } from '../../orchestration/budget';
+import { getCircuitBreaker, resetCircuitBreakers } from '../../orchestration/circuitBreaker';
+import { RunRecorder } from '../../orchestration/runStore';
+import * as tokenUsage from '../../billing/tokenUsage';
 
 // Mock fetch
 global.fetch = jest.fn();
@@ -46,6 +51,7 @@ describe('Orchestrator', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (global.fetch as jest.Mock).mockReset();
+    resetCircuitBreakers();
   });
 
   it('should call the GPT-4.1 API with the correct parameters', async () => {
@@ -154,7 +160,7 @@ describe('Orchestrator', () => {
 
     // Check that the tool was executed
     expect(mockTools[0].execute).toHaveBeenCalledTimes(1);
-    expect(mockTools[0].execute).toHaveBeenCalledWith({ param1: 'test value' });
+    expect(mockTools[0].execute).toHaveBeenCalledWith({ param1: 'test value' }, { signal: expect.any(AbortSignal) });
 
     // Check that fetch was called twice (initial request + follow-up after tool call)
     expect(global.fetch).toHaveBeenCalledTimes(2);
@@ -241,4 +247,737 @@ describe('Orchestrator', () => {
       ],
     });
   });
+
+  it('should stream progress events when a listener is provided', async () => {
+    const encoder = new TextEncoder();
+    const streamBody = (chunks: string[]) =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+          controller.close();
+        },
+      });
+
+    // First call streams a tool call, second call streams the final answer
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        body: streamBody([
+          'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_789","function":{"name":"test_tool","arguments":"{\\"param1\\":\\"x\\"}"}}]}}]}\n\n',
+          'data: {"choices":[],"usage":{"prompt_tokens":10,"completion_tokens":5,"total_tokens":15}}\n\n',
+          'data: [DONE]\n\n',
+        ]),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        body: streamBody([
+          'data: {"choices":[{"delta":{"content":"All "}}]}\n\n',
+          'data: {"choices":[{"delta":{"content":"done"}}]}\n\n',
+          'data: [DONE]\n\n',
+        ]),
+      });
+
+    const events: OrchestrationEvent[] = [];
+    const result = await orchestrate({
+      instruction: 'Test streaming',
+      context: { userId: 'test-user' },
+      tools: mockTools,
+      onEvent: (event) => events.push(event),
+    });
+
+    // Check that streaming was requested from the API
+    expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)).toMatchObject({
+      stream: true,
+    });
+
+    expect(events.map((event) => event.type)).toEqual([
+      'run_started',
+      'usage',
+      'tool_call',
+      'tool_result',
+      'token',
+      'token',
+      'done',
+    ]);
+    expect(events[0]).toEqual({ type: 'run_started', runId: result.runId });
+    expect(events[1]).toMatchObject({ iteration: 1, usage: { totalTokens: 15 } });
+    expect(events[2]).toEqual({
+      type: 'tool_call',
+      toolCall: { id: 'call_789', name: 'test_tool', arguments: { param1: 'x' } },
+    });
+    expect(events[6]).toEqual({ type: 'done', result });
+    expect(result.response).toBe('All done');
+  });
+
+  it('should stop with step_limit when the model keeps calling tools', async () => {
+    // Every API call asks for another tool call
+    (global.fetch as jest.Mock).mockImplementation(async () => ({
+      ok: true,
+      json: async () => ({
+        choices: [
+          {
+            message: {
+              role: 'assistant',
+              content: '',
+              tool_calls: [
+                {
+                  id: 'call_loop',
+                  type: 'function',
+                  function: {
+                    name: 'test_tool',
+                    arguments: JSON.stringify({ param1: 'again' }),
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      }),
+    }));
+
+    const result = await orchestrate({
+      instruction: 'Loop forever',
+      context: { userId: 'test-user' },
+      tools: mockTools,
+      maxSteps: 3,
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect(result.stopReason).toBe('step_limit');
+    expect(result.toolCalls).toHaveLength(3);
+    expect(result.response).toContain('maximum number of steps');
+  });
+
+  it('should stop with token_limit when the token budget is used up', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async () => ({
+      ok: true,
+      json: async () => ({
+        choices: [
+          {
+            message: {
+              role: 'assistant',
+              content: 'Working on it',
+              tool_calls: [
+                {
+                  id: 'call_tokens',
+                  type: 'function',
+                  function: {
+                    name: 'test_tool',
+                    arguments: JSON.stringify({ param1: 'x' }),
+                  },
+                },
+              ],
+            },
+          },
+        ],
+        usage: { prompt_tokens: 80, completion_tokens: 20, total_tokens: 100 },
+      }),
+    }));
+
+    const result = await orchestrate({
+      instruction: 'Spend tokens',
+      context: { userId: 'test-user' },
+      tools: mockTools,
+      maxTotalTokens: 150,
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(result.stopReason).toBe('token_limit');
+    expect(result.response.startsWith('Working on it\n\n')).toBe(true);
+    expect(result.response).toContain('token budget');
+  });
+
+  it('should report completed when the model finishes on its own', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { role: 'assistant', content: 'Done' } }],
+      }),
+    });
+
+    const result = await orchestrate({
+      instruction: 'Quick task',
+      context: { userId: 'test-user' },
+      tools: mockTools,
+    });
+
+    expect(result.stopReason).toBe('completed');
+    expect(result.runId).toEqual(expect.any(String));
+  });
+
+  describe('approval', () => {
+    const sendEmail = jest.fn().mockResolvedValue({ sent: true });
+    const approvalTools: Tool[] = [
+      ...mockTools,
+      {
+        name: 'send_email',
+        description: 'Send an email',
+        parameters: {
+          to: { type: 'string', description: 'The recipient' },
+        },
+        execute: sendEmail,
+        requiresApproval: true,
+      },
+    ];
+
+    it('should pause before running a tool that requires approval', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          choices: [
+            {
+              message: {
+                role: 'assistant',
+                content: 'I will send the email',
+                tool_calls: [
+                  {
+                    id: 'call_email',
+                    type: 'function',
+                    function: { name: 'send_email', arguments: JSON.stringify({ to: 'a@example.com' }) },
+                  },
+                  {
+                    id: 'call_test',
+                    type: 'function',
+                    function: { name: 'test_tool', arguments: JSON.stringify({ param1: 'x' }) },
+                  },
+                ],
+              },
+            },
+          ],
+        }),
+      });
+
+      const finish = jest.spyOn(RunRecorder.prototype, 'finish');
+
+      const result = await orchestrate({
+        instruction: 'Email Alice',
+        context: { userId: 'test-user' },
+        tools: approvalTools,
+        retryBudget: 5,
+        maxToolConcurrency: 2,
+        toolTimeoutMs: 5000,
+      });
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(sendEmail).not.toHaveBeenCalled();
+      expect(mockTools[0].execute).toHaveBeenCalledWith({ param1: 'x' }, { signal: expect.any(AbortSignal) });
+      expect(result.stopReason).toBe('awaiting_approval');
+      expect(result.pendingToolCalls).toEqual([
+        { id: 'call_email', name: 'send_email', arguments: { to: 'a@example.com' } },
+      ]);
+      expect(result.response).toBe(
+        'I will send the email\n\nWaiting for your approval before running this tool: send_email.'
+      );
+
+      // The run's options are saved so the resumed run keeps them
+      expect(finish.mock.calls[0][1]?.options).toEqual(
+        expect.objectContaining({ retryBudget: 5, maxToolConcurrency: 2, toolTimeoutMs: 5000 })
+      );
+      finish.mockRestore();
+    });
+
+    it('should resume from a checkpoint with edited arguments', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { role: 'assistant', content: 'Email sent' } }],
+        }),
+      });
+
+      const pendingCall = { id: 'call_email', name: 'send_email', arguments: { to: 'a@example.com' } };
+      const result = await orchestrate({
+        instruction: 'Email Alice',
+        context: { userId: 'test-user' },
+        tools: approvalTools,
+        resumeFrom: {
+          runId: 'run-1',
+          checkpoint: {
+            messages: [
+              { role: 'system', content: 'System' },
+              { role: 'user', content: 'Email Alice' },
+              { role: 'assistant', content: '', toolCalls: [pendingCall] },
+            ],
+            pendingToolCalls: [pendingCall],
+            toolResults: [],
+            budget: { maxSteps: 5 },
+            stepsUsed: 1,
+            usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+            traceSteps: 1,
+          },
+          decisions: [
+            { toolCallId: 'call_email', action: 'approve', arguments: { to: 'alice@example.com' } },
+          ],
+        },
+      });
+
+      expect(sendEmail).toHaveBeenCalledWith({ to: 'alice@example.com' }, { signal: expect.any(AbortSignal) });
+      expect(result.stopReason).toBe('completed');
+      expect(result.response).toBe('Email sent');
+      expect(result.runId).toBe('run-1');
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.messages[2].tool_calls[0].function.arguments).toBe(
+        JSON.stringify({ to: 'alice@example.com' })
+      );
+      expect(body.messages[3]).toMatchObject({ role: 'tool', tool_call_id: 'call_email' });
+    });
+
+    it('should tell the model when the user rejects a tool call', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { role: 'assistant', content: 'Understood, not sending' } }],
+        }),
+      });
+
+      const pendingCall = { id: 'call_email', name: 'send_email', arguments: { to: 'a@example.com' } };
+      const result = await orchestrate({
+        instruction: 'Email Alice',
+        context: { userId: 'test-user' },
+        tools: approvalTools,
+        resumeFrom: {
+          runId: 'run-1',
+          checkpoint: {
+            messages: [{ role: 'assistant', content: '', toolCalls: [pendingCall] }],
+            pendingToolCalls: [pendingCall],
+            toolResults: [],
+            budget: {},
+            stepsUsed: 1,
+            usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+            traceSteps: 1,
+          },
+          decisions: [{ toolCallId: 'call_email', action: 'reject', reason: 'Wrong recipient' }],
+        },
+      });
+
+      expect(sendEmail).not.toHaveBeenCalled();
+      expect(result.toolCalls[0].error?.message).toContain('Wrong recipient');
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.messages[1].content).toContain('The user rejected this tool call: Wrong recipient');
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should not call the model when the request is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await orchestrate({
+        instruction: 'Test instruction',
+        context: { userId: 'test-user' },
+        tools: mockTools,
+        signal: controller.signal,
+      });
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(result.stopReason).toBe('cancelled');
+      expect(result.response).toContain('The task was cancelled before it finished.');
+      expect(result.errors).toBeUndefined();
+    });
+
+    it('should stop a tool that is still running when the run is cancelled', async () => {
+      const controller = new AbortController();
+      const slowTool: Tool = {
+        name: 'slow_tool',
+        description: 'A tool that never finishes',
+        parameters: {},
+        execute: jest.fn((_args, options) => {
+          expect(options?.signal?.aborted).toBe(false);
+          controller.abort();
+          return new Promise(() => {});
+        }),
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          choices: [
+            {
+              message: {
+                role: 'assistant',
+                content: 'Working on it',
+                tool_calls: [
+                  { id: 'call_slow', type: 'function', function: { name: 'slow_tool', arguments: '{}' } },
+                ],
+              },
+            },
+          ],
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        }),
+      });
+
+      const result = await orchestrate({
+        instruction: 'Run the slow tool',
+        context: { userId: 'test-user' },
+        tools: [slowTool],
+        signal: controller.signal,
+      });
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(result.stopReason).toBe('cancelled');
+      expect(result.response).toBe('The task was cancelled before it finished. No tools were called.');
+    });
+
+    it('should stop a tool that is still running when the time budget runs out', async () => {
+      let toolSignal: AbortSignal | undefined;
+      const slowTool: Tool = {
+        name: 'slow_tool',
+        description: 'A tool that never finishes',
+        parameters: {},
+        execute: jest.fn((_args, options) => {
+          toolSignal = options?.signal;
+          return new Promise(() => {});
+        }),
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          choices: [
+            {
+              message: {
+                role: 'assistant',
+                content: '',
+                tool_calls: [
+                  { id: 'call_slow', type: 'function', function: { name: 'slow_tool', arguments: '{}' } },
+                ],
+              },
+            },
+          ],
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        }),
+      });
+
+      const result = await orchestrate({
+        instruction: 'Run the slow tool',
+        context: { userId: 'test-user' },
+        tools: [slowTool],
+        maxWallClockMs: 50,
+      });
+
+      expect(result.stopReason).toBe('timeout');
+      expect(toolSignal?.aborted).toBe(true);
+      expect(toolSignal?.reason).toBeInstanceOf(BudgetTimeoutError);
+    });
+  });
+
+  describe('planner mode', () => {
+    it('should execute the plan before asking the model for the answer', async () => {
+      const plan = {
+        steps: [{ id: 'first', tool: 'test_tool', arguments: { param1: 'planned' }, dependsOn: [] }],
+      };
+
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            choices: [
+              {
+                message: {
+                  role: 'assistant',
+                  content: null,
+                  tool_calls: [
+                    {
+                      id: 'call_plan',
+                      type: 'function',
+                      function: { name: 'submit_plan', arguments: JSON.stringify(plan) },
+                    },
+                  ],
+                },
+              },
+            ],
+            usage: { prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 },
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            choices: [{ message: { role: 'assistant', content: 'Plan finished' } }],
+          }),
+        });
+
+      const result = await orchestrate({
+        instruction: 'Do the planned thing',
+        context: { userId: 'test-user' },
+        tools: mockTools,
+        planner: true,
+      });
+
+      expect(mockTools[0].execute).toHaveBeenCalledWith({ param1: 'planned' }, { signal: expect.any(AbortSignal) });
+      expect(result.response).toBe('Plan finished');
+      expect(result.plan).toMatchObject({
+        plan,
+        status: 'completed',
+        replans: 0,
+        steps: [{ stepId: 'first', tool: 'test_tool', status: 'completed', result: { success: true } }],
+      });
+
+      const plannerBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(plannerBody.tool_choice).toEqual({ type: 'function', function: { name: 'submit_plan' } });
+
+      const answerBody = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+      expect(answerBody.messages.slice(-2)).toMatchObject([
+        { role: 'assistant', tool_calls: [{ id: 'plan_0_first' }] },
+        { role: 'tool', tool_call_id: 'plan_0_first' },
+      ]);
+    });
+  });
+
+  describe('routing', () => {
+    it('should run the instruction on the routed model tier and tool subset', async () => {
+      const reply = (content: string) => ({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { role: 'assistant', content } }],
+          usage: { prompt_tokens: 10, completion_tokens: 1, total_tokens: 11 },
+        }),
+      });
+
+      // The classifiers answer by prompt, since they run in parallel
+      (global.fetch as jest.Mock).mockImplementation(async (_url: string, options: { body: string }) => {
+        const body = JSON.parse(options.body);
+        const prompt = body.messages[0].content as string;
+        if (prompt.startsWith('Classify how demanding')) return reply('simple');
+        if (prompt.startsWith('Classify the domain')) return reply('general');
+        return reply('Paris');
+      });
+
+      const result = await orchestrate(
+        {
+          instruction: 'What is the capital of France?',
+          context: { userId: 'test-user' },
+          tools: mockTools,
+          routing: true,
+        },
+        { apiKey: 'test-key', model: 'gpt-4.1' }
+      );
+
+      expect(result.response).toBe('Paris');
+      expect(result.route).toMatchObject({
+        rule: 'simple-general',
+        tier: 'fast',
+        model: 'gpt-4.1-mini',
+        tools: [],
+        availableToolCount: 2,
+        usage: { totalTokens: 22 },
+      });
+
+      const answerBody = JSON.parse((global.fetch as jest.Mock).mock.calls[2][1].body);
+      expect(answerBody.model).toBe('gpt-4.1-mini');
+      expect(answerBody.tools).toBeUndefined();
+    });
+  });
+
+  describe('structured output', () => {
+    const reply = (content: string) => ({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { role: 'assistant', content } }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      }),
+    });
+
+    const weatherSchema = z.object({ city: z.string(), temperature: z.number() });
+
+    it('should return the answer as a typed object matching the schema', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(reply('It is 21 degrees in Paris.'))
+        .mockResolvedValueOnce(reply('{"city":"Paris","temperature":21}'));
+
+      const result = await orchestrate({
+        instruction: 'What is the weather in Paris?',
+        context: { userId: 'test-user' },
+        tools: mockTools,
+        outputSchema: weatherSchema,
+      });
+
+      const temperature: number | undefined = result.output?.temperature;
+      expect(temperature).toBe(21);
+      expect(result.output).toEqual({ city: 'Paris', temperature: 21 });
+      expect(result.response).toBe('{"city":"Paris","temperature":21}');
+      expect(result.stopReason).toBe('completed');
+
+      const outputBody = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+      expect(outputBody.response_format).toEqual({ type: 'json_object' });
+      expect(outputBody.tools).toBeUndefined();
+    });
+
+    it('should stop with invalid_output when the answer never matches', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(reply('It is 21 degrees in Paris.'))
+        .mockResolvedValueOnce(reply('{"city":"Paris"}'));
+
+      const result = await orchestrate({
+        instruction: 'What is the weather in Paris?',
+        context: { userId: 'test-user' },
+        tools: mockTools,
+        outputSchema: weatherSchema,
+        maxOutputRetries: 0,
+      });
+
+      expect(result.stopReason).toBe('invalid_output');
+      expect(result.output).toBeUndefined();
+      expect(result.response).toBe('It is 21 degrees in Paris.');
+      expect(result.errors?.[0].message).toBe(
+        'The answer did not match the output schema: $.temperature: Required'
+      );
+    });
+  });
+
+  describe('circuit breakers', () => {
+    const reply = {
+      ok: true,
+      json: async () => ({ choices: [{ message: { role: 'assistant', content: 'Done' } }] }),
+    };
+
+    const openBreaker = (key: string) => {
+      const breaker = getCircuitBreaker(key);
+      for (let i = 0; i < 5; i++) {
+        breaker.recordFailure();
+      }
+    };
+
+    it('should hide tools whose circuit breaker is open', async () => {
+      openBreaker('tool:failing_tool');
+      (global.fetch as jest.Mock).mockResolvedValueOnce(reply);
+
+      await orchestrate({
+        instruction: 'Test instruction',
+        context: { userId: 'test-user' },
+        tools: mockTools,
+      });
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.tools.map((tool: { function: { name: string } }) => tool.function.name)).toEqual(['test_tool']);
+      expect(body.messages[0].content).not.toContain('failing_tool');
+    });
+
+    it('should switch to a fallback model while the provider breaker is open', async () => {
+      openBreaker('provider:openai');
+      (global.fetch as jest.Mock).mockResolvedValueOnce(reply);
+
+      const result = await orchestrate(
+        {
+          instruction: 'Test instruction',
+          context: { userId: 'test-user' },
+          tools: mockTools,
+        },
+        {
+          apiKey: 'test-key',
+          model: 'gpt-4.1',
+          fallbackModels: [{ provider: 'openai-compatible', model: 'llama3', endpoint: 'http://localhost:8000/v1/chat/completions' }],
+        }
+      );
+
+      expect(result.response).toBe('Done');
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toBe('http://localhost:8000/v1/chat/completions');
+      expect(JSON.parse(options.body).model).toBe('llama3');
+    });
+  });
+
+  describe('model fallback chain', () => {
+    const config = {
+      apiKey: 'test-key',
+      model: 'gpt-4.1',
+      fallbackModels: [
+        { provider: 'openai-compatible', model: 'llama3', endpoint: 'http://localhost:8000/v1/chat/completions' },
+        { model: 'gpt-4.1-mini' },
+      ],
+    };
+
+    const failure = {
+      ok: false,
+      status: 503,
+      text: async () => 'Service unavailable',
+      headers: { get: () => null },
+    };
+
+    it('should answer with the next model and bill the model that answered', async () => {
+      const logUsage = jest.spyOn(tokenUsage, 'logUsageAndUpdateCost').mockResolvedValue({ success: true });
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(failure)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            choices: [{ message: { role: 'assistant', content: 'Answered by llama' } }],
+            usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+          }),
+        });
+
+      const result = await orchestrate(
+        { instruction: 'Test instruction', context: { userId: 'test-user' }, tools: mockTools },
+        config
+      );
+
+      expect(result.response).toBe('Answered by llama');
+      expect(result.stopReason).toBe('completed');
+      expect(JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body).model).toBe('llama3');
+      expect(logUsage).toHaveBeenCalledWith('test-user', 'llama3', expect.objectContaining({ totalTokens: 15 }));
+      logUsage.mockRestore();
+    });
+
+    it('should move on when a model does not answer within its timeout', async () => {
+      (global.fetch as jest.Mock)
+        .mockImplementationOnce(() => new Promise(() => {}))
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ choices: [{ message: { role: 'assistant', content: 'Answered in time' } }] }),
+        });
+
+      const result = await orchestrate(
+        { instruction: 'Test instruction', context: { userId: 'test-user' }, tools: mockTools },
+        { ...config, timeoutMs: 20 }
+      );
+
+      expect(result.response).toBe('Answered in time');
+      expect((global.fetch as jest.Mock).mock.calls[0][1].signal.aborted).toBe(true);
+    });
+
+    it('should report the error instead of an apology when every model fails', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(failure);
+
+      const result = await orchestrate(
+        { instruction: 'Test instruction', context: { userId: 'test-user' }, tools: mockTools },
+        config
+      );
+
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect(result.stopReason).toBe('error');
+      expect(result.response).not.toContain('apologize');
+      expect(result.errors?.[0].message).toContain('503');
+    });
+  });
+
+  describe('context window', () => {
+    it('should leave out old memory that does not fit the model', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { role: 'assistant', content: 'Done' } }] }),
+      });
+      const longMessage = Array.from({ length: 2500 }, (_, index) => `word${index}`).join(' ');
+
+      await orchestrate(
+        {
+          instruction: 'Test instruction',
+          context: {
+            userId: 'test-user',
+            memory: [
+              { role: 'user', content: longMessage },
+              { role: 'assistant', content: 'Noted' },
+            ],
+          },
+          tools: mockTools,
+        },
+        { apiKey: 'test-key', model: 'gpt-4', maxTokens: 4000 }
+      );
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      // gpt-4 leaves 4192 tokens for the prompt, and the long message alone needs about 5000
+      expect(body.messages.map((message: { role: string }) => message.role)).toEqual(['system', 'assistant', 'user']);
+      expect(body.messages.at(-2).content).toBe('Noted');
+      expect(body.messages.at(-1).content).toBe('Test instruction');
+    });
+  });
 });
@@ -0,0 +1,167 @@
+import { supabase } from './supabase';
+
+/**
+ * Interface representing a conversation thread in the conversations table
+ */
+export interface Conversation {
+  id: string;
+  user_id: string;
+  title: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Creates a conversation thread for a user
+ * @param userId The user ID to create the conversation for
+ * @param title The title of the conversation (optional; generated from the first task when omitted)
+ * @returns The created conversation or an error
+ */
+export async function createConversation(userId: string, title?: string) {
+  try {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .insert({
+        user_id: userId,
+        title: title ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return { data: data as Conversation, error: null };
+  } catch (error) {
+    console.error('Error creating conversation:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Fetches a user's conversations, most recently active first
+ * @param userId The user ID to fetch conversations for
+ * @param limit The maximum number of conversations to fetch (default: 20)
+ * @param offset The number of conversations to skip (default: 0)
+ * @returns The fetched conversations with their total count, or an error
+ */
+export async function listConversations(userId: string, limit: number = 20, offset: number = 0) {
+  try {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const { data, error, count } = await supabase
+      .from('conversations')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    return { data: (data || []) as Conversation[], count: count || 0, error: null };
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    return { data: null, count: 0, error };
+  }
+}
+
+/**
+ * Fetches one of a user's conversations
+ * @param userId The user ID the conversation must belong to
+ * @param conversationId The conversation ID
+ * @returns The conversation, null if the user has no such conversation, or an error
+ */
+export async function getConversation(userId: string, conversationId: string) {
+  try {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('*')
+      .eq('id', conversationId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return { data: data as Conversation | null, error: null };
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Renames one of a user's conversations
+ * @param userId The user ID the conversation must belong to
+ * @param conversationId The conversation ID
+ * @param title The new title
+ * @returns The updated conversation, null if the user has no such conversation, or an error
+ */
+export async function updateConversationTitle(userId: string, conversationId: string, title: string) {
+  try {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .update({ title })
+      .eq('id', conversationId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return { data: data as Conversation | null, error: null };
+  } catch (error) {
+    console.error('Error updating conversation:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Deletes one of a user's conversations together with its messages and summary
+ * @param userId The user ID the conversation must belong to
+ * @param conversationId The conversation ID
+ * @returns Whether a conversation was deleted, or an error
+ */
+export async function deleteConversation(userId: string, conversationId: string) {
+  try {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .delete()
+      .eq('id', conversationId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    return { deleted: (data || []).length > 0, error: null };
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    return { deleted: false, error };
+  }
+}
@@ -24,7 +24,8 @@ export async function classifySentiment(text: string): Promise<string> {
     // Log token usage for billing purposes
     console.log('Token usage:', result.usage);
     
-    return result.label;
+    // Default to Neutral if the classifier is unsure
+    return result.abstained ? 'Neutral' : result.label;
   } catch (error) {
     console.error('Sentiment classification error:', error);
     // Default to Neutral if classification fails
@@ -60,7 +61,8 @@ export async function classifyUrgency(text: string): Promise<'Urgent' | 'Normal'
     // Log token usage for billing purposes
     console.log('Token usage:', result.usage);
     
-    return result.label;
+    // Default to Normal if the classifier is unsure
+    return result.abstained ? 'Normal' : result.label;
   } catch (error) {
     console.error('Urgency classification error:', error);
     // Default to Normal if classification fails
@@ -99,7 +101,8 @@ export async function categorizeMessage(text: string): Promise<string> {
     // Log token usage for billing purposes
     console.log('Token usage:', result.usage);
     
-    return result.label;
+    // Default to Other if the classifier is unsure
+    return result.abstained ? 'Other' : result.label;
   } catch (error) {
     console.error('Message categorization error:', error);
     // Default to Other if classification fails
@@ -8,6 +8,7 @@ export interface ChatMessage {
   user_id: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
+  conversation_id?: string | null;
   created_at?: string;
 }
 
@@ -35,6 +36,7 @@ export async function saveMessage(message: Omit<ChatMessage, 'id' | 'created_at'
         user_id: message.user_id,
         role: message.role,
         content: message.content,
+        conversation_id: message.conversation_id ?? null,
         // created_at will be set automatically by Supabase
       })
       .select()
@@ -55,19 +57,26 @@ export async function saveMessage(message: Omit<ChatMessage, 'id' | 'created_at'
  * Fetches the last N messages for a specific user
  * @param userId The user ID to fetch messages for
  * @param limit The maximum number of messages to fetch (default: 10)
+ * @param conversationId Only fetch messages from this conversation (optional)
  * @returns The fetched messages or an error
  */
-export async function getRecentMessages(userId: string, limit: number = 10) {
+export async function getRecentMessages(userId: string, limit: number = 10, conversationId?: string) {
   try {
     if (!userId) {
       throw new Error('User ID is required');
     }
 
-    // Fetch the most recent messages for the user, ordered by creation time
-    const { data, error } = await supabase
+    let query = supabase
       .from('chat_history')
       .select('*')
-      .eq('user_id', userId)
+      .eq('user_id', userId);
+
+    if (conversationId) {
+      query = query.eq('conversation_id', conversationId);
+    }
+
+    // Fetch the most recent messages for the user, ordered by creation time
+    const { data, error } = await query
       .order('created_at', { ascending: false })
       .limit(limit);
 
@@ -83,6 +92,57 @@ export async function getRecentMessages(userId: string, limit: number = 10) {
   }
 }
 
+/**
+ * Fetches a user's messages created within a time range, oldest first
+ * @param userId The user ID to fetch messages for
+ * @param after Only messages created after this time (optional)
+ * @param before Only messages created before this time (optional)
+ * @param limit The maximum number of messages to fetch (default: 50)
+ * @param conversationId Only fetch messages from this conversation (default: only messages
+ *   outside any conversation)
+ * @returns The fetched messages or an error
+ */
+export async function getMessagesBetween(
+  userId: string,
+  after?: string,
+  before?: string,
+  limit: number = 50,
+  conversationId?: string
+) {
+  try {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    let query = supabase
+      .from('chat_history')
+      .select('*')
+      .eq('user_id', userId);
+
+    // Each conversation has its own summary, and so do the messages outside any conversation
+    query = conversationId ? query.eq('conversation_id', conversationId) : query.is('conversation_id', null);
+    if (after) {
+      query = query.gt('created_at', after);
+    }
+    if (before) {
+      query = query.lt('created_at', before);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    console.error('Error fetching messages:', error);
+    return { data: null, error };
+  }
+}
+
 /**
  * Deletes all messages for a specific user
  * @param userId The user ID to delete messages for
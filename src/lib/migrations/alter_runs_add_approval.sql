@@ -0,0 +1,11 @@
+-- Add approval state to runs so a run can pause for human approval and resume
+-- status 'awaiting_approval' means the run is paused:
+--   pending_tool_calls lists the tool calls waiting for a decision
+--   approval_decisions holds the decisions made so far
+--   checkpoint holds the saved message list and budget usage to resume from
+ALTER TABLE public.runs ADD COLUMN IF NOT EXISTS pending_tool_calls JSONB;
+ALTER TABLE public.runs ADD COLUMN IF NOT EXISTS approval_decisions JSONB;
+ALTER TABLE public.runs ADD COLUMN IF NOT EXISTS checkpoint JSONB;
+
+-- Create index to find paused runs quickly
+CREATE INDEX IF NOT EXISTS runs_status_idx ON public.runs(status);
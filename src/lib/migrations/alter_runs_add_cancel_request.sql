@@ -0,0 +1,4 @@
+-- Let a run be cancelled from a process other than the one running it
+-- cancel_requested_at is set when cancellation of a running run is requested;
+-- the process running it checks between steps and stops the run
+ALTER TABLE public.runs ADD COLUMN IF NOT EXISTS cancel_requested_at TIMESTAMPTZ;
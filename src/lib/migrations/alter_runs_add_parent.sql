@@ -0,0 +1,9 @@
+-- Nest the runs of sub-agents under the run that delegated to them
+-- parent_run_id is the run whose tool call started the sub-agent (NULL for a top-level run);
+-- it is not a foreign key because the parent's row may still be on its way to the database
+-- depth is 0 for a top-level run, 1 for its sub-agents, and so on
+ALTER TABLE public.runs ADD COLUMN IF NOT EXISTS parent_run_id UUID;
+ALTER TABLE public.runs ADD COLUMN IF NOT EXISTS depth INTEGER NOT NULL DEFAULT 0;
+
+-- Create index to find the sub-agent runs of a run quickly
+CREATE INDEX IF NOT EXISTS runs_parent_run_id_idx ON public.runs(parent_run_id);
@@ -0,0 +1,23 @@
+-- Create classification_cache table for nano classifier results
+-- key is a SHA-256 hash of everything that decides a classification (the
+-- classifier, model, prompt, labels, examples, options and text); expired
+-- rows are ignored and overwritten, and can be deleted with
+-- DELETE FROM public.classification_cache WHERE expires_at < NOW()
+CREATE TABLE IF NOT EXISTS public.classification_cache (
+  key TEXT PRIMARY KEY,
+  classifier TEXT NOT NULL,
+  result JSONB NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add RLS policies to classification_cache table
+ALTER TABLE public.classification_cache ENABLE ROW LEVEL SECURITY;
+
+-- Policy to allow service role to manage the cache; results are not per user
+CREATE POLICY "Service role can manage the classification cache"
+  ON public.classification_cache
+  USING (auth.role() = 'service_role');
+
+-- Create index to delete expired results
+CREATE INDEX IF NOT EXISTS classification_cache_expires_at_idx ON public.classification_cache(expires_at);
@@ -0,0 +1,28 @@
+-- Create conversation_summaries table for the rolling summary of each user's chat history
+-- The summary condenses every message up to summarized_through; newer
+-- messages are sent verbatim until they no longer fit the prompt and are
+-- folded into the summary
+CREATE TABLE IF NOT EXISTS public.conversation_summaries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  summary TEXT NOT NULL,
+  summarized_through TIMESTAMP WITH TIME ZONE NOT NULL,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  model TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add RLS policies to conversation_summaries table
+ALTER TABLE public.conversation_summaries ENABLE ROW LEVEL SECURITY;
+
+-- Policy to allow users to view only their own summary
+CREATE POLICY "Users can view their own conversation summary"
+  ON public.conversation_summaries
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Policy to allow service role to manage all summaries
+CREATE POLICY "Service role can manage all conversation summaries"
+  ON public.conversation_summaries
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,62 @@
+-- Create conversations table so each user can keep several independent threads
+-- title is NULL until it is generated from the first task of the thread
+CREATE TABLE IF NOT EXISTS public.conversations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add RLS policies to conversations table
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+
+-- Policy to allow users to manage only their own conversations
+CREATE POLICY "Users can manage their own conversations"
+  ON public.conversations
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policy to allow service role to manage all conversations
+CREATE POLICY "Service role can manage all conversations"
+  ON public.conversations
+  USING (auth.role() = 'service_role');
+
+-- Create index to list a user's threads by recent activity
+CREATE INDEX IF NOT EXISTS conversations_user_id_updated_at_idx ON public.conversations(user_id, updated_at DESC);
+
+-- Messages belong to a thread; messages saved before threads existed have no conversation
+ALTER TABLE public.chat_history
+  ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS chat_history_conversation_id_idx ON public.chat_history(conversation_id, created_at);
+
+-- Move a thread to the top of the list when a message is added to it
+CREATE OR REPLACE FUNCTION public.touch_conversation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.conversations
+  SET updated_at = NOW()
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER chat_history_touch_conversation
+  AFTER INSERT ON public.chat_history
+  FOR EACH ROW
+  WHEN (NEW.conversation_id IS NOT NULL)
+  EXECUTE FUNCTION public.touch_conversation();
+
+-- Keep one rolling summary per thread instead of one per user;
+-- the summary of messages without a conversation keeps a NULL conversation_id
+ALTER TABLE public.conversation_summaries
+  ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE;
+
+ALTER TABLE public.conversation_summaries DROP CONSTRAINT IF EXISTS conversation_summaries_user_id_key;
+
+ALTER TABLE public.conversation_summaries
+  ADD CONSTRAINT conversation_summaries_user_id_conversation_id_key
+  UNIQUE NULLS NOT DISTINCT (user_id, conversation_id);
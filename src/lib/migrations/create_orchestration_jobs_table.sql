@@ -0,0 +1,87 @@
+-- Create orchestration_jobs table for runs executed asynchronously by a worker
+-- status is 'queued', 'running', 'completed' or 'failed':
+--   a running job whose locked_until has passed belongs to a worker that
+--   stopped responding, and is claimed again until max_attempts is reached
+CREATE TABLE IF NOT EXISTS public.orchestration_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL REFERENCES public.runs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Add RLS policies to orchestration_jobs table
+ALTER TABLE public.orchestration_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Policy to allow users to view only their own jobs
+CREATE POLICY "Users can view their own orchestration jobs"
+  ON public.orchestration_jobs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Policy to allow service role to manage all jobs
+CREATE POLICY "Service role can manage all orchestration jobs"
+  ON public.orchestration_jobs
+  USING (auth.role() = 'service_role');
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS orchestration_jobs_status_idx ON public.orchestration_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS orchestration_jobs_run_id_idx ON public.orchestration_jobs(run_id);
+
+-- Claim the oldest available job for a worker
+-- Jobs whose worker stopped responding on their last attempt are failed
+-- first, together with their run. SKIP LOCKED lets several workers claim
+-- jobs at the same time without taking the same one.
+CREATE OR REPLACE FUNCTION public.claim_orchestration_job(lease_seconds INTEGER)
+RETURNS SETOF public.orchestration_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  WITH abandoned AS (
+    UPDATE public.orchestration_jobs
+    SET status = 'failed',
+        last_error = 'Worker stopped before finishing the job',
+        locked_until = NULL,
+        updated_at = NOW(),
+        completed_at = NOW()
+    WHERE status = 'running'
+      AND locked_until < NOW()
+      AND attempts >= max_attempts
+    RETURNING run_id
+  )
+  UPDATE public.runs
+  SET status = 'failed',
+      stop_reason = 'error',
+      error = 'Worker stopped before finishing the job',
+      completed_at = NOW()
+  WHERE id IN (SELECT run_id FROM abandoned);
+
+  RETURN QUERY
+  UPDATE public.orchestration_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_until = NOW() + make_interval(secs => lease_seconds),
+      updated_at = NOW()
+  WHERE id = (
+    SELECT id
+    FROM public.orchestration_jobs
+    WHERE (status = 'queued' OR (status = 'running' AND locked_until < NOW()))
+      AND attempts < max_attempts
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Only the service role may claim jobs
+REVOKE EXECUTE ON FUNCTION public.claim_orchestration_job(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_orchestration_job(INTEGER) TO service_role;
@@ -0,0 +1,68 @@
+-- Create prompt_templates table for versioned prompt templates
+-- The built-in templates in code are version 0; stored versions are numbered per name from 1.
+-- A version applies globally (user_id and persona NULL), or overrides the template for one
+-- user, one persona, or one user's persona.
+-- variables maps each variable name to its declaration: { type, required, default, description }
+CREATE TABLE IF NOT EXISTS public.prompt_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  body TEXT NOT NULL,
+  variables JSONB NOT NULL DEFAULT '{}'::jsonb,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  persona TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(name, version)
+);
+
+-- Add RLS policies to prompt_templates table
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Policy to allow users to view global templates and their own overrides
+CREATE POLICY "Users can view global and their own prompt templates"
+  ON public.prompt_templates
+  FOR SELECT
+  USING (user_id IS NULL OR auth.uid() = user_id);
+
+-- Policy to allow service role to manage all prompt templates
+CREATE POLICY "Service role can manage all prompt templates"
+  ON public.prompt_templates
+  USING (auth.role() = 'service_role');
+
+-- Create index to find the versions of a template quickly
+CREATE INDEX IF NOT EXISTS prompt_templates_name_idx ON public.prompt_templates(name, version DESC);
+
+-- Create personas table; a persona is a named set of template variables that runs can pick
+-- user_id is NULL for a persona available to everyone
+CREATE TABLE IF NOT EXISTS public.personas (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  description TEXT,
+  variables JSONB NOT NULL DEFAULT '{}'::jsonb,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE NULLS NOT DISTINCT (user_id, name)
+);
+
+-- Add RLS policies to personas table
+ALTER TABLE public.personas ENABLE ROW LEVEL SECURITY;
+
+-- Policy to allow users to view global personas and their own
+CREATE POLICY "Users can view global and their own personas"
+  ON public.personas
+  FOR SELECT
+  USING (user_id IS NULL OR auth.uid() = user_id);
+
+-- Policy to allow service role to manage all personas
+CREATE POLICY "Service role can manage all personas"
+  ON public.personas
+  USING (auth.role() = 'service_role');
+
+-- Record the prompt each run was started with, to compare behaviour across prompt changes
+-- prompt_versions maps every template rendered, including partials, to its version
+ALTER TABLE public.runs ADD COLUMN IF NOT EXISTS prompt_template TEXT;
+ALTER TABLE public.runs ADD COLUMN IF NOT EXISTS prompt_version INTEGER;
+ALTER TABLE public.runs ADD COLUMN IF NOT EXISTS prompt_versions JSONB;
+ALTER TABLE public.runs ADD COLUMN IF NOT EXISTS persona TEXT;
+
+CREATE INDEX IF NOT EXISTS runs_prompt_template_idx ON public.runs(prompt_template, prompt_version);
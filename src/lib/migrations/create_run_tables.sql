@@ -0,0 +1,76 @@
+-- Create runs table to record every orchestration run
+CREATE TABLE IF NOT EXISTS public.runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  instruction TEXT NOT NULL,
+  system_prompt TEXT,
+  status TEXT NOT NULL DEFAULT 'running',
+  response TEXT,
+  stop_reason TEXT,
+  model TEXT,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add RLS policies to runs table
+ALTER TABLE public.runs ENABLE ROW LEVEL SECURITY;
+
+-- Policy to allow users to view only their own runs
+CREATE POLICY "Users can view their own runs"
+  ON public.runs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Policy to allow service role to manage all runs
+CREATE POLICY "Service role can manage all runs"
+  ON public.runs
+  USING (auth.role() = 'service_role');
+
+-- Create run_steps table for the step-level trace of each run
+-- step_type is 'model_call' or 'tool_call':
+--   model_call: input holds the messages sent, output the assistant message
+--   tool_call: input holds the arguments, output the tool result
+CREATE TABLE IF NOT EXISTS public.run_steps (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL REFERENCES public.runs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  step_index INTEGER NOT NULL,
+  step_type TEXT NOT NULL,
+  iteration INTEGER NOT NULL,
+  model TEXT,
+  tool_name TEXT,
+  tool_call_id TEXT,
+  input JSONB,
+  output JSONB,
+  error TEXT,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  total_tokens INTEGER,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(run_id, step_index)
+);
+
+-- Add RLS policies to run_steps table
+ALTER TABLE public.run_steps ENABLE ROW LEVEL SECURITY;
+
+-- Policy to allow users to view only their own run steps
+CREATE POLICY "Users can view their own run steps"
+  ON public.run_steps
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Policy to allow service role to manage all run steps
+CREATE POLICY "Service role can manage all run steps"
+  ON public.run_steps
+  USING (auth.role() = 'service_role');
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS runs_user_id_idx ON public.runs(user_id);
+CREATE INDEX IF NOT EXISTS runs_created_at_idx ON public.runs(created_at);
+CREATE INDEX IF NOT EXISTS run_steps_run_id_idx ON public.run_steps(run_id);
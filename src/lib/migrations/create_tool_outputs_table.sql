@@ -0,0 +1,32 @@
+-- Create tool_outputs table for tool results too large to give to the model in full
+-- The model sees a shortened or summarized result with the row's id as a
+-- reference, and reads content page by page with the read_tool_output tool;
+-- run_id is not a foreign key as runs are not always stored
+CREATE TABLE IF NOT EXISTS public.tool_outputs (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  run_id UUID,
+  tool_name TEXT NOT NULL,
+  tool_call_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  total_tokens INTEGER NOT NULL,
+  page_tokens INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add RLS policies to tool_outputs table
+ALTER TABLE public.tool_outputs ENABLE ROW LEVEL SECURITY;
+
+-- Policy to allow users to view only their own tool outputs
+CREATE POLICY "Users can view their own tool outputs"
+  ON public.tool_outputs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Policy to allow service role to manage all tool outputs
+CREATE POLICY "Service role can manage all tool outputs"
+  ON public.tool_outputs
+  USING (auth.role() = 'service_role');
+
+-- Create index to find the outputs of a run
+CREATE INDEX IF NOT EXISTS tool_outputs_run_id_idx ON public.tool_outputs(run_id);
@@ -0,0 +1,177 @@
+import { AgentToolResult, createAgentTool } from '../agentTool';
+import { orchestrate } from '../orchestrator';
+import { BudgetTracker } from '../budget';
+import { attachRunContext, RunContext } from '../runContext';
+import { createRetryBudget } from '../retryPolicy';
+import { setSupabaseClientForTesting } from '../runStore';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider, MockProviderResponse } from '../providers/mock';
+import { GPT41Config, Tool } from '../types';
+import { logUsageAndUpdateCost } from '../../billing/tokenUsage';
+import { ApiError, ToolError } from '../../utils/error';
+
+jest.mock('../../billing/tokenUsage', () => ({
+  logUsageAndUpdateCost: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+const config: GPT41Config = { provider: 'agent-test', apiKey: 'test-key', model: 'gpt-4.1' };
+const usage = { promptTokens: 80, completionTokens: 20, totalTokens: 100 };
+
+const searchHotels: Tool = {
+  name: 'search_hotels',
+  description: 'Search for hotels',
+  parameters: { city: { type: 'string', description: 'The city' } },
+  execute: jest.fn().mockResolvedValue({ hotels: ['Avenida', 'Baixa House'] }),
+};
+
+/**
+ * Register a scripted provider shared by the parent and its sub-agents
+ */
+function useProvider(script: MockProviderResponse[]) {
+  const provider = createMockProvider(script);
+  registerProviderFactory('agent-test', () => provider);
+  return provider;
+}
+
+/**
+ * Create a signal carrying the context of a calling run
+ */
+function runSignal(context: Partial<RunContext> = {}): AbortSignal {
+  const signal = new AbortController().signal;
+  attachRunContext(signal, {
+    runId: 'parent-run',
+    userId: 'user-1',
+    depth: 0,
+    persist: false,
+    budget: new BudgetTracker(),
+    retryBudget: createRetryBudget(),
+    ...context,
+  });
+  return signal;
+}
+
+describe('agentTool', () => {
+  const researcher = createAgentTool({
+    name: 'research_agent',
+    description: 'Researches hotels',
+    systemPrompt: 'You are a hotel researcher.',
+    tools: [searchHotels],
+    config,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setSupabaseClientForTesting(null);
+  });
+
+  it('should run a delegated task as a nested run billed to the same user', async () => {
+    const provider = useProvider([
+      { toolCalls: [{ name: 'research_agent', arguments: { instruction: 'Find hotels in Lisbon' } }], usage },
+      { toolCalls: [{ name: 'search_hotels', arguments: { city: 'Lisbon' } }], usage },
+      { content: 'Avenida and Baixa House are available.', usage },
+      { content: 'I found two hotels: Avenida and Baixa House.', usage },
+    ]);
+    const upserts: Record<string, unknown>[] = [];
+    setSupabaseClientForTesting({
+      from: jest.fn(() => ({
+        upsert: jest.fn(async (row: Record<string, unknown>) => {
+          upserts.push(row);
+          return { error: null };
+        }),
+        insert: jest.fn().mockResolvedValue({ error: null }),
+        update: jest.fn(() => ({ eq: jest.fn().mockResolvedValue({ error: null }) })),
+      })),
+    } as unknown as Parameters<typeof setSupabaseClientForTesting>[0]);
+
+    const result = await orchestrate(
+      { instruction: 'Plan a trip to Lisbon', context: { userId: 'user-1' }, tools: [researcher] },
+      config
+    );
+
+    expect(result.response).toBe('I found two hotels: Avenida and Baixa House.');
+    const agentResult = result.toolCalls[0].result;
+    expect(agentResult).toMatchObject({ response: 'Avenida and Baixa House are available.', stopReason: 'completed' });
+
+    // The sub-agent has its own system prompt and tools
+    expect(provider.requests[1].messages[0].content).toBe('You are a hotel researcher.');
+    expect(provider.requests[1].tools?.map((tool) => tool.name)).toEqual(['search_hotels']);
+    expect(searchHotels.execute).toHaveBeenCalledWith({ city: 'Lisbon' }, expect.anything());
+
+    // Its run is nested under the parent's
+    expect(upserts).toEqual([
+      expect.objectContaining({ id: result.runId, parent_run_id: null, depth: 0 }),
+      expect.objectContaining({ id: agentResult.runId, parent_run_id: result.runId, depth: 1 }),
+    ]);
+    expect(logUsageAndUpdateCost).toHaveBeenCalledTimes(4);
+    expect(logUsageAndUpdateCost).toHaveBeenCalledWith('user-1', 'gpt-4.1', usage);
+  });
+
+  it('should count the tokens of a delegated task against the calling run', async () => {
+    useProvider([{ content: 'Avenida is available.', usage }]);
+    const budget = new BudgetTracker({ maxTotalTokens: 1000 });
+
+    await researcher.execute({ instruction: 'Find hotels in Lisbon' }, { signal: runSignal({ budget }) });
+
+    expect(budget.tokensUsed).toBe(100);
+  });
+
+  it('should take the retries of a delegated task from the calling run', async () => {
+    const provider = useProvider([
+      { error: new ApiError('Too many requests', 429, { retryAfterMs: 1 }) },
+      { error: new ApiError('Too many requests', 429, { retryAfterMs: 1 }) },
+    ]);
+    const retryBudget = createRetryBudget(1);
+
+    await expect(
+      researcher.execute({ instruction: 'Find hotels in Lisbon' }, { signal: runSignal({ retryBudget }) })
+    ).rejects.toThrow('research_agent failed');
+
+    // The one retry left in the parent's budget was used, so the sub-agent gave up after it
+    expect(retryBudget.used).toBe(1);
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('should limit a split agent to its share of the remaining tokens', async () => {
+    useProvider([
+      { toolCalls: [{ name: 'search_hotels', arguments: { city: 'Lisbon' } }], usage: { ...usage, totalTokens: 450 } },
+    ]);
+    const budget = new BudgetTracker({ maxTotalTokens: 1000 });
+    budget.recordTokens(200);
+    const splitResearcher = createAgentTool({
+      name: 'research_agent',
+      description: 'Researches hotels',
+      tools: [searchHotels],
+      config,
+      tokenBudget: 'split',
+    });
+
+    const result = (await splitResearcher.execute(
+      { instruction: 'Find hotels in Lisbon' },
+      { signal: runSignal({ budget }) }
+    )) as AgentToolResult;
+
+    // Half of the 800 tokens left is 400, which the first call used up
+    expect(result.stopReason).toBe('token_limit');
+    expect(budget.tokensUsed).toBe(650);
+  });
+
+  it('should refuse to nest deeper than the limit', async () => {
+    useProvider([]);
+
+    await expect(
+      researcher.execute({ instruction: 'Find hotels in Lisbon' }, { signal: runSignal({ depth: 2 }) })
+    ).rejects.toThrow('research_agent cannot be called at nesting depth 3; the limit is 2');
+    await expect(researcher.execute({ instruction: 'Find hotels in Lisbon' })).rejects.toBeInstanceOf(ToolError);
+  });
+
+  it('should ask for approval when the agent has tools that need it', () => {
+    const booker = createAgentTool({
+      name: 'booking_agent',
+      description: 'Books hotels',
+      tools: [searchHotels, { ...searchHotels, name: 'book_hotel', requiresApproval: true }],
+    });
+
+    expect(booker.requiresApproval).toBe(true);
+    expect(researcher.requiresApproval).toBeUndefined();
+  });
+});
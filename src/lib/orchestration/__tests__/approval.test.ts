@@ -0,0 +1,193 @@
+import {
+  submitApprovalDecision,
+  requiresApproval,
+  serializeToolResults,
+  restoreToolResults,
+} from '../approval';
+import { getStoredRun, saveApprovalDecisions, claimRunForResume } from '../runStore';
+import { orchestrate } from '../orchestrator';
+import { ApiError } from '../../utils/error';
+import { ApprovalDecision, ToolCall } from '../types';
+
+// Mock the run store and the orchestrator
+jest.mock('../runStore', () => ({
+  getStoredRun: jest.fn(),
+  saveApprovalDecisions: jest.fn(),
+  claimRunForResume: jest.fn(),
+}));
+
+jest.mock('../orchestrator', () => ({
+  orchestrate: jest.fn(),
+}));
+
+const emailCall: ToolCall = { id: 'call_email', name: 'send_email', arguments: { to: 'a@example.com' } };
+const paymentCall: ToolCall = { id: 'call_pay', name: 'pay', arguments: { amount: 10 } };
+
+function createPausedRun(pendingToolCalls: ToolCall[] = [emailCall], approvalDecisions: ApprovalDecision[] | null = null) {
+  return {
+    id: 'run-1',
+    user_id: 'user-1',
+    instruction: 'Email Alice',
+    status: 'awaiting_approval',
+    approval_decisions: approvalDecisions,
+    checkpoint: {
+      messages: [],
+      pendingToolCalls,
+      toolResults: [],
+      budget: {},
+      maxRetries: 1,
+      stepsUsed: 1,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      traceSteps: 1,
+    },
+  };
+}
+
+describe('approval', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should detect tools that require approval', () => {
+    expect(requiresApproval({ name: 'a', description: '', parameters: {}, execute: jest.fn(), requiresApproval: true })).toBe(true);
+    expect(requiresApproval({ name: 'b', description: '', parameters: {}, execute: jest.fn() })).toBe(false);
+    expect(requiresApproval(undefined)).toBe(false);
+  });
+
+  it('should round-trip tool results through a checkpoint', () => {
+    const results = [
+      { toolCallId: '1', toolName: 'a', result: { ok: true } },
+      { toolCallId: '2', toolName: 'b', result: null, error: new Error('boom') },
+    ];
+
+    const restored = restoreToolResults(JSON.parse(JSON.stringify(serializeToolResults(results))));
+
+    expect(restored[0]).toEqual(results[0]);
+    expect(restored[1].error).toBeInstanceOf(Error);
+    expect(restored[1].error?.message).toBe('boom');
+  });
+
+  describe('submitApprovalDecision', () => {
+    it('should resume the run once every pending call is decided', async () => {
+      (getStoredRun as jest.Mock).mockResolvedValue(createPausedRun());
+      (claimRunForResume as jest.Mock).mockResolvedValue(true);
+      (orchestrate as jest.Mock).mockResolvedValue({ response: 'Sent', toolCalls: [], stopReason: 'completed' });
+
+      const result = await submitApprovalDecision(
+        'run-1',
+        'user-1',
+        { toolCallId: '', action: 'approve', arguments: { to: 'alice@example.com' } },
+        []
+      );
+
+      const decisions = [{ toolCallId: 'call_email', action: 'approve', arguments: { to: 'alice@example.com' } }];
+      expect(claimRunForResume).toHaveBeenCalledWith('run-1', decisions, null);
+      expect(orchestrate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          instruction: 'Email Alice',
+          context: { userId: 'user-1' },
+          maxRetries: 1,
+          resumeFrom: expect.objectContaining({ runId: 'run-1', decisions }),
+        })
+      );
+      expect(result).toEqual({ response: 'Sent', toolCalls: [], stopReason: 'completed' });
+    });
+
+    it('should resume the run with the options it was started with and the request signal', async () => {
+      const run = createPausedRun();
+      const options = { persona: 'support', planner: true, retryBudget: 4, maxToolConcurrency: 2, toolTimeoutMs: 5000 };
+      (getStoredRun as jest.Mock).mockResolvedValue({ ...run, checkpoint: { ...run.checkpoint, options } });
+      (claimRunForResume as jest.Mock).mockResolvedValue(true);
+      (orchestrate as jest.Mock).mockResolvedValue({ response: 'Sent', toolCalls: [], stopReason: 'completed' });
+      const controller = new AbortController();
+
+      await submitApprovalDecision(
+        'run-1',
+        'user-1',
+        { toolCallId: 'call_email', action: 'approve' },
+        [],
+        undefined,
+        controller.signal
+      );
+
+      expect(orchestrate).toHaveBeenCalledWith(
+        expect.objectContaining({ ...options, maxRetries: 1, signal: controller.signal })
+      );
+    });
+
+    it('should keep waiting while other pending calls are undecided', async () => {
+      (getStoredRun as jest.Mock).mockResolvedValue(createPausedRun([emailCall, paymentCall]));
+      (saveApprovalDecisions as jest.Mock).mockResolvedValue(true);
+
+      const result = await submitApprovalDecision(
+        'run-1',
+        'user-1',
+        { toolCallId: 'call_pay', action: 'reject', reason: 'Too expensive' },
+        []
+      );
+
+      expect(saveApprovalDecisions).toHaveBeenCalledWith(
+        'run-1',
+        [{ toolCallId: 'call_pay', action: 'reject', reason: 'Too expensive' }],
+        null
+      );
+      expect(orchestrate).not.toHaveBeenCalled();
+      expect(result).toEqual({ runId: 'run-1', status: 'awaiting_approval', pendingToolCalls: [emailCall] });
+    });
+
+    it('should keep a decision saved at the same time for another call', async () => {
+      const emailDecision: ApprovalDecision = { toolCallId: 'call_email', action: 'approve' };
+      (getStoredRun as jest.Mock)
+        .mockResolvedValueOnce(createPausedRun([emailCall, paymentCall]))
+        .mockResolvedValueOnce(createPausedRun([emailCall, paymentCall], [emailDecision]));
+      (saveApprovalDecisions as jest.Mock).mockResolvedValueOnce(false);
+      (claimRunForResume as jest.Mock).mockResolvedValue(true);
+      (orchestrate as jest.Mock).mockResolvedValue({ response: 'Done', toolCalls: [], stopReason: 'completed' });
+
+      await submitApprovalDecision('run-1', 'user-1', { toolCallId: 'call_pay', action: 'reject' }, []);
+
+      expect(saveApprovalDecisions).toHaveBeenCalledWith('run-1', [{ toolCallId: 'call_pay', action: 'reject' }], null);
+      expect(claimRunForResume).toHaveBeenCalledWith(
+        'run-1',
+        [emailDecision, { toolCallId: 'call_pay', action: 'reject' }],
+        [emailDecision]
+      );
+    });
+
+    it('should reject decisions for unknown runs, finished runs and decided calls', async () => {
+      (getStoredRun as jest.Mock).mockResolvedValueOnce(null);
+      await expect(
+        submitApprovalDecision('missing', 'user-1', { toolCallId: '', action: 'approve' }, [])
+      ).rejects.toMatchObject({ statusCode: 404 });
+
+      (getStoredRun as jest.Mock).mockResolvedValueOnce({ ...createPausedRun(), status: 'completed' });
+      await expect(
+        submitApprovalDecision('run-1', 'user-1', { toolCallId: '', action: 'approve' }, [])
+      ).rejects.toMatchObject({ statusCode: 409 });
+
+      (getStoredRun as jest.Mock).mockResolvedValueOnce(
+        createPausedRun([emailCall, paymentCall], [{ toolCallId: 'call_pay', action: 'approve' }])
+      );
+      await expect(
+        submitApprovalDecision('run-1', 'user-1', { toolCallId: 'call_pay', action: 'reject' }, [])
+      ).rejects.toBeInstanceOf(ApiError);
+
+      (getStoredRun as jest.Mock).mockResolvedValueOnce(createPausedRun([emailCall, paymentCall]));
+      await expect(
+        submitApprovalDecision('run-1', 'user-1', { toolCallId: '', action: 'approve' }, [])
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should refuse to resume a run another request already resumed', async () => {
+      (getStoredRun as jest.Mock)
+        .mockResolvedValueOnce(createPausedRun())
+        .mockResolvedValueOnce({ ...createPausedRun(), status: 'running' });
+      (claimRunForResume as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        submitApprovalDecision('run-1', 'user-1', { toolCallId: 'call_email', action: 'approve' }, [])
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(orchestrate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  BudgetTracker,
+  BudgetTimeoutError,
+  DEFAULT_MAX_STEPS,
+  withDeadline,
+  createBudgetSummary,
+} from '../budget';
+
+describe('Orchestration budget', () => {
+  describe('BudgetTracker', () => {
+    it('should apply the default step limit when none is given', () => {
+      const tracker = new BudgetTracker();
+
+      for (let i = 0; i < DEFAULT_MAX_STEPS - 1; i++) {
+        tracker.recordStep();
+      }
+      expect(tracker.exhausted()).toBeUndefined();
+
+      tracker.recordStep();
+      expect(tracker.exhausted()).toBe('step_limit');
+    });
+
+    it('should report token_limit once the token budget is used up', () => {
+      const tracker = new BudgetTracker({ maxTotalTokens: 100 });
+
+      tracker.recordTokens(60);
+      expect(tracker.exhausted()).toBeUndefined();
+
+      tracker.recordTokens(40);
+      expect(tracker.exhausted()).toBe('token_limit');
+      expect(tracker.tokensUsed).toBe(100);
+    });
+
+    it('should count a sub-agent\'s tokens against its parent', () => {
+      const parent = new BudgetTracker({ maxTotalTokens: 100 });
+      const child = new BudgetTracker({ maxTotalTokens: parent.remainingTokens() }, Date.now, parent);
+
+      child.recordTokens(70);
+      expect(parent.remainingTokens()).toBe(30);
+
+      child.recordTokens(30);
+      expect(parent.exhausted()).toBe('token_limit');
+      expect(new BudgetTracker().remainingTokens()).toBeUndefined();
+    });
+
+    it('should report timeout once the wall-clock budget is used up', () => {
+      let now = 1000;
+      const tracker = new BudgetTracker({ maxWallClockMs: 500 }, () => now);
+
+      now = 1200;
+      expect(tracker.remainingMs()).toBe(300);
+      expect(tracker.exhausted()).toBeUndefined();
+
+      now = 1600;
+      expect(tracker.remainingMs()).toBe(0);
+      expect(tracker.exhausted()).toBe('timeout');
+    });
+
+    it('should have no remaining time when there is no time budget', () => {
+      expect(new BudgetTracker().remainingMs()).toBeUndefined();
+    });
+  });
+
+  describe('withDeadline', () => {
+    it('should resolve with the result when it finishes in time', async () => {
+      await expect(withDeadline(Promise.resolve('ok'), 100)).resolves.toBe('ok');
+    });
+
+    it('should reject with BudgetTimeoutError when the deadline passes', async () => {
+      const never = new Promise(() => {});
+      await expect(withDeadline(never, 10)).rejects.toBeInstanceOf(BudgetTimeoutError);
+    });
+
+    it('should abort the operation when the deadline passes', async () => {
+      const controller = new AbortController();
+      await expect(withDeadline(new Promise(() => {}), 10, controller)).rejects.toBeInstanceOf(BudgetTimeoutError);
+      expect(controller.signal.reason).toBeInstanceOf(BudgetTimeoutError);
+    });
+  });
+
+  describe('createBudgetSummary', () => {
+    it('should describe the stop reason and the tool calls made', () => {
+      const summary = createBudgetSummary('step_limit', [
+        { toolCallId: '1', toolName: 'web_search', result: {} },
+        { toolCallId: '2', toolName: 'calculator', result: null, error: new Error('boom') },
+      ]);
+
+      expect(summary).toContain('maximum number of steps');
+      expect(summary).toContain('Completed 1 tool call (web_search); 1 failed.');
+    });
+
+    it('should say when no tools were called', () => {
+      const summary = createBudgetSummary('timeout', []);
+
+      expect(summary).toContain('time limit');
+      expect(summary).toContain('No tools were called.');
+    });
+  });
+});
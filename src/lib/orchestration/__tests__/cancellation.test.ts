@@ -0,0 +1,100 @@
+import {
+  RunCancelledError,
+  isAbortError,
+  withAbort,
+  registerActiveRun,
+  unregisterActiveRun,
+  cancelActiveRun,
+  createCancellationSummary,
+} from '../cancellation';
+import { withRetry } from '../retry';
+
+describe('cancellation', () => {
+  describe('withAbort', () => {
+    it('should resolve with the result when the signal is not aborted', async () => {
+      const controller = new AbortController();
+
+      await expect(withAbort(Promise.resolve('done'), controller.signal)).resolves.toBe('done');
+    });
+
+    it('should reject as soon as the signal is aborted', async () => {
+      const controller = new AbortController();
+      const pending = withAbort(new Promise(() => {}), controller.signal);
+
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(RunCancelledError);
+    });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const error = await withAbort(Promise.resolve('done'), controller.signal).catch((err) => err);
+
+      expect(isAbortError(error)).toBe(true);
+    });
+  });
+
+  describe('active runs', () => {
+    afterEach(() => {
+      unregisterActiveRun('run-1');
+    });
+
+    it('should abort a registered run for its owner only', () => {
+      const controller = new AbortController();
+      registerActiveRun('run-1', 'user-1', controller);
+
+      expect(cancelActiveRun('run-1', 'user-2')).toBe(false);
+      expect(controller.signal.aborted).toBe(false);
+
+      expect(cancelActiveRun('run-1', 'user-1')).toBe(true);
+      expect(controller.signal.aborted).toBe(true);
+    });
+
+    it('should not find a run once it is unregistered', () => {
+      registerActiveRun('run-1', 'user-1', new AbortController());
+      unregisterActiveRun('run-1');
+
+      expect(cancelActiveRun('run-1', 'user-1')).toBe(false);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should stop retrying once the signal is aborted', async () => {
+      const controller = new AbortController();
+      const fn = jest.fn(async () => {
+        controller.abort();
+        throw new Error('Temporary failure');
+      });
+
+      await expect(
+        withRetry(fn, { maxRetries: 3, initialDelayMs: 10000, backoffFactor: 2, maxDelayMs: 10000 }, controller.signal)
+      ).rejects.toThrow('Temporary failure');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cut the backoff sleep short when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const fn = jest.fn(async () => {
+        throw new Error('Temporary failure');
+      });
+
+      const pending = withRetry(
+        fn,
+        { maxRetries: 3, initialDelayMs: 10000, backoffFactor: 2, maxDelayMs: 10000 },
+        controller.signal
+      );
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(pending).rejects.toBeInstanceOf(RunCancelledError);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should summarize the work done before cancelling', () => {
+    expect(
+      createCancellationSummary([{ toolCallId: 'call_1', toolName: 'web_search', result: {} }])
+    ).toBe('The task was cancelled before it finished. Completed 1 tool call (web_search).');
+  });
+});
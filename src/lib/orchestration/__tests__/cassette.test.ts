@@ -0,0 +1,203 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  Cassette,
+  CassetteData,
+  CassetteMismatchError,
+  createCassetteFromTrace,
+  REDACTED,
+  redactSecrets,
+  useCassette,
+} from '../cassette';
+import { orchestrate } from '../orchestrator';
+import { setSupabaseClientForTesting, RunStepRecord } from '../runStore';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider, MockProviderResponse } from '../providers/mock';
+import { GPT41Config, Tool } from '../types';
+
+jest.mock('../../billing/tokenUsage', () => ({
+  logUsageAndUpdateCost: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+const config: GPT41Config = { provider: 'cassette-test', apiKey: 'test-key', model: 'gpt-4.1' };
+const usage = { promptTokens: 80, completionTokens: 20, totalTokens: 100 };
+
+const script: MockProviderResponse[] = [
+  { toolCalls: [{ name: 'get_weather', arguments: { city: 'Lisbon' } }], usage },
+  { content: 'It is sunny in Lisbon.', usage },
+];
+
+/**
+ * Create a weather tool whose calls can be counted
+ */
+function weatherTool(): Tool {
+  return {
+    name: 'get_weather',
+    description: 'Get the weather for a city',
+    parameters: { city: { type: 'string', description: 'The city' } },
+    execute: jest.fn().mockResolvedValue({ forecast: 'sunny', apiKey: 'weather-secret' }),
+  };
+}
+
+/**
+ * Register a scripted provider for the model calls being recorded
+ */
+function useProvider(responses: MockProviderResponse[]) {
+  const provider = createMockProvider(responses);
+  registerProviderFactory('cassette-test', () => provider);
+  return provider;
+}
+
+/**
+ * Ask for the weather with the given tools
+ */
+function askForWeather(tools: Tool[], instruction = 'What is the weather in Lisbon?') {
+  return orchestrate({ instruction, context: { userId: 'user-1' }, tools }, config);
+}
+
+describe('cassette', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    setSupabaseClientForTesting(null);
+    dir = await mkdtemp(join(tmpdir(), 'cassettes-'));
+    path = join(dir, 'weather.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should replay a recorded run without calling the provider or tools', async () => {
+    useProvider(script);
+    const recorded = await useCassette(path, (cassette) => askForWeather(cassette.wrapTools([weatherTool()])), {
+      mode: 'record',
+    });
+
+    const replayProvider = useProvider([]);
+    const tool = weatherTool();
+    const replayed = await useCassette(path, (cassette) => askForWeather(cassette.wrapTools([tool])), {
+      mode: 'replay',
+    });
+
+    expect(recorded.response).toBe('It is sunny in Lisbon.');
+    expect(replayed.response).toBe(recorded.response);
+    expect(replayed.toolCalls.map((call) => call.result)).toEqual([{ forecast: 'sunny', apiKey: REDACTED }]);
+    expect(replayProvider.requests).toHaveLength(0);
+    expect(tool.execute).not.toHaveBeenCalled();
+  });
+
+  it('should redact secrets from the recording', async () => {
+    useProvider(script);
+
+    await useCassette(
+      path,
+      (cassette) =>
+        askForWeather(cassette.wrapTools([weatherTool()]), 'Weather in Lisbon? Use key sk-abcdefghijklmnopqrstu'),
+      { mode: 'record', secrets: ['Lisbon'] }
+    );
+
+    const contents = await readFile(path, 'utf8');
+    expect(contents).not.toContain('sk-abcdefghijklmnopqrstu');
+    expect(contents).not.toContain('weather-secret');
+    expect(contents).not.toContain('Lisbon');
+
+    // Requests are redacted the same way before they are matched
+    const replayed = await useCassette(
+      path,
+      (cassette) =>
+        askForWeather(cassette.wrapTools([weatherTool()]), 'Weather in Lisbon? Use key sk-abcdefghijklmnopqrstu'),
+      { mode: 'replay', secrets: ['Lisbon'] }
+    );
+    expect(replayed.stopReason).toBe('completed');
+  });
+
+  it('should fail on requests that were not recorded', async () => {
+    useProvider(script);
+    await useCassette(path, (cassette) => askForWeather(cassette.wrapTools([weatherTool()])), { mode: 'record' });
+
+    await expect(
+      useCassette(path, (cassette) => askForWeather(cassette.wrapTools([weatherTool()]), 'And in Porto?'), {
+        mode: 'replay',
+      })
+    ).rejects.toBeInstanceOf(CassetteMismatchError);
+
+    // Tool errors are absorbed by the orchestrator, but still fail the cassette
+    const cassette = await Cassette.load(path, { mode: 'replay' });
+    const [tool] = cassette.wrapTools([weatherTool()]);
+    await expect(tool.execute({ city: 'Porto' })).rejects.toThrow('No recording of this call to tool get_weather');
+    expect(() => cassette.verify()).toThrow(CassetteMismatchError);
+
+    await expect(Cassette.load(join(dir, 'missing.json'), { mode: 'replay' })).rejects.toThrow(
+      'record it with CASSETTE_MODE=record'
+    );
+  });
+
+  it('should replay failures as retryable as the originals', async () => {
+    const rateLimited = Object.assign(new Error('Rate limited'), { status: 429 });
+    const cassette = new Cassette({ mode: 'record' });
+    const provider = cassette.wrapProvider('cassette-test', createMockProvider([{ error: rateLimited }]));
+    const request = { model: 'gpt-4.1', messages: [{ role: 'user' as const, content: 'Hi' }] };
+    await expect(provider.chat(request)).rejects.toThrow('Rate limited');
+
+    const replay = new Cassette({ mode: 'replay' }, cassette.toJSON()).wrapProvider('cassette-test');
+    await expect(replay.chat(request)).rejects.toMatchObject({ message: 'Rate limited', status: 429, retryable: true });
+  });
+
+  it('should replay a stored run trace', async () => {
+    const steps: Partial<RunStepRecord>[] = [];
+    setSupabaseClientForTesting({
+      from: jest.fn(() => ({
+        upsert: jest.fn().mockResolvedValue({ error: null }),
+        insert: jest.fn(async (row: Partial<RunStepRecord>) => {
+          steps.push(row);
+          return { error: null };
+        }),
+        update: jest.fn(() => ({ eq: jest.fn().mockResolvedValue({ error: null }) })),
+      })),
+    } as unknown as Parameters<typeof setSupabaseClientForTesting>[0]);
+    useProvider(script);
+    const original = await askForWeather([weatherTool()]);
+    setSupabaseClientForTesting(null);
+
+    const data: CassetteData = createCassetteFromTrace(
+      { id: original.runId!, model: 'gpt-4.1' },
+      steps.reverse() as RunStepRecord[]
+    );
+    const cassette = new Cassette({ mode: 'replay' }, data);
+    const uninstall = cassette.install();
+    const replayed = await askForWeather(cassette.wrapTools([weatherTool()]));
+    uninstall();
+
+    expect(data).toMatchObject({ sourceRunId: original.runId, name: `run-${original.runId}` });
+    expect(replayed.response).toBe(original.response);
+    expect(replayed.toolCalls[0].result).toEqual({ forecast: 'sunny', apiKey: REDACTED });
+    cassette.verify();
+  });
+
+  describe('redactSecrets', () => {
+    it('should redact secret keys, recognisable secrets and secret environment variables', () => {
+      process.env.CASSETTE_TEST_TOKEN = 'environment-secret-value';
+
+      expect(
+        redactSecrets(
+          {
+            headers: { Authorization: 'Bearer abcdefghijkl', 'X-Api-Key': 'key' },
+            text: 'Use sk-ant-abcdefghijklmnopqr and environment-secret-value',
+            usage: { totalTokens: 10 },
+            password: null,
+          },
+          []
+        )
+      ).toEqual({
+        headers: { Authorization: REDACTED, 'X-Api-Key': REDACTED },
+        text: `Use ${REDACTED} and ${REDACTED}`,
+        usage: { totalTokens: 10 },
+        password: null,
+      });
+      delete process.env.CASSETTE_TEST_TOKEN;
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  CircuitBreakerOptions,
+  CircuitOpenError,
+  createCircuitBreaker,
+  filterAvailableTools,
+  getCircuitBreaker,
+  getCircuitBreakerStatuses,
+  resetCircuitBreakers,
+  withCircuitBreaker,
+} from '../circuitBreaker';
+import { RunCancelledError } from '../cancellation';
+import { ApiError } from '../../utils/error';
+import { Tool } from '../types';
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn() },
+}));
+
+const options: CircuitBreakerOptions = {
+  failureRateThreshold: 0.5,
+  minimumCalls: 4,
+  windowSize: 10,
+  cooldownMs: 1000,
+  halfOpenMaxCalls: 1,
+};
+
+describe('circuitBreaker', () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  describe('createCircuitBreaker', () => {
+    it('should open once the failure rate reaches the threshold', () => {
+      const breaker = createCircuitBreaker('provider:test', options);
+
+      breaker.recordSuccess();
+      breaker.recordFailure();
+      breaker.recordSuccess();
+      expect(breaker.state).toBe('closed');
+
+      breaker.recordFailure();
+      expect(breaker.state).toBe('open');
+      expect(breaker.tryAcquire()).toBe(false);
+      expect(breaker.getStatus()).toMatchObject({ calls: 4, failures: 2, failureRate: 0.5 });
+    });
+
+    it('should not open before the minimum number of calls', () => {
+      const breaker = createCircuitBreaker('provider:test', options);
+
+      breaker.recordFailure();
+      breaker.recordFailure();
+      breaker.recordFailure();
+
+      expect(breaker.state).toBe('closed');
+    });
+
+    it('should allow one trial call after the cooldown and close if it succeeds', () => {
+      let now = 0;
+      const breaker = createCircuitBreaker('provider:test', options, () => now);
+      for (let i = 0; i < 4; i++) breaker.recordFailure();
+
+      now = 999;
+      expect(breaker.isAvailable()).toBe(false);
+
+      now = 1000;
+      expect(breaker.state).toBe('half_open');
+      expect(breaker.tryAcquire()).toBe(true);
+      expect(breaker.tryAcquire()).toBe(false);
+      expect(breaker.isAvailable()).toBe(false);
+
+      breaker.recordSuccess();
+      expect(breaker.state).toBe('closed');
+      expect(breaker.getStatus()).toMatchObject({ calls: 0, failures: 0 });
+    });
+
+    it('should open again if the trial call fails', () => {
+      let now = 0;
+      const breaker = createCircuitBreaker('provider:test', options, () => now);
+      for (let i = 0; i < 4; i++) breaker.recordFailure();
+
+      now = 1000;
+      breaker.tryAcquire();
+      breaker.recordFailure();
+
+      expect(breaker.state).toBe('open');
+      expect(breaker.getStatus().retryAt).toBe(new Date(2000).toISOString());
+    });
+  });
+
+  describe('withCircuitBreaker', () => {
+    it('should count backend failures and refuse calls once open', async () => {
+      const down = jest.fn().mockRejectedValue(new ApiError('Unavailable', 503));
+
+      for (let i = 0; i < 5; i++) {
+        await expect(withCircuitBreaker('tool:search', down)).rejects.toThrow('Unavailable');
+      }
+
+      await expect(withCircuitBreaker('tool:search', down)).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(down).toHaveBeenCalledTimes(5);
+      expect(getCircuitBreakerStatuses()).toEqual([
+        expect.objectContaining({ key: 'tool:search', state: 'open', failures: 5 }),
+      ]);
+    });
+
+    it('should not count bad requests or cancellations as failures', async () => {
+      for (let i = 0; i < 5; i++) {
+        await expect(
+          withCircuitBreaker('tool:search', () => Promise.reject(new ApiError('Bad request', 400)))
+        ).rejects.toThrow('Bad request');
+        await expect(
+          withCircuitBreaker('tool:search', () => Promise.reject(new RunCancelledError()))
+        ).rejects.toThrow();
+      }
+
+      expect(getCircuitBreaker('tool:search').getStatus()).toMatchObject({ state: 'closed', failures: 0 });
+    });
+  });
+
+  describe('filterAvailableTools', () => {
+    it('should hide tools whose breaker is open', () => {
+      const tools = ['search', 'email'].map((name) => ({ name }) as Tool);
+      for (let i = 0; i < 5; i++) getCircuitBreaker('tool:search').recordFailure();
+
+      expect(filterAvailableTools(tools).map((tool) => tool.name)).toEqual(['email']);
+    });
+  });
+});
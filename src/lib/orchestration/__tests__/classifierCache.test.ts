@@ -0,0 +1,156 @@
+import {
+  ClassificationCache,
+  classificationCacheKey,
+  createInMemoryClassificationCache,
+  createPostgresClassificationCache,
+  getClassifierCacheMetrics,
+  resetClassifierCacheMetrics,
+  setClassificationCacheForTesting,
+} from '../classifierCache';
+import { classifyBatch, classifyText, ClassificationResult } from '../nanoClassifier';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider } from '../providers/mock';
+import { logUsageAndUpdateCost } from '../../billing/tokenUsage';
+
+jest.mock('../../billing/tokenUsage', () => ({
+  logUsageAndUpdateCost: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+const usage = { promptTokens: 10, completionTokens: 1, totalTokens: 11 };
+const spam: ClassificationResult<string> = { label: 'spam', usage };
+
+describe('classifierCache', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetClassifierCacheMetrics();
+    setClassificationCacheForTesting(createInMemoryClassificationCache());
+  });
+
+  afterAll(() => {
+    setClassificationCacheForTesting(null);
+  });
+
+  describe('classificationCacheKey', () => {
+    it('should not depend on the order of keys', () => {
+      expect(classificationCacheKey({ text: 'a', labels: ['x'] })).toBe(
+        classificationCacheKey({ labels: ['x'], text: 'a', prompt: undefined })
+      );
+      expect(classificationCacheKey({ text: 'a' })).not.toBe(classificationCacheKey({ text: 'b' }));
+    });
+  });
+
+  describe('createInMemoryClassificationCache', () => {
+    it('should expire results and evict the least recently used', async () => {
+      let now = 0;
+      const cache = createInMemoryClassificationCache({ maxEntries: 2, now: () => now });
+
+      await cache.set('a', 'spam', spam, 1000);
+      await cache.set('b', 'spam', spam, 100);
+      await cache.get('a');
+      await cache.set('c', 'spam', spam, 1000);
+
+      expect(await cache.get('a')).toEqual(spam);
+      expect(await cache.get('b')).toBeUndefined();
+
+      now = 1000;
+      expect(await cache.get('c')).toBeUndefined();
+    });
+  });
+
+  describe('createPostgresClassificationCache', () => {
+    it('should read results that have not expired', async () => {
+      const query = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        gt: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: { result: spam }, error: null }),
+        upsert: jest.fn().mockResolvedValue({ error: null }),
+      };
+      const client = { from: jest.fn().mockReturnValue(query) };
+      const cache = createPostgresClassificationCache(
+        client as unknown as Parameters<typeof createPostgresClassificationCache>[0]
+      );
+
+      await expect(cache.get('key-1')).resolves.toEqual(spam);
+      expect(query.eq).toHaveBeenCalledWith('key', 'key-1');
+      expect(query.gt).toHaveBeenCalledWith('expires_at', expect.any(String));
+
+      await cache.set('key-1', 'moderation', spam, 60000);
+      expect(query.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'key-1', classifier: 'moderation', result: spam })
+      );
+    });
+
+    it('should require a database connection', () => {
+      expect(() => createPostgresClassificationCache(null)).toThrow(
+        'The Postgres classification cache requires a Supabase connection'
+      );
+    });
+  });
+
+  describe('classifyText', () => {
+    const config = { provider: 'cache-test', apiKey: 'test-key' };
+    const labels = ['spam', 'ok'];
+
+    it('should reuse the result for the same text and count hits and misses', async () => {
+      const provider = createMockProvider(() => ({ content: 'spam', usage }));
+      registerProviderFactory('cache-test', () => provider);
+      const options = { classifier: 'moderation', cacheTtlMs: 60000 };
+
+      const first = await classifyText('Buy pills', labels, undefined, config, 'user-1', options);
+      const second = await classifyText('Buy pills', labels, undefined, config, 'user-1', options);
+      await classifyText('Buy pills', labels, undefined, config, 'user-1', { ...options, multiLabel: true });
+
+      expect(first).toMatchObject({ label: 'spam', usage });
+      expect(second).toMatchObject({ label: 'spam', cached: true, usage: { totalTokens: 0 } });
+      expect(provider.requests).toHaveLength(2);
+      expect(logUsageAndUpdateCost).toHaveBeenCalledTimes(2);
+      expect(getClassifierCacheMetrics()).toEqual([{ classifier: 'moderation', hits: 1, misses: 2, hitRate: 1 / 3 }]);
+    });
+
+    it('should not cache abstentions and carry on when the cache fails', async () => {
+      const provider = createMockProvider(() => ({ content: 'maybe', usage }));
+      registerProviderFactory('cache-test', () => provider);
+      const failing: ClassificationCache = {
+        name: 'failing',
+        get: jest.fn().mockRejectedValue(new Error('connection refused')),
+        set: jest.fn(),
+        delete: jest.fn(),
+      };
+      setClassificationCacheForTesting(failing);
+
+      const result = await classifyText('Hmm', labels, undefined, config, undefined, { cacheTtlMs: 60000 });
+
+      expect(result.abstained).toBe(true);
+      expect(failing.set).not.toHaveBeenCalled();
+      expect(getClassifierCacheMetrics()).toEqual([{ classifier: 'default', hits: 0, misses: 1, hitRate: 0 }]);
+    });
+  });
+
+  describe('classifyBatch', () => {
+    it('should only send the texts without a cached result', async () => {
+      const provider = createMockProvider((request) => ({
+        content: request.messages[1].content
+          .split('\n')
+          .map((line, index) => `${index + 1}: ${line.includes('pills') ? 'spam' : 'ok'}`)
+          .join('\n'),
+        usage,
+      }));
+      registerProviderFactory('cache-test', () => provider);
+      const config = { provider: 'cache-test', apiKey: 'test-key' };
+      const options = { classifier: 'moderation', cacheTtlMs: 60000 };
+      const labels = ['spam', 'ok'];
+
+      await classifyBatch(['Buy pills', 'Thanks'], labels, undefined, config, undefined, options);
+      const results = await classifyBatch(['Thanks', 'Cheap pills', 'Buy pills'], labels, undefined, config, undefined, options);
+
+      expect(provider.requests[1].messages[1].content).toBe('1: Cheap pills');
+      expect(results.map((result) => [result.label, Boolean(result.cached)])).toEqual([
+        ['ok', true],
+        ['spam', false],
+        ['spam', true],
+      ]);
+      expect(getClassifierCacheMetrics()[0]).toMatchObject({ hits: 2, misses: 3 });
+    });
+  });
+});
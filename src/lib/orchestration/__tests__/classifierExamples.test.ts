@@ -0,0 +1,137 @@
+import {
+  clearClassifierExamples,
+  registerClassifierExamples,
+  resolveClassifierExamples,
+} from '../classifierExamples';
+import { classifyBatch, classifyText, classifyWithFunctionCalling } from '../nanoClassifier';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider, MockProviderScript } from '../providers/mock';
+import { ValidationError } from '../../utils/error';
+
+jest.mock('../../billing/tokenUsage', () => ({
+  logUsageAndUpdateCost: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+const config = { provider: 'examples-test', apiKey: 'test-key' };
+const labels = ['billing', 'bug', 'other'];
+
+/**
+ * Register a mock provider with the given script
+ */
+function useScript(script: MockProviderScript) {
+  const provider = createMockProvider(script);
+  registerProviderFactory('examples-test', () => provider);
+  return provider;
+}
+
+describe('classifierExamples', () => {
+  beforeEach(() => {
+    clearClassifierExamples();
+    registerClassifierExamples('support', [
+      { text: 'I was charged twice', label: 'billing' },
+      { text: 'The app crashes on start', label: 'bug' },
+    ]);
+  });
+
+  describe('resolveClassifierExamples', () => {
+    it('should put the registered examples first', () => {
+      expect(
+        resolveClassifierExamples(labels, { classifier: 'support', examples: [{ text: 'Hi', label: 'other' }] })
+      ).toEqual([
+        { text: 'I was charged twice', label: 'billing' },
+        { text: 'The app crashes on start', label: 'bug' },
+        { text: 'Hi', label: 'other' },
+      ]);
+      expect(resolveClassifierExamples(labels, { classifier: 'unknown' })).toEqual([]);
+    });
+
+    it('should reject examples with labels the classification does not have', () => {
+      const resolve = () =>
+        resolveClassifierExamples(labels, {
+          examples: [
+            { text: 'Refund please', label: 'refund' as 'billing' },
+            { text: 'Crash and charge', label: ['bug', 'billing'] },
+          ],
+        });
+
+      expect(resolve).toThrow(ValidationError);
+      try {
+        resolve();
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual([
+          'Example 1 has an unknown label "refund"',
+          'Example 2 must have exactly one label',
+        ]);
+      }
+    });
+  });
+
+  describe('classifyText', () => {
+    it('should show the examples as earlier turns', async () => {
+      const provider = useScript([{ content: 'bug' }]);
+
+      await classifyText('It freezes when I log in', labels, undefined, config, undefined, { classifier: 'support' });
+
+      expect(provider.requests[0].messages.slice(1)).toEqual([
+        { role: 'user', content: 'I was charged twice' },
+        { role: 'assistant', content: 'billing' },
+        { role: 'user', content: 'The app crashes on start' },
+        { role: 'assistant', content: 'bug' },
+        { role: 'user', content: 'It freezes when I log in' },
+      ]);
+    });
+
+    it('should fail on invalid examples without calling the model', async () => {
+      const provider = useScript([{ content: 'bug' }]);
+
+      await expect(
+        classifyText('Hi', labels, undefined, config, undefined, { examples: [{ text: 'Hi', label: 'greeting' as 'other' }] })
+      ).rejects.toThrow(ValidationError);
+      expect(provider.requests).toHaveLength(0);
+    });
+  });
+
+  describe('classifyWithFunctionCalling', () => {
+    it('should show the examples as earlier calls to the function', async () => {
+      const provider = useScript([{ toolCalls: [{ name: 'classify', arguments: { topic: 'billing' } }] }]);
+
+      const result = await classifyWithFunctionCalling(
+        'Why is my invoice higher?',
+        { functionName: 'classify', parameterName: 'topic', labels, classifier: 'support' },
+        config
+      );
+
+      expect(result.label).toBe('billing');
+      expect(provider.requests[0].messages.slice(0, 3)).toEqual([
+        { role: 'user', content: 'I was charged twice' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'example_1', name: 'classify', arguments: { topic: 'billing' } }],
+        },
+        { role: 'tool', content: 'ok', name: 'classify', toolCallId: 'example_1' },
+      ]);
+      expect(provider.requests[0].messages).toHaveLength(7);
+    });
+  });
+
+  describe('classifyBatch', () => {
+    it('should show the examples as an earlier batch', async () => {
+      const provider = useScript([{ content: '1: bug, billing\n2: none' }]);
+
+      const results = await classifyBatch(['Crashed after paying', 'Hello'], labels, undefined, config, undefined, {
+        multiLabel: true,
+        examples: [
+          { text: 'Charged for a\nbroken feature', label: ['billing', 'bug'] },
+          { text: 'Thanks!', label: [] },
+        ],
+      });
+
+      expect(provider.requests[0].messages.slice(1, 3)).toEqual([
+        { role: 'user', content: '1: Charged for a broken feature\n2: Thanks!' },
+        { role: 'assistant', content: '1: billing, bug\n2: none' },
+      ]);
+      expect(results.map((result) => result.labels)).toEqual([['bug', 'billing'], []]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { ContextLengthError, fitMessagesToContext } from '../contextWindow';
+import { registerModel } from '../modelRegistry';
+import { countMessagesTokens } from '../tokenizer';
+import { Message } from '../types';
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn() },
+}));
+
+// A small model so that a few messages fill the window
+const config = { model: 'tiny-model', maxTokens: 100 };
+
+const words = (count: number) => Array.from({ length: count }, (_, index) => `word${index}`).join(' ');
+
+describe('contextWindow', () => {
+  beforeAll(() => {
+    registerModel('tiny-model', { contextWindow: 1100, maxOutputTokens: 500, encoding: 'cl100k_base' });
+  });
+
+  it('should send the conversation unchanged when it fits', () => {
+    const messages: Message[] = [
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'user', content: 'Hello' },
+    ];
+
+    const fit = fitMessagesToContext(messages, [], config);
+
+    expect(fit.messages).toEqual(messages);
+    expect(fit.limit).toBe(1000);
+    expect(fit.promptTokens).toBe(countMessagesTokens(messages, 'tiny-model'));
+    expect(fit.droppedMessages).toBe(0);
+  });
+
+  it('should drop the oldest history with its tool results first', () => {
+    const messages: Message[] = [
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'user', content: words(100) },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'search', arguments: {} }] },
+      { role: 'tool', content: words(480), toolCallId: 'call_1', name: 'search' },
+      { role: 'assistant', content: words(50) },
+      { role: 'user', content: 'And now?' },
+    ];
+
+    const fit = fitMessagesToContext(messages, [], config);
+
+    expect(fit.messages.map((message) => message.role)).toEqual(['system', 'assistant', 'user']);
+    expect(fit.droppedMessages).toBe(3);
+    expect(fit.promptTokens).toBeLessThanOrEqual(fit.limit);
+  });
+
+  it('should shorten tool results of the current instruction when history is not enough', () => {
+    const messages: Message[] = [
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'user', content: 'Search for it' },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'search', arguments: {} }] },
+      { role: 'tool', content: words(1000), toolCallId: 'call_1', name: 'search' },
+    ];
+
+    const fit = fitMessagesToContext(messages, [], config);
+
+    expect(fit.messages).toHaveLength(4);
+    expect(fit.truncatedMessages).toBe(1);
+    expect(fit.messages[3].content).toContain('[Truncated to fit the context window]');
+    expect(fit.promptTokens).toBeLessThanOrEqual(fit.limit);
+    // The original conversation is left untouched
+    expect(messages[3].content).toBe(words(1000));
+  });
+
+  it('should refuse to send a request that cannot fit', () => {
+    const messages: Message[] = [{ role: 'user', content: words(2000) }];
+
+    expect(() => fitMessagesToContext(messages, [], config)).toThrow(ContextLengthError);
+    expect(() => fitMessagesToContext(messages, [], config)).toThrow(/accepts 1000 after reserving 100/);
+  });
+});
@@ -0,0 +1,76 @@
+import { fallbackTitle, generateConversationTitle, titleConversation } from '../conversationTitles';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider, MockProviderResponse } from '../providers/mock';
+import { updateConversationTitle } from '../../conversations';
+import * as tokenUsage from '../../billing/tokenUsage';
+import { ApiError } from '../../utils/error';
+
+jest.mock('../../conversations', () => ({
+  updateConversationTitle: jest.fn().mockResolvedValue({ data: {}, error: null }),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn() },
+}));
+
+const usage = { promptTokens: 40, completionTokens: 5, totalTokens: 45 };
+
+/**
+ * Stand in for the title model
+ */
+function useTitleModel(script: MockProviderResponse[]) {
+  const provider = createMockProvider(script);
+  registerProviderFactory('openai', () => provider);
+  return provider;
+}
+
+describe('conversationTitles', () => {
+  let logUsage: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    logUsage = jest.spyOn(tokenUsage, 'logUsageAndUpdateCost').mockResolvedValue({ success: true });
+  });
+
+  afterEach(() => {
+    logUsage.mockRestore();
+  });
+
+  it('should shorten long text at a word boundary', () => {
+    expect(fallbackTitle('  Plan a\ntrip  ')).toBe('Plan a trip');
+
+    const title = fallbackTitle('Find me a quiet hotel near the river in Lisbon for three nights in the middle of May');
+    expect(title.length).toBeLessThanOrEqual(60);
+    expect(title).toBe('Find me a quiet hotel near the river in Lisbon for three…');
+  });
+
+  it('should write a clean title with the nano model and bill the user', async () => {
+    const provider = useTitleModel([{ content: '"Lisbon Hotel Search."', usage }]);
+
+    const title = await generateConversationTitle('user-1', 'Find me a hotel in Lisbon');
+
+    expect(title).toBe('Lisbon Hotel Search');
+    expect(provider.requests[0]).toMatchObject({ model: 'gpt-4.1-nano', maxTokens: 20 });
+    expect(logUsage).toHaveBeenCalledWith('user-1', 'gpt-4.1-nano', usage);
+  });
+
+  it('should store the title of the conversation', async () => {
+    useTitleModel([{ content: 'Lisbon Hotel Search', usage }]);
+
+    await titleConversation('user-1', 'conversation-1', 'Find me a hotel in Lisbon');
+
+    expect(updateConversationTitle).toHaveBeenCalledWith('user-1', 'conversation-1', 'Lisbon Hotel Search');
+  });
+
+  it('should title the conversation from the task when the model fails', async () => {
+    useTitleModel([{ error: new ApiError('Invalid request', 400) }]);
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const title = await titleConversation('user-1', 'conversation-1', 'Find me a hotel in Lisbon');
+
+    expect(title).toBe('Find me a hotel in Lisbon');
+    expect(updateConversationTitle).toHaveBeenCalledWith('user-1', 'conversation-1', 'Find me a hotel in Lisbon');
+    expect(logUsage).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,412 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  checkAssertion,
+  compareEvalReports,
+  EvalOutcome,
+  EvalReport,
+  EvalSuite,
+  formatEvalComparisonMarkdown,
+  formatEvalReportMarkdown,
+  includesValue,
+  loadEvalSuite,
+  parseEvalSuite,
+  runEvalSuite,
+  writeEvalReport,
+} from '../evals';
+import { setSupabaseClientForTesting } from '../runStore';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider, MockProviderScript } from '../providers/mock';
+import { ChatRequest } from '../providers/types';
+import { GPT41Config, Tool } from '../types';
+import { ValidationError } from '../../utils/error';
+
+jest.mock('../../billing/tokenUsage', () => ({
+  ...jest.requireActual('../../billing/tokenUsage'),
+  logUsageAndUpdateCost: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+const config: GPT41Config = { provider: 'eval-test', apiKey: 'test-key', model: 'gpt-4.1' };
+const judge: GPT41Config = { provider: 'eval-judge', apiKey: 'test-key', model: 'gpt-4.1-mini' };
+const usage = { promptTokens: 80, completionTokens: 20, totalTokens: 100 };
+const userId = '5f0c6a2e-8d7b-4c1a-9e3f-2b6d4a8c0e11';
+
+const outcome: EvalOutcome = {
+  instruction: 'What is the weather in Lisbon?',
+  response: '{"city": "Lisbon", "forecast": {"sky": "sunny", "high": 24}}',
+  stopReason: 'completed',
+  toolCalls: [{ name: 'get_weather', arguments: { city: 'Lisbon', unit: 'celsius' } }],
+  usage,
+  costUsd: 0.0003,
+};
+
+/**
+ * Register a scripted provider under a name
+ */
+function useProvider(name: string, script: MockProviderScript) {
+  const provider = createMockProvider(script);
+  registerProviderFactory(name, () => provider);
+  return provider;
+}
+
+/**
+ * Get the instruction a request was made for
+ */
+function instructionOf(request: ChatRequest): string {
+  return request.messages.find((message) => message.role === 'user')?.content ?? '';
+}
+
+/**
+ * Build a report with the given task outcomes
+ */
+function reportWith(label: string, tasks: Array<[string, boolean, number]>): EvalReport {
+  const results = tasks.map(([id, passed, totalTokens]) => ({
+    id,
+    passed,
+    stopReason: 'completed' as const,
+    response: '',
+    toolCalls: [],
+    usage: { promptTokens: totalTokens, completionTokens: 0, totalTokens },
+    costUsd: 0,
+    durationMs: 10,
+    assertions: [],
+  }));
+  const passed = results.filter((task) => task.passed).length;
+
+  return {
+    suite: 'weather',
+    label,
+    model: 'gpt-4.1',
+    startedAt: '2025-01-01T00:00:00.000Z',
+    durationMs: 10,
+    summary: {
+      tasks: results.length,
+      passed,
+      failed: results.length - passed,
+      passRate: passed / results.length,
+      totalTokens: results.reduce((total, task) => total + task.usage.totalTokens, 0),
+      costUsd: 0,
+    },
+    tasks: results,
+  };
+}
+
+describe('eval suites', () => {
+  it('should load the example YAML suite', async () => {
+    const suite = await loadEvalSuite(join(__dirname, '../../examples/evals/weather-assistant.yaml'));
+
+    expect(suite.name).toBe('weather-assistant');
+    expect(suite.tasks.map((task) => task.id)).toEqual(['current-weather', 'structured-answer', 'off-topic']);
+    expect(suite.tasks[0].assertions[0]).toEqual({
+      type: 'tool_called',
+      tool: 'get_weather',
+      arguments: { location: 'San Francisco, CA' },
+      times: 1,
+    });
+  });
+
+  it('should load a JSON suite', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'evals-'));
+    try {
+      const path = join(dir, 'suite.json');
+      await writeFile(
+        path,
+        JSON.stringify({
+          name: 'json-suite',
+          tasks: [{ id: 'a', instruction: 'Say hi', assertions: [{ type: 'regex', pattern: 'hi' }] }],
+        })
+      );
+
+      await expect(loadEvalSuite(path)).resolves.toMatchObject({ name: 'json-suite', tasks: [{ id: 'a' }] });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject invalid suites', () => {
+    const errorsOf = (value: unknown): string => {
+      try {
+        parseEvalSuite(value);
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        return JSON.stringify((error as ValidationError).details);
+      }
+      throw new Error('Expected the suite to be rejected');
+    };
+
+    expect(
+      errorsOf({
+        name: 'bad',
+        config: { apiKey: 'sk-should-not-be-here' },
+        tasks: [{ id: 'a', instruction: 'x', assertions: [{ type: 'unknown' }] }],
+      })
+    ).toMatch(/apiKey.*tasks\.0\.assertions\.0\.type/);
+    expect(
+      errorsOf({
+        name: 'duplicates',
+        tasks: [
+          { id: 'a', instruction: 'x', assertions: [] },
+          { id: 'a', instruction: 'y', assertions: [] },
+        ],
+      })
+    ).toMatch(/tasks\.1\.id: Duplicate task ID: a/);
+    expect(
+      errorsOf({
+        name: 'bad-regex',
+        tasks: [{ id: 'a', instruction: 'x', assertions: [{ type: 'regex', pattern: '(' }] }],
+      })
+    ).toMatch(/tasks\.0\.assertions\.0\.pattern: Invalid regular expression/);
+  });
+});
+
+describe('eval assertions', () => {
+  const options = { judge, userId };
+
+  it('should match values partially', () => {
+    expect(includesValue({ a: 1, b: [1, 2, 3] }, { b: [3] })).toBe(true);
+    expect(includesValue({ a: 1 }, { a: 2 })).toBe(false);
+    expect(includesValue([{ id: 1 }, { id: 2 }], [{ id: 2 }])).toBe(true);
+  });
+
+  it('should check tool calls, text, JSON and limits', async () => {
+    const check = (assertion: Parameters<typeof checkAssertion>[0]) => checkAssertion(assertion, outcome, options);
+
+    expect((await check({ type: 'tool_called', tool: 'get_weather', arguments: { city: 'Lisbon' } })).passed).toBe(
+      true
+    );
+    expect((await check({ type: 'tool_called', tool: 'get_weather', times: 2 })).passed).toBe(false);
+    expect((await check({ type: 'tool_not_called', tool: 'get_weather' })).passed).toBe(false);
+    expect((await check({ type: 'regex', pattern: 'LISBON', flags: 'i' })).passed).toBe(true);
+    expect((await check({ type: 'regex', pattern: 'rain', negate: true })).passed).toBe(true);
+    expect(
+      (
+        await check({
+          type: 'json',
+          schema: { type: 'object', required: ['city', 'forecast'] },
+          contains: { forecast: { sky: 'sunny' } },
+        })
+      ).passed
+    ).toBe(true);
+    expect((await check({ type: 'json', contains: { city: 'Porto' } })).message).toMatch(/does not include/);
+    expect((await check({ type: 'max_tokens', limit: 99 })).message).toBe('Used 100 tokens');
+    expect((await check({ type: 'max_cost', limit: 0.001 })).passed).toBe(true);
+    expect((await check({ type: 'stop_reason', equals: 'completed' })).passed).toBe(true);
+  });
+
+  it('should score rubrics with the judge model', async () => {
+    const provider = useProvider('eval-judge', [
+      { content: '{"score": 5, "reasoning": "Accurate."}', usage },
+      { content: '{"score": 2, "reasoning": "Missing the high."}', usage },
+      { content: 'I cannot grade this.', usage },
+    ]);
+
+    const good = await checkAssertion({ type: 'judge', rubric: 'Reports the forecast' }, outcome, options);
+    const poor = await checkAssertion({ type: 'judge', rubric: 'Reports the forecast' }, outcome, options);
+    const invalid = await checkAssertion({ type: 'judge', rubric: 'Reports the forecast' }, outcome, options);
+
+    expect(good).toMatchObject({ passed: true, score: 5, message: 'Accurate.' });
+    expect(poor).toMatchObject({ passed: false, score: 2 });
+    expect(invalid.passed).toBe(false);
+    expect(invalid.message).toMatch(/could not score/);
+    expect(provider.requests[0].model).toBe('gpt-4.1-mini');
+    expect(provider.requests[0].messages[1].content).toContain('get_weather({"city":"Lisbon","unit":"celsius"})');
+  });
+});
+
+describe('runEvalSuite', () => {
+  const lookupTool: Tool = {
+    name: 'lookup_order',
+    description: 'Look up an order',
+    parameters: { orderId: { type: 'string', description: 'The order' } },
+    execute: jest.fn().mockResolvedValue({ status: 'shipped' }),
+  };
+
+  const suite: EvalSuite = {
+    name: 'support',
+    tools: [{ name: 'get_weather', result: { forecast: 'sunny' } }],
+    tasks: [
+      {
+        id: 'weather',
+        instruction: 'What is the weather in Lisbon?',
+        assertions: [
+          { type: 'tool_called', tool: 'get_weather', arguments: { city: 'Lisbon' } },
+          { type: 'regex', pattern: 'sunny' },
+        ],
+      },
+      {
+        id: 'order',
+        instruction: 'Where is order 42?',
+        tools: ['lookup_order'],
+        assertions: [{ type: 'tool_called', tool: 'lookup_order' }, { type: 'max_tokens', limit: 150 }],
+      },
+      {
+        id: 'missing-tool',
+        instruction: 'Refund order 42',
+        tools: ['refund_order'],
+        assertions: [],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    setSupabaseClientForTesting(null);
+    useProvider('eval-test', (request) => {
+      const answered = request.messages.some((message) => message.role === 'tool');
+      if (instructionOf(request).includes('Lisbon')) {
+        return answered
+          ? { content: 'It is sunny in Lisbon.', usage }
+          : { toolCalls: [{ name: 'get_weather', arguments: { city: 'Lisbon' } }], usage };
+      }
+      return answered
+        ? { content: 'Order 42 has shipped.', usage }
+        : { toolCalls: [{ name: 'lookup_order', arguments: { orderId: '42' } }], usage };
+    });
+  });
+
+  it('should run the tasks and report their outcomes in suite order', async () => {
+    const completed: string[] = [];
+    const report = await runEvalSuite(suite, {
+      config,
+      userId,
+      tools: [lookupTool],
+      concurrency: 2,
+      label: 'candidate',
+      onTaskComplete: (result) => completed.push(result.id),
+    });
+
+    expect(report).toMatchObject({ suite: 'support', label: 'candidate', provider: 'eval-test', model: 'gpt-4.1' });
+    expect(report.tasks.map((task) => [task.id, task.passed])).toEqual([
+      ['weather', true],
+      ['order', false],
+      ['missing-tool', false],
+    ]);
+    expect(completed.sort()).toEqual(['missing-tool', 'order', 'weather']);
+
+    const [weather, order, missing] = report.tasks;
+    expect(weather.toolCalls).toEqual([{ name: 'get_weather', arguments: { city: 'Lisbon' } }]);
+    expect(weather.usage.totalTokens).toBe(200);
+    expect(weather.costUsd).toBeGreaterThan(0);
+    expect(order.assertions.map((assertion) => assertion.passed)).toEqual([true, false]);
+    expect(missing.error).toMatch(/refund_order/);
+    expect(report.summary).toMatchObject({ tasks: 3, passed: 1, failed: 2, totalTokens: 400 });
+    expect(lookupTool.execute).toHaveBeenCalledWith({ orderId: '42' }, expect.anything());
+  });
+
+  it('should give stub results to the model and apply the suite configuration', async () => {
+    const provider = useProvider('eval-test', (request) =>
+      request.messages.some((message) => message.role === 'tool')
+        ? { content: 'Sunny.', usage }
+        : { toolCalls: [{ name: 'get_weather', arguments: { city: 'Lisbon' } }], usage }
+    );
+
+    await runEvalSuite(
+      {
+        name: 'configured',
+        config: { temperature: 0.2, model: 'ignored-model' },
+        tasks: [
+          {
+            id: 'weather',
+            instruction: 'What is the weather in Lisbon?',
+            tools: [{ name: 'get_weather', result: { forecast: 'sunny' } }],
+            assertions: [],
+          },
+        ],
+      },
+      { config, userId }
+    );
+
+    expect(provider.requests[0]).toMatchObject({ model: 'gpt-4.1', temperature: 0.2 });
+    const toolMessage = provider.requests[1].messages.find((message) => message.role === 'tool');
+    expect(toolMessage?.content).toContain('sunny');
+  });
+
+  it('should fail an assertion that cannot be checked and carry on', async () => {
+    const report = await runEvalSuite(
+      {
+        name: 'unchecked',
+        tasks: [
+          {
+            id: 'weather',
+            instruction: 'What is the weather in Lisbon?',
+            tools: [{ name: 'get_weather', result: { forecast: 'sunny' } }],
+            assertions: [
+              { type: 'regex', pattern: '(' },
+              { type: 'regex', pattern: 'sunny' },
+            ],
+          },
+        ],
+      },
+      { config, userId }
+    );
+
+    const [task] = report.tasks;
+    expect(task.error).toBeUndefined();
+    expect(task.assertions.map((assertion) => assertion.passed)).toEqual([false, true]);
+    expect(task.assertions[0].message).toMatch(/The assertion could not be checked: Invalid regular expression/);
+  });
+
+  it('should require the UUID of the user to bill', async () => {
+    await expect(runEvalSuite(suite, { config, userId: 'eval-runner' })).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('eval reports', () => {
+  it('should format a report as Markdown with its failures', () => {
+    const report = reportWith('candidate', [
+      ['a', true, 100],
+      ['b', false, 50],
+    ]);
+    report.tasks[1].assertions = [
+      { type: 'regex', description: 'response matches /x/', passed: false, message: 'Response: y' },
+    ];
+
+    const markdown = formatEvalReportMarkdown(report);
+
+    expect(markdown).toContain('# Eval report: weather');
+    expect(markdown).toContain('**1/2 tasks passed (50.0%)**');
+    expect(markdown).toContain('| b | FAIL | completed | 50 |');
+    expect(markdown).toContain('- response matches /x/: Response: y');
+  });
+
+  it('should compare two reports task by task', () => {
+    const baseline = reportWith('main', [
+      ['a', true, 100],
+      ['b', false, 100],
+      ['c', true, 100],
+    ]);
+    const candidate = reportWith('change', [
+      ['a', false, 120],
+      ['b', true, 90],
+      ['d', true, 10],
+    ]);
+
+    const comparison = compareEvalReports(baseline, candidate);
+
+    expect(comparison.tasks).toEqual([
+      { id: 'a', change: 'regressed', totalTokensDelta: 20 },
+      { id: 'b', change: 'fixed', totalTokensDelta: -10 },
+      { id: 'd', change: 'added', totalTokensDelta: 10 },
+      { id: 'c', change: 'removed', totalTokensDelta: -100 },
+    ]);
+    expect(comparison.totalTokensDelta).toBe(-80);
+
+    const markdown = formatEvalComparisonMarkdown(comparison);
+    expect(markdown).toContain('# Eval comparison: main → change');
+    expect(markdown).toContain('1 fixed, 1 regressed, 1 added, 1 removed');
+  });
+
+  it('should write the report as JSON and Markdown', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'eval-reports-'));
+    try {
+      const report = reportWith('My Change', [['a', true, 100]]);
+      const { jsonPath, markdownPath } = await writeEvalReport(report, join(dir, 'out'));
+
+      expect(jsonPath).toBe(join(dir, 'out', 'weather-my-change.json'));
+      expect(JSON.parse(await readFile(jsonPath, 'utf8'))).toEqual(report);
+      expect(await readFile(markdownPath, 'utf8')).toBe(formatEvalReportMarkdown(report));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -232,7 +232,7 @@ describe('Fallback Automation', () => {
         result: { success: true, data: 'test data' },
       });
 
-      expect(mockExecute).toHaveBeenCalledWith({ arg1: 'value1' });
+      expect(mockExecute).toHaveBeenCalledWith({ arg1: 'value1' }, { signal: undefined });
     });
 
     it('should return an error result when the tool is not found', async () => {
@@ -281,7 +281,7 @@ describe('Fallback Automation', () => {
           result: { fallback: true },
         });
 
-        expect(mockExecute).toHaveBeenCalledWith({ arg1: 'value1' });
+        expect(mockExecute).toHaveBeenCalledWith({ arg1: 'value1' }, { signal: undefined });
       } finally {
         // Clean up
         withRetrySpy.mockRestore();
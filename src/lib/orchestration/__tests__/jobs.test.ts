@@ -0,0 +1,317 @@
+import { createInMemoryJobQueue } from '../jobs/memory';
+import { createPostgresJobQueue } from '../jobs/postgres';
+import { processJobs, processNextJob } from '../jobs/worker';
+import { OrchestrationJobPayload } from '../jobs/types';
+import { assertCallbackUrlAllowed, isPrivateAddress, setHostResolverForTesting } from '../jobs/callbackUrl';
+import { orchestrate } from '../orchestrator';
+import { combineMemoryWithInstruction } from '../contextIntegration';
+import { getToolRegistry } from '../../tools/registry';
+
+jest.mock('../orchestrator', () => ({
+  orchestrate: jest.fn(),
+}));
+jest.mock('../contextIntegration', () => ({
+  combineMemoryWithInstruction: jest.fn(),
+}));
+jest.mock('../../tools/registry', () => ({
+  getToolRegistry: jest.fn(),
+}));
+
+// Mock the global fetch function used for callbacks
+global.fetch = jest.fn();
+
+const payload: OrchestrationJobPayload = {
+  runId: 'run-1',
+  userId: 'user-1',
+  instruction: 'Summarize the news',
+  maxSteps: 5,
+};
+
+describe('orchestration jobs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setHostResolverForTesting(async () => ['93.184.216.34']);
+    (getToolRegistry as jest.Mock).mockReturnValue({ getAllTools: jest.fn().mockResolvedValue([]) });
+    (combineMemoryWithInstruction as jest.Mock).mockResolvedValue([
+      { role: 'user', content: 'Summarize the news' },
+    ]);
+  });
+
+  describe('in-process queue', () => {
+    it('should hand out jobs oldest first, one worker at a time', async () => {
+      const queue = createInMemoryJobQueue();
+      const first = await queue.enqueue(payload);
+      await queue.enqueue({ ...payload, runId: 'run-2' });
+
+      const claimed = await queue.claim(60000);
+      expect(claimed).toMatchObject({ id: first.id, status: 'running', attempts: 1 });
+
+      const next = await queue.claim(60000);
+      expect(next?.payload.runId).toBe('run-2');
+      expect(await queue.claim(60000)).toBeNull();
+    });
+
+    it('should claim a job again once the lease of a crashed worker expires', async () => {
+      let now = 0;
+      const queue = createInMemoryJobQueue({ now: () => now });
+      const job = await queue.enqueue(payload, { maxAttempts: 2 });
+
+      await queue.claim(1000);
+      expect(await queue.claim(1000)).toBeNull();
+
+      now = 5000;
+      expect(await queue.claim(1000)).toMatchObject({ id: job.id, attempts: 2 });
+
+      // The last attempt also crashed, so the job is given up on
+      now = 10000;
+      expect(await queue.claim(1000)).toBeNull();
+      expect(queue.getJob(job.id)).toMatchObject({
+        status: 'failed',
+        lastError: 'Worker stopped before finishing the job',
+      });
+    });
+
+    it('should queue a failed job again until it runs out of attempts', async () => {
+      const queue = createInMemoryJobQueue();
+      const job = await queue.enqueue(payload, { maxAttempts: 2 });
+
+      await queue.claim(1000);
+      await expect(queue.fail(job.id, new Error('Boom'))).resolves.toBe('queued');
+
+      await queue.claim(1000);
+      await expect(queue.fail(job.id, new Error('Boom again'))).resolves.toBe('failed');
+      expect(queue.getJob(job.id)?.lastError).toBe('Boom again');
+    });
+
+    it('should renew the lease of a running job only', async () => {
+      let now = 0;
+      const queue = createInMemoryJobQueue({ now: () => now });
+      const job = await queue.enqueue(payload);
+
+      await queue.claim(1000);
+      now = 900;
+      await expect(queue.renew(job.id, 1000)).resolves.toBe(true);
+
+      now = 1500;
+      expect(await queue.claim(1000)).toBeNull();
+
+      await queue.complete(job.id);
+      await expect(queue.renew(job.id, 1000)).resolves.toBe(false);
+    });
+
+    it('should notify when a job is enqueued', async () => {
+      const onEnqueue = jest.fn();
+      const queue = createInMemoryJobQueue({ onEnqueue });
+
+      const job = await queue.enqueue(payload);
+
+      expect(onEnqueue).toHaveBeenCalledWith(expect.objectContaining({ id: job.id }));
+    });
+  });
+
+  describe('worker', () => {
+    it('should run the job under its run ID and post the result to the callback URL', async () => {
+      const result = { response: 'Done', toolCalls: [], stopReason: 'completed', runId: 'run-1' };
+      (orchestrate as jest.Mock).mockResolvedValueOnce(result);
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true });
+
+      const queue = createInMemoryJobQueue();
+      const job = await queue.enqueue({ ...payload, callbackUrl: 'https://example.com/hook' });
+
+      await expect(processNextJob(queue)).resolves.toBe(true);
+
+      expect(orchestrate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          instruction: 'Summarize the news',
+          context: expect.objectContaining({ userId: 'user-1' }),
+          maxSteps: 5,
+          runId: 'run-1',
+        })
+      );
+      expect(queue.getJob(job.id)?.status).toBe('completed');
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toBe('https://example.com/hook');
+      expect(JSON.parse(options.body)).toEqual({ runId: 'run-1', status: 'completed', result });
+    });
+
+    it('should retry a job that throws and report the final failure', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (orchestrate as jest.Mock).mockRejectedValue(new Error('Worker crashed'));
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: true });
+
+      const queue = createInMemoryJobQueue();
+      const job = await queue.enqueue({ ...payload, callbackUrl: 'https://example.com/hook' }, { maxAttempts: 2 });
+
+      await expect(processJobs(queue)).resolves.toBe(2);
+
+      expect(orchestrate).toHaveBeenCalledTimes(2);
+      expect(queue.getJob(job.id)).toMatchObject({ status: 'failed', attempts: 2 });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)).toEqual({
+        runId: 'run-1',
+        status: 'failed',
+        error: 'Worker crashed',
+      });
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should renew the lease while the job runs', async () => {
+      const result = { response: 'Done', toolCalls: [], stopReason: 'completed' };
+      (orchestrate as jest.Mock).mockImplementationOnce(
+        () => new Promise((resolve) => setTimeout(() => resolve(result), 100))
+      );
+
+      const queue = createInMemoryJobQueue();
+      const renew = jest.spyOn(queue, 'renew');
+      await queue.enqueue(payload);
+
+      await processNextJob(queue, 60);
+      const renewals = renew.mock.calls.length;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(renewals).toBeGreaterThanOrEqual(2);
+      expect(renew).toHaveBeenCalledTimes(renewals);
+    });
+
+    it('should report the status the run ended in', async () => {
+      const result = { response: '', toolCalls: [], stopReason: 'awaiting_approval', runId: 'run-1' };
+      (orchestrate as jest.Mock).mockResolvedValueOnce(result);
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true });
+
+      const queue = createInMemoryJobQueue();
+      await queue.enqueue({ ...payload, callbackUrl: 'https://example.com/hook' });
+      await processNextJob(queue);
+
+      const [, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(options.redirect).toBe('manual');
+      expect(JSON.parse(options.body)).toMatchObject({ status: 'awaiting_approval' });
+    });
+
+    it('should not post the result to a host that resolves to a private address', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (orchestrate as jest.Mock).mockResolvedValueOnce({ response: 'Done', toolCalls: [], stopReason: 'completed' });
+      setHostResolverForTesting(async () => ['169.254.169.254']);
+
+      const queue = createInMemoryJobQueue();
+      const job = await queue.enqueue({ ...payload, callbackUrl: 'https://metadata.example.com/hook' });
+      await processNextJob(queue);
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(queue.getJob(job.id)?.status).toBe('completed');
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should stop after the given number of jobs', async () => {
+      (orchestrate as jest.Mock).mockResolvedValue({ response: 'Done', toolCalls: [], stopReason: 'completed' });
+
+      const queue = createInMemoryJobQueue();
+      await queue.enqueue(payload);
+      await queue.enqueue({ ...payload, runId: 'run-2' });
+
+      await expect(processJobs(queue, { maxJobs: 1 })).resolves.toBe(1);
+      expect(orchestrate).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('callback URLs', () => {
+    it.each([
+      ['127.0.0.1', true],
+      ['10.1.2.3', true],
+      ['172.31.0.1', true],
+      ['192.168.1.1', true],
+      ['169.254.169.254', true],
+      ['100.64.0.1', true],
+      ['::1', true],
+      ['fd00::1', true],
+      ['fe80::1', true],
+      ['::ffff:127.0.0.1', true],
+      ['93.184.216.34', false],
+      ['172.32.0.1', false],
+      ['2606:2800:220:1::1', false],
+    ])('should tell whether %s is private', (address, expected) => {
+      expect(isPrivateAddress(address)).toBe(expected);
+    });
+
+    it('should reject URLs that are not public http(s)', async () => {
+      await expect(assertCallbackUrlAllowed('https://example.com/hook')).resolves.toBeUndefined();
+      await expect(assertCallbackUrlAllowed('ftp://example.com/hook')).rejects.toThrow('Invalid callback URL');
+      await expect(assertCallbackUrlAllowed('http://127.0.0.1:3000/api')).rejects.toThrow('Invalid callback URL');
+      await expect(assertCallbackUrlAllowed('http://[::1]/api')).rejects.toThrow('Invalid callback URL');
+
+      setHostResolverForTesting(async () => ['93.184.216.34', '10.0.0.5']);
+      await expect(assertCallbackUrlAllowed('https://example.com/hook')).rejects.toThrow('Invalid callback URL');
+    });
+
+    it('should only allow the configured hosts when there are any', async () => {
+      process.env.JOB_CALLBACK_ALLOWED_HOSTS = 'hooks.example.com';
+      try {
+        await expect(assertCallbackUrlAllowed('https://hooks.example.com/a')).resolves.toBeUndefined();
+        await expect(assertCallbackUrlAllowed('https://example.com/a')).rejects.toThrow('Invalid callback URL');
+      } finally {
+        delete process.env.JOB_CALLBACK_ALLOWED_HOSTS;
+      }
+    });
+  });
+
+  describe('Postgres queue', () => {
+    it('should claim jobs through the claim function with a lease in seconds', async () => {
+      const rpc = jest.fn().mockResolvedValue({
+        data: [
+          {
+            id: 'job-1',
+            run_id: 'run-1',
+            user_id: 'user-1',
+            payload,
+            status: 'running',
+            attempts: 1,
+            max_attempts: 3,
+            locked_until: '2026-01-01T00:15:00.000Z',
+            last_error: null,
+            created_at: '2026-01-01T00:00:00.000Z',
+            updated_at: '2026-01-01T00:00:00.000Z',
+            completed_at: null,
+          },
+        ],
+        error: null,
+      });
+      const queue = createPostgresJobQueue({ rpc } as unknown as Parameters<typeof createPostgresJobQueue>[0]);
+
+      const job = await queue.claim(90500);
+
+      expect(rpc).toHaveBeenCalledWith('claim_orchestration_job', { lease_seconds: 91 });
+      expect(job).toEqual({
+        id: 'job-1',
+        payload,
+        status: 'running',
+        attempts: 1,
+        maxAttempts: 3,
+        lockedUntil: '2026-01-01T00:15:00.000Z',
+        lastError: null,
+      });
+    });
+
+    it('should renew the lease of a running job', async () => {
+      const query = {
+        update: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        select: jest.fn().mockResolvedValue({ data: [{ id: 'job-1' }], error: null }),
+      };
+      const queue = createPostgresJobQueue({ from: jest.fn().mockReturnValue(query) } as unknown as Parameters<
+        typeof createPostgresJobQueue
+      >[0]);
+
+      await expect(queue.renew('job-1', 60000)).resolves.toBe(true);
+      expect(query.update).toHaveBeenCalledWith(expect.objectContaining({ locked_until: expect.any(String) }));
+      expect(query.eq).toHaveBeenCalledWith('status', 'running');
+    });
+
+    it('should require a database connection', () => {
+      expect(() => createPostgresJobQueue(null)).toThrow(
+        'The Postgres job queue requires a Supabase connection'
+      );
+    });
+  });
+});
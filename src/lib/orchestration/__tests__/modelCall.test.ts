@@ -0,0 +1,58 @@
+import { callModel } from '../modelCall';
+import { CircuitOpenError, getCircuitBreaker, providerBreakerKey, resetCircuitBreakers } from '../circuitBreaker';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider } from '../providers/mock';
+import { Message } from '../types';
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const messages: Message[] = [{ role: 'user', content: 'Hello' }];
+
+/**
+ * Open the circuit breaker of a provider
+ */
+function openBreaker(providerName: string) {
+  const breaker = getCircuitBreaker(providerBreakerKey(providerName));
+  for (let i = 0; i < 5; i++) {
+    breaker.tryAcquire();
+    breaker.recordFailure();
+  }
+}
+
+describe('callModel', () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  it('should record the outcome of each call on the provider breaker', async () => {
+    registerProviderFactory('call-test', () => createMockProvider([{ content: 'Hi' }]));
+
+    const response = await callModel({ messages }, { provider: 'call-test', model: 'test-model' });
+
+    expect(response.message.content).toBe('Hi');
+    expect(getCircuitBreaker(providerBreakerKey('call-test')).getStatus()).toMatchObject({ calls: 1, failures: 0 });
+  });
+
+  it('should not call a provider whose breaker is open and fall back to the next model', async () => {
+    const down = createMockProvider([{ content: 'Should not be sent' }]);
+    const up = createMockProvider([{ content: 'From the fallback' }]);
+    registerProviderFactory('down-test', () => down);
+    registerProviderFactory('up-test', () => up);
+    openBreaker('down-test');
+
+    await expect(callModel({ messages }, { provider: 'down-test', model: 'test-model' })).rejects.toBeInstanceOf(
+      CircuitOpenError
+    );
+
+    const response = await callModel(
+      { messages },
+      { provider: 'down-test', model: 'test-model', fallbackModels: [{ provider: 'up-test', model: 'other-model' }] }
+    );
+
+    expect(response.message.content).toBe('From the fallback');
+    expect(down.requests).toHaveLength(0);
+    expect(up.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,78 @@
+import { callWithModelFallback, ModelTimeoutError, resolveModelChain } from '../modelFallback';
+import { RunCancelledError } from '../cancellation';
+
+jest.mock('../../utils/logger', () => ({
+  logger: { warn: jest.fn() },
+}));
+
+describe('modelFallback', () => {
+  describe('resolveModelChain', () => {
+    it('should let fallbacks inherit the settings they do not override', () => {
+      const chain = resolveModelChain({
+        model: 'gpt-4.1',
+        temperature: 0.2,
+        timeoutMs: 5000,
+        fallbackModels: [{ provider: 'anthropic', model: 'claude' }, { model: 'gpt-4.1-mini', timeoutMs: 2000 }],
+      });
+
+      expect(chain).toEqual([
+        { model: 'gpt-4.1', temperature: 0.2, timeoutMs: 5000 },
+        { provider: 'anthropic', model: 'claude', temperature: 0.2, timeoutMs: 5000 },
+        { model: 'gpt-4.1-mini', temperature: 0.2, timeoutMs: 2000 },
+      ]);
+    });
+
+    it('should only pass the API key and endpoint to fallbacks of the same provider', () => {
+      const chain = resolveModelChain({
+        model: 'gpt-4.1',
+        apiKey: 'openai-key',
+        endpoint: 'https://openai.example/v1',
+        fallbackModels: [
+          { provider: 'anthropic', model: 'claude' },
+          { provider: 'anthropic', model: 'claude-haiku', apiKey: 'anthropic-key' },
+          { provider: 'openai', model: 'gpt-4.1-mini' },
+        ],
+      });
+
+      expect(chain.slice(1)).toEqual([
+        { provider: 'anthropic', model: 'claude' },
+        { provider: 'anthropic', model: 'claude-haiku', apiKey: 'anthropic-key' },
+        { provider: 'openai', model: 'gpt-4.1-mini', apiKey: 'openai-key', endpoint: 'https://openai.example/v1' },
+      ]);
+    });
+  });
+
+  describe('callWithModelFallback', () => {
+    const chain = [{ model: 'primary', timeoutMs: 20 }, { model: 'secondary' }];
+
+    it('should time out a slow model and try the next one', async () => {
+      const call = jest
+        .fn()
+        .mockImplementationOnce(() => new Promise(() => {}))
+        .mockResolvedValueOnce('secondary answer');
+
+      await expect(callWithModelFallback(chain, call)).resolves.toBe('secondary answer');
+      expect(call.mock.calls[0][1].aborted).toBe(true);
+      expect(call.mock.calls[0][1].reason).toBeInstanceOf(ModelTimeoutError);
+    });
+
+    it('should throw the last error when every model fails', async () => {
+      const call = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('primary down'))
+        .mockRejectedValueOnce(new Error('secondary down'));
+
+      await expect(callWithModelFallback(chain, call)).rejects.toThrow('secondary down');
+    });
+
+    it('should not fall back when the run is cancelled or fallback is not allowed', async () => {
+      const cancelled = jest.fn().mockRejectedValue(new RunCancelledError());
+      await expect(callWithModelFallback(chain, cancelled)).rejects.toBeInstanceOf(RunCancelledError);
+      expect(cancelled).toHaveBeenCalledTimes(1);
+
+      const streamed = jest.fn().mockRejectedValue(new Error('stream broke'));
+      await expect(callWithModelFallback(chain, streamed, undefined, () => false)).rejects.toThrow('stream broke');
+      expect(streamed).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,4 +1,12 @@
-import { classifyText, classifyWithFunctionCalling } from '../nanoClassifier';
+import { classifyBatch, classifyText, classifyWithFunctionCalling, UNKNOWN_LABEL } from '../nanoClassifier';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider, MockProviderScript } from '../providers/mock';
+import { TokenLogprob } from '../providers/types';
+import { logUsageAndUpdateCost } from '../../billing/tokenUsage';
+
+jest.mock('../../billing/tokenUsage', () => ({
+  logUsageAndUpdateCost: jest.fn().mockResolvedValue({ success: true }),
+}));
 
 // Mock the global fetch function
 global.fetch = jest.fn();
@@ -62,7 +70,7 @@ describe('nanoClassifier', () => {
       });
     });
 
-    it('should throw an error if the response does not match any label', async () => {
+    it('should abstain if the response does not match any label', async () => {
       // Mock the API response with a non-matching label
       (global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: true,
@@ -77,23 +85,47 @@ describe('nanoClassifier', () => {
         }),
       });
 
-      // Mock the fallback function to avoid dynamic imports
-      jest.mock('../fallback', () => ({
-        withNanoFallback: jest.fn().mockImplementation(async (fn, ...args) => {
-          return fn(...args);
+      const result = await classifyText(
+        'I love this product!',
+        ['Positive', 'Negative', 'Neutral'],
+        'Classify the sentiment of this text.',
+        { apiKey: 'test-key' }
+      );
+
+      // The answer is not retried with GPT-4.1
+      expect(result).toMatchObject({ label: UNKNOWN_LABEL, abstained: true });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should derive the confidence from the token probabilities', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          choices: [
+            {
+              message: { content: 'Positive' },
+              logprobs: {
+                content: [
+                  { token: 'Pos', logprob: Math.log(0.9) },
+                  { token: 'itive', logprob: Math.log(0.5) },
+                ],
+              },
+            },
+          ],
         }),
-      }));
+      });
 
-      // Call the classifier and expect it to throw
-      await expect(
-        classifyText(
-          'I love this product!',
-          ['Positive', 'Negative', 'Neutral'],
-          'Classify the sentiment of this text.',
-          { apiKey: 'test-key' }
-        )
-      ).rejects.toThrow('Classification failed: response "Unknown" did not match any of the provided labels');
-    }, 10000);
+      const result = await classifyText(
+        'I love this product!',
+        ['Positive', 'Negative', 'Neutral'],
+        undefined,
+        { apiKey: 'test-key' }
+      );
+
+      expect(result.label).toBe('Positive');
+      expect(result.confidence).toBeCloseTo(0.45);
+      expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).logprobs).toBe(true);
+    });
 
     // Increase timeout for this test
     it('should handle API errors', async () => {
@@ -130,10 +162,16 @@ describe('nanoClassifier', () => {
           choices: [
             {
               message: {
-                function_call: {
-                  name: 'classifySentiment',
-                  arguments: '{"sentiment":"Positive"}',
-                },
+                tool_calls: [
+                  {
+                    id: 'call_1',
+                    type: 'function',
+                    function: {
+                      name: 'classifySentiment',
+                      arguments: '{"sentiment":"Positive"}',
+                    },
+                  },
+                ],
               },
             },
           ],
@@ -176,10 +214,14 @@ describe('nanoClassifier', () => {
           content: 'I love this product!',
         },
       ]);
-      expect(body.functions[0].name).toBe('classifySentiment');
-      expect(body.functions[0].parameters.properties.sentiment.enum).toEqual([
+      expect(body.tools[0].function.name).toBe('classifySentiment');
+      expect(body.tools[0].function.parameters.properties.sentiment.enum).toEqual([
         'Positive', 'Negative', 'Neutral',
       ]);
+      expect(body.tool_choice).toEqual({
+        type: 'function',
+        function: { name: 'classifySentiment' },
+      });
     });
 
     it('should throw an error if the function call is missing', async () => {
@@ -218,4 +260,102 @@ describe('nanoClassifier', () => {
       ).rejects.toThrow('Classification failed: expected function call not found in response');
     }, 10000);
   });
+  describe('with a mock provider', () => {
+    const config = { provider: 'classifier-test', apiKey: 'test-key' };
+    const labels = ['spam', 'abuse', 'ok'];
+
+    /**
+     * Split an answer into tokens of a few characters, each with the given probability
+     */
+    function tokens(content: string, probability: (token: string) => number = () => 1): TokenLogprob[] {
+      return (content.match(/[^]{1,3}/g) || []).map((token) => ({ token, logprob: Math.log(probability(token)) }));
+    }
+
+    /**
+     * Register a mock provider with the given script
+     */
+    function useScript(script: MockProviderScript) {
+      const provider = createMockProvider(script);
+      registerProviderFactory('classifier-test', () => provider);
+      return provider;
+    }
+
+    describe('classifyText', () => {
+      it('should keep every label above the threshold', async () => {
+        const content = 'spam, abuse, ok';
+        useScript([{ content, logprobs: tokens(content, (token) => (token.includes('ok') ? 0.2 : 0.9)) }]);
+
+        const result = await classifyText('Buy now, idiot', labels, undefined, config, undefined, {
+          multiLabel: true,
+          threshold: 0.5,
+        });
+
+        expect(result).toMatchObject({ label: 'spam', labels: ['spam', 'abuse'] });
+        expect(result.scores?.ok).toBeCloseTo(0.2);
+      });
+
+      it('should abstain when no label applies or the confidence is too low', async () => {
+        const provider = useScript([
+          { content: 'none' },
+          { content: 'spam', logprobs: tokens('spam', () => 0.6) },
+        ]);
+
+        const none = await classifyText('Hello', labels, undefined, config, undefined, { multiLabel: true });
+        const unsure = await classifyText('Hello', labels, undefined, config, undefined, { minConfidence: 0.5 });
+
+        expect(none).toMatchObject({ label: UNKNOWN_LABEL, abstained: true, labels: [] });
+        expect(unsure).toMatchObject({ label: UNKNOWN_LABEL, abstained: true });
+        expect(unsure.confidence).toBeCloseTo(0.36);
+        expect(provider.requests[0].messages[0].content).toMatch(/every one of these categories that applies/);
+      });
+    });
+
+    describe('classifyBatch', () => {
+      const usage = { promptTokens: 101, completionTokens: 13, totalTokens: 114 };
+
+      it('should classify many texts per request and split the usage between them', async () => {
+        const provider = useScript((request) => {
+          const count = request.messages[1].content.split('\n').length;
+          const content = Array.from({ length: count }, (_, index) => `${index + 1}: ${index % 2 ? 'ok' : 'spam'}`).join(
+            '\n'
+          );
+          return { content, usage, logprobs: tokens(content) };
+        });
+        const texts = ['Buy pills', 'Nice post', 'Cheap loans\nclick here', 'Thanks', 'Win a prize'];
+
+        const results = await classifyBatch(texts, labels, undefined, config, 'user-1', { maxBatchSize: 3 });
+
+        expect(provider.requests).toHaveLength(2);
+        expect(provider.requests[0].messages[1].content).toBe('1: Buy pills\n2: Nice post\n3: Cheap loans click here');
+        expect(results.map((result) => result.label)).toEqual(['spam', 'ok', 'spam', 'spam', 'ok']);
+        expect(results[0].confidence).toBe(1);
+
+        const sum = (key: keyof typeof usage, items: typeof results) =>
+          items.reduce((total, result) => total + result.usage[key], 0);
+        for (const chunk of [results.slice(0, 3), results.slice(3)]) {
+          expect(sum('promptTokens', chunk)).toBe(usage.promptTokens);
+          expect(sum('completionTokens', chunk)).toBe(usage.completionTokens);
+          expect(sum('totalTokens', chunk)).toBe(usage.totalTokens);
+        }
+        // The longer text carries more of the prompt
+        expect(results[2].usage.promptTokens).toBeGreaterThan(results[1].usage.promptTokens);
+        expect(logUsageAndUpdateCost).toHaveBeenCalledTimes(2);
+      });
+
+      it('should classify texts the answer leaves out one at a time', async () => {
+        const provider = useScript([
+          { content: '1: spam\n3: maybe', usage },
+          { content: 'ok', usage: { promptTokens: 20, completionTokens: 1, totalTokens: 21 } },
+        ]);
+
+        const results = await classifyBatch(['Buy pills', 'Nice post', 'Hmm'], labels, 'Flag unsolicited ads.', config);
+
+        expect(provider.requests).toHaveLength(2);
+        expect(provider.requests[0].messages[0].content).toMatch(/^Classify each of the numbered texts[^]*Flag unsolicited ads\./);
+        expect(provider.requests[1].messages[1].content).toBe('Nice post');
+        expect(results.map((result) => result.label)).toEqual(['spam', 'ok', UNKNOWN_LABEL]);
+        expect(results.reduce((total, result) => total + result.usage.totalTokens, 0)).toBe(usage.totalTokens + 21);
+      });
+    });
+  });
 });
\ No newline at end of file
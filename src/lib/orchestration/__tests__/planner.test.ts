@@ -0,0 +1,271 @@
+import { resolveStepArguments, runPlan, validatePlan, PLAN_TOOL_NAME } from '../planner';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider, MockProviderResponse } from '../providers/mock';
+import { TaskPlan, Tool, ToolCall, ToolCallResult } from '../types';
+
+const searchTool: Tool = {
+  name: 'web_search',
+  description: 'Search the web',
+  parameters: {
+    query: { type: 'string', description: 'The search query' },
+    limit: { type: 'number', description: 'Max results', optional: true },
+  },
+  execute: jest.fn(),
+};
+
+const summarizeTool: Tool = {
+  name: 'summarize',
+  description: 'Summarize text',
+  parameters: {
+    text: { type: 'string', description: 'The text to summarize' },
+  },
+  execute: jest.fn(),
+};
+
+const emailTool: Tool = {
+  name: 'send_email',
+  description: 'Send an email',
+  parameters: { to: { type: 'string', description: 'The recipient' } },
+  execute: jest.fn(),
+  requiresApproval: true,
+};
+
+const tools = [searchTool, summarizeTool, emailTool];
+
+/**
+ * Script a planner turn that submits the given plan
+ */
+function planTurn(plan: TaskPlan): MockProviderResponse {
+  return {
+    toolCalls: [{ name: PLAN_TOOL_NAME, arguments: plan }],
+    usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+  };
+}
+
+describe('planner', () => {
+  describe('validatePlan', () => {
+    it('should accept a valid plan', () => {
+      expect(
+        validatePlan(
+          {
+            steps: [
+              { id: 'a', tool: 'web_search', arguments: { query: 'cats' }, dependsOn: [] },
+              { id: 'b', tool: 'summarize', arguments: { text: '{{steps.a.result}}' }, dependsOn: ['a'] },
+            ],
+          },
+          tools
+        )
+      ).toEqual([]);
+    });
+
+    it('should report unknown tools, bad arguments and undeclared dependencies', () => {
+      const errors = validatePlan(
+        {
+          steps: [
+            { id: 'a', tool: 'translate', arguments: {}, dependsOn: [] },
+            { id: 'b', tool: 'web_search', arguments: { limit: 'ten', lang: 'en' }, dependsOn: ['z'] },
+            { id: 'c', tool: 'summarize', arguments: { text: '{{steps.b.result}}' }, dependsOn: [] },
+            { id: 'd', tool: 'send_email', arguments: { to: 'a@example.com' }, dependsOn: [] },
+          ],
+        },
+        tools
+      );
+
+      expect(errors).toEqual([
+        "Step 'a' uses unknown tool 'translate'.",
+        "Step 'b' depends on unknown step 'z'.",
+        "Step 'b' is missing required argument 'query' for 'web_search'.",
+        "Step 'b' passes argument 'limit' with the wrong type; expected number.",
+        "Step 'b' passes unknown argument 'lang' to 'web_search'.",
+        "Step 'c' uses the result of 'b' without depending on it.",
+        "Step 'd' uses 'send_email', which requires approval and cannot be planned.",
+      ]);
+    });
+
+    it('should reject cycles and duplicate IDs', () => {
+      const errors = validatePlan(
+        {
+          steps: [
+            { id: 'a', tool: 'summarize', arguments: { text: 'x' }, dependsOn: ['b'] },
+            { id: 'b', tool: 'summarize', arguments: { text: 'y' }, dependsOn: ['a'] },
+            { id: 'done', tool: 'summarize', arguments: { text: 'z' }, dependsOn: [] },
+          ],
+        },
+        tools,
+        ['done']
+      );
+
+      expect(errors).toContain("Step ID 'done' is used more than once.");
+      expect(errors).toContain('The step dependencies contain a cycle.');
+    });
+  });
+
+  describe('resolveStepArguments', () => {
+    it('should substitute whole values, paths and embedded templates', () => {
+      const results = new Map<string, unknown>([['search', { items: [{ url: 'https://a.example' }], count: 2 }]]);
+
+      expect(
+        resolveStepArguments(
+          {
+            first: '{{steps.search.result.items.0.url}}',
+            all: '{{ steps.search.result }}',
+            text: 'Found {{steps.search.result.count}} results',
+            nested: ['{{steps.search.result.count}}'],
+          },
+          results
+        )
+      ).toEqual({
+        first: 'https://a.example',
+        all: { items: [{ url: 'https://a.example' }], count: 2 },
+        text: 'Found 2 results',
+        nested: [2],
+      });
+    });
+  });
+
+  describe('runPlan', () => {
+    const fakeExecute = (outcomes: Record<string, unknown>) =>
+      jest.fn(async (toolCalls: ToolCall[]): Promise<ToolCallResult[]> =>
+        toolCalls.map((toolCall) => {
+          const outcome = outcomes[toolCall.id];
+          return outcome instanceof Error
+            ? { toolCallId: toolCall.id, toolName: toolCall.name, result: null, error: outcome }
+            : { toolCallId: toolCall.id, toolName: toolCall.name, result: outcome };
+        })
+      );
+
+    it('should run independent steps together and feed results into dependent steps', async () => {
+      registerProviderFactory('planner-test', () =>
+        createMockProvider([
+          planTurn({
+            steps: [
+              { id: 'cats', tool: 'web_search', arguments: { query: 'cats' }, dependsOn: [] },
+              { id: 'dogs', tool: 'web_search', arguments: { query: 'dogs' }, dependsOn: [] },
+              {
+                id: 'sum',
+                tool: 'summarize',
+                arguments: { text: '{{steps.cats.result.top}} and {{steps.dogs.result.top}}' },
+                dependsOn: ['cats', 'dogs'],
+              },
+            ],
+          }),
+        ])
+      );
+      const executeToolCalls = fakeExecute({
+        plan_0_cats: { top: 'Cats purr' },
+        plan_0_dogs: { top: 'Dogs bark' },
+        plan_0_sum: 'Pets make noise',
+      });
+      const onModelCall = jest.fn();
+
+      const outcome = await runPlan({
+        instruction: 'Compare cats and dogs',
+        tools,
+        config: { provider: 'planner-test', model: 'test' },
+        executeToolCalls,
+        onModelCall,
+      });
+
+      expect(executeToolCalls).toHaveBeenCalledTimes(2);
+      expect(executeToolCalls.mock.calls[0][0].map((toolCall: ToolCall) => toolCall.id)).toEqual([
+        'plan_0_cats',
+        'plan_0_dogs',
+      ]);
+      expect(executeToolCalls.mock.calls[1][0][0].arguments).toEqual({ text: 'Cats purr and Dogs bark' });
+      expect(outcome.execution.status).toBe('completed');
+      expect(outcome.execution.steps.map((step) => step.status)).toEqual(['completed', 'completed', 'completed']);
+      expect(outcome.toolResults).toHaveLength(3);
+      expect(onModelCall).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip dependents of a failed step and re-plan from the completed results', async () => {
+      const provider = createMockProvider([
+        planTurn({
+          steps: [
+            { id: 'search', tool: 'web_search', arguments: { query: 'cats' }, dependsOn: [] },
+            { id: 'sum', tool: 'summarize', arguments: { text: '{{steps.search.result}}' }, dependsOn: ['search'] },
+          ],
+        }),
+        planTurn({
+          steps: [
+            { id: 'search2', tool: 'web_search', arguments: { query: 'kittens' }, dependsOn: [] },
+            { id: 'sum2', tool: 'summarize', arguments: { text: '{{steps.search2.result}}' }, dependsOn: ['search2'] },
+          ],
+        }),
+      ]);
+      registerProviderFactory('planner-test', () => provider);
+
+      const outcome = await runPlan({
+        instruction: 'Summarize cats',
+        tools,
+        config: { provider: 'planner-test', model: 'test' },
+        executeToolCalls: fakeExecute({
+          plan_0_search: new Error('Search is down'),
+          plan_1_search2: 'Kittens are small',
+          plan_1_sum2: 'Small cats',
+        }),
+      });
+
+      expect(outcome.execution.replans).toBe(1);
+      expect(outcome.execution.status).toBe('completed');
+      expect(outcome.execution.steps.map((step) => `${step.stepId}:${step.status}`)).toEqual([
+        'search:failed',
+        'sum:skipped',
+        'search2:completed',
+        'sum2:completed',
+      ]);
+
+      const replanRequest = provider.requests[1].messages[provider.requests[1].messages.length - 1];
+      expect(replanRequest.role).toBe('tool');
+      expect(replanRequest.content).toContain('search (web_search): Search is down');
+    });
+
+    it('should give each attempt its own call IDs when a new plan reuses a failed step ID', async () => {
+      registerProviderFactory('planner-test', () =>
+        createMockProvider([
+          planTurn({ steps: [{ id: 'search', tool: 'web_search', arguments: { query: 'cats' }, dependsOn: [] }] }),
+          planTurn({ steps: [{ id: 'search', tool: 'web_search', arguments: { query: 'kittens' }, dependsOn: [] }] }),
+        ])
+      );
+
+      const outcome = await runPlan({
+        instruction: 'Search for cats',
+        tools,
+        config: { provider: 'planner-test', model: 'test' },
+        executeToolCalls: fakeExecute({
+          plan_0_search: new Error('Search is down'),
+          plan_1_search: 'Kittens are small',
+        }),
+      });
+
+      expect(outcome.execution.status).toBe('completed');
+      expect(outcome.toolCalls.map((toolCall) => toolCall.id)).toEqual(['plan_0_search', 'plan_1_search']);
+    });
+
+    it('should report an invalid plan after running out of revisions', async () => {
+      const provider = createMockProvider([
+        planTurn({ steps: [{ id: 'a', tool: 'translate', arguments: {}, dependsOn: [] }] }),
+        { content: 'I would rather not plan' },
+      ]);
+      registerProviderFactory('planner-test', () => provider);
+      const executeToolCalls = fakeExecute({});
+
+      const outcome = await runPlan({
+        instruction: 'Translate this',
+        tools,
+        config: { provider: 'planner-test', model: 'test' },
+        maxReplans: 1,
+        executeToolCalls,
+      });
+
+      expect(executeToolCalls).not.toHaveBeenCalled();
+      expect(outcome.execution).toEqual({
+        plan: undefined,
+        steps: [],
+        replans: 1,
+        status: 'invalid',
+        validationErrors: [`No plan was submitted; call ${PLAN_TOOL_NAME}.`],
+      });
+    });
+  });
+});
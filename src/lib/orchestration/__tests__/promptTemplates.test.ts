@@ -0,0 +1,315 @@
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  CLASSIFIER_PROMPT,
+  createPromptTemplateVersion,
+  FUNCTION_CLASSIFIER_PROMPT,
+  ORCHESTRATOR_PROMPT,
+  PromptTemplate,
+  renderBuiltInPrompt,
+  renderPrompt,
+  renderPromptTemplate,
+  resolvePromptTemplate,
+  ROUTER_DOMAIN_PROMPT,
+  setPromptTemplateSupabaseClientForTesting,
+  validatePromptTemplate,
+} from '../promptTemplates';
+import { orchestrate } from '../orchestrator';
+import { setSupabaseClientForTesting } from '../runStore';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider } from '../providers/mock';
+import { createSystemMessage } from '../utils';
+import { classifyText } from '../nanoClassifier';
+import { Tool } from '../types';
+import { ApiError, ValidationError } from '../../utils/error';
+
+jest.mock('../../billing/tokenUsage', () => ({
+  logUsageAndUpdateCost: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+const greeting: PromptTemplate = {
+  name: 'greeting',
+  version: 1,
+  body: 'Hello {{name}}.{{#interests}} You like {{interests}}.{{/interests}}{{^vip}} Welcome!{{/vip}}',
+  variables: {
+    name: { type: 'string', required: true },
+    interests: { type: 'list' },
+    vip: { type: 'boolean', default: false },
+  },
+};
+
+const tools: Tool[] = [
+  { name: 'web_search', description: 'Search the web', parameters: {}, execute: jest.fn() },
+  { name: 'send_email', description: 'Send an email', parameters: {}, execute: jest.fn() },
+];
+
+/**
+ * A stored template row
+ */
+function templateRow(fields: Record<string, unknown>) {
+  return {
+    id: `template-${fields.version}`,
+    name: ORCHESTRATOR_PROMPT,
+    body: '{{role}} v{{version}}',
+    variables: { role: { type: 'string', default: 'Agent' }, version: { type: 'string' } },
+    user_id: null,
+    persona: null,
+    created_at: '2026-10-01T00:00:00Z',
+    ...fields,
+  };
+}
+
+/**
+ * Create a Supabase client whose queries resolve with the given rows per table
+ */
+function createMockClient(rows: Record<string, unknown[]>, error: unknown = null) {
+  const queries: Array<{ table: string; calls: Array<[string, ...unknown[]]> }> = [];
+
+  const client = {
+    from: jest.fn((table: string) => {
+      const query = { table, calls: [] as Array<[string, ...unknown[]]> };
+      queries.push(query);
+      const builder: Record<string, unknown> = {};
+      ['select', 'eq', 'or', 'is', 'order', 'limit'].forEach((method) => {
+        builder[method] = jest.fn((...args: unknown[]) => {
+          query.calls.push([method, ...args]);
+          return builder;
+        });
+      });
+      builder.then = (resolve: (value: unknown) => unknown) => resolve({ data: rows[table] || [], error });
+      builder.maybeSingle = jest.fn(async () => ({ data: (rows[table] || [])[0] ?? null, error }));
+      builder.insert = jest.fn((row: Record<string, unknown>) => {
+        query.calls.push(['insert', row]);
+        return { select: () => ({ single: async () => ({ data: { id: 'new', ...row }, error: null }) }) };
+      });
+      return builder;
+    }),
+  };
+
+  return {
+    client: client as unknown as Parameters<typeof setPromptTemplateSupabaseClientForTesting>[0],
+    queries,
+  };
+}
+
+describe('promptTemplates', () => {
+  beforeEach(() => {
+    setPromptTemplateSupabaseClientForTesting(null);
+  });
+
+  describe('renderPromptTemplate', () => {
+    it('should fill in variables, sections and defaults', () => {
+      expect(renderPromptTemplate(greeting, { name: 'Ana', interests: ['maps', 'trains'] }).content).toBe(
+        'Hello Ana. You like maps, trains. Welcome!'
+      );
+      expect(renderPromptTemplate(greeting, { name: 'Ana', interests: [], vip: true }).content).toBe('Hello Ana.');
+    });
+
+    it('should reject missing and mistyped variables', () => {
+      expect.assertions(2);
+      expect(()=> renderPromptTemplate(greeting, {})).toThrow(ValidationError);
+
+      try {
+        renderPromptTemplate(greeting, { name: 'Ana', vip: 'yes' });
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual(['vip must be a boolean']);
+      }
+    });
+
+    it('should include partials and record their versions', () => {
+      const page: PromptTemplate = { name: 'page', version: 3, body: '[{{> greeting}}]', variables: {} };
+
+      expect(renderPromptTemplate(page, { name: 'Ana', vip: true }, { greeting })).toEqual({
+        content: '[Hello Ana.]',
+        template: 'page',
+        version: 3,
+        versions: { page: 3, greeting: 1 },
+      });
+      expect(() => renderPromptTemplate(page, {}, {})).toThrow(ValidationError);
+      expect(() => renderPromptTemplate(page, {}, { greeting: { ...page, name: 'greeting' } })).toThrow(
+        ValidationError
+      );
+    });
+
+    it('should render the built-in prompts exactly as before', async () => {
+      expect(await createSystemMessage(tools, 'The user is in Lisbon')).toBe(
+        `You are an intelligent orchestrator that helps users accomplish tasks by calling appropriate tools.
+
+Available tools:
+web_search: Search the web
+send_email: Send an email
+
+Additional context:
+The user is in Lisbon
+
+
+When a user gives you an instruction, analyze it carefully and determine which tools to call and in what order.
+Always respond with tool calls when appropriate rather than trying to perform the task yourself.
+If you need more information from the user before you can proceed, ask for it.
+If a tool call fails, try to recover gracefully or suggest alternatives.
+After completing all necessary tool calls, provide a helpful summary of what was done.`
+      );
+      expect(await createSystemMessage(tools)).toContain('send_email: Send an email\n\n\n\nWhen a user gives you');
+      expect(renderBuiltInPrompt(CLASSIFIER_PROMPT, { labels: ['spam', 'ham'] })).toBe(
+        'Classify the following text into one of these categories: spam, ham. ' +
+          'Respond with ONLY the category name, nothing else.'
+      );
+      expect(renderBuiltInPrompt(ROUTER_DOMAIN_PROMPT, { domains: '- travel: Trips and bookings' })).toBe(
+        'Classify the domain of this task into one of these categories:\n' +
+          '- travel: Trips and bookings\n' +
+          'Respond with ONLY the category name, nothing else.'
+      );
+      expect(renderBuiltInPrompt(FUNCTION_CLASSIFIER_PROMPT, { labels: ['spam', 'ham'] })).toBe(
+        'Classify text into one of these categories: spam, ham'
+      );
+    });
+  });
+
+  describe('validatePromptTemplate', () => {
+    it('should report undeclared variables, bad defaults and unclosed sections', () => {
+      expect(validatePromptTemplate(greeting)).toEqual([]);
+      expect(
+        validatePromptTemplate({
+          body: '{{#vip}}Hi {{nickname}}',
+          variables: { vip: { type: 'boolean', default: 'no' } },
+        })
+      ).toEqual(['The default of vip is not a boolean', 'Section {{#vip}} is not closed']);
+      expect(validatePromptTemplate({ body: 'Hi {{nickname}}', variables: {} })).toEqual([
+        'nickname is not a declared variable',
+      ]);
+    });
+  });
+
+  describe('resolvePromptTemplate', () => {
+    it('should prefer the most specific stored version', async () => {
+      const { client, queries } = createMockClient({
+        prompt_templates: [
+          templateRow({ version: 4 }),
+          templateRow({ version: 3, user_id: 'user-1' }),
+          templateRow({ version: 2, persona: 'travel-agent' }),
+          templateRow({ version: 1, user_id: 'user-1', persona: 'travel-agent' }),
+        ],
+      });
+      setPromptTemplateSupabaseClientForTesting(client);
+
+      const template = await resolvePromptTemplate(ORCHESTRATOR_PROMPT, { userId: 'user-1', persona: 'travel-agent' });
+
+      expect(template).toMatchObject({ version: 1, userId: 'user-1', persona: 'travel-agent' });
+      expect(queries[0].calls).toEqual(
+        expect.arrayContaining([
+          ['or', 'user_id.is.null,user_id.eq.user-1'],
+          ['or', 'persona.is.null,persona.eq.travel-agent'],
+        ])
+      );
+    });
+
+    it('should use the built-in template when none is stored or the store fails', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(resolvePromptTemplate(ORCHESTRATOR_PROMPT)).resolves.toBe(
+        BUILT_IN_PROMPT_TEMPLATES[ORCHESTRATOR_PROMPT]
+      );
+      setPromptTemplateSupabaseClientForTesting(createMockClient({}, new Error('offline')).client);
+      await expect(resolvePromptTemplate(ORCHESTRATOR_PROMPT, { userId: 'user-1' })).resolves.toBe(
+        BUILT_IN_PROMPT_TEMPLATES[ORCHESTRATOR_PROMPT]
+      );
+      await expect(resolvePromptTemplate('unknown')).rejects.toBeInstanceOf(ApiError);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('renderPrompt', () => {
+    it('should render with the persona\'s variables', async () => {
+      setPromptTemplateSupabaseClientForTesting(
+        createMockClient({
+          personas: [{ name: 'travel-agent', description: null, variables: { role: 'You plan trips.' }, user_id: null }],
+        }).client
+      );
+
+      const prompt = await renderPrompt(
+        ORCHESTRATOR_PROMPT,
+        { tools: 'web_search: Search the web', additionalContext: undefined },
+        { userId: 'user-1', persona: 'travel-agent' }
+      );
+
+      expect(prompt.content.startsWith('You plan trips.\n\nAvailable tools:\nweb_search: Search the web')).toBe(true);
+      expect(prompt).toMatchObject({
+        template: ORCHESTRATOR_PROMPT,
+        version: 0,
+        versions: { [ORCHESTRATOR_PROMPT]: 0, 'orchestrator.guidelines': 0 },
+        persona: 'travel-agent',
+      });
+    });
+
+    it('should apply stored overrides of the classifier prompts', async () => {
+      setPromptTemplateSupabaseClientForTesting(
+        createMockClient({
+          prompt_templates: [
+            templateRow({
+              name: CLASSIFIER_PROMPT,
+              version: 2,
+              body: 'Pick one of {{labels}}.',
+              variables: { labels: { type: 'list', required: true } },
+              user_id: 'user-1',
+            }),
+          ],
+        }).client
+      );
+      const provider = createMockProvider([{ content: 'spam' }]);
+      registerProviderFactory('prompt-test', () => provider);
+
+      await classifyText('Buy pills', ['spam', 'ham'], undefined, { provider: 'prompt-test', apiKey: 'test-key' }, 'user-1');
+
+      expect(provider.requests[0].messages[0].content).toBe('Pick one of spam, ham.');
+    });
+
+    it('should reject an unknown persona', async () => {
+      await expect(
+        renderPrompt(ORCHESTRATOR_PROMPT, { tools: '' }, { userId: 'user-1', persona: 'pirate' })
+      ).rejects.toThrow('Unknown persona: pirate');
+    });
+  });
+
+  describe('createPromptTemplateVersion', () => {
+    it('should store a valid template as the next version', async () => {
+      const { client, queries } = createMockClient({ prompt_templates: [{ version: 4 }] });
+      setPromptTemplateSupabaseClientForTesting(client);
+
+      const stored = await createPromptTemplateVersion({ ...greeting, userId: 'user-1' });
+
+      expect(stored).toMatchObject({ name: 'greeting', version: 5, userId: 'user-1' });
+      expect(queries[1].calls[0]).toEqual(['insert', expect.objectContaining({ version: 5, persona: null })]);
+      await expect(
+        createPromptTemplateVersion({ name: 'broken', body: '{{missing}}', variables: {} })
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
+  it('should record the template versions a run was prompted with', async () => {
+    const upserts: Record<string, unknown>[] = [];
+    setSupabaseClientForTesting({
+      from: jest.fn(() => ({
+        upsert: jest.fn(async (row: Record<string, unknown>) => {
+          upserts.push(row);
+          return { error: null };
+        }),
+        update: jest.fn(() => ({ eq: jest.fn().mockResolvedValue({ error: null }) })),
+      })),
+    } as unknown as Parameters<typeof setSupabaseClientForTesting>[0]);
+    const provider = createMockProvider([{ content: 'Done' }]);
+    registerProviderFactory('prompt-test', () => provider);
+
+    await orchestrate(
+      { instruction: 'Search for flights', context: { userId: 'user-1' }, tools },
+      { provider: 'prompt-test', apiKey: 'test-key', model: 'gpt-4.1' }
+    );
+
+    expect(provider.requests[0].messages[0].content).toBe(await createSystemMessage(tools));
+    expect(upserts[0]).toMatchObject({
+      prompt_template: ORCHESTRATOR_PROMPT,
+      prompt_version: 0,
+      prompt_versions: { [ORCHESTRATOR_PROMPT]: 0, 'orchestrator.guidelines': 0 },
+      persona: null,
+    });
+    setSupabaseClientForTesting(null);
+  });
+});
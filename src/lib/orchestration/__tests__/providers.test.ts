@@ -0,0 +1,283 @@
+import {
+  createProvider,
+  registerProviderFactory,
+  hasProvider,
+  getProviderNames,
+} from '../providers/registry';
+import { createOpenAIProvider, createOpenAICompatibleProvider } from '../providers/openai';
+import { createAnthropicProvider, formatMessagesForAnthropic } from '../providers/anthropic';
+import { createMockProvider } from '../providers/mock';
+import { Message, Tool } from '../types';
+
+// Mock the global fetch function
+global.fetch = jest.fn();
+
+const testTool: Tool = {
+  name: 'web_search',
+  description: 'Search the web',
+  parameters: {
+    query: { type: 'string', description: 'The search query' },
+    limit: { type: 'number', description: 'Max results', optional: true },
+  },
+  execute: jest.fn(),
+};
+
+describe('LLM providers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('registry', () => {
+    it('should register the built-in providers', () => {
+      expect(getProviderNames()).toEqual(
+        expect.arrayContaining(['openai', 'anthropic', 'openai-compatible', 'mock'])
+      );
+    });
+
+    it('should create registered providers by name', () => {
+      registerProviderFactory('custom', () => createMockProvider());
+
+      expect(hasProvider('custom')).toBe(true);
+      expect(createProvider('custom').name).toBe('mock');
+    });
+
+    it('should throw for unknown providers', () => {
+      expect(() => createProvider('unknown')).toThrow("LLM provider 'unknown' is not registered");
+    });
+  });
+
+  describe('openai', () => {
+    it('should send tools and normalize tool calls and usage', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          choices: [
+            {
+              message: {
+                content: null,
+                tool_calls: [
+                  {
+                    id: 'call_1',
+                    type: 'function',
+                    function: { name: 'web_search', arguments: '{"query":"news"}' },
+                  },
+                ],
+              },
+              finish_reason: 'tool_calls',
+            },
+          ],
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        }),
+      });
+
+      const provider = createOpenAIProvider({ apiKey: 'test-key' });
+      const response = await provider.chat({
+        model: 'gpt-4.1',
+        messages: [{ role: 'user', content: 'Search the news' }],
+        tools: [testTool],
+      });
+
+      expect(response.message).toEqual({
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'call_1', name: 'web_search', arguments: { query: 'news' } }],
+      });
+      expect(response.usage).toEqual({ promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+      expect(response.finishReason).toBe('tool_calls');
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toBe('https://api.openai.com/v1/chat/completions');
+      expect(options.headers.Authorization).toBe('Bearer test-key');
+
+      const body = JSON.parse(options.body);
+      expect(body.tools[0].function.parameters).toEqual({
+        type: 'object',
+        properties: testTool.parameters,
+        required: ['query'],
+      });
+    });
+
+    it('should throw an ApiError with the status on failure', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        text: async () => 'rate limited',
+      });
+
+      const provider = createOpenAIProvider({ apiKey: 'test-key' });
+
+      await expect(
+        provider.chat({ model: 'gpt-4.1', messages: [{ role: 'user', content: 'Hi' }] })
+      ).rejects.toMatchObject({
+        message: 'openai API error: 429 rate limited',
+        statusCode: 429,
+      });
+    });
+
+    it('should pass on the Retry-After delay', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'Retry-After': '2' }),
+        text: async () => 'rate limited',
+      });
+
+      const provider = createOpenAIProvider({ apiKey: 'test-key' });
+
+      await expect(
+        provider.chat({ model: 'gpt-4.1', messages: [{ role: 'user', content: 'Hi' }] })
+      ).rejects.toMatchObject({ statusCode: 429, details: { retryAfterMs: 2000 } });
+    });
+
+    it('should talk to a local server without an API key', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: 'Hello' } }] }),
+      });
+
+      const provider = createOpenAICompatibleProvider({ endpoint: 'http://localhost:8000/v1/chat/completions' });
+      const response = await provider.chat({
+        model: 'llama3',
+        messages: [{ role: 'user', content: 'Hi' }],
+      });
+
+      expect(provider.name).toBe('openai-compatible');
+      expect(response.message.content).toBe('Hello');
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toBe('http://localhost:8000/v1/chat/completions');
+      expect(options.headers.Authorization).toBeUndefined();
+    });
+  });
+
+  describe('anthropic', () => {
+    it('should convert system prompts, tool calls and tool results', () => {
+      const messages: Message[] = [
+        { role: 'system', content: 'Be helpful' },
+        { role: 'user', content: 'Search the news' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'toolu_1', name: 'web_search', arguments: { query: 'news' } }],
+        },
+        { role: 'tool', content: '{"results":[]}', toolCallId: 'toolu_1' },
+        { role: 'user', content: 'Thanks' },
+      ];
+
+      expect(formatMessagesForAnthropic(messages)).toEqual({
+        system: 'Be helpful',
+        messages: [
+          { role: 'user', content: [{ type: 'text', text: 'Search the news' }] },
+          {
+            role: 'assistant',
+            content: [{ type: 'tool_use', id: 'toolu_1', name: 'web_search', input: { query: 'news' } }],
+          },
+          {
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: 'toolu_1', content: '{"results":[]}' },
+              { type: 'text', text: 'Thanks' },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should normalize text, tool use and usage from the response', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          content: [
+            { type: 'text', text: 'Let me search.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'web_search', input: { query: 'news' } },
+          ],
+          stop_reason: 'tool_use',
+          usage: { input_tokens: 12, output_tokens: 8 },
+        }),
+      });
+
+      const provider = createAnthropicProvider({ apiKey: 'test-key' });
+      const response = await provider.chat({
+        model: 'claude-sonnet',
+        messages: [{ role: 'user', content: 'Search the news' }],
+        tools: [testTool],
+      });
+
+      expect(response.message).toEqual({
+        role: 'assistant',
+        content: 'Let me search.',
+        toolCalls: [{ id: 'toolu_1', name: 'web_search', arguments: { query: 'news' } }],
+      });
+      expect(response.usage).toEqual({ promptTokens: 12, completionTokens: 8, totalTokens: 20 });
+
+      const [, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(options.headers['x-api-key']).toBe('test-key');
+
+      const body = JSON.parse(options.body);
+      expect(body.tools[0]).toMatchObject({ name: 'web_search', input_schema: { type: 'object' } });
+    });
+
+    it('should assemble a streamed response', async () => {
+      const events = [
+        { type: 'message_start', message: { usage: { input_tokens: 5 } } },
+        { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'lo' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 2 } },
+      ];
+      const sse = events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce(new Response(sse));
+
+      const deltas: string[] = [];
+      const provider = createAnthropicProvider({ apiKey: 'test-key' });
+      const response = await provider.chat({
+        model: 'claude-sonnet',
+        messages: [{ role: 'user', content: 'Hi' }],
+        onDelta: (delta) => deltas.push(delta),
+      });
+
+      expect(deltas).toEqual(['Hel', 'lo']);
+      expect(response.message.content).toBe('Hello');
+      expect(response.usage).toEqual({ promptTokens: 5, completionTokens: 2, totalTokens: 7 });
+    });
+  });
+
+  describe('mock', () => {
+    it('should return scripted responses in order and record requests', async () => {
+      const provider = createMockProvider([
+        { toolCalls: [{ name: 'web_search', arguments: { query: 'news' } }] },
+        { content: 'Done', usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 } },
+      ]);
+      const request = { model: 'test', messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+      const first = await provider.chat(request);
+      const second = await provider.chat(request);
+
+      expect(first.message.toolCalls).toEqual([
+        { id: 'mock_call_0_0', name: 'web_search', arguments: { query: 'news' } },
+      ]);
+      expect(second.message.content).toBe('Done');
+      expect(second.usage).toEqual({ promptTokens: 1, completionTokens: 1, totalTokens: 2 });
+      expect(provider.requests).toHaveLength(2);
+
+      await expect(provider.chat(request)).rejects.toThrow(
+        'Mock provider script exhausted after 2 responses'
+      );
+    });
+
+    it('should stream scripted content word by word', async () => {
+      const deltas: string[] = [];
+      const provider = createMockProvider([{ content: 'Hello there world' }]);
+
+      await provider.chat({
+        model: 'test',
+        messages: [{ role: 'user', content: 'Hi' }],
+        onDelta: (delta) => deltas.push(delta),
+      });
+
+      expect(deltas).toEqual(['Hello ', 'there ', 'world']);
+    });
+  });
+});
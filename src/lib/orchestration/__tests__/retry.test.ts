@@ -0,0 +1,156 @@
+import { applyJitter, withRetry } from '../retry';
+import {
+  attachRetryBudget,
+  classifyError,
+  createRetryBudget,
+  isRetriesExhausted,
+  parseRetryAfter,
+} from '../retryPolicy';
+import { RunCancelledError } from '../cancellation';
+import { ApiError, ToolError } from '../../utils/error';
+import { RetryOptions } from '../types';
+
+// Short, deterministic delays
+const fastRetry: RetryOptions = { maxRetries: 3, initialDelayMs: 1, backoffFactor: 1, maxDelayMs: 1, jitter: 'none' };
+
+describe('retry policy', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('classifyError', () => {
+    it('should classify HTTP errors by status', () => {
+      expect(classifyError(new ApiError('Too many requests', 429, { retryAfterMs: 2000 }))).toEqual({
+        kind: 'rate_limit',
+        retryable: true,
+        retryAfterMs: 2000,
+      });
+      expect(classifyError(new ApiError('Bad gateway', 502))).toEqual({ kind: 'server', retryable: true });
+      expect(classifyError(new ApiError('Gateway timeout', 504))).toEqual({ kind: 'timeout', retryable: true });
+      expect(classifyError(new ApiError('Bad request', 400))).toEqual({ kind: 'client', retryable: false });
+      expect(classifyError(new ApiError('Invalid key', 401))).toEqual({ kind: 'auth', retryable: false });
+    });
+
+    it('should classify tool, network, timeout and cancellation errors', () => {
+      expect(classifyError(new ToolError('Bad input', 'search', false))).toEqual({ kind: 'tool', retryable: false });
+      expect(classifyError(new ToolError('Flaky', 'search'))).toEqual({ kind: 'tool', retryable: true });
+      expect(classifyError(new TypeError('fetch failed'))).toEqual({ kind: 'network', retryable: true });
+      expect(classifyError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toEqual({
+        kind: 'network',
+        retryable: true,
+      });
+      expect(classifyError(Object.assign(new Error('slow'), { name: 'TimeoutError' }))).toEqual({
+        kind: 'timeout',
+        retryable: true,
+      });
+      expect(classifyError(new RunCancelledError())).toEqual({ kind: 'cancelled', retryable: false });
+      expect(classifyError(new Error('Something odd'))).toEqual({ kind: 'unknown', retryable: true });
+      expect(classifyError(Object.assign(new Error('Hopeless'), { retryable: false }))).toEqual({
+        kind: 'unknown',
+        retryable: false,
+      });
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('3', now)).toBe(3000);
+      expect(parseRetryAfter('0.5', now)).toBe(500);
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000);
+      expect(parseRetryAfter('Tue, 31 Dec 2024 00:00:00 GMT', now)).toBe(0);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
+  });
+
+  describe('applyJitter', () => {
+    it('should randomise delays within the strategy bounds', () => {
+      expect(applyJitter(1000, 'none')).toBe(1000);
+      expect(applyJitter(1000, 'full', () => 0.25)).toBe(250);
+      expect(applyJitter(1000, 'equal', () => 0)).toBe(500);
+      expect(applyJitter(1000, 'equal', () => 1)).toBe(1000);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should not retry errors that can never succeed', async () => {
+      const fn = jest.fn().mockRejectedValue(new ApiError('Invalid key', 401));
+
+      await expect(withRetry(fn, fastRetry)).rejects.toThrow('Invalid key');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry a ToolError marked as not retryable', async () => {
+      const fn = jest.fn().mockRejectedValue(new ToolError('Bad input', 'search', false));
+
+      await expect(withRetry(fn, fastRetry)).rejects.toThrow('Bad input');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry transient errors until they succeed', async () => {
+      const fn = jest
+        .fn()
+        .mockRejectedValueOnce(new ApiError('Unavailable', 503))
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce('ok');
+
+      await expect(withRetry(fn, fastRetry)).resolves.toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should wait for the delay the server asked for instead of the backoff', async () => {
+      const fn = jest
+        .fn()
+        .mockRejectedValueOnce(new ApiError('Too many requests', 429, { retryAfterMs: 5 }))
+        .mockResolvedValueOnce('ok');
+
+      // The backoff alone would wait far longer than the test timeout
+      const options = { ...fastRetry, initialDelayMs: 60000, maxDelayMs: 60000 };
+      await expect(withRetry(fn, options)).resolves.toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up when the server asks for a longer delay than allowed', async () => {
+      const fn = jest.fn().mockRejectedValue(new ApiError('Too many requests', 429, { retryAfterMs: 40000 }));
+
+      await expect(withRetry(fn, { ...fastRetry, maxRetryAfterMs: 30000 })).rejects.toThrow('Too many requests');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share the retry budget of the run between calls', async () => {
+      const controller = new AbortController();
+      const budget = createRetryBudget(2);
+      attachRetryBudget(controller.signal, budget);
+
+      const first = jest.fn().mockRejectedValue(new ApiError('Unavailable', 503));
+      const second = jest.fn().mockRejectedValue(new ApiError('Unavailable', 503));
+
+      await expect(withRetry(first, fastRetry, controller.signal)).rejects.toThrow('Unavailable');
+      await expect(withRetry(second, fastRetry, controller.signal)).rejects.toThrow('Unavailable');
+
+      expect(first).toHaveBeenCalledTimes(3);
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(budget.remaining).toBe(0);
+      expect(budget.used).toBe(2);
+    });
+
+    it('should not multiply retries across nested calls', async () => {
+      const inner = jest.fn().mockRejectedValue(new ApiError('Unavailable', 503));
+
+      const error = await withRetry(() => withRetry(inner, fastRetry), fastRetry).then(
+        () => undefined,
+        (err: Error) => err
+      );
+
+      expect(error?.message).toBe('Unavailable');
+      expect(isRetriesExhausted(error)).toBe(true);
+      expect(inner).toHaveBeenCalledTimes(4);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  applyRoute,
+  DEFAULT_ROUTER_CONFIG,
+  matchRoutingRule,
+  routeInstruction,
+  RouterConfig,
+  selectRouteTools,
+} from '../router';
+import { classifyText } from '../nanoClassifier';
+import { GPT41Config, Tool } from '../types';
+
+jest.mock('../nanoClassifier', () => ({
+  classifyText: jest.fn(),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn() },
+}));
+
+const createTool = (name: string, category?: string): Tool =>
+  ({
+    name,
+    description: `The ${name} tool`,
+    parameters: {},
+    execute: jest.fn(),
+    ...(category ? { category } : {}),
+  }) as Tool;
+
+const tools = [
+  createTool('web_search', 'external_api'),
+  createTool('send_email', 'communication'),
+  createTool('calculator', 'utility'),
+  createTool('uncategorized'),
+];
+
+const baseConfig: GPT41Config = { apiKey: 'test-key', model: 'gpt-4.1', temperature: 0.7 };
+
+const usage = { promptTokens: 10, completionTokens: 1, totalTokens: 11 };
+
+/**
+ * Make the classifier answer with the given complexity and domain
+ */
+function mockClassification(complexity: string, domain: string) {
+  (classifyText as jest.Mock).mockImplementation(async (_text: string, labels: string[]) => ({
+    label: labels.includes(complexity) ? complexity : domain,
+    usage,
+  }));
+}
+
+describe('router', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('matchRoutingRule', () => {
+    it('should return the first rule whose conditions all match', () => {
+      const rules: RouterConfig['rules'] = [
+        { name: 'simple-research', when: { complexity: ['simple'], domain: ['research'] }, tier: 'fast' },
+        { name: 'research', when: { domain: ['research'] }, tier: 'standard' },
+        { name: 'fallback', tier: 'standard' },
+      ];
+
+      expect(matchRoutingRule(rules, 'simple', 'research')?.name).toBe('simple-research');
+      expect(matchRoutingRule(rules, 'complex', 'research')?.name).toBe('research');
+      expect(matchRoutingRule(rules, 'simple', 'general')?.name).toBe('fallback');
+      expect(matchRoutingRule(rules, undefined, undefined)?.name).toBe('fallback');
+      expect(matchRoutingRule(rules.slice(0, 2), undefined, undefined)).toBeUndefined();
+    });
+  });
+
+  describe('selectRouteTools', () => {
+    it('should select tools by category and name', () => {
+      const selected = selectRouteTools(tools, {
+        name: 'research',
+        tier: 'standard',
+        tools: { categories: ['external_api'], names: ['uncategorized'] },
+      });
+
+      expect(selected.map((tool) => tool.name)).toEqual(['web_search', 'uncategorized']);
+    });
+
+    it('should offer every tool when the rule does not restrict them', () => {
+      expect(selectRouteTools(tools, { name: 'all', tier: 'standard' })).toEqual(tools);
+      expect(selectRouteTools(tools, undefined)).toEqual(tools);
+    });
+  });
+
+  describe('routeInstruction', () => {
+    it('should route a simple general task to the fast tier without tools', async () => {
+      mockClassification('simple', 'general');
+
+      const route = await routeInstruction('What is the capital of France?', tools, baseConfig, undefined, 'user-1');
+
+      expect(route).toEqual({
+        rule: 'simple-general',
+        tier: 'fast',
+        model: 'gpt-4.1-mini',
+        complexity: 'simple',
+        domain: 'general',
+        classified: true,
+        tools: [],
+        availableToolCount: 4,
+        usage: { promptTokens: 20, completionTokens: 2, totalTokens: 22 },
+      });
+      expect(classifyText).toHaveBeenCalledTimes(2);
+      expect(classifyText).toHaveBeenCalledWith(
+        'What is the capital of France?',
+        Object.keys(DEFAULT_ROUTER_CONFIG.domains),
+        expect.stringContaining('- research: '),
+        undefined,
+        'user-1'
+      );
+    });
+
+    it('should route a research task to its tool categories on the standard tier', async () => {
+      mockClassification('complex', 'research');
+
+      const route = await routeInstruction('Compare the latest GPU prices', tools, baseConfig);
+
+      expect(route).toMatchObject({
+        rule: 'research',
+        tier: 'standard',
+        model: 'gpt-4.1',
+        tools: ['web_search', 'calculator'],
+      });
+    });
+
+    it('should fall back to the default route when classification fails', async () => {
+      (classifyText as jest.Mock).mockRejectedValue(new Error('Classifier unavailable'));
+
+      const route = await routeInstruction('Do something', tools, baseConfig);
+
+      expect(route).toMatchObject({
+        rule: 'default',
+        tier: 'standard',
+        model: 'gpt-4.1',
+        classified: false,
+        tools: ['web_search', 'send_email', 'calculator', 'uncategorized'],
+        usage: { totalTokens: 0 },
+      });
+      expect(route.complexity).toBeUndefined();
+    });
+
+    it('should follow custom rules and tiers', async () => {
+      mockClassification('complex', 'general');
+      const routerConfig: RouterConfig = {
+        tiers: { premium: { provider: 'anthropic', model: 'claude-opus' } },
+        domains: { general: 'anything' },
+        rules: [{ name: 'hard', when: { complexity: ['complex'] }, tier: 'premium', tools: { names: ['calculator'] } }],
+      };
+
+      const route = await routeInstruction('Prove this theorem', tools, baseConfig, routerConfig);
+
+      expect(route).toMatchObject({ rule: 'hard', tier: 'premium', model: 'claude-opus', tools: ['calculator'] });
+      expect(applyRoute(route, tools, baseConfig, routerConfig)).toEqual({
+        tools: [tools[2]],
+        config: { ...baseConfig, provider: 'anthropic', model: 'claude-opus' },
+      });
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { RunRecorder, cancelRun, setSupabaseClientForTesting } from '../runStore';
+import { registerActiveRun, unregisterActiveRun } from '../cancellation';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Store runs through a fake Supabase client
+ * @param client The fake client, with the query methods the test needs
+ */
+function useFakeClient(client: { from: jest.Mock }): void {
+  setSupabaseClientForTesting(client as unknown as Parameters<typeof setSupabaseClientForTesting>[0]);
+}
+
+/**
+ * Create a fake Supabase client that records inserts, upserts and updates per table
+ */
+function createFakeClient() {
+  const writes: Array<{ table: string; op: 'insert' | 'upsert' | 'update'; row: Row; id?: string }> = [];
+
+  const client = {
+    from: jest.fn((table: string) => ({
+      insert: jest.fn(async (row: Row) => {
+        writes.push({ table, op: 'insert', row });
+        return { error: null };
+      }),
+      upsert: jest.fn(async (row: Row) => {
+        writes.push({ table, op: 'upsert', row });
+        return { error: null };
+      }),
+      update: jest.fn((row: Row) => ({
+        eq: jest.fn(async (_column: string, id: string) => {
+          writes.push({ table, op: 'update', row, id });
+          return { error: null };
+        }),
+      })),
+    })),
+  };
+
+  return { client, writes };
+}
+
+describe('RunRecorder', () => {
+  afterEach(() => {
+    setSupabaseClientForTesting(null);
+  });
+
+  it('should store the run, each step in order, and the outcome', async () => {
+    const { client, writes } = createFakeClient();
+    useFakeClient(client);
+
+    const recorder = new RunRecorder('user-1', { runId: 'run-1' });
+    recorder.start('Search the news', 'You are helpful', 'gpt-4.1');
+    recorder.recordModelCall(
+      'gpt-4.1',
+      [{ role: 'user', content: 'Search the news' }],
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'call_1', name: 'web_search', arguments: { query: 'news' } }],
+      },
+      { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      120
+    );
+    recorder.recordToolCall(
+      { id: 'call_1', name: 'web_search', arguments: { query: 'news' } },
+      { toolCallId: 'call_1', toolName: 'web_search', result: null, error: new Error('Search failed') },
+      40
+    );
+    await recorder.finish({ response: 'Sorry', toolCalls: [], stopReason: 'completed' });
+
+    expect(writes.map((write) => `${write.op}:${write.table}`)).toEqual([
+      'upsert:runs',
+      'insert:run_steps',
+      'insert:run_steps',
+      'update:runs',
+    ]);
+    expect(writes[0].row).toMatchObject({
+      id: 'run-1',
+      user_id: 'user-1',
+      instruction: 'Search the news',
+      system_prompt: 'You are helpful',
+      status: 'running',
+    });
+    expect(writes[1].row).toMatchObject({
+      run_id: 'run-1',
+      step_index: 0,
+      step_type: 'model_call',
+      iteration: 1,
+      total_tokens: 15,
+      duration_ms: 120,
+    });
+    expect(writes[2].row).toMatchObject({
+      step_index: 1,
+      step_type: 'tool_call',
+      iteration: 1,
+      tool_name: 'web_search',
+      input: { query: 'news' },
+      error: 'Search failed',
+      duration_ms: 40,
+    });
+    expect(writes[3]).toMatchObject({
+      id: 'run-1',
+      row: {
+        status: 'completed',
+        response: 'Sorry',
+        stop_reason: 'completed',
+        total_tokens: 15,
+      },
+    });
+  });
+
+  it('should keep the trace in memory without storing it when persistence is off', async () => {
+    const { client, writes } = createFakeClient();
+    useFakeClient(client);
+
+    const recorder = new RunRecorder('user-1', { persist: false });
+    recorder.start('Hi', 'You are helpful', 'gpt-4.1');
+    recorder.recordModelCall('gpt-4.1', [], { role: 'assistant', content: 'Hello' }, undefined, 5);
+    await recorder.finish({ response: 'Hello', toolCalls: [], stopReason: 'completed' });
+
+    expect(recorder.id).toEqual(expect.any(String));
+    expect(recorder.steps).toHaveLength(1);
+    expect(writes).toHaveLength(0);
+  });
+
+  it('should log storage failures without throwing', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    useFakeClient({
+      from: jest.fn(() => ({
+        upsert: jest.fn().mockResolvedValue({ error: new Error('insert failed') }),
+        update: jest.fn(() => ({ eq: jest.fn().mockResolvedValue({ error: null }) })),
+      })),
+    });
+
+    const recorder = new RunRecorder('user-1', { runId: 'run-1' });
+    recorder.start('Hi', 'You are helpful', 'gpt-4.1');
+
+    await expect(
+      recorder.finish({ response: 'Hello', toolCalls: [], stopReason: 'error' })
+    ).resolves.toBeUndefined();
+    expect(consoleSpy).toHaveBeenCalledWith('Failed to store run run-1:', expect.any(Error));
+
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('cancelRun', () => {
+  afterEach(() => {
+    unregisterActiveRun('run-1');
+  });
+
+  it('should abort a run in progress in this process', async () => {
+    const controller = new AbortController();
+    registerActiveRun('run-1', 'user-1', controller);
+
+    await expect(cancelRun('run-1', 'user-1')).resolves.toBe('cancelling');
+    expect(controller.signal.aborted).toBe(true);
+  });
+
+  it('should store a cancel request for a run in progress in another process', async () => {
+    const update = jest.fn();
+    const query: Record<string, jest.Mock> = {
+      select: jest.fn((columns: string) =>
+        columns === 'id' ? Promise.resolve({ data: [{ id: 'run-1' }], error: null }) : query
+      ),
+      update: jest.fn((row: unknown) => {
+        update(row);
+        return query;
+      }),
+      eq: jest.fn(() => query),
+      maybeSingle: jest.fn().mockResolvedValue({ data: { id: 'run-1', status: 'running' }, error: null }),
+    };
+    useFakeClient({ from: jest.fn(() => query) });
+
+    await expect(cancelRun('run-1', 'user-1')).resolves.toBe('cancelling');
+    expect(update).toHaveBeenCalledWith({ cancel_requested_at: expect.any(String) });
+    expect(query.eq).toHaveBeenCalledWith('status', 'running');
+
+    setSupabaseClientForTesting(null);
+  });
+
+  it('should reject runs that cannot be found', async () => {
+    await expect(cancelRun('run-1', 'user-1')).rejects.toMatchObject({
+      message: 'Run not found',
+      statusCode: 404,
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  readChatCompletionStream,
+  formatServerSentEvent,
+  createOrchestrationEventStream,
+} from '../streaming';
+
+/**
+ * Build a fetch-like response whose body streams the given SSE chunks
+ */
+function createStreamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+
+  return { body } as unknown as Response;
+}
+
+/**
+ * Read a stream to completion as text
+ */
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+  }
+
+  return text;
+}
+
+describe('Orchestration streaming', () => {
+  describe('readChatCompletionStream', () => {
+    it('should assemble content deltas and usage into a response', async () => {
+      const response = createStreamResponse([
+        'data: {"choices":[{"delta":{"role":"assistant","content":"Hel"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"lo"},"finish_reason":"stop"}]}\n',
+        '\ndata: {"choices":[],"usage":{"prompt_tokens":5,"completion_tokens":2,"total_tokens":7}}\n\n',
+        'data: [DONE]\n\n',
+      ]);
+      const onDelta = jest.fn();
+
+      const result = await readChatCompletionStream(response, onDelta);
+
+      expect(onDelta.mock.calls).toEqual([['Hel'], ['lo']]);
+      expect(result).toEqual({
+        choices: [
+          {
+            message: { role: 'assistant', content: 'Hello' },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+      });
+    });
+
+    it('should merge tool call fragments split across chunks', async () => {
+      const response = createStreamResponse([
+        'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_1","function":{"name":"test_tool","arguments":"{\\"par"}}]}}]}\n\n',
+        'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"am1\\":\\"x\\"}"}}]}}]}\n\n',
+        'data: {"choices":[{"delta":{},"finish_reason":"tool_calls"}]}\n\n',
+        'data: [DONE]\n\n',
+      ]);
+
+      const result = await readChatCompletionStream(response);
+
+      expect(result.choices[0].message).toEqual({
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'test_tool', arguments: '{"param1":"x"}' },
+          },
+        ],
+      });
+      expect(result.usage).toBeUndefined();
+    });
+  });
+
+  describe('formatServerSentEvent', () => {
+    it('should format an event as an SSE frame and flatten errors', () => {
+      const frame = formatServerSentEvent({
+        type: 'tool_error',
+        result: {
+          toolCallId: 'call_1',
+          toolName: 'test_tool',
+          result: null,
+          error: new Error('boom'),
+        },
+      });
+
+      expect(frame.startsWith('event: tool_error\ndata: ')).toBe(true);
+      expect(frame.endsWith('\n\n')).toBe(true);
+
+      const data = JSON.parse(frame.split('data: ')[1]);
+      expect(data.result.error).toEqual({ name: 'Error', message: 'boom' });
+    });
+  });
+
+  describe('createOrchestrationEventStream', () => {
+    it('should write each event and close when the run finishes', async () => {
+      const stream = createOrchestrationEventStream(async (onEvent) => {
+        const result = { response: 'done', toolCalls: [], stopReason: 'completed' as const };
+        onEvent({ type: 'token', delta: 'hi' });
+        onEvent({ type: 'done', result });
+        return result;
+      });
+
+      const text = await readAll(stream);
+
+      expect(text).toBe(
+        'event: token\ndata: {"type":"token","delta":"hi"}\n\n' +
+        'event: done\ndata: {"type":"done","result":{"response":"done","toolCalls":[],"stopReason":"completed"}}\n\n'
+      );
+    });
+
+    it('should emit an error event if the run throws', async () => {
+      const stream = createOrchestrationEventStream(async () => {
+        throw new Error('run failed');
+      });
+
+      const text = await readAll(stream);
+
+      expect(text).toBe('event: error\ndata: {"type":"error","message":"run failed"}\n\n');
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import { parseJsonOutput, produceStructuredOutput, toJsonSchema, validateOutput } from '../structuredOutput';
+import { CircuitOpenError, getCircuitBreaker, providerBreakerKey, resetCircuitBreakers } from '../circuitBreaker';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider, MockProviderResponse } from '../providers/mock';
+import { Message } from '../types';
+import { checkJsonSchemaPattern, JsonSchema, JsonSchemaShape, TokenUsageSchema } from '../../utils/validation';
+
+const weatherSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    city: { type: 'string' },
+    temperature: { type: 'number' },
+  },
+  required: ['city', 'temperature'],
+  additionalProperties: false,
+};
+
+const conversation: Message[] = [
+  { role: 'user', content: 'What is the weather in Paris?' },
+  { role: 'assistant', content: 'It is 21 degrees in Paris.' },
+];
+
+/**
+ * Register a scripted provider for the test and return it
+ */
+function useProvider(script: MockProviderResponse[]) {
+  const provider = createMockProvider(script);
+  registerProviderFactory('output-test', () => provider);
+  return provider;
+}
+
+describe('structuredOutput', () => {
+  describe('parseJsonOutput', () => {
+    it('should parse plain and fenced JSON', () => {
+      expect(parseJsonOutput('{"a":1}')).toEqual({ a: 1 });
+      expect(parseJsonOutput('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+      expect(() => parseJsonOutput('not json')).toThrow(SyntaxError);
+    });
+  });
+
+  describe('validateOutput', () => {
+    it('should validate against JSON Schema', () => {
+      expect(validateOutput({ city: 'Paris', temperature: 21 }, weatherSchema)).toEqual({
+        success: true,
+        data: { city: 'Paris', temperature: 21 },
+      });
+      expect(validateOutput({ city: 'Paris', humidity: 40 }, weatherSchema)).toEqual({
+        success: false,
+        errors: ['$.temperature: is required', '$.humidity: is not allowed'],
+      });
+    });
+
+    it('should check string formats and refuse unsafe patterns', () => {
+      const schema: JsonSchema = {
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email' },
+          day: { type: 'string', format: 'date' },
+          code: { type: 'string', pattern: '^(a+)+$' },
+        },
+      };
+
+      expect(validateOutput({ email: 'ada@example.com', day: '2024-02-29' }, schema)).toMatchObject({ success: true });
+      expect(validateOutput({ email: 'ada', day: '29/02/2024', code: 'aaa' }, schema)).toEqual({
+        success: false,
+        errors: [
+          '$.email: must be a valid email',
+          '$.day: must be a valid date',
+          '$.code: the pattern ^(a+)+$ cannot be used: nested quantifiers are not allowed',
+        ],
+      });
+    });
+
+    it('should only accept output schemas with usable patterns and known formats', () => {
+      expect(checkJsonSchemaPattern('^[A-Z]{2}-\\d+$')).toBeUndefined();
+      expect(checkJsonSchemaPattern('^(ab|cd)?x+$')).toBeUndefined();
+      expect(checkJsonSchemaPattern('(a*)*')).toBe('nested quantifiers are not allowed');
+      expect(checkJsonSchemaPattern('((a+))+')).toBe('nested quantifiers are not allowed');
+      expect(checkJsonSchemaPattern('(a)\\1')).toBe('backreferences are not allowed');
+      expect(checkJsonSchemaPattern('[')).toBeDefined();
+      expect(checkJsonSchemaPattern('a'.repeat(201))).toBe('must be at most 200 characters');
+
+      expect(JsonSchemaShape.safeParse(weatherSchema).success).toBe(true);
+      expect(JsonSchemaShape.safeParse({ properties: { id: { type: 'string', pattern: '(' } } }).success).toBe(false);
+      expect(JsonSchemaShape.safeParse({ type: 'string', format: 'hostname' }).success).toBe(false);
+      expect(JsonSchemaShape.safeParse({ type: 'text' }).success).toBe(false);
+    });
+
+    it('should validate against a Zod schema', () => {
+      expect(validateOutput({ promptTokens: 1, completionTokens: 2, totalTokens: 3 }, TokenUsageSchema)).toMatchObject({
+        success: true,
+      });
+
+      const result = validateOutput({ promptTokens: -1, completionTokens: 2 }, TokenUsageSchema);
+      expect(result.success).toBe(false);
+      expect(!result.success && result.errors).toEqual([
+        '$.promptTokens: Number must be greater than or equal to 0',
+        '$.totalTokens: Required',
+      ]);
+    });
+
+    it('should describe a Zod schema as JSON Schema', () => {
+      expect(toJsonSchema(z.object({ city: z.string(), days: z.number().int().optional() }))).toEqual({
+        type: 'object',
+        properties: { city: { type: 'string' }, days: { type: 'integer' } },
+        required: ['city'],
+        additionalProperties: false,
+      });
+    });
+  });
+
+  describe('produceStructuredOutput', () => {
+    beforeEach(() => {
+      resetCircuitBreakers();
+    });
+
+    it('should ask for the answer in JSON mode and return it parsed', async () => {
+      const provider = useProvider([{ content: '{"city":"Paris","temperature":21}' }]);
+      const onModelCall = jest.fn();
+
+      const outcome = await produceStructuredOutput({
+        messages: conversation,
+        schema: weatherSchema,
+        config: { provider: 'output-test', model: 'test' },
+        onModelCall,
+      });
+
+      expect(outcome).toEqual({
+        output: { city: 'Paris', temperature: 21 },
+        content: '{"city":"Paris","temperature":21}',
+        errors: [],
+        attempts: 1,
+      });
+      expect(provider.requests[0].responseFormat).toBe('json');
+      expect(provider.requests[0].messages.at(-1)?.content).toContain('"additionalProperties": false');
+      expect(onModelCall).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send invalid answers back with the validation errors', async () => {
+      const provider = useProvider([
+        { content: 'It is 21 degrees' },
+        { content: '{"city":"Paris"}' },
+        { content: '{"city":"Paris","temperature":21}' },
+      ]);
+
+      const outcome = await produceStructuredOutput({
+        messages: conversation,
+        schema: weatherSchema,
+        config: { provider: 'output-test', model: 'test' },
+      });
+
+      expect(outcome.output).toEqual({ city: 'Paris', temperature: 21 });
+      expect(outcome.attempts).toBe(3);
+      expect(provider.requests[1].messages.at(-1)?.content).toContain('the answer is not valid JSON');
+      expect(provider.requests[2].messages.at(-1)?.content).toContain('- $.temperature: is required');
+    });
+
+    it('should give up after the retry limit', async () => {
+      useProvider([{ content: '{}' }, { content: '{"city":1}' }]);
+
+      const outcome = await produceStructuredOutput({
+        messages: conversation,
+        schema: weatherSchema,
+        config: { provider: 'output-test', model: 'test' },
+        maxRetries: 1,
+      });
+
+      expect(outcome.output).toBeUndefined();
+      expect(outcome.attempts).toBe(2);
+      expect(outcome.errors).toEqual(['$.temperature: is required', '$.city: expected string, got integer']);
+    });
+
+    it('should not call a provider whose circuit breaker is open', async () => {
+      const provider = useProvider([{ content: '{"city":"Paris","temperature":21}' }]);
+      const breaker = getCircuitBreaker(providerBreakerKey('output-test'));
+      for (let i = 0; i < 5; i++) {
+        breaker.tryAcquire();
+        breaker.recordFailure();
+      }
+
+      await expect(
+        produceStructuredOutput({
+          messages: conversation,
+          schema: weatherSchema,
+          config: { provider: 'output-test', model: 'test' },
+        })
+      ).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(provider.requests).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import {
+  createSummaryMessage,
+  getConversationSummary,
+  refreshConversationSummary,
+  setSummarySupabaseClientForTesting,
+} from '../summarization';
+import { combineMemoryWithInstruction } from '../contextIntegration';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider, MockProvider, MockProviderResponse } from '../providers/mock';
+import { getMessagesBetween, getRecentMessages, ChatMessage } from '../../memories';
+import * as tokenUsage from '../../billing/tokenUsage';
+import { ApiError } from '../../utils/error';
+
+jest.mock('../../memories', () => ({
+  getRecentMessages: jest.fn(),
+  getMessagesBetween: jest.fn(),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn() },
+}));
+
+const usage = { promptTokens: 120, completionTokens: 30, totalTokens: 150 };
+
+/**
+ * Create chat history rows, one second apart
+ */
+function chatMessages(count: number, from = 0): ChatMessage[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: String(from + index),
+    user_id: 'user-1',
+    role: (from + index) % 2 === 0 ? 'user' : 'assistant',
+    content: `Message ${from + index}`,
+    created_at: new Date(Date.UTC(2025, 0, 1, 0, 0, from + index)).toISOString(),
+  }));
+}
+
+/**
+ * Stand in for the summarizer model
+ */
+function useSummarizer(script: MockProviderResponse[]): MockProvider {
+  const provider = createMockProvider(script);
+  registerProviderFactory('openai', () => provider);
+  return provider;
+}
+
+/**
+ * Create a Supabase client holding at most one stored summary
+ */
+function createSummaryTable(row: Record<string, unknown> | null = null) {
+  const upsert = jest.fn().mockResolvedValue({ error: null });
+  const filters: Array<[string, unknown]> = [];
+  const query = {
+    eq: (column: string, value: unknown) => {
+      filters.push([column, value]);
+      return query;
+    },
+    is: (column: string, value: unknown) => {
+      filters.push([column, value]);
+      return query;
+    },
+    maybeSingle: () => Promise.resolve({ data: row, error: null }),
+  };
+  const client = {
+    from: jest.fn(() => ({
+      select: () => query,
+      upsert,
+    })),
+  };
+  setSummarySupabaseClientForTesting(client as unknown as Parameters<typeof setSummarySupabaseClientForTesting>[0]);
+  return { upsert, filters };
+}
+
+describe('summarization', () => {
+  let logUsage: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    logUsage = jest.spyOn(tokenUsage, 'logUsageAndUpdateCost').mockResolvedValue({ success: true });
+  });
+
+  afterEach(() => {
+    setSummarySupabaseClientForTesting(null);
+    logUsage.mockRestore();
+  });
+
+  describe('getConversationSummary', () => {
+    it('should read the stored summary', async () => {
+      createSummaryTable({
+        user_id: 'user-1',
+        summary: 'The user plans a trip to Lisbon.',
+        summarized_through: '2025-01-01T00:00:10.000Z',
+        message_count: 10,
+        model: 'gpt-4.1-nano',
+      });
+
+      await expect(getConversationSummary('user-1')).resolves.toEqual({
+        summary: 'The user plans a trip to Lisbon.',
+        summarizedThrough: '2025-01-01T00:00:10.000Z',
+        messageCount: 10,
+        model: 'gpt-4.1-nano',
+      });
+    });
+
+    it('should read the summary of the given conversation', async () => {
+      const { filters } = createSummaryTable(null);
+
+      await getConversationSummary('user-1', 'conversation-1');
+      await getConversationSummary('user-1');
+
+      expect(filters).toEqual([
+        ['user_id', 'user-1'],
+        ['conversation_id', 'conversation-1'],
+        ['user_id', 'user-1'],
+        ['conversation_id', null],
+      ]);
+    });
+
+    it('should return null without a stored summary', async () => {
+      createSummaryTable(null);
+
+      await expect(getConversationSummary('user-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('refreshConversationSummary', () => {
+    it('should fold new messages into the previous summary and bill the user', async () => {
+      const { upsert } = createSummaryTable();
+      const provider = useSummarizer([{ content: ' The user plans a trip to Lisbon in May. ', usage }]);
+      const messages = chatMessages(4, 10);
+
+      const summary = await refreshConversationSummary(
+        'user-1',
+        {
+          summary: 'The user plans a trip.',
+          summarizedThrough: '2025-01-01T00:00:09.000Z',
+          messageCount: 10,
+          model: 'gpt-4.1-nano',
+        },
+        messages
+      );
+
+      expect(summary).toEqual({
+        summary: 'The user plans a trip to Lisbon in May.',
+        summarizedThrough: messages[3].created_at,
+        messageCount: 14,
+        model: 'gpt-4.1-nano',
+      });
+
+      const request = provider.requests[0];
+      expect(request.model).toBe('gpt-4.1-nano');
+      expect(request.messages[1].content).toContain('Current summary:\nThe user plans a trip.');
+      expect(request.messages[1].content).toContain('User: Message 10\nAssistant: Message 11');
+
+      expect(logUsage).toHaveBeenCalledWith('user-1', 'gpt-4.1-nano', usage);
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'user-1', message_count: 14, summarized_through: messages[3].created_at }),
+        { onConflict: 'user_id,conversation_id' }
+      );
+    });
+  });
+
+  describe('combineMemoryWithInstruction', () => {
+    it('should send the summary ahead of the recent messages', async () => {
+      createSummaryTable({
+        user_id: 'user-1',
+        summary: 'The user plans a trip to Lisbon.',
+        summarized_through: '2025-01-01T00:00:04.000Z',
+        message_count: 5,
+        model: 'gpt-4.1-nano',
+      });
+      (getRecentMessages as jest.Mock).mockResolvedValue({ data: chatMessages(3), error: null });
+
+      const messages = await combineMemoryWithInstruction('user-1', 'Book the hotel');
+
+      expect(messages[0]).toEqual(createSummaryMessage('The user plans a trip to Lisbon.'));
+      expect(messages.slice(1).map((message) => message.content)).toEqual([
+        'Message 0',
+        'Message 1',
+        'Message 2',
+        'Book the hotel',
+      ]);
+      // Everything fitted, so there is nothing new to summarize
+      expect(getMessagesBetween).not.toHaveBeenCalled();
+    });
+
+    it('should refresh the summary of the thread with the messages before the recent window', async () => {
+      const { upsert } = createSummaryTable({
+        user_id: 'user-1',
+        summary: 'The user plans a trip.',
+        summarized_through: '2025-01-01T00:00:04.000Z',
+        message_count: 5,
+        model: 'gpt-4.1-nano',
+      });
+      const recent = chatMessages(5, 10);
+      const older = chatMessages(5, 5);
+      (getRecentMessages as jest.Mock).mockResolvedValue({ data: recent, error: null });
+      (getMessagesBetween as jest.Mock).mockResolvedValue({ data: older, error: null });
+      useSummarizer([{ content: 'The user plans a trip to Lisbon in May.', usage }]);
+
+      const messages = await combineMemoryWithInstruction(
+        'user-1',
+        'Book the hotel',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        'conversation-1'
+      );
+
+      // Only the thread's messages are used
+      expect(getRecentMessages).toHaveBeenCalledWith('user-1', 5, 'conversation-1');
+      expect(getMessagesBetween).toHaveBeenCalledWith(
+        'user-1',
+        '2025-01-01T00:00:04.000Z',
+        recent[0].created_at,
+        50,
+        'conversation-1'
+      );
+      expect(messages[0].content).toBe('Summary of the earlier conversation:\nThe user plans a trip to Lisbon in May.');
+      expect(messages).toHaveLength(7);
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ conversation_id: 'conversation-1', message_count: 10 }),
+        { onConflict: 'user_id,conversation_id' }
+      );
+      expect(logUsage).toHaveBeenCalledWith('user-1', 'gpt-4.1-nano', usage);
+    });
+
+    it('should keep the previous summary when the refresh fails', async () => {
+      createSummaryTable({
+        user_id: 'user-1',
+        summary: 'The user plans a trip.',
+        summarized_through: '2025-01-01T00:00:04.000Z',
+        message_count: 5,
+        model: 'gpt-4.1-nano',
+      });
+      (getRecentMessages as jest.Mock).mockResolvedValue({ data: chatMessages(5, 10), error: null });
+      (getMessagesBetween as jest.Mock).mockResolvedValue({ data: chatMessages(5, 5), error: null });
+      useSummarizer([{ error: new ApiError('Invalid request', 400) }]);
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const messages = await combineMemoryWithInstruction('user-1', 'Book the hotel');
+
+      expect(messages[0].content).toBe('Summary of the earlier conversation:\nThe user plans a trip.');
+      expect(messages).toHaveLength(7);
+      expect(consoleError).toHaveBeenCalledWith('Error refreshing conversation summary:', expect.any(Error));
+      consoleError.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { countMessagesTokens, countTokens, countToolTokens, truncateToTokens } from '../tokenizer';
+import { DEFAULT_MODEL_INFO, getModelInfo, getPromptTokenLimit, registerModel } from '../modelRegistry';
+import { Tool } from '../types';
+
+describe('tokenizer', () => {
+  describe('countTokens', () => {
+    it('should count tokens with the encoding of the model family', () => {
+      expect(countTokens('hello world', 'gpt-4.1')).toBe(2);
+      expect(countTokens('hello world', 'gpt-4')).toBe(2);
+      expect(countTokens('antidisestablishmentarianism', 'gpt-4o')).toBeGreaterThan(1);
+      expect(countTokens('')).toBe(0);
+    });
+
+    it('should count long runs without whitespace quickly', () => {
+      const startedAt = Date.now();
+      const tokens = countTokens('A'.repeat(50000), 'gpt-4');
+
+      expect(tokens).toBeGreaterThan(5000);
+      expect(Date.now() - startedAt).toBeLessThan(5000);
+    });
+  });
+
+  describe('truncateToTokens', () => {
+    it('should cut text at a token boundary', () => {
+      const text = 'one two three four five six';
+
+      expect(truncateToTokens(text, 3, 'gpt-4.1')).toBe('one two three');
+      expect(truncateToTokens(text, 100, 'gpt-4.1')).toBe(text);
+    });
+  });
+
+  describe('countMessagesTokens', () => {
+    it('should add the message and reply overhead', () => {
+      const messages = [
+        { role: 'system' as const, content: 'You are helpful.' },
+        { role: 'user' as const, content: 'hello world' },
+      ];
+
+      // 3 per message plus the role, 3 for the reply priming
+      expect(countMessagesTokens(messages, 'gpt-4.1')).toBe(
+        3 + 1 + countTokens('You are helpful.', 'gpt-4.1') + 3 + 1 + 2 + 3
+      );
+    });
+
+    it('should count tool calls and tool schemas', () => {
+      const withCall = countMessagesTokens(
+        [{ role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'search', arguments: { q: 'x' } }] }],
+        'gpt-4.1'
+      );
+      expect(withCall).toBeGreaterThan(countMessagesTokens([{ role: 'assistant', content: '' }], 'gpt-4.1'));
+
+      const tools = [{ name: 'search', description: 'Search the web', parameters: {} }] as unknown as Tool[];
+      expect(countToolTokens([], 'gpt-4.1')).toBe(0);
+      expect(countToolTokens(tools, 'gpt-4.1')).toBeGreaterThan(countTokens('Search the web', 'gpt-4.1'));
+    });
+  });
+});
+
+describe('modelRegistry', () => {
+  it('should match models by their longest registered prefix', () => {
+    expect(getModelInfo('gpt-4.1-2025-04-14')).toMatchObject({ contextWindow: 1047576, encoding: 'o200k_base' });
+    expect(getModelInfo('gpt-4-32k-0613').contextWindow).toBe(32768);
+    expect(getModelInfo('gpt-4-0613').contextWindow).toBe(8192);
+    expect(getModelInfo('claude-3-5-sonnet-latest')).toMatchObject({ maxOutputTokens: 8192, tokenMargin: 0.2 });
+    expect(getModelInfo('some-local-model')).toBe(DEFAULT_MODEL_INFO);
+  });
+
+  it('should reserve room for the answer in the prompt limit', () => {
+    expect(getPromptTokenLimit('gpt-4', 1000)).toBe(7192);
+    // The reserve is capped at what the model can generate
+    expect(getPromptTokenLimit('gpt-4', 100000)).toBe(4096);
+    expect(getPromptTokenLimit('gpt-4')).toBe(4096);
+  });
+
+  it('should let new models be registered', () => {
+    registerModel('llama3', { contextWindow: 8192, maxOutputTokens: 1024, encoding: 'cl100k_base' });
+
+    expect(getPromptTokenLimit('llama3-8b')).toBe(7168);
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  applyJsonSchemaDefaults,
+  parseToolArguments,
+  repairJson,
+  ToolArgumentsError,
+  validateToolArguments,
+} from '../toolArguments';
+import { orchestrate } from '../orchestrator';
+import { RunStepRecord, setSupabaseClientForTesting } from '../runStore';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider } from '../providers/mock';
+import { createToolParametersSchema, parseToolCalls } from '../utils';
+import { GPT41Config, Tool } from '../types';
+
+jest.mock('../../billing/tokenUsage', () => ({
+  logUsageAndUpdateCost: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+const searchTool: Tool = {
+  name: 'web_search',
+  description: 'Search the web',
+  parameters: {
+    query: { type: 'string', description: 'The search query' },
+    count: { type: 'number', description: 'Number of results', optional: true, default: 5 },
+    freshness: { type: 'string', enum: ['Day', 'Week'], optional: true },
+  },
+  execute: jest.fn().mockResolvedValue({ results: [] }),
+};
+
+const schema = createToolParametersSchema(searchTool);
+
+describe('toolArguments', () => {
+  describe('repairJson', () => {
+    it.each([
+      ['trailing commas', '{"a": [1, 2,],}', { a: [1, 2] }],
+      ['single quotes', "{'a': 'it\\'s \"quoted\"'}", { a: 'it\'s "quoted"' }],
+      ['unquoted keys', '{query: "news", count: 3}', { query: 'news', count: 3 }],
+      ['Python literals', '{"a": True, "b": None, "c": False}', { a: true, b: null, c: false }],
+      ['code fences and text before the JSON', 'Here you go:\n```json\n{"a": 1}\n```', { a: 1 }],
+      ['comments', '{"a": 1, // the first\n /* and */ "b": 2}', { a: 1, b: 2 }],
+      ['line breaks in strings', '{"a": "line one\nline two"}', { a: 'line one\nline two' }],
+      ['truncated output', '{"a": {"b": [1, 2', { a: { b: [1, 2] } }],
+      ['a truncated string and key', '{"a": "unfinished', { a: 'unfinished' }],
+      ['a missing value', '{"a": 1, "b":', { a: 1, b: null }],
+    ])('should repair %s', (_, text, expected) => {
+      expect(JSON.parse(repairJson(text))).toEqual(expected);
+    });
+
+    it('should leave valid JSON unchanged', () => {
+      const json = '{"a":"x, y]","b":[true,null,-1.5e3],"c":{}}';
+      expect(repairJson(json)).toBe(json);
+    });
+  });
+
+  describe('parseToolArguments', () => {
+    it('should parse, repair and pass through arguments', () => {
+      expect(parseToolArguments('{"query": "news"}')).toEqual({ arguments: { query: 'news' } });
+      expect(parseToolArguments("{'query': 'news',}")).toEqual({ arguments: { query: 'news' } });
+      expect(parseToolArguments({ query: 'news' })).toEqual({ arguments: { query: 'news' } });
+      expect(parseToolArguments('')).toEqual({ arguments: {} });
+    });
+
+    it('should report arguments that are not a JSON object', () => {
+      expect(parseToolArguments('["news"]')).toEqual({ arguments: {}, error: 'The arguments must be a JSON object' });
+      expect(parseToolArguments('query=news').error).toMatch(/not valid JSON/);
+    });
+
+    it('should keep a call with unparseable arguments instead of throwing', () => {
+      const toolCalls = parseToolCalls([
+        { id: 'call_1', function: { name: 'web_search', arguments: '{"query": "news",}' } },
+        { id: 'call_2', function: { name: 'web_search', arguments: 'not json' } },
+      ]);
+
+      expect(toolCalls[0]).toEqual({ id: 'call_1', name: 'web_search', arguments: { query: 'news' } });
+      expect(toolCalls[1]).toMatchObject({ id: 'call_2', arguments: {}, argumentsError: expect.any(String) });
+    });
+  });
+
+  describe('validateToolArguments', () => {
+    it('should fill in defaults', () => {
+      expect(validateToolArguments({ id: 'call_1', name: 'web_search', arguments: { query: 'news' } }, schema)).toEqual({
+        query: 'news',
+        count: 5,
+      });
+      expect(
+        applyJsonSchemaDefaults(
+          { filters: [{}] },
+          { properties: { filters: { items: { properties: { lang: { default: 'en' } } } } } }
+        )
+      ).toEqual({ filters: [{ lang: 'en' }] });
+    });
+
+    it('should list every problem with the arguments', () => {
+      const toolCall = { id: 'call_1', name: 'web_search', arguments: { count: '10', freshness: 'Hour' } };
+
+      expect(() => validateToolArguments(toolCall, schema)).toThrow(ToolArgumentsError);
+      try {
+        validateToolArguments(toolCall, schema);
+      } catch (error) {
+        expect((error as ToolArgumentsError).errors).toEqual([
+          '$.query: is required',
+          '$.count: expected number, got string',
+          '$.freshness: must be one of "Day", "Week"',
+        ]);
+        expect((error as ToolArgumentsError).retryable).toBe(false);
+        expect((error as Error).message).toMatch(/^Invalid arguments for tool web_search:\n- \$\.query: is required/);
+      }
+    });
+
+    it('should report arguments that could not be parsed', () => {
+      expect(() =>
+        validateToolArguments(
+          { id: 'call_1', name: 'web_search', arguments: {}, argumentsError: 'The arguments are not valid JSON' },
+          schema
+        )
+      ).toThrow(/The arguments are not valid JSON/);
+    });
+  });
+
+  describe('orchestrate', () => {
+    const config: GPT41Config = { provider: 'arguments-test', apiKey: 'test-key', model: 'gpt-4.1' };
+
+    beforeEach(() => {
+      setSupabaseClientForTesting(null);
+      (searchTool.execute as jest.Mock).mockClear();
+    });
+
+    it('should send invalid arguments back to the model and run the corrected call', async () => {
+      const provider = createMockProvider([
+        { toolCalls: [{ name: 'web_search', arguments: { count: 'three' } }] },
+        { toolCalls: [{ name: 'web_search', arguments: { query: 'news' } }] },
+        { content: 'Here is the news.' },
+      ]);
+      registerProviderFactory('arguments-test', () => provider);
+
+      const result = await orchestrate(
+        { instruction: 'Find the news', context: { userId: 'user-1' }, tools: [searchTool], persistRun: false },
+        config
+      );
+
+      expect(result.response).toBe('Here is the news.');
+      expect(searchTool.execute).toHaveBeenCalledTimes(1);
+      expect(searchTool.execute).toHaveBeenCalledWith({ query: 'news', count: 5 }, expect.anything());
+
+      const correction = provider.requests[1].messages.find((message) => message.role === 'tool');
+      expect(correction?.content).toBe(
+        [
+          'Error: Invalid arguments for tool web_search:',
+          '- $.query: is required',
+          '- $.count: expected number, got string',
+          'Correct the arguments and call the tool again.',
+        ].join('\n')
+      );
+    });
+
+    it('should record the arguments the tool was called with, including their defaults', async () => {
+      const steps: Partial<RunStepRecord>[] = [];
+      setSupabaseClientForTesting({
+        from: jest.fn(() => ({
+          upsert: jest.fn().mockResolvedValue({ error: null }),
+          insert: jest.fn(async (row: Partial<RunStepRecord>) => {
+            steps.push(row);
+            return { error: null };
+          }),
+          update: jest.fn(() => ({ eq: jest.fn().mockResolvedValue({ error: null }) })),
+        })),
+      } as unknown as Parameters<typeof setSupabaseClientForTesting>[0]);
+      registerProviderFactory('arguments-test', () =>
+        createMockProvider([
+          { toolCalls: [{ name: 'web_search', arguments: { query: 'news' } }] },
+          { content: 'Here is the news.' },
+        ])
+      );
+
+      await orchestrate({ instruction: 'Find the news', context: { userId: 'user-1' }, tools: [searchTool] }, config);
+
+      const toolStep = steps.find((step) => step.step_type === 'tool_call');
+      expect(toolStep?.input).toEqual({ query: 'news', count: 5 });
+    });
+  });
+});
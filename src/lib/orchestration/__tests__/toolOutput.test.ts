@@ -0,0 +1,160 @@
+import {
+  createFittedToolResultMessage,
+  createReadToolOutputTool,
+  getStoredToolOutput,
+  READ_TOOL_OUTPUT_TOOL,
+  setToolOutputSupabaseClientForTesting,
+  ToolOutputPage,
+  truncateToolOutput,
+  withToolOutputReader,
+} from '../toolOutput';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider } from '../providers/mock';
+import { countTokens } from '../tokenizer';
+import { Tool, ToolCallResult } from '../types';
+import { ApiError, ToolError } from '../../utils/error';
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn() },
+}));
+
+const searchResults = {
+  query: 'lisbon hotels',
+  results: Array.from({ length: 50 }, (_, index) => ({
+    title: `Hotel ${index}`,
+    url: `https://example.com/hotels/${index}`,
+    snippet: `A quiet hotel near the river, number ${index}, with breakfast and a view of the old town.`,
+  })),
+};
+
+const searchTool: Tool = {
+  name: 'search',
+  description: 'Search the web',
+  parameters: {},
+  execute: jest.fn(),
+  outputPolicy: { maxTokens: 300, pageTokens: 500 },
+};
+
+/**
+ * Create a successful result of the search tool
+ */
+function searchResult(result: unknown): ToolCallResult {
+  return { toolCallId: 'call_1', toolName: 'search', result };
+}
+
+const context = { userId: 'user-1', runId: 'run-1', model: 'gpt-4.1' };
+
+describe('toolOutput', () => {
+  beforeEach(() => {
+    setToolOutputSupabaseClientForTesting(null);
+  });
+
+  describe('truncateToolOutput', () => {
+    it('should shorten arrays and strings but keep every key', () => {
+      const content = JSON.stringify(searchResults);
+
+      const truncated = truncateToolOutput(content, 300, 'gpt-4.1');
+      const value = JSON.parse(truncated);
+
+      expect(countTokens(truncated, 'gpt-4.1')).toBeLessThanOrEqual(300);
+      expect(Object.keys(value)).toEqual(['query', 'results']);
+      expect(Object.keys(value.results[0])).toEqual(['title', 'url', 'snippet']);
+      expect(value.results.at(-1)).toMatch(/^… \d+ more items$/);
+    });
+
+    it('should cut plain text at a token boundary', () => {
+      const content = JSON.stringify('word '.repeat(1000));
+
+      expect(countTokens(truncateToolOutput(content, 50, 'gpt-4.1'), 'gpt-4.1')).toBeLessThanOrEqual(50);
+    });
+  });
+
+  describe('createFittedToolResultMessage', () => {
+    it('should give results within the limit and errors as they are', async () => {
+      const small = await createFittedToolResultMessage(searchResult({ ok: true }), [searchTool], context);
+      const failed = await createFittedToolResultMessage(
+        { toolCallId: 'call_2', toolName: 'search', result: null, error: new Error('Search failed') },
+        [searchTool],
+        context
+      );
+
+      expect(small.content).toBe('{"ok":true}');
+      expect(failed.content).toBe('Error: Search failed');
+    });
+
+    it('should store an oversized result and tell the model how to page through it', async () => {
+      const message = await createFittedToolResultMessage(searchResult(searchResults), [searchTool], context);
+
+      const reference = message.content.match(/stored as ([\w-]+)/)?.[1] as string;
+      expect(countTokens(message.content, 'gpt-4.1')).toBeLessThanOrEqual(300);
+      expect(message.content).toContain(`call ${READ_TOOL_OUTPUT_TOOL} with {"reference":"${reference}","page":1}`);
+
+      const stored = await getStoredToolOutput(reference, 'user-1');
+      expect(stored).toMatchObject({ runId: 'run-1', toolName: 'search', content: JSON.stringify(searchResults) });
+      // Another user cannot read it
+      await expect(getStoredToolOutput(reference, 'user-2')).resolves.toBeNull();
+    });
+
+    it('should summarize oversized results of tools that opt in', async () => {
+      const provider = createMockProvider([{ content: 'Fifty hotels in Lisbon; Hotel 0 is the quietest.' }]);
+      registerProviderFactory('openai', () => provider);
+      const onModelCall = jest.fn();
+      const summarizingTool = { ...searchTool, outputPolicy: { maxTokens: 300, summarize: true } };
+
+      const message = await createFittedToolResultMessage(searchResult(searchResults), [summarizingTool], {
+        ...context,
+        onModelCall,
+      });
+
+      expect(message.content).toMatch(/^Summary: Fifty hotels in Lisbon; Hotel 0 is the quietest\.\n\[Result of/);
+      expect(provider.requests[0].model).toBe('gpt-4.1-nano');
+      expect(onModelCall).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ model: 'gpt-4.1-nano' }), expect.any(Number));
+    });
+
+    it('should truncate instead when the summary cannot be written', async () => {
+      registerProviderFactory('openai', () => createMockProvider([{ error: new ApiError('Invalid request', 400) }]));
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const summarizingTool = { ...searchTool, outputPolicy: { maxTokens: 300, summarize: true } };
+
+      const message = await createFittedToolResultMessage(searchResult(searchResults), [summarizingTool], context);
+
+      expect(message.content.startsWith('{"query":"lisbon hotels"')).toBe(true);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('read_tool_output', () => {
+    it('should read a stored result page by page', async () => {
+      const message = await createFittedToolResultMessage(searchResult(searchResults), [searchTool], context);
+      const reference = message.content.match(/stored as ([\w-]+)/)?.[1] as string;
+      const reader = createReadToolOutputTool('user-1', 'gpt-4.1');
+
+      const first = (await reader.execute({ reference, page: 1 })) as ToolOutputPage;
+      const second = (await reader.execute({ reference, page: 2 })) as ToolOutputPage;
+
+      expect(first.pages).toBeGreaterThan(1);
+      expect(JSON.stringify(searchResults).startsWith(first.content + second.content)).toBe(true);
+      await expect(reader.execute({ reference, page: first.pages + 1 })).rejects.toBeInstanceOf(ToolError);
+      await expect(
+        createReadToolOutputTool('user-2').execute({ reference, page: 1 })
+      ).rejects.toThrow(`No stored tool result with reference ${reference}`);
+
+      const page = await createFittedToolResultMessage(
+        { toolCallId: 'call_3', toolName: READ_TOOL_OUTPUT_TOOL, result: second },
+        [searchTool],
+        context
+      );
+      expect(page.content).toBe(`Page 2 of ${first.pages} of ${reference}:\n${second.content}`);
+    });
+
+    it('should be offered once the conversation refers to a stored result', async () => {
+      const message = await createFittedToolResultMessage(searchResult(searchResults), [searchTool], context);
+
+      expect(withToolOutputReader([searchTool], [], 'user-1')).toEqual([searchTool]);
+      expect(withToolOutputReader([searchTool], [message], 'user-1').map((tool) => tool.name)).toEqual([
+        'search',
+        READ_TOOL_OUTPUT_TOOL,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import {
+  getToolExecutionPolicy,
+  scheduleToolCalls,
+  ToolTimeoutError,
+  withToolTimeout,
+} from '../toolScheduler';
+import { orchestrate } from '../orchestrator';
+import { setSupabaseClientForTesting } from '../runStore';
+import { attachRunContext, getRunContext, RunContext } from '../runContext';
+import { registerProviderFactory } from '../providers/registry';
+import { createMockProvider } from '../providers/mock';
+import { GPT41Config, Tool, ToolCall } from '../types';
+import { ExtendedTool } from '../../tools/types';
+
+jest.mock('../../billing/tokenUsage', () => ({
+  logUsageAndUpdateCost: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+/**
+ * Create a tool with scheduling metadata
+ */
+function tool(name: string, options: Partial<ExtendedTool> = {}): ExtendedTool {
+  return { name, description: name, category: 'utility', parameters: {}, execute: jest.fn(), ...options };
+}
+
+/**
+ * Create tool calls to the named tools
+ */
+function callsTo(...names: string[]): ToolCall[] {
+  return names.map((name, index) => ({ id: `call_${index}`, name, arguments: {} }));
+}
+
+/**
+ * Wait for a number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run calls that take a little while, recording what was running as each started
+ */
+async function trackCalls(toolCalls: ToolCall[], tools: Tool[], maxConcurrency?: number) {
+  const running = new Set<string>();
+  const runningAtStart: string[][] = [];
+
+  const results = await scheduleToolCalls(
+    toolCalls,
+    tools,
+    async (toolCall) => {
+      running.add(toolCall.id);
+      runningAtStart.push(Array.from(running));
+      await sleep(10);
+      running.delete(toolCall.id);
+      return toolCall.id;
+    },
+    { maxConcurrency }
+  );
+
+  return { results, runningAtStart, peak: Math.max(...runningAtStart.map((ids) => ids.length)) };
+}
+
+describe('toolScheduler', () => {
+  describe('getToolExecutionPolicy', () => {
+    it('should prefer the tool settings over the run limits', () => {
+      expect(getToolExecutionPolicy(tool('a', { timeoutMs: 100, maxConcurrency: 2 }), { timeoutMs: 500 })).toEqual({
+        timeoutMs: 100,
+        maxConcurrency: 2,
+        sequential: false,
+      });
+      expect(getToolExecutionPolicy(tool('b', { sequential: true }), { timeoutMs: 500 })).toEqual({
+        timeoutMs: 500,
+        maxConcurrency: Infinity,
+        sequential: true,
+      });
+      expect(getToolExecutionPolicy(undefined).timeoutMs).toBeUndefined();
+    });
+  });
+
+  describe('scheduleToolCalls', () => {
+    it('should run calls within the run limit and return results in order', async () => {
+      const { results, peak } = await trackCalls(callsTo('a', 'a', 'a', 'a', 'a', 'a', 'a'), [tool('a')], 3);
+
+      expect(results).toEqual(['call_0', 'call_1', 'call_2', 'call_3', 'call_4', 'call_5', 'call_6']);
+      expect(peak).toBe(3);
+    });
+
+    it('should hold back calls over a tool limit without holding back other tools', async () => {
+      const { runningAtStart } = await trackCalls(callsTo('search', 'search', 'search', 'calc'), [
+        tool('search', { maxConcurrency: 2 }),
+        tool('calc'),
+      ]);
+
+      // The third search waits, but the calculator starts alongside the first two
+      expect(runningAtStart[2]).toEqual(['call_0', 'call_1', 'call_3']);
+      expect(runningAtStart.every((ids) => ids.filter((id) => id !== 'call_3').length <= 2)).toBe(true);
+    });
+
+    it('should run sequential tools on their own', async () => {
+      const { results, runningAtStart } = await trackCalls(callsTo('a', 'write', 'a', 'write'), [
+        tool('a'),
+        tool('write', { sequential: true }),
+      ]);
+
+      expect(results).toEqual(['call_0', 'call_1', 'call_2', 'call_3']);
+      expect(runningAtStart).toEqual([['call_0'], ['call_1'], ['call_2'], ['call_3']]);
+    });
+
+    it('should resolve with no calls', async () => {
+      await expect(scheduleToolCalls([], [], jest.fn())).resolves.toEqual([]);
+    });
+
+    it('should reject when a call throws', async () => {
+      const run = jest.fn().mockRejectedValue(new Error('cancelled'));
+
+      await expect(scheduleToolCalls(callsTo('a', 'a'), [tool('a')], run)).rejects.toThrow('cancelled');
+    });
+  });
+
+  describe('withToolTimeout', () => {
+    it('should abort a call that runs over its time limit', async () => {
+      let callSignal: AbortSignal | undefined;
+      const call = withToolTimeout(
+        (signal) => {
+          callSignal = signal;
+          return new Promise(() => {});
+        },
+        'slow',
+        20
+      );
+
+      await expect(call).rejects.toBeInstanceOf(ToolTimeoutError);
+      await expect(call).rejects.toMatchObject({ toolName: 'slow', timeoutMs: 20, retryable: false });
+      expect(callSignal?.aborted).toBe(true);
+    });
+
+    it('should pass on the run context and cancellation of the run', async () => {
+      const controller = new AbortController();
+      const context = { runId: 'run-1', userId: 'user-1', depth: 0, persist: false } as RunContext;
+      attachRunContext(controller.signal, context);
+
+      const call = withToolTimeout(
+        (signal) =>
+          new Promise((_, reject) => {
+            expect(getRunContext(signal)).toBe(context);
+            signal?.addEventListener('abort', () => reject(signal.reason));
+          }),
+        'cancellable',
+        1000,
+        controller.signal
+      );
+      controller.abort(new Error('Run cancelled'));
+
+      await expect(call).rejects.toThrow('Run cancelled');
+    });
+  });
+
+  describe('orchestrate', () => {
+    const config: GPT41Config = { provider: 'scheduler-test', apiKey: 'test-key', model: 'gpt-4.1' };
+
+    beforeEach(() => {
+      setSupabaseClientForTesting(null);
+    });
+
+    it('should tell the model when a tool call times out and carry on', async () => {
+      const provider = createMockProvider([
+        {
+          toolCalls: [
+            { name: 'hang', arguments: {} },
+            { name: 'quick', arguments: {} },
+          ],
+        },
+        { content: 'The slow lookup timed out.' },
+      ]);
+      registerProviderFactory('scheduler-test', () => provider);
+
+      const events: string[] = [];
+      const result = await orchestrate(
+        {
+          instruction: 'Look it up',
+          context: { userId: 'user-1' },
+          tools: [
+            tool('hang', { timeoutMs: 30, execute: () => new Promise(() => {}) }),
+            tool('quick', { execute: jest.fn().mockResolvedValue({ ok: true }) }),
+          ],
+          maxToolConcurrency: 1,
+          persistRun: false,
+          onEvent: (event) => {
+            if (event.type === 'tool_error') events.push(event.result.error!.name);
+          },
+        },
+        config
+      );
+
+      expect(result.response).toBe('The slow lookup timed out.');
+      expect(events).toEqual(['ToolTimeoutError']);
+      const toolMessages = provider.requests[1].messages.filter((message) => message.role === 'tool');
+      expect(toolMessages.map((message) => message.content)).toEqual([
+        'Error: Tool hang did not finish within 30ms',
+        '{"ok":true}',
+      ]);
+    });
+
+    it('should apply the run time limit to tools without their own', async () => {
+      const provider = createMockProvider([
+        { toolCalls: [{ name: 'hang', arguments: {} }] },
+        { content: 'Done.' },
+      ]);
+      registerProviderFactory('scheduler-test', () => provider);
+
+      await orchestrate(
+        {
+          instruction: 'Look it up',
+          context: { userId: 'user-1' },
+          tools: [tool('hang', { execute: () => new Promise(() => {}) })],
+          toolTimeoutMs: 20,
+          persistRun: false,
+        },
+        config
+      );
+
+      const toolMessage = provider.requests[1].messages.find((message) => message.role === 'tool');
+      expect(toolMessage?.content).toBe('Error: Tool hang did not finish within 20ms');
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Agent tools
+ *
+ * This module wraps an orchestration configuration (a specialist's system
+ * prompt, tool subset and model) as a tool that a parent orchestrator can
+ * delegate tasks to. Each delegated task runs as a sub-agent of the calling
+ * run: it is billed to the same user, draws on the caller's token and time
+ * budgets, and is stored as a run nested under the caller's.
+ */
+
+import { orchestrate } from './orchestrator';
+import { requiresApproval } from './approval';
+import { BudgetTracker } from './budget';
+import { getRunContext } from './runContext';
+import { GPT41Config, StopReason, Tool } from './types';
+import { ToolError } from '../utils/error';
+
+/**
+ * The deepest a sub-agent may run by default, where the top-level run is at
+ * depth 0 and the agents it calls are at depth 1
+ */
+export const DEFAULT_MAX_AGENT_DEPTH = 2;
+
+/**
+ * The share of the calling run's remaining tokens a 'split' agent may use by default
+ */
+export const DEFAULT_AGENT_TOKEN_SHARE = 0.5;
+
+/**
+ * How a specialist agent is run when a parent orchestrator delegates to it
+ */
+export interface AgentToolOptions {
+  /** The name of the tool */
+  name: string;
+  /** What the agent is good at, shown to the parent model */
+  description: string;
+  /** The agent's system prompt (default: the orchestrator template rendered for its tools) */
+  systemPrompt?: string;
+  /** The persona the agent's system prompt is rendered with, when no system prompt is given */
+  persona?: string;
+  /** The tools the agent may use */
+  tools: Tool[];
+  /** The agent's model configuration (default: that of the orchestrator) */
+  config?: GPT41Config;
+  /** The maximum number of model calls per delegated task (default: 10) */
+  maxSteps?: number;
+  /** The most tokens a delegated task may consume */
+  maxTotalTokens?: number;
+  /**
+   * How the agent draws on the calling run's token budget: 'shared' lets it
+   * use whatever the run has left, 'split' only `tokenShare` of it (default:
+   * 'shared'). Either way, its tokens count against the run's budget.
+   */
+  tokenBudget?: 'shared' | 'split';
+  /** The share of the calling run's remaining tokens a 'split' agent may use (default: 0.5) */
+  tokenShare?: number;
+  /** The deepest the agent may run, where the top-level run is at depth 0 (default: 2) */
+  maxDepth?: number;
+}
+
+/**
+ * The result of a delegated task, as given to the parent model
+ */
+export interface AgentToolResult {
+  /** The ID of the sub-agent's run, whose trace is nested under the caller's */
+  runId?: string;
+  /** The sub-agent's answer */
+  response: string;
+  /** Why the sub-agent stopped, such as a budget running out */
+  stopReason: StopReason;
+}
+
+/**
+ * Work out how many tokens a delegated task may consume
+ * @param budget The budget of the calling run
+ * @param options The agent's options
+ * @returns The token limit, or undefined if there is none
+ */
+function agentTokenLimit(budget: BudgetTracker, options: AgentToolOptions): number | undefined {
+  const remaining = budget.remainingTokens();
+  const available =
+    remaining !== undefined && options.tokenBudget === 'split'
+      ? Math.floor(remaining * (options.tokenShare ?? DEFAULT_AGENT_TOKEN_SHARE))
+      : remaining;
+
+  if (available === undefined) return options.maxTotalTokens;
+  if (options.maxTotalTokens === undefined) return available;
+  return Math.min(available, options.maxTotalTokens);
+}
+
+/**
+ * Create a tool that delegates a task to a specialist agent
+ *
+ * If any of the agent's tools requires approval, so does the agent tool:
+ * approving the delegation approves the calls the agent makes, as a
+ * sub-agent cannot pause for approval itself.
+ * @param options How the agent is run
+ * @returns The agent as a tool
+ */
+export function createAgentTool(options: AgentToolOptions): Tool {
+  const {
+    name,
+    description,
+    systemPrompt,
+    persona,
+    tools,
+    config,
+    maxSteps,
+    maxDepth = DEFAULT_MAX_AGENT_DEPTH,
+  } = options;
+  const approvalRequired = tools.some(requiresApproval);
+  const agentTools = approvalRequired ? tools.map((tool) => ({ ...tool, requiresApproval: false })) : tools;
+
+  return {
+    name,
+    description,
+    parameters: {
+      instruction: { type: 'string', description: 'The task to delegate, stated in full' },
+      context: {
+        type: 'string',
+        description: 'Anything the agent needs to know that is not in the task',
+        optional: true,
+      },
+    },
+    requiresApproval: approvalRequired || undefined,
+    execute: async (args, executeOptions = {}): Promise<AgentToolResult> => {
+      const { signal } = executeOptions;
+      const parentRun = getRunContext(signal);
+      if (!parentRun) {
+        throw new ToolError(`${name} can only be called during an orchestration run`, name, false);
+      }
+      if (parentRun.depth + 1 > maxDepth) {
+        throw new ToolError(
+          `${name} cannot be called at nesting depth ${parentRun.depth + 1}; the limit is ${maxDepth}`,
+          name,
+          false
+        );
+      }
+
+      const instruction = args.context
+        ? `${args.instruction}\n\nContext:\n${args.context}`
+        : String(args.instruction);
+
+      const result = await orchestrate(
+        {
+          instruction,
+          context: { userId: parentRun.userId },
+          tools: agentTools,
+          maxSteps,
+          maxTotalTokens: agentTokenLimit(parentRun.budget, options),
+          maxWallClockMs: parentRun.budget.remainingMs(),
+          persistRun: parentRun.persist,
+          systemPrompt,
+          persona,
+          parentRun,
+          signal,
+        },
+        config
+      );
+
+      if (result.stopReason === 'error' || result.stopReason === 'invalid_output') {
+        const reason = result.errors?.map((error) => error.message).join('; ') || result.response;
+        throw new ToolError(`${name} failed: ${reason}`, name, false);
+      }
+
+      return { runId: result.runId, response: result.response, stopReason: result.stopReason };
+    },
+  };
+}
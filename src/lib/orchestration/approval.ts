@@ -0,0 +1,191 @@
+/**
+ * Human-in-the-loop approval for sensitive tool calls
+ *
+ * Tools that declare `requiresApproval` are never run on the model's say-so
+ * alone. The run pauses in the `awaiting_approval` state with the pending
+ * tool calls, and resumes from its saved message list once the user has
+ * approved, edited or rejected every one of them.
+ */
+
+import { ApiError } from '../utils/error';
+import { claimRunForResume, getStoredRun, saveApprovalDecisions } from './runStore';
+import {
+  ApprovalDecision,
+  GPT41Config,
+  OrchestrationCheckpoint,
+  OrchestrationRequest,
+  OrchestrationResult,
+  Tool,
+  ToolCall,
+  ToolCallResult,
+} from './types';
+
+/**
+ * The state of a paused run after a decision that did not resume it
+ */
+export interface AwaitingApprovalStatus {
+  /** The ID of the run */
+  runId: string;
+  /** The run is still paused */
+  status: 'awaiting_approval';
+  /** The tool calls that still need a decision */
+  pendingToolCalls: ToolCall[];
+}
+
+/**
+ * Check whether calls to a tool must be approved by the user
+ * @param tool The tool, if it exists
+ * @returns Whether the tool requires approval
+ */
+export function requiresApproval(tool?: Tool): boolean {
+  return Boolean(tool?.requiresApproval);
+}
+
+/**
+ * Build the response shown while a run waits for approval
+ * @param toolCalls The tool calls waiting for approval
+ * @returns A user-facing description of what needs approval
+ */
+export function createApprovalSummary(toolCalls: ToolCall[]): string {
+  const names = toolCalls.map((toolCall) => toolCall.name).join(', ');
+  return `Waiting for your approval before running ${toolCalls.length === 1 ? 'this tool' : 'these tools'}: ${names}.`;
+}
+
+/**
+ * Build the result of a tool call the user rejected
+ * @param toolCall The rejected tool call
+ * @param reason The reason given by the user, if any
+ * @returns A failed tool call result the model can respond to
+ */
+export function createRejectedToolResult(toolCall: ToolCall, reason?: string): ToolCallResult {
+  return {
+    toolCallId: toolCall.id,
+    toolName: toolCall.name,
+    result: null,
+    error: new Error(
+      `The user rejected this tool call${reason ? `: ${reason}` : ''}. Do not retry it without asking.`
+    ),
+  };
+}
+
+/**
+ * Reduce tool results to JSON so they can be saved in a checkpoint
+ * @param results The tool results
+ * @returns The tool results with errors reduced to their message
+ */
+export function serializeToolResults(
+  results: ToolCallResult[]
+): OrchestrationCheckpoint['toolResults'] {
+  return results.map(({ error, ...rest }) => ({
+    ...rest,
+    ...(error ? { error: error.message } : {}),
+  }));
+}
+
+/**
+ * Restore tool results saved in a checkpoint
+ * @param results The saved tool results
+ * @returns The tool results with errors restored
+ */
+export function restoreToolResults(
+  results: OrchestrationCheckpoint['toolResults']
+): ToolCallResult[] {
+  return results.map(({ error, ...rest }) => ({
+    ...rest,
+    ...(error ? { error: new Error(error) } : {}),
+  }));
+}
+
+/**
+ * The most times a decision is retried when other decisions are saved at the same time
+ */
+const MAX_DECISION_ATTEMPTS = 5;
+
+/**
+ * Record the user's decision on a pending tool call, and resume the run once
+ * every pending tool call has a decision
+ *
+ * Decisions are saved with a compare-and-set on the decisions read, so a
+ * decision made at the same time for another call is re-read and kept.
+ * @param runId The ID of the paused run
+ * @param userId The user the run belongs to
+ * @param decision The decision to record
+ * @param tools The tools available to the resumed run
+ * @param config Optional model configuration for the resumed run
+ * @param signal Optional abort signal that cancels the resumed run
+ * @returns The orchestration result if the run resumed, or the calls still pending
+ * @throws ApiError if the run cannot take this decision
+ */
+export async function submitApprovalDecision(
+  runId: string,
+  userId: string,
+  decision: ApprovalDecision,
+  tools: Tool[],
+  config?: GPT41Config,
+  signal?: AbortSignal
+): Promise<OrchestrationResult | AwaitingApprovalStatus> {
+  for (let attempt = 1; attempt <= MAX_DECISION_ATTEMPTS; attempt++) {
+    const run = await getStoredRun(runId, userId);
+
+    if (!run) {
+      throw new ApiError('Run not found', 404);
+    }
+
+    if (run.status !== 'awaiting_approval' || !run.checkpoint) {
+      throw new ApiError('Run is not awaiting approval', 409);
+    }
+
+    const checkpoint = run.checkpoint as unknown as OrchestrationCheckpoint;
+    const previousDecisions = (run.approval_decisions as unknown as ApprovalDecision[] | null) || [];
+
+    // With a single pending call, the tool call ID may be omitted
+    const toolCallId =
+      decision.toolCallId ||
+      (checkpoint.pendingToolCalls.length === 1 ? checkpoint.pendingToolCalls[0].id : '');
+
+    if (!checkpoint.pendingToolCalls.some((toolCall) => toolCall.id === toolCallId)) {
+      throw new ApiError('Tool call is not awaiting approval', 400, { toolCallId: decision.toolCallId });
+    }
+
+    if (previousDecisions.some((previous) => previous.toolCallId === toolCallId)) {
+      throw new ApiError('Tool call has already been decided', 409, { toolCallId });
+    }
+
+    const decisions = [...previousDecisions, { ...decision, toolCallId }];
+    const undecided = checkpoint.pendingToolCalls.filter(
+      (toolCall) => !decisions.some((made) => made.toolCallId === toolCall.id)
+    );
+
+    // Wait for the remaining decisions before resuming
+    if (undecided.length > 0) {
+      if (!(await saveApprovalDecisions(runId, decisions, run.approval_decisions))) {
+        // Another decision was saved or the run moved on; read it again
+        continue;
+      }
+      return { runId, status: 'awaiting_approval', pendingToolCalls: undecided };
+    }
+
+    // Only one request may resume the run
+    if (!(await claimRunForResume(runId, decisions, run.approval_decisions))) {
+      continue;
+    }
+
+    // Import dynamically to avoid circular dependencies
+    const { orchestrate } = await import('./orchestrator');
+
+    // The resumed run keeps the options it was started with
+    const request: OrchestrationRequest = {
+      ...checkpoint.options,
+      instruction: run.instruction,
+      context: { userId },
+      tools,
+      maxRetries: checkpoint.maxRetries,
+      resumeFrom: { runId, checkpoint, decisions },
+      signal,
+    };
+
+    return config ? orchestrate(request, config) : orchestrate(request);
+  }
+
+  throw new ApiError('Approval decisions changed while saving; try again', 409);
+}
@@ -0,0 +1,216 @@
+/**
+ * Budget enforcement for the orchestration loop
+ *
+ * This module tracks steps, elapsed time and token usage for a single
+ * orchestration run and decides when the run has to stop.
+ */
+
+import { OrchestrationBudget, StopReason, ToolCallResult } from './types';
+
+/**
+ * Default maximum number of model calls per run, applied when the caller
+ * does not set one so a run can never loop forever
+ */
+export const DEFAULT_MAX_STEPS = 10;
+
+/**
+ * Error thrown when an operation does not finish before the run's deadline
+ */
+export class BudgetTimeoutError extends Error {
+  constructor(message: string = 'Orchestration time budget exceeded') {
+    super(message);
+    this.name = 'BudgetTimeoutError';
+  }
+}
+
+/**
+ * Tracks resource usage for one orchestration run against its budget
+ */
+export class BudgetTracker {
+  private readonly budget: OrchestrationBudget;
+  private readonly startedAt: number;
+  private readonly now: () => number;
+  private readonly parent?: BudgetTracker;
+  private steps = 0;
+  private tokens = 0;
+
+  /**
+   * Create a tracker; the wall clock starts immediately
+   * @param budget The limits to enforce
+   * @param now Clock function (injectable for tests)
+   * @param parent The tracker of the run that delegated this one, which the tokens are also counted against
+   */
+  constructor(budget: OrchestrationBudget = {}, now: () => number = Date.now, parent?: BudgetTracker) {
+    this.budget = {
+      ...budget,
+      maxSteps: budget.maxSteps ?? DEFAULT_MAX_STEPS,
+    };
+    this.now = now;
+    this.parent = parent;
+    this.startedAt = now();
+  }
+
+  /**
+   * Record that a model call is starting
+   */
+  public recordStep(): void {
+    this.steps++;
+  }
+
+  /**
+   * Record tokens consumed by a model call
+   * @param totalTokens The total tokens used by the call
+   */
+  public recordTokens(totalTokens: number): void {
+    this.tokens += totalTokens;
+    this.parent?.recordTokens(totalTokens);
+  }
+
+  /**
+   * Carry over usage from an earlier part of the run, such as before it
+   * paused for approval; the wall clock is not carried over
+   * @param stepsUsed Model calls already made
+   * @param tokensUsed Tokens already consumed
+   */
+  public restore(stepsUsed: number, tokensUsed: number): void {
+    this.steps += stepsUsed;
+    this.tokens += tokensUsed;
+  }
+
+  /**
+   * Number of model calls made so far
+   */
+  public get stepsUsed(): number {
+    return this.steps;
+  }
+
+  /**
+   * Number of tokens consumed so far
+   */
+  public get tokensUsed(): number {
+    return this.tokens;
+  }
+
+  /**
+   * Milliseconds elapsed since the run started
+   */
+  public get elapsedMs(): number {
+    return this.now() - this.startedAt;
+  }
+
+  /**
+   * Milliseconds left before the wall-clock budget runs out
+   * @returns The remaining time, or undefined if there is no time budget
+   */
+  public remainingMs(): number | undefined {
+    if (this.budget.maxWallClockMs === undefined) {
+      return undefined;
+    }
+    return Math.max(0, this.budget.maxWallClockMs - this.elapsedMs);
+  }
+
+  /**
+   * Tokens left before the token budget runs out
+   * @returns The remaining tokens, or undefined if there is no token budget
+   */
+  public remainingTokens(): number | undefined {
+    if (this.budget.maxTotalTokens === undefined) {
+      return undefined;
+    }
+    return Math.max(0, this.budget.maxTotalTokens - this.tokens);
+  }
+
+  /**
+   * Check whether any budget has run out
+   * @returns The reason to stop, or undefined if the run may continue
+   */
+  public exhausted(): StopReason | undefined {
+    const { maxSteps, maxWallClockMs, maxTotalTokens } = this.budget;
+
+    if (maxWallClockMs !== undefined && this.elapsedMs >= maxWallClockMs) {
+      return 'timeout';
+    }
+    if (maxTotalTokens !== undefined && this.tokens >= maxTotalTokens) {
+      return 'token_limit';
+    }
+    if (maxSteps !== undefined && this.steps >= maxSteps) {
+      return 'step_limit';
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Race a promise against a deadline
+ * @param promise The operation to wait for
+ * @param timeoutMs Milliseconds to wait, or undefined to wait indefinitely
+ * @param controller Optional controller of the operation's signal, aborted with the
+ * BudgetTimeoutError when the deadline passes so the operation stops too
+ * @returns The result of the operation
+ * @throws BudgetTimeoutError if the deadline passes first
+ */
+export async function withDeadline<T>(
+  promise: Promise<T>,
+  timeoutMs?: number,
+  controller?: AbortController
+): Promise<T> {
+  if (timeoutMs === undefined) {
+    return promise;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new BudgetTimeoutError();
+      reject(error);
+      controller?.abort(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Describe the tool calls completed so far
+ * @param toolResults The tool calls completed before stopping
+ * @returns A sentence listing the successful and failed tool calls
+ */
+export function describeToolResults(toolResults: ToolCallResult[]): string {
+  if (toolResults.length === 0) {
+    return 'No tools were called.';
+  }
+
+  const succeeded = toolResults.filter((result) => !result.error);
+  const failed = toolResults.filter((result) => result.error);
+
+  return (
+    `Completed ${succeeded.length} tool call${succeeded.length === 1 ? '' : 's'}` +
+    (succeeded.length > 0 ? ` (${succeeded.map((result) => result.toolName).join(', ')})` : '') +
+    (failed.length > 0 ? `; ${failed.length} failed` : '') +
+    '.'
+  );
+}
+
+/**
+ * Build a summary for a run that stopped because a budget ran out
+ * @param stopReason Which budget ran out
+ * @param toolResults The tool calls completed before stopping
+ * @returns A user-facing summary of what was done
+ */
+export function createBudgetSummary(stopReason: StopReason, toolResults: ToolCallResult[]): string {
+  const reasons: Partial<Record<StopReason, string>> = {
+    step_limit: 'the maximum number of steps',
+    token_limit: 'the token budget',
+    timeout: 'the time limit',
+  };
+
+  return [
+    `I stopped before finishing because the task reached ${reasons[stopReason] || 'its budget'}.`,
+    describeToolResults(toolResults),
+    'You can continue the task with a follow-up request or a larger budget.',
+  ].join(' ');
+}
@@ -0,0 +1,118 @@
+/**
+ * Cancellation support for orchestration runs
+ *
+ * This module provides the helpers used to thread an AbortSignal through the
+ * orchestration loop, provider calls, retry backoff and tool execution, and
+ * keeps track of the runs in progress in this process so they can be
+ * cancelled by ID.
+ */
+
+import { describeToolResults } from './budget';
+import { ToolCallResult } from './types';
+
+/**
+ * Error thrown when an operation is abandoned because its run was cancelled
+ */
+export class RunCancelledError extends Error {
+  constructor(message: string = 'Orchestration run was cancelled') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Check whether an error was caused by cancellation
+ * @param error The error to check
+ * @returns Whether the error is an abort error
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Throw if the signal has been aborted
+ * @param signal The abort signal, if any
+ * @throws RunCancelledError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RunCancelledError();
+  }
+}
+
+/**
+ * Race a promise against an abort signal, so that work which ignores the
+ * signal cannot keep a cancelled run waiting
+ * @param promise The operation to wait for
+ * @param signal The abort signal, or undefined to wait indefinitely
+ * @returns The result of the operation
+ * @throws RunCancelledError if the signal is aborted first
+ */
+export async function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  throwIfAborted(signal);
+
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(new RunCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([promise, aborted]);
+  } finally {
+    signal.removeEventListener('abort', onAbort!);
+  }
+}
+
+/**
+ * Build the response for a run that was cancelled
+ * @param toolResults The tool calls completed before the run was cancelled
+ * @returns A user-facing summary of what was done
+ */
+export function createCancellationSummary(toolResults: ToolCallResult[]): string {
+  return ['The task was cancelled before it finished.', describeToolResults(toolResults)].join(' ');
+}
+
+/**
+ * Runs in progress in this process, by run ID
+ */
+const activeRuns = new Map<string, { userId: string; controller: AbortController }>();
+
+/**
+ * Register a run so that it can be cancelled by ID
+ * @param runId The ID of the run
+ * @param userId The user the run belongs to
+ * @param controller The controller that aborts the run
+ */
+export function registerActiveRun(runId: string, userId: string, controller: AbortController): void {
+  activeRuns.set(runId, { userId, controller });
+}
+
+/**
+ * Remove a run once it has finished
+ * @param runId The ID of the run
+ */
+export function unregisterActiveRun(runId: string): void {
+  activeRuns.delete(runId);
+}
+
+/**
+ * Cancel a run in progress in this process
+ * @param runId The ID of the run
+ * @param userId The user requesting cancellation; must own the run
+ * @returns Whether a matching run was found and cancelled
+ */
+export function cancelActiveRun(runId: string, userId: string): boolean {
+  const activeRun = activeRuns.get(runId);
+
+  if (!activeRun || activeRun.userId !== userId) {
+    return false;
+  }
+
+  activeRun.controller.abort(new RunCancelledError());
+  return true;
+}
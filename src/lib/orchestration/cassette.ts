@@ -0,0 +1,711 @@
+/**
+ * Record-and-replay cassettes
+ *
+ * A cassette captures the model calls and tool calls made during
+ * orchestration so they can be played back without the network. In record
+ * mode, calls go through to the real providers and tools, and each request
+ * is written down with its response, secrets redacted. In replay mode, the
+ * recorded responses are served in place of the providers and tools, and a
+ * request that was not recorded fails. A stored run trace can also be turned
+ * into a cassette, to reproduce a user's run locally.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { isAbortError, throwIfAborted } from './cancellation';
+import { classifyError } from './retryPolicy';
+import { getProviderFactory, getProviderNames, registerProviderFactory } from './providers/registry';
+import { ChatRequest, ChatResponse, LLMProvider } from './providers/types';
+import type { RunRecord, RunStepRecord } from './runStore';
+import { Message, OrchestrationUsage, Tool } from './types';
+import { ToolError } from '../utils/error';
+
+/**
+ * The version of the cassette format
+ */
+export const CASSETTE_VERSION = 1;
+
+/**
+ * What a redacted secret is replaced with
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Names of the object keys whose values are always redacted
+ */
+const SECRET_KEY_NAMES =
+  'authorization|cookie|set-cookie|password|passwd|secret|client[-_]?secret|x?-?api[-_]?key|' +
+  'access[-_]?token|refresh[-_]?token|id[-_]?token|token|credentials?|private[-_]?key';
+
+/**
+ * Object keys whose values are always redacted
+ */
+const SECRET_KEY_PATTERN = new RegExp(`^(?:${SECRET_KEY_NAMES})$`, 'i');
+
+/**
+ * Secret string values within JSON text, such as a tool result given to the model
+ */
+const SECRET_JSON_FIELD_PATTERN = new RegExp(`("(?:${SECRET_KEY_NAMES})"\\s*:\\s*)"(?:[^"\\\\]|\\\\.)*"`, 'gi');
+
+/**
+ * Secrets recognised by their shape wherever they appear in text
+ */
+const SECRET_VALUE_PATTERNS: RegExp[] = [
+  // OpenAI and Anthropic API keys
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  // Stripe keys and webhook secrets
+  /\b(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{10,}/g,
+  /\bwhsec_[A-Za-z0-9]{10,}/g,
+  // Bearer tokens and JWTs, such as Supabase keys
+  /\bBearer\s+[A-Za-z0-9._~+/-]{8,}=*/g,
+  /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+];
+
+/**
+ * Environment variables whose values are redacted wherever they appear
+ */
+const SECRET_ENV_PATTERN = /(KEY|SECRET|TOKEN|PASSWORD)$/;
+
+/**
+ * The shortest environment value treated as a secret, so that short
+ * placeholder values do not redact ordinary text
+ */
+const MIN_SECRET_LENGTH = 12;
+
+/**
+ * Whether a cassette records calls or plays them back
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * A failed call, as recorded on a cassette
+ */
+export interface CassetteError {
+  /** The error message */
+  message: string;
+  /** The HTTP status of the error, if it had one */
+  status?: number;
+  /** Whether the call was worth retrying */
+  retryable: boolean;
+}
+
+/**
+ * A recorded model call
+ */
+export interface CassetteModelCall {
+  type: 'model_call';
+  /** The provider the call was made to, if known */
+  provider?: string;
+  /** The request; only the model and messages are matched on replay */
+  request: {
+    model: string;
+    messages: Message[];
+    tools?: string[];
+    toolChoice?: ChatRequest['toolChoice'];
+    responseFormat?: ChatRequest['responseFormat'];
+    temperature?: number;
+    maxTokens?: number;
+  };
+  /** The response, if the call succeeded */
+  response?: {
+    message: Message;
+    usage?: OrchestrationUsage;
+    finishReason?: string;
+    model: string;
+  };
+  /** The error, if the call failed */
+  error?: CassetteError;
+}
+
+/**
+ * A recorded tool call
+ */
+export interface CassetteToolCall {
+  type: 'tool_call';
+  /** The name of the tool */
+  toolName: string;
+  /** The arguments the tool was called with; matched on replay */
+  arguments: Record<string, unknown>;
+  /** The result, if the call succeeded */
+  result?: unknown;
+  /** The error, if the call failed */
+  error?: CassetteError;
+}
+
+/**
+ * A recorded call
+ */
+export type CassetteEntry = CassetteModelCall | CassetteToolCall;
+
+/**
+ * A cassette as stored on disk
+ */
+export interface CassetteData {
+  /** The version of the cassette format */
+  version: number;
+  /** A name for the cassette */
+  name?: string;
+  /** When the cassette was recorded */
+  recordedAt: string;
+  /** The run the cassette was made from, if it was made from a stored trace */
+  sourceRunId?: string;
+  /** The recorded calls, in the order they finished */
+  entries: CassetteEntry[];
+}
+
+/**
+ * How a cassette is used
+ */
+export interface CassetteOptions {
+  /** Whether to record or replay (default: 'record' if CASSETTE_MODE=record, otherwise 'replay') */
+  mode?: CassetteMode;
+  /** A name for the cassette */
+  name?: string;
+  /** Further values to redact, besides API keys, tokens and secret environment variables */
+  secrets?: string[];
+}
+
+/**
+ * Error thrown when a call is replayed that the cassette has no recording of
+ */
+export class CassetteMismatchError extends Error {
+  /** What was called: a model or a tool */
+  callType: CassetteEntry['type'];
+  /** The unmatched request, redacted */
+  request: unknown;
+  /** Replaying the call again cannot succeed */
+  retryable = false;
+
+  constructor(message: string, callType: CassetteEntry['type'], request: unknown) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+    this.callType = callType;
+    this.request = request;
+  }
+}
+
+/**
+ * Get the mode cassettes run in when none is given
+ * @returns 'record' if the CASSETTE_MODE environment variable says so, otherwise 'replay'
+ */
+function defaultCassetteMode(): CassetteMode {
+  return process.env.CASSETTE_MODE === 'record' ? 'record' : 'replay';
+}
+
+/**
+ * Get the values of the secret environment variables
+ * @returns The values
+ */
+function environmentSecrets(): string[] {
+  return Object.entries(process.env)
+    .filter(([name, value]) => SECRET_ENV_PATTERN.test(name) && (value?.length ?? 0) >= MIN_SECRET_LENGTH)
+    .map(([, value]) => value as string);
+}
+
+/**
+ * Redact secrets from a string
+ * @param text The string
+ * @param secrets The literal secrets to redact, longest first
+ * @returns The redacted string
+ */
+function redactString(text: string, secrets: string[]): string {
+  const withoutLiterals = secrets.reduce((result, secret) => result.split(secret).join(REDACTED), text);
+  const withoutFields = withoutLiterals.replace(SECRET_JSON_FIELD_PATTERN, `$1"${REDACTED}"`);
+  return SECRET_VALUE_PATTERNS.reduce((result, pattern) => result.replace(pattern, REDACTED), withoutFields);
+}
+
+/**
+ * Redact secrets from a JSON value
+ * @param value The value
+ * @param secrets The literal secrets to redact, longest first
+ * @returns The redacted value
+ */
+function redactJson(value: unknown, secrets: string[]): unknown {
+  if (typeof value === 'string') {
+    return redactString(value, secrets);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactJson(item, secrets));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) && item !== null && item !== '' ? REDACTED : redactJson(item, secrets),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Redact API keys, tokens and other secrets from a value
+ *
+ * The values of keys such as `apiKey` or `authorization` are replaced
+ * outright; elsewhere, API keys, bearer tokens, JWTs, the values of secret
+ * environment variables and the given secrets are replaced within the text.
+ * @param value The value, which is converted to JSON first
+ * @param secrets Further literal values to redact
+ * @returns The redacted copy of the value
+ */
+export function redactSecrets<T>(value: T, secrets: string[] = []): T {
+  if (value === undefined) return value;
+
+  const literals = [...secrets, ...environmentSecrets()]
+    .filter((secret) => secret.length > 0)
+    .sort((a, b) => b.length - a.length);
+
+  return redactJson(JSON.parse(JSON.stringify(value)), literals) as T;
+}
+
+/**
+ * Serialize a JSON value with its object keys sorted, so that equal values
+ * serialize the same however their keys were ordered
+ * @param value The value
+ * @returns The serialized value
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Get the key a recorded call is matched by on replay
+ * @param entry The call, redacted
+ * @returns The key
+ */
+function entryKey(entry: CassetteEntry): string {
+  if (entry.type === 'tool_call') {
+    return stableStringify(['tool_call', entry.toolName, entry.arguments ?? {}]);
+  }
+
+  const messages = entry.request.messages.map((message) => ({
+    role: message.role,
+    content: message.content || '',
+    name: message.name,
+    toolCallId: message.toolCallId,
+    toolCalls: message.toolCalls?.length ? message.toolCalls : undefined,
+  }));
+  return stableStringify(['model_call', entry.request.model, messages]);
+}
+
+/**
+ * Describe a failed call for the cassette
+ * @param error The error
+ * @returns The recorded error
+ */
+function toCassetteError(error: unknown): CassetteError {
+  const { statusCode, status: httpStatus } = (error ?? {}) as { statusCode?: unknown; status?: unknown };
+  const status = statusCode ?? httpStatus;
+
+  return {
+    message: error instanceof Error ? error.message : String(error),
+    ...(typeof status === 'number' ? { status } : {}),
+    retryable: classifyError(error).retryable,
+  };
+}
+
+/**
+ * Recreate a recorded model error, so that it is retried as the original was
+ * @param recorded The recorded error
+ * @returns The error to throw
+ */
+function fromCassetteError(recorded: CassetteError): Error {
+  return Object.assign(new Error(recorded.message), {
+    ...(recorded.status !== undefined ? { status: recorded.status } : {}),
+    retryable: recorded.retryable,
+  });
+}
+
+/**
+ * A recording of model calls and tool calls
+ *
+ * Providers are wrapped through the provider registry with `install()`, and
+ * tools with `wrapTools()`. Calls are matched on replay by the model and
+ * messages, or by the tool name and arguments, each recording being played
+ * once; the order of the calls does not matter, so parallel tool calls
+ * replay deterministically.
+ */
+export class Cassette {
+  /** Whether the cassette records calls or plays them back */
+  readonly mode: CassetteMode;
+  /** The calls that were replayed without a recording */
+  readonly mismatches: CassetteMismatchError[] = [];
+
+  private readonly name?: string;
+  private readonly sourceRunId?: string;
+  private readonly secrets: string[];
+  private readonly entries: CassetteEntry[];
+  private readonly keys: string[];
+  private readonly played = new Set<number>();
+
+  /**
+   * Create a cassette
+   * @param options How the cassette is used
+   * @param data The recording to replay; a cassette in record mode starts empty
+   * @throws Error if the recording is in an unsupported format
+   */
+  constructor(options: CassetteOptions = {}, data?: CassetteData) {
+    if (data && data.version !== CASSETTE_VERSION) {
+      throw new Error(`Unsupported cassette version: ${data.version}`);
+    }
+
+    this.mode = options.mode ?? defaultCassetteMode();
+    this.name = options.name ?? data?.name;
+    this.sourceRunId = this.mode === 'replay' ? data?.sourceRunId : undefined;
+    this.secrets = options.secrets ?? [];
+    this.entries = this.mode === 'replay' && data ? [...data.entries] : [];
+    this.keys = this.entries.map(entryKey);
+  }
+
+  /**
+   * Open a cassette file: the recording to replay, or a new recording
+   * @param path The path of the cassette file
+   * @param options How the cassette is used
+   * @returns The cassette
+   * @throws Error if a cassette to replay does not exist
+   */
+  static async load(path: string, options: CassetteOptions = {}): Promise<Cassette> {
+    if ((options.mode ?? defaultCassetteMode()) === 'record') {
+      return new Cassette(options);
+    }
+
+    let contents: string;
+    try {
+      contents = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Cassette ${path} does not exist; record it with CASSETTE_MODE=record`);
+      }
+      throw error;
+    }
+
+    return new Cassette(options, JSON.parse(contents));
+  }
+
+  /**
+   * Get the recording as stored on disk
+   * @returns The cassette data
+   */
+  toJSON(): CassetteData {
+    return {
+      version: CASSETTE_VERSION,
+      ...(this.name ? { name: this.name } : {}),
+      recordedAt: new Date().toISOString(),
+      ...(this.sourceRunId ? { sourceRunId: this.sourceRunId } : {}),
+      entries: this.entries,
+    };
+  }
+
+  /**
+   * Write the recording to a file
+   * @param path The path of the cassette file
+   */
+  async save(path: string): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, `${JSON.stringify(this.toJSON(), null, 2)}\n`, 'utf8');
+  }
+
+  /**
+   * Throw the first call that was replayed without a recording, if any
+   *
+   * Tool errors are handled by the orchestrator, so a tool call without a
+   * recording may not otherwise fail the run.
+   * @throws CassetteMismatchError if a call had no recording
+   */
+  verify(): void {
+    if (this.mismatches.length > 0) {
+      throw this.mismatches[0];
+    }
+  }
+
+  /**
+   * Wrap a provider so that its calls are recorded, or replace it with the recording
+   * @param name The name the provider is registered under
+   * @param provider The provider to record; not needed to replay
+   * @returns The wrapped provider
+   */
+  wrapProvider(name: string, provider?: LLMProvider): LLMProvider {
+    if (this.mode === 'replay') {
+      return { name, chat: (request) => this.replayModelCall(request) };
+    }
+
+    if (!provider) {
+      throw new Error(`A provider is needed to record calls to ${name}`);
+    }
+
+    return {
+      name: provider.name,
+      chat: async (request) => {
+        const recorded = this.toModelRequest(request);
+        try {
+          const response = await provider.chat(request);
+          this.entries.push({
+            type: 'model_call',
+            provider: name,
+            request: recorded,
+            response: redactSecrets(
+              {
+                message: response.message,
+                usage: response.usage,
+                finishReason: response.finishReason,
+                model: response.model,
+              },
+              this.secrets
+            ),
+          });
+          return response;
+        } catch (error) {
+          // A cancelled call would not be made again on replay
+          if (!isAbortError(error)) {
+            this.entries.push({ type: 'model_call', provider: name, request: recorded, error: toCassetteError(error) });
+          }
+          throw error;
+        }
+      },
+    };
+  }
+
+  /**
+   * Wrap a tool so that its calls are recorded, or replayed from the recording
+   * @param tool The tool
+   * @returns The wrapped tool
+   */
+  wrapTool(tool: Tool): Tool {
+    if (this.mode === 'replay') {
+      return {
+        ...tool,
+        execute: async (args, options = {}) => {
+          throwIfAborted(options.signal);
+          const entry = this.play({ type: 'tool_call', toolName: tool.name, arguments: redactSecrets(args, this.secrets) });
+          if (entry.type !== 'tool_call' || entry.error) {
+            throw new ToolError(entry.error?.message ?? 'Recorded tool call failed', tool.name, entry.error?.retryable ?? false);
+          }
+          return entry.result === undefined ? undefined : JSON.parse(JSON.stringify(entry.result));
+        },
+      };
+    }
+
+    return {
+      ...tool,
+      execute: async (args, options) => {
+        const recordedArgs = redactSecrets(args, this.secrets);
+        try {
+          const result = await tool.execute(args, options);
+          this.entries.push({
+            type: 'tool_call',
+            toolName: tool.name,
+            arguments: recordedArgs,
+            result: redactSecrets(result, this.secrets),
+          });
+          return result;
+        } catch (error) {
+          if (!isAbortError(error)) {
+            this.entries.push({ type: 'tool_call', toolName: tool.name, arguments: recordedArgs, error: toCassetteError(error) });
+          }
+          throw error;
+        }
+      },
+    };
+  }
+
+  /**
+   * Wrap tools so that their calls are recorded, or replayed from the recording
+   * @param tools The tools
+   * @returns The wrapped tools
+   */
+  wrapTools(tools: Tool[]): Tool[] {
+    return tools.map((tool) => this.wrapTool(tool));
+  }
+
+  /**
+   * Route every registered provider through the cassette
+   *
+   * Providers registered afterwards are not affected. In replay mode, the
+   * real providers are never created, so no API keys are needed.
+   * @returns A function that restores the providers
+   */
+  install(): () => void {
+    const originals = getProviderNames().map((name) => [name, getProviderFactory(name)!] as const);
+
+    originals.forEach(([name, factory]) => {
+      registerProviderFactory(name, (options) =>
+        this.wrapProvider(name, this.mode === 'record' ? factory(options) : undefined)
+      );
+    });
+
+    return () => originals.forEach(([name, factory]) => registerProviderFactory(name, factory));
+  }
+
+  /**
+   * Describe a model request for the cassette
+   * @param request The request
+   * @returns The recorded request, redacted
+   */
+  private toModelRequest(request: ChatRequest): CassetteModelCall['request'] {
+    return redactSecrets(
+      {
+        model: request.model,
+        messages: request.messages,
+        tools: request.tools?.map((tool) => tool.name),
+        toolChoice: request.toolChoice,
+        responseFormat: request.responseFormat,
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+      },
+      this.secrets
+    );
+  }
+
+  /**
+   * Serve a model call from the recording
+   * @param request The request
+   * @returns The recorded response
+   */
+  private async replayModelCall(request: ChatRequest): Promise<ChatResponse> {
+    throwIfAborted(request.signal);
+
+    const entry = this.play({ type: 'model_call', request: this.toModelRequest(request) });
+    if (entry.type !== 'model_call' || !entry.response) {
+      throw fromCassetteError(entry.error ?? { message: 'Recorded model call failed', retryable: false });
+    }
+
+    const response: ChatResponse = JSON.parse(JSON.stringify(entry.response));
+    if (request.onDelta && response.message.content) {
+      request.onDelta(response.message.content);
+    }
+
+    return response;
+  }
+
+  /**
+   * Take the first unplayed recording of a call
+   * @param call The call, redacted
+   * @returns The recording
+   * @throws CassetteMismatchError if there is none
+   */
+  private play(call: CassetteEntry): CassetteEntry {
+    const key = entryKey(call);
+    const index = this.keys.findIndex((entry, i) => entry === key && !this.played.has(i));
+
+    if (index === -1) {
+      const what = call.type === 'tool_call' ? `call to tool ${call.toolName}` : `call to model ${call.request.model}`;
+      const mismatch = new CassetteMismatchError(
+        `No recording of this ${what} on cassette${this.name ? ` ${this.name}` : ''}`,
+        call.type,
+        call.type === 'tool_call' ? call.arguments : call.request
+      );
+      this.mismatches.push(mismatch);
+      throw mismatch;
+    }
+
+    this.played.add(index);
+    return this.entries[index];
+  }
+}
+
+/**
+ * Run a function with a cassette installed
+ *
+ * In record mode, the recording is saved once the function succeeds; in
+ * replay mode, the function fails if any call had no recording. Tools are
+ * passed through `cassette.wrapTools()` by the function itself.
+ * @param path The path of the cassette file
+ * @param run The function to run
+ * @param options How the cassette is used
+ * @returns The result of the function
+ */
+export async function useCassette<T>(
+  path: string,
+  run: (cassette: Cassette) => Promise<T>,
+  options: CassetteOptions = {}
+): Promise<T> {
+  const cassette = await Cassette.load(path, options);
+  const uninstall = cassette.install();
+
+  try {
+    const result = await run(cassette);
+    cassette.verify();
+    if (cassette.mode === 'record') {
+      await cassette.save(path);
+    }
+    return result;
+  } finally {
+    uninstall();
+  }
+}
+
+/**
+ * Turn a stored run trace into a cassette, so the run can be replayed as a
+ * test fixture
+ *
+ * Failed calls are replayed as failing without retries, as the trace only
+ * holds their final outcome. The calls of sub-agents are not included: the
+ * agent tool's recorded result is replayed instead.
+ * @param run The run
+ * @param steps The steps of the run's trace
+ * @param options A name for the cassette and further values to redact
+ * @returns The cassette data
+ */
+export function createCassetteFromTrace(
+  run: Pick<RunRecord, 'id' | 'model'>,
+  steps: RunStepRecord[],
+  options: { name?: string; secrets?: string[] } = {}
+): CassetteData {
+  const entries = [...steps]
+    .sort((a, b) => a.step_index - b.step_index)
+    .map((step): CassetteEntry => {
+      const error = step.error ? { message: step.error, retryable: false } : undefined;
+
+      if (step.step_type === 'tool_call') {
+        return {
+          type: 'tool_call',
+          toolName: step.tool_name || '',
+          arguments: (step.input as Record<string, unknown>) || {},
+          ...(error ? { error } : { result: step.output }),
+        };
+      }
+
+      const model = step.model || run.model || '';
+      const message = step.output as unknown as Message | null;
+      const usage =
+        step.total_tokens !== null
+          ? {
+              promptTokens: step.prompt_tokens ?? 0,
+              completionTokens: step.completion_tokens ?? 0,
+              totalTokens: step.total_tokens,
+            }
+          : undefined;
+
+      return {
+        type: 'model_call',
+        request: { model, messages: (step.input as unknown as Message[]) || [] },
+        ...(error || !message
+          ? { error: error ?? { message: 'The model call did not respond', retryable: false } }
+          : {
+              response: {
+                message,
+                usage,
+                finishReason: message.toolCalls?.length ? 'tool_calls' : 'stop',
+                model,
+              },
+            }),
+      };
+    });
+
+  return {
+    version: CASSETTE_VERSION,
+    name: options.name ?? `run-${run.id}`,
+    recordedAt: new Date().toISOString(),
+    sourceRunId: run.id,
+    entries: redactSecrets(entries, options.secrets),
+  };
+}
@@ -0,0 +1,334 @@
+/**
+ * Circuit breakers for model providers and tools
+ *
+ * Each provider and each tool gets a breaker that watches the outcome of its
+ * recent calls. When too many of them fail, the breaker opens and calls are
+ * refused at once instead of being retried against a backend that is down.
+ * After a cooldown the breaker lets a trial call through (half-open), and
+ * closes again if it succeeds.
+ *
+ * Breakers live in memory, so their state is per server process.
+ */
+
+import { logger } from '../utils/logger';
+import { isAbortError } from './cancellation';
+import { classifyError } from './retryPolicy';
+import { Tool } from './types';
+
+/**
+ * The state of a circuit breaker
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Options for a circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /** The share of failed calls in the window that opens the breaker (0 to 1) */
+  failureRateThreshold: number;
+  /** The number of calls in the window before the failure rate is considered */
+  minimumCalls: number;
+  /** The number of most recent calls the failure rate is measured over */
+  windowSize: number;
+  /** How long the breaker stays open before allowing a trial call, in milliseconds */
+  cooldownMs: number;
+  /** The number of trial calls allowed at once while half-open */
+  halfOpenMaxCalls: number;
+}
+
+/**
+ * Default circuit breaker options
+ */
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureRateThreshold: 0.5,
+  minimumCalls: 5,
+  windowSize: 20,
+  cooldownMs: 30000,
+  halfOpenMaxCalls: 1,
+};
+
+/**
+ * A snapshot of a circuit breaker for the status endpoint
+ */
+export interface CircuitBreakerStatus {
+  /** The breaker key, e.g. 'provider:openai' or 'tool:web_search' */
+  key: string;
+  /** The current state */
+  state: CircuitState;
+  /** The number of calls in the window */
+  calls: number;
+  /** The number of failed calls in the window */
+  failures: number;
+  /** The share of failed calls in the window */
+  failureRate: number;
+  /** When the breaker last opened */
+  openedAt?: string;
+  /** When an open breaker will allow a trial call */
+  retryAt?: string;
+}
+
+/**
+ * A circuit breaker guarding one provider or tool
+ */
+export interface CircuitBreaker {
+  /** The breaker key */
+  readonly key: string;
+  /** The current state, moving from open to half-open once the cooldown has passed */
+  readonly state: CircuitState;
+  /**
+   * Check whether a call would be allowed, without reserving a trial call
+   * @returns Whether the breaker would let a call through
+   */
+  isAvailable(): boolean;
+  /**
+   * Reserve permission for a call
+   * @returns Whether the call may go ahead
+   */
+  tryAcquire(): boolean;
+  /** Record a call that succeeded, or failed in a way that says nothing about the backend */
+  recordSuccess(): void;
+  /** Record a call that failed */
+  recordFailure(): void;
+  /** Give back a reserved call that ended without an outcome, e.g. because it was cancelled */
+  release(): void;
+  /** Get a snapshot of the breaker */
+  getStatus(): CircuitBreakerStatus;
+}
+
+/**
+ * Error thrown when a call is refused because its circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+  key: string;
+  retryAt?: string;
+
+  constructor(key: string, retryAt?: string) {
+    super(`${key} is temporarily unavailable after repeated failures${retryAt ? `; retry after ${retryAt}` : ''}`);
+    this.name = 'CircuitOpenError';
+    this.key = key;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Create a circuit breaker
+ * @param key The breaker key
+ * @param options The breaker options
+ * @param now The clock to use
+ * @returns The circuit breaker
+ */
+export function createCircuitBreaker(
+  key: string,
+  options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  now: () => number = Date.now
+): CircuitBreaker {
+  let outcomes: boolean[] = [];
+  let storedState: CircuitState = 'closed';
+  let openedAt: number | undefined;
+  let trialsInFlight = 0;
+
+  const failureCount = () => outcomes.filter((succeeded) => !succeeded).length;
+
+  const currentState = (): CircuitState => {
+    if (storedState === 'open' && openedAt !== undefined && now() - openedAt >= options.cooldownMs) {
+      storedState = 'half_open';
+      trialsInFlight = 0;
+    }
+    return storedState;
+  };
+
+  const open = () => {
+    storedState = 'open';
+    openedAt = now();
+    trialsInFlight = 0;
+    logger.warn('Circuit breaker opened', { key, failures: failureCount(), calls: outcomes.length });
+  };
+
+  const close = () => {
+    storedState = 'closed';
+    outcomes = [];
+    openedAt = undefined;
+    trialsInFlight = 0;
+    logger.info('Circuit breaker closed', { key });
+  };
+
+  const record = (succeeded: boolean) => {
+    outcomes.push(succeeded);
+    if (outcomes.length > options.windowSize) {
+      outcomes = outcomes.slice(-options.windowSize);
+    }
+  };
+
+  return {
+    key,
+    get state() {
+      return currentState();
+    },
+    isAvailable() {
+      const state = currentState();
+      return state === 'closed' || (state === 'half_open' && trialsInFlight < options.halfOpenMaxCalls);
+    },
+    tryAcquire() {
+      const state = currentState();
+      if (state === 'closed') {
+        return true;
+      }
+      if (state === 'half_open' && trialsInFlight < options.halfOpenMaxCalls) {
+        trialsInFlight++;
+        return true;
+      }
+      return false;
+    },
+    recordSuccess() {
+      if (currentState() === 'half_open') {
+        close();
+        return;
+      }
+      record(true);
+    },
+    recordFailure() {
+      const state = currentState();
+      if (state === 'half_open') {
+        open();
+        return;
+      }
+      if (state === 'open') {
+        return;
+      }
+
+      record(false);
+      if (
+        outcomes.length >= options.minimumCalls &&
+        failureCount() / outcomes.length >= options.failureRateThreshold
+      ) {
+        open();
+      }
+    },
+    release() {
+      if (currentState() === 'half_open' && trialsInFlight > 0) {
+        trialsInFlight--;
+      }
+    },
+    getStatus() {
+      const state = currentState();
+      const failures = failureCount();
+      return {
+        key,
+        state,
+        calls: outcomes.length,
+        failures,
+        failureRate: outcomes.length > 0 ? failures / outcomes.length : 0,
+        ...(openedAt !== undefined ? { openedAt: new Date(openedAt).toISOString() } : {}),
+        ...(state === 'open' && openedAt !== undefined
+          ? { retryAt: new Date(openedAt + options.cooldownMs).toISOString() }
+          : {}),
+      };
+    },
+  };
+}
+
+/**
+ * The circuit breakers of this process, by key
+ */
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get the breaker key for a model provider
+ * @param name The provider name
+ * @returns The breaker key
+ */
+export function providerBreakerKey(name: string): string {
+  return `provider:${name}`;
+}
+
+/**
+ * Get the breaker key for a tool
+ * @param name The tool name
+ * @returns The breaker key
+ */
+export function toolBreakerKey(name: string): string {
+  return `tool:${name}`;
+}
+
+/**
+ * Get the circuit breaker for a key, creating it on first use
+ * @param key The breaker key
+ * @returns The circuit breaker
+ */
+export function getCircuitBreaker(key: string): CircuitBreaker {
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = createCircuitBreaker(key);
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Check whether calls for a key would currently be allowed
+ * @param key The breaker key
+ * @returns Whether the breaker is closed, or half-open with a trial call available
+ */
+export function isCircuitAvailable(key: string): boolean {
+  return breakers.get(key)?.isAvailable() ?? true;
+}
+
+/**
+ * Hide the tools whose circuit breaker is open
+ * @param tools The tools
+ * @returns The tools that can currently be called
+ */
+export function filterAvailableTools(tools: Tool[]): Tool[] {
+  return tools.filter((tool) => isCircuitAvailable(toolBreakerKey(tool.name)));
+}
+
+/**
+ * Get a snapshot of every circuit breaker
+ * @returns The breaker statuses, sorted by key
+ */
+export function getCircuitBreakerStatuses(): CircuitBreakerStatus[] {
+  return Array.from(breakers.values())
+    .map((breaker) => breaker.getStatus())
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Forget every circuit breaker, closing them all
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
+
+/**
+ * Run a call through the circuit breaker for a key
+ *
+ * Only failures that say something about the backend count against it:
+ * errors classified as retryable, such as server, network and timeout errors.
+ * A bad request or a cancelled call does not.
+ * @param key The breaker key
+ * @param fn The call to make
+ * @returns The result of the call
+ * @throws CircuitOpenError if the breaker is open
+ */
+export async function withCircuitBreaker<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const breaker = getCircuitBreaker(key);
+
+  if (!breaker.tryAcquire()) {
+    throw new CircuitOpenError(key, breaker.getStatus().retryAt);
+  }
+
+  try {
+    const result = await fn();
+    breaker.recordSuccess();
+    return result;
+  } catch (error) {
+    if (isAbortError(error)) {
+      breaker.release();
+    } else if (classifyError(error).retryable) {
+      breaker.recordFailure();
+    } else {
+      breaker.recordSuccess();
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * Classification result cache
+ *
+ * Classifying the same text the same way gives the same answer, so results
+ * are cached under a hash of everything that decides it: the classifier,
+ * model, prompt, labels, examples, options and the text. A cached result
+ * costs no tokens. The backend is selected from the CLASSIFIER_CACHE
+ * environment variable ('memory' by default, or 'postgres').
+ *
+ * Hits and misses are counted per classifier in memory, so the counts
+ * reflect the server process that reports them.
+ */
+
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { Database, Json } from '../types/database.types';
+import { SUPABASE_URL, SUPABASE_SERVICE_KEY } from '../config/env';
+import type { ClassificationResult } from './nanoClassifier';
+
+type SupabaseClient = ReturnType<typeof createClient<Database>>;
+
+// Initialize Supabase client
+let supabase: SupabaseClient | null = null;
+
+try {
+  // Use service role key for admin operations
+  supabase = createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+} catch (error) {
+  console.error('Failed to initialize Supabase client for the classification cache:', error);
+}
+
+/**
+ * Name of the cache backend used when none is configured
+ */
+export const DEFAULT_CLASSIFICATION_CACHE = 'memory';
+
+/**
+ * The classifier name hits and misses are counted under when a classification has none
+ */
+export const DEFAULT_CLASSIFIER_NAME = 'default';
+
+/**
+ * A store of classification results that expire
+ */
+export interface ClassificationCache {
+  /** The name of the backend */
+  name: string;
+  /**
+   * Get a result that has not expired
+   * @param key The cache key
+   * @returns The result, or undefined if there is none
+   */
+  get(key: string): Promise<ClassificationResult<string> | undefined>;
+  /**
+   * Store a result, replacing any under the same key
+   * @param key The cache key
+   * @param classifier The name of the classifier, for inspection
+   * @param result The result
+   * @param ttlMs How long the result is kept, in milliseconds
+   */
+  set(key: string, classifier: string, result: ClassificationResult<string>, ttlMs: number): Promise<void>;
+  /**
+   * Remove a result
+   * @param key The cache key
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Options for the in-process cache
+ */
+export interface InMemoryClassificationCacheOptions {
+  /** The most results kept; the least recently used go first (default: 10000) */
+  maxEntries?: number;
+  /** The current time in milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * The hit and miss counts of a classifier's cache lookups
+ */
+export interface ClassifierCacheMetrics {
+  /** The name of the classifier */
+  classifier: string;
+  /** The number of lookups that found a result */
+  hits: number;
+  /** The number of lookups that did not */
+  misses: number;
+  /** The share of lookups that found a result (0 to 1) */
+  hitRate: number;
+}
+
+/**
+ * Create an in-process classification cache
+ * @param options Optional cache options
+ * @returns The cache
+ */
+export function createInMemoryClassificationCache(
+  options: InMemoryClassificationCacheOptions = {}
+): ClassificationCache {
+  const { maxEntries = 10000, now = Date.now } = options;
+  const entries = new Map<string, { result: ClassificationResult<string>; expiresAt: number }>();
+
+  return {
+    name: 'memory',
+
+    async get(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      if (entry.expiresAt <= now()) {
+        entries.delete(key);
+        return undefined;
+      }
+
+      // Map order is insertion order, so moving the entry to the end marks it as recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.result;
+    },
+
+    async set(key: string, _classifier: string, result: ClassificationResult<string>, ttlMs: number) {
+      entries.delete(key);
+      entries.set(key, { result, expiresAt: now() + ttlMs });
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+
+    async delete(key: string) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Create a classification cache backed by the `classification_cache` table
+ * @param client Optional Supabase client (default: the service role client)
+ * @returns The cache
+ * @throws Error if no Supabase client is available
+ */
+export function createPostgresClassificationCache(client: SupabaseClient | null = supabase): ClassificationCache {
+  if (!client) {
+    throw new Error('The Postgres classification cache requires a Supabase connection');
+  }
+
+  return {
+    name: 'postgres',
+
+    async get(key: string) {
+      const { data, error } = await client
+        .from('classification_cache')
+        .select('result')
+        .eq('key', key)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? (data.result as unknown as ClassificationResult<string>) : undefined;
+    },
+
+    async set(key: string, classifier: string, result: ClassificationResult<string>, ttlMs: number) {
+      const { error } = await client.from('classification_cache').upsert({
+        key,
+        classifier,
+        result: result as unknown as Json,
+        expires_at: new Date(Date.now() + ttlMs).toISOString(),
+      });
+
+      if (error) throw error;
+    },
+
+    async delete(key: string) {
+      const { error } = await client.from('classification_cache').delete().eq('key', key);
+
+      if (error) throw error;
+    },
+  };
+}
+
+let classificationCache: ClassificationCache | null = null;
+
+/**
+ * Get the configured classification cache
+ * @returns The cache
+ * @throws Error if the configured backend is unknown
+ */
+export function getClassificationCache(): ClassificationCache {
+  if (!classificationCache) {
+    const backend = process.env.CLASSIFIER_CACHE || DEFAULT_CLASSIFICATION_CACHE;
+
+    if (backend === 'postgres') {
+      classificationCache = createPostgresClassificationCache();
+    } else if (backend === 'memory') {
+      classificationCache = createInMemoryClassificationCache();
+    } else {
+      throw new Error(`Classification cache '${backend}' is not supported`);
+    }
+  }
+
+  return classificationCache;
+}
+
+/**
+ * Replace the classification cache (for testing)
+ * @param cache The cache to use, or null to select one from the environment again
+ */
+export function setClassificationCacheForTesting(cache: ClassificationCache | null): void {
+  classificationCache = cache;
+}
+
+const lookups = new Map<string, { hits: number; misses: number }>();
+
+/**
+ * Count a cache lookup of a classifier
+ * @param classifier The name of the classifier
+ * @param hit Whether the lookup found a result
+ */
+function recordLookup(classifier: string, hit: boolean): void {
+  const counts = lookups.get(classifier) ?? { hits: 0, misses: 0 };
+  if (hit) {
+    counts.hits++;
+  } else {
+    counts.misses++;
+  }
+  lookups.set(classifier, counts);
+}
+
+/**
+ * Get the hit and miss counts of every classifier that used the cache
+ * @returns The counts, sorted by classifier name
+ */
+export function getClassifierCacheMetrics(): ClassifierCacheMetrics[] {
+  return Array.from(lookups.entries())
+    .map(([classifier, { hits, misses }]) => ({ classifier, hits, misses, hitRate: hits / (hits + misses) }))
+    .sort((a, b) => a.classifier.localeCompare(b.classifier));
+}
+
+/**
+ * Forget the hit and miss counts of every classifier
+ */
+export function resetClassifierCacheMetrics(): void {
+  lookups.clear();
+}
+
+/**
+ * Serialize a value with object keys in a stable order
+ * @param value The value
+ * @returns The JSON text
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Get the cache key of a classification
+ * @param inputs Everything that decides the classification's answer
+ * @returns A SHA-256 hash of the inputs
+ */
+export function classificationCacheKey(inputs: Record<string, unknown>): string {
+  return createHash('sha256').update(stableStringify(inputs)).digest('hex');
+}
+
+/**
+ * Look up a cached classification, counting the hit or miss
+ *
+ * A cache that fails counts as a miss, so classification carries on without it.
+ * @param classifier The name of the classifier, or undefined for the default
+ * @param key The cache key
+ * @returns The cached result, marked as cached and with no token usage, or undefined
+ */
+export async function getCachedClassification<T extends string>(
+  classifier: string | undefined,
+  key: string
+): Promise<ClassificationResult<T> | undefined> {
+  let cached: ClassificationResult<string> | undefined;
+  try {
+    cached = await getClassificationCache().get(key);
+  } catch (error) {
+    console.error('Failed to read the classification cache:', error);
+  }
+
+  recordLookup(classifier ?? DEFAULT_CLASSIFIER_NAME, Boolean(cached));
+  return cached
+    ? ({
+        ...cached,
+        cached: true,
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      } as ClassificationResult<T>)
+    : undefined;
+}
+
+/**
+ * Cache a classification
+ *
+ * A result that abstained is not cached, so the text is tried again next time.
+ * @param classifier The name of the classifier, or undefined for the default
+ * @param key The cache key
+ * @param result The result
+ * @param ttlMs How long the result is kept, in milliseconds
+ */
+export async function cacheClassification(
+  classifier: string | undefined,
+  key: string,
+  result: ClassificationResult<string>,
+  ttlMs: number
+): Promise<void> {
+  if (result.abstained) return;
+
+  // The raw response is left out; it can be large and says nothing the result does not
+  try {
+    const stored = { ...result, rawResponse: undefined };
+    await getClassificationCache().set(key, classifier ?? DEFAULT_CLASSIFIER_NAME, stored, ttlMs);
+  } catch (error) {
+    console.error('Failed to write the classification cache:', error);
+  }
+}
+
+/**
+ * Classify through the cache
+ * @param classifier The name of the classifier, or undefined for the default
+ * @param inputs Everything that decides the classification's answer
+ * @param ttlMs How long results are kept in milliseconds, or undefined to skip the cache
+ * @param classify Classifies the text on a miss
+ * @returns The cached or new result
+ */
+export async function withClassificationCache<T extends string>(
+  classifier: string | undefined,
+  inputs: Record<string, unknown>,
+  ttlMs: number | undefined,
+  classify: () => Promise<ClassificationResult<T>>
+): Promise<ClassificationResult<T>> {
+  if (!ttlMs) {
+    return classify();
+  }
+
+  const key = classificationCacheKey(inputs);
+  const cached = await getCachedClassification<T>(classifier, key);
+  if (cached) {
+    return cached;
+  }
+
+  const result = await classify();
+  await cacheClassification(classifier, key, result, ttlMs);
+  return result;
+}
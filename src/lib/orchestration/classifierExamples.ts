@@ -0,0 +1,170 @@
+/**
+ * Few-shot examples for the nano classifier
+ *
+ * Labelled examples are shown to the model as earlier turns of the
+ * conversation, before the text to classify. They are registered under a
+ * classifier name so that every call to that classifier uses them, and can
+ * also be given with a single call.
+ */
+
+import { Message } from './types';
+import { ValidationError } from '../utils/error';
+
+/**
+ * A labelled example text
+ */
+export interface ClassifierExample<T extends string = string> {
+  /** The example text */
+  text: string;
+  /** The correct label, or every label that applies for multi-label classification */
+  label: T | T[];
+}
+
+/**
+ * Where the examples for a classification come from
+ */
+export interface ClassifierExampleSource<T extends string = string> {
+  /** The name of the classifier whose registered examples are used */
+  classifier?: string;
+  /** Examples for this classification, used after the registered ones */
+  examples?: ClassifierExample<T>[];
+  /** Whether an example may have several labels */
+  multiLabel?: boolean;
+}
+
+const examplesByClassifier = new Map<string, ClassifierExample[]>();
+
+/**
+ * Register the examples of a classifier, replacing any it had
+ * @param classifier The name of the classifier
+ * @param examples The examples
+ */
+export function registerClassifierExamples(classifier: string, examples: ClassifierExample[]): void {
+  examplesByClassifier.set(classifier, examples.map((example) => ({ ...example })));
+}
+
+/**
+ * Get the examples registered for a classifier
+ * @param classifier The name of the classifier
+ * @returns The examples, or an empty list if it has none
+ */
+export function getClassifierExamples(classifier: string): ClassifierExample[] {
+  return examplesByClassifier.get(classifier) ?? [];
+}
+
+/**
+ * Forget the examples of every classifier
+ */
+export function clearClassifierExamples(): void {
+  examplesByClassifier.clear();
+}
+
+/**
+ * Get the examples for a classification, checking their labels
+ * @param labels The possible classification labels
+ * @param source The classifier name and examples of the classification
+ * @returns The registered examples of the classifier followed by the given ones
+ * @throws ValidationError if an example has a label that is not one of the labels,
+ *   or several labels when the classification is single-label
+ */
+export function resolveClassifierExamples<T extends string>(
+  labels: T[],
+  source: ClassifierExampleSource<T> = {}
+): ClassifierExample<T>[] {
+  const registered = source.classifier ? (getClassifierExamples(source.classifier) as ClassifierExample<T>[]) : [];
+  const examples = [...registered, ...(source.examples ?? [])];
+
+  const errors: string[] = [];
+  examples.forEach((example, index) => {
+    const exampleLabels = Array.isArray(example.label) ? example.label : [example.label];
+
+    if (!source.multiLabel && exampleLabels.length !== 1) {
+      errors.push(`Example ${index + 1} must have exactly one label`);
+    }
+    exampleLabels
+      .filter((label) => !labels.includes(label))
+      .forEach((label) => errors.push(`Example ${index + 1} has an unknown label "${label}"`));
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid classifier examples', errors);
+  }
+  return examples;
+}
+
+/**
+ * Get the labels of an example as the model would answer them
+ * @param example The example
+ * @returns The label, or the labels separated by commas, or none
+ */
+function formatExampleAnswer(example: ClassifierExample): string {
+  const labels = Array.isArray(example.label) ? example.label : [example.label];
+  return labels.length > 0 ? labels.join(', ') : 'none';
+}
+
+/**
+ * Turn examples into the conversation turns shown before the text to classify
+ * @param examples The examples
+ * @returns A user message with each text, answered by an assistant message with its labels
+ */
+export function formatExampleMessages(examples: ClassifierExample[]): Message[] {
+  return examples.flatMap((example): Message[] => [
+    { role: 'user', content: example.text },
+    { role: 'assistant', content: formatExampleAnswer(example) },
+  ]);
+}
+
+/**
+ * Turn examples into the conversation turns of a function calling classification
+ * @param examples The examples, each with one label
+ * @param functionName The name of the classification function
+ * @param parameterName The parameter holding the label
+ * @returns Each text, answered by a call to the function with its label and the call's result
+ */
+export function formatFunctionCallExampleMessages(
+  examples: ClassifierExample[],
+  functionName: string,
+  parameterName: string
+): Message[] {
+  return examples.flatMap((example, index): Message[] => {
+    const id = `example_${index + 1}`;
+    const label = Array.isArray(example.label) ? example.label[0] : example.label;
+
+    return [
+      { role: 'user', content: example.text },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id, name: functionName, arguments: { [parameterName]: label } }],
+      },
+      { role: 'tool', content: 'ok', name: functionName, toolCallId: id },
+    ];
+  });
+}
+
+/**
+ * Turn examples into one numbered batch and its answer, for batch classification
+ * @param examples The examples
+ * @param formatText Formats a text as it is sent in a batch
+ * @returns A user message with the numbered texts and an assistant message with their labels,
+ *   or no messages without examples
+ */
+export function formatBatchExampleMessages(
+  examples: ClassifierExample[],
+  formatText: (text: string) => string
+): Message[] {
+  if (examples.length === 0) {
+    return [];
+  }
+
+  return [
+    {
+      role: 'user',
+      content: examples.map((example, index) => `${index + 1}: ${formatText(example.text)}`).join('\n'),
+    },
+    {
+      role: 'assistant',
+      content: examples.map((example, index) => `${index + 1}: ${formatExampleAnswer(example)}`).join('\n'),
+    },
+  ];
+}
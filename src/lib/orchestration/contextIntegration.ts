@@ -1,18 +1,16 @@
 import { Message } from './types';
-import { getRecentMessages } from '../memories';
+import { getMessagesBetween, getRecentMessages } from '../memories';
 import { ChatMessage } from '../memories';
-
-/**
- * Maximum number of tokens to allow in the combined prompt
- * GPT-4.1 has a context window of up to 1M tokens, but we'll be conservative
- */
-const MAX_PROMPT_TOKENS = 100000;
-
-/**
- * Rough estimate of tokens per character for English text
- * This is a very rough approximation - actual tokenization depends on the model
- */
-const TOKENS_PER_CHAR = 0.25;
+import { DEFAULT_MODEL, getModelInfo, getPromptTokenLimit } from './modelRegistry';
+import { countMessageTokens } from './tokenizer';
+import {
+  ConversationSummary,
+  createSummaryMessage,
+  DEFAULT_SUMMARIZER_CONFIG,
+  getConversationSummary,
+  refreshConversationSummary,
+  SUMMARY_BATCH_SIZE,
+} from './summarization';
 
 /**
  * Default number of recent messages to include in the prompt
@@ -31,50 +29,43 @@ function convertChatMessageToMessage(chatMessage: ChatMessage): Message {
   };
 }
 
-/**
- * Estimates the number of tokens in a string
- * @param text The text to estimate tokens for
- * @returns Estimated token count
- */
-function estimateTokenCount(text: string): number {
-  return Math.ceil(text.length * TOKENS_PER_CHAR);
-}
-
 /**
  * Trims the memory to fit within the token limit
  * @param messages The messages to trim
  * @param newInstruction The new instruction to add
- * @param maxTokens The maximum number of tokens allowed
+ * @param maxTokens The maximum number of tokens allowed in the prompt
+ * @param model The model whose tokenizer counts the tokens
+ * @param reservedTokens Tokens already taken by the rest of the prompt, such as the system message and tool schemas
  * @returns The trimmed messages
  */
 function trimMemoryToFitTokenLimit(
   messages: Message[],
   newInstruction: string,
-  maxTokens: number = MAX_PROMPT_TOKENS
+  maxTokens: number = getPromptTokenLimit(),
+  model: string = DEFAULT_MODEL,
+  reservedTokens: number = 0
 ): Message[] {
-  // Estimate tokens for the new instruction
-  const instructionTokens = estimateTokenCount(newInstruction);
-  
-  // Reserve tokens for the system message (assuming ~500 tokens)
-  const reservedTokens = 500 + instructionTokens;
-  
+  // Models whose tokenizer is only approximated get some headroom
+  const margin = 1 + (getModelInfo(model).tokenMargin ?? 0);
+  const instructionTokens = countMessageTokens({ role: 'user', content: newInstruction }, model);
+
   // Calculate remaining tokens for memory
-  const remainingTokens = maxTokens - reservedTokens;
-  
+  const remainingTokens = Math.floor(maxTokens / margin) - reservedTokens - instructionTokens;
+
   if (remainingTokens <= 0) {
     // Not enough tokens for any memory
     return [];
   }
-  
+
   // Start with the most recent messages and add as many as will fit
   let tokenCount = 0;
   const trimmedMessages: Message[] = [];
-  
+
   // Process in reverse order (newest first) to prioritize recent messages
   for (let i = messages.length - 1; i >= 0; i--) {
     const message = messages[i];
-    const messageTokens = estimateTokenCount(message.content);
-    
+    const messageTokens = countMessageTokens(message, model);
+
     if (tokenCount + messageTokens <= remainingTokens) {
       trimmedMessages.unshift(message); // Add to the beginning to maintain chronological order
       tokenCount += messageTokens;
@@ -83,27 +74,72 @@ function trimMemoryToFitTokenLimit(
       break;
     }
   }
-  
+
   return trimmedMessages;
 }
 
+/**
+ * Folds the messages older than the verbatim window into the rolling summary
+ * @param userId The user ID
+ * @param summary The current summary, if any
+ * @param windowStart The creation time of the oldest message sent verbatim, if any
+ * @param conversationId The conversation the messages belong to, if any
+ * @returns The refreshed summary, or the current one if nothing was folded in
+ */
+async function foldOlderMessagesIntoSummary(
+  userId: string,
+  summary: ConversationSummary | null,
+  windowStart?: string,
+  conversationId?: string
+): Promise<ConversationSummary | null> {
+  try {
+    // Only the messages since the last refresh are summarized
+    const { data, error } = await getMessagesBetween(
+      userId,
+      summary?.summarizedThrough,
+      windowStart,
+      SUMMARY_BATCH_SIZE,
+      conversationId
+    );
+
+    if (error || !data || data.length === 0) {
+      return summary;
+    }
+
+    return await refreshConversationSummary(userId, summary, data, undefined, conversationId);
+  } catch (error) {
+    // Without a fresh summary the prompt still has the recent messages
+    console.error('Error refreshing conversation summary:', error);
+    return summary;
+  }
+}
+
 /**
  * Combines the last N user messages from memory with a new instruction into a single prompt
+ *
+ * Older messages, and recent ones that do not fit, are not lost: they are
+ * folded into a rolling summary that is sent ahead of the recent messages.
  * @param userId The user ID to fetch messages for
  * @param newInstruction The new instruction to combine with memory
  * @param limit The maximum number of recent messages to include (default: 5)
- * @param maxTokens The maximum number of tokens allowed in the combined prompt
+ * @param maxTokens The maximum number of tokens allowed in the combined prompt (default: the model's prompt limit)
+ * @param model The model the prompt is for, which sets the tokenizer and the default limit
+ * @param reservedTokens Tokens taken by the rest of the prompt, such as the system message
+ * @param conversationId Only use messages from this conversation (default: all of the user's messages)
  * @returns The messages array ready for use with the orchestrator
  */
 export async function combineMemoryWithInstruction(
   userId: string,
   newInstruction: string,
   limit: number = DEFAULT_RECENT_MESSAGES_COUNT,
-  maxTokens: number = MAX_PROMPT_TOKENS
+  maxTokens?: number,
+  model: string = DEFAULT_MODEL,
+  reservedTokens: number = 0,
+  conversationId?: string
 ): Promise<Message[]> {
   try {
     // Fetch recent messages from the database
-    const { data, error } = await getRecentMessages(userId, limit);
+    const { data, error } = await getRecentMessages(userId, limit, conversationId);
     
     if (error) {
       console.error('Error fetching recent messages:', error);
@@ -117,13 +153,35 @@ export async function combineMemoryWithInstruction(
     }
     
     // Convert database messages to orchestrator messages
-    const memoryMessages: Message[] = data ? data.map(convertChatMessageToMessage) : [];
-    
+    const recentMessages: ChatMessage[] = data || [];
+    const memoryMessages: Message[] = recentMessages.map(convertChatMessageToMessage);
+
+    // Leave room for the rolling summary at its longest
+    const summaryTokens =
+      countMessageTokens(createSummaryMessage(''), model) + DEFAULT_SUMMARIZER_CONFIG.maxTokens;
+
     // Trim memory to fit within token limit
-    const trimmedMemory = trimMemoryToFitTokenLimit(memoryMessages, newInstruction, maxTokens);
-    
-    // Add the new instruction as a user message
+    const trimmedMemory = trimMemoryToFitTokenLimit(
+      memoryMessages,
+      newInstruction,
+      maxTokens ?? getPromptTokenLimit(model),
+      model,
+      reservedTokens + summaryTokens
+    );
+
+    // Fold anything older than the messages sent verbatim into the summary
+    let summary = await getConversationSummary(userId, conversationId);
+    const hasOlderMessages = recentMessages.length >= limit || trimmedMemory.length < memoryMessages.length;
+    if (hasOlderMessages) {
+      const windowStart = trimmedMemory.length > 0
+        ? recentMessages[recentMessages.length - trimmedMemory.length].created_at
+        : undefined;
+      summary = await foldOlderMessagesIntoSummary(userId, summary, windowStart, conversationId);
+    }
+
+    // Add the summary and the new instruction around the recent messages
     const combinedMessages: Message[] = [
+      ...(summary ? [createSummaryMessage(summary.summary)] : []),
       ...trimmedMemory,
       {
         role: 'user',
@@ -150,7 +208,9 @@ export async function combineMemoryWithInstruction(
  * @param newInstruction The new instruction to combine with memory
  * @param systemMessage Optional system message to include
  * @param limit The maximum number of recent messages to include (default: 5)
- * @param maxTokens The maximum number of tokens allowed in the combined prompt
+ * @param maxTokens The maximum number of tokens allowed in the combined prompt (default: the model's prompt limit)
+ * @param model The model the prompt is for, which sets the tokenizer and the default limit
+ * @param conversationId Only use messages from this conversation (default: all of the user's messages)
  * @returns The complete messages array ready for use with the orchestrator
  */
 export async function createOrchestrationPrompt(
@@ -158,14 +218,19 @@ export async function createOrchestrationPrompt(
   newInstruction: string,
   systemMessage?: string,
   limit: number = DEFAULT_RECENT_MESSAGES_COUNT,
-  maxTokens: number = MAX_PROMPT_TOKENS
+  maxTokens?: number,
+  model: string = DEFAULT_MODEL,
+  conversationId?: string
 ): Promise<Message[]> {
-  // Get memory combined with the new instruction
+  // Get memory combined with the new instruction, leaving room for the system message
   const combinedMessages = await combineMemoryWithInstruction(
     userId,
     newInstruction,
     limit,
-    maxTokens
+    maxTokens,
+    model,
+    systemMessage ? countMessageTokens({ role: 'system', content: systemMessage }, model) : 0,
+    conversationId
   );
   
   // If a system message is provided, add it at the beginning
@@ -0,0 +1,167 @@
+/**
+ * Context window budgeting
+ *
+ * Before each model call the prompt is counted exactly: the messages, the
+ * tool schemas and the tokens reserved for the answer. If it does not fit the
+ * model's context window, the oldest history is dropped first, then large
+ * tool results are shortened. A request that still does not fit is never sent.
+ */
+
+import { logger } from '../utils/logger';
+import { ApiError } from '../utils/error';
+import { DEFAULT_MODEL, getModelInfo, getOutputReserve, getPromptTokenLimit } from './modelRegistry';
+import { countMessageTokens, countTokens, countToolTokens, truncateToTokens } from './tokenizer';
+import { GPT41Config, Message, Tool } from './types';
+
+/**
+ * Tokens of the reply priming added once per prompt
+ */
+const TOKENS_PER_REPLY = 3;
+
+/**
+ * Tool results are never shortened below this many tokens
+ */
+const MIN_TOOL_RESULT_TOKENS = 200;
+
+/**
+ * Appended to a tool result that was shortened to fit
+ */
+const TRUNCATION_NOTE = '\n[Truncated to fit the context window]';
+
+/**
+ * Error thrown when a prompt cannot be made to fit the model's context window
+ */
+export class ContextLengthError extends ApiError {
+  constructor(model: string, promptTokens: number, limit: number, outputReserve: number) {
+    super(
+      `The request needs ${promptTokens} tokens but ${model} accepts ${limit} after reserving ${outputReserve} for the answer`,
+      400,
+      { model, promptTokens, limit, outputReserve }
+    );
+    this.name = 'ContextLengthError';
+  }
+}
+
+/**
+ * A prompt fitted to a model's context window
+ */
+export interface ContextFit {
+  /** The messages to send */
+  messages: Message[];
+  /** The number of tokens of the prompt, messages and tools included */
+  promptTokens: number;
+  /** The number of tokens the prompt may use */
+  limit: number;
+  /** The number of history messages that were left out */
+  droppedMessages: number;
+  /** The number of tool results that were shortened */
+  truncatedMessages: number;
+}
+
+/**
+ * Group the history messages that can be dropped, so that a tool call is
+ * never sent without its results or the other way round
+ * @param messages The conversation
+ * @returns The index ranges of the droppable groups, oldest first
+ */
+function findDroppableGroups(messages: Message[]): Array<[number, number]> {
+  const firstMessage = messages.findIndex((message) => message.role !== 'system');
+  // The latest instruction and the work done on it are always kept
+  let lastInstruction = -1;
+  messages.forEach((message, index) => {
+    if (message.role === 'user') lastInstruction = index;
+  });
+
+  const groups: Array<[number, number]> = [];
+  if (firstMessage === -1) {
+    return groups;
+  }
+
+  let index = firstMessage;
+  while (index < lastInstruction) {
+    let end = index + 1;
+    if (messages[index].toolCalls?.length) {
+      while (end < lastInstruction && messages[end].role === 'tool') end++;
+    }
+    groups.push([index, end]);
+    index = end;
+  }
+  return groups;
+}
+
+/**
+ * Fit a prompt to the context window of the model it is sent to
+ * @param messages The conversation
+ * @param tools The tools sent with the request
+ * @param config The model configuration; its model and maxTokens set the budget
+ * @returns The messages to send and how they were fitted
+ * @throws ContextLengthError if the prompt cannot be made to fit
+ */
+export function fitMessagesToContext(
+  messages: Message[],
+  tools: Tool[],
+  config: Partial<GPT41Config>
+): ContextFit {
+  const model = config.model || DEFAULT_MODEL;
+  const limit = getPromptTokenLimit(model, config.maxTokens);
+  const margin = 1 + (getModelInfo(model).tokenMargin ?? 0);
+
+  const fitted = [...messages];
+  const kept = messages.map(() => true);
+  const counts = messages.map((message) => countMessageTokens(message, model));
+  const fixedTokens = TOKENS_PER_REPLY + countToolTokens(tools, model);
+  const measure = () =>
+    Math.ceil((fixedTokens + counts.reduce((total, count, index) => total + (kept[index] ? count : 0), 0)) * margin);
+
+  let promptTokens = measure();
+  let droppedMessages = 0;
+  let truncatedMessages = 0;
+
+  // Leave out the oldest history first
+  for (const [start, end] of findDroppableGroups(messages)) {
+    if (promptTokens <= limit) break;
+    for (let index = start; index < end; index++) {
+      kept[index] = false;
+      droppedMessages++;
+    }
+    promptTokens = measure();
+  }
+
+  // Then shorten tool results, oldest first
+  for (let index = 0; index < fitted.length && promptTokens > limit; index++) {
+    const message = fitted[index];
+    if (!kept[index] || message.role !== 'tool') continue;
+
+    const contentTokens = counts[index] - countMessageTokens({ ...message, content: '' }, model);
+    const excess = Math.ceil((promptTokens - limit) / margin) + countTokens(TRUNCATION_NOTE, model);
+    const keepTokens = Math.max(MIN_TOOL_RESULT_TOKENS, contentTokens - excess);
+    if (keepTokens >= contentTokens) continue;
+
+    fitted[index] = { ...message, content: truncateToTokens(message.content, keepTokens, model) + TRUNCATION_NOTE };
+    counts[index] = countMessageTokens(fitted[index], model);
+    truncatedMessages++;
+    promptTokens = measure();
+  }
+
+  if (promptTokens > limit) {
+    throw new ContextLengthError(model, promptTokens, limit, getOutputReserve(model, config.maxTokens));
+  }
+
+  if (droppedMessages > 0 || truncatedMessages > 0) {
+    logger.info('Fitted the prompt to the context window', {
+      model,
+      promptTokens,
+      limit,
+      droppedMessages,
+      truncatedMessages,
+    });
+  }
+
+  return {
+    messages: fitted.filter((_, index) => kept[index]),
+    promptTokens,
+    limit,
+    droppedMessages,
+    truncatedMessages,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Conversation Titles Module
+ *
+ * Threads start without a title. When the first task of a thread arrives,
+ * the nano model writes a short title for it so the thread can be listed in
+ * a sidebar; the title's token usage is billed to the user.
+ */
+
+import { logger } from '../utils/logger';
+import { logUsageAndUpdateCost } from '../billing/tokenUsage';
+import { updateConversationTitle } from '../conversations';
+import { callModel } from './modelCall';
+import { DEFAULT_SUMMARIZER_CONFIG, SummarizerConfig } from './summarization';
+import { Message } from './types';
+
+/**
+ * Maximum length of a title in characters
+ */
+export const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Default title model configuration: the summarizer's nano model with a small answer
+ */
+export const DEFAULT_TITLE_CONFIG: SummarizerConfig = {
+  ...DEFAULT_SUMMARIZER_CONFIG,
+  maxTokens: 20,
+};
+
+/**
+ * Derive a title from the text itself, for when the model cannot write one
+ * @param text The first task of the conversation
+ * @returns The text shortened to a title, cut at a word boundary
+ */
+export function fallbackTitle(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  if (singleLine.length <= MAX_TITLE_LENGTH) {
+    return singleLine;
+  }
+
+  const cut = singleLine.slice(0, MAX_TITLE_LENGTH - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+/**
+ * Clean up a title written by the model
+ * @param title The model's answer
+ * @returns The title without quotes or a trailing full stop, at most MAX_TITLE_LENGTH characters
+ */
+function cleanTitle(title: string): string {
+  const cleaned = title
+    .split('\n')[0]
+    .replace(/^title:\s*/i, '')
+    .replace(/^["'“”]+|["'“”]+$/g, '')
+    .replace(/\.$/, '')
+    .trim();
+  return fallbackTitle(cleaned);
+}
+
+/**
+ * Write a title for a conversation with the title model and bill it to the user
+ * @param userId The user ID
+ * @param firstMessage The first task of the conversation
+ * @param config The title model configuration
+ * @returns The title
+ */
+export async function generateConversationTitle(
+  userId: string,
+  firstMessage: string,
+  config: SummarizerConfig = DEFAULT_TITLE_CONFIG
+): Promise<string> {
+  const prompt: Message[] = [
+    {
+      role: 'system',
+      content:
+        'Write a title of at most six words for a conversation that starts with the message below. ' +
+        'Respond with only the title, without quotes.',
+    },
+    { role: 'user', content: firstMessage },
+  ];
+
+  const response = await callModel({ messages: prompt }, config);
+
+  if (response.usage) {
+    // Log usage asynchronously - don't await to avoid blocking
+    logUsageAndUpdateCost(userId, config.model, response.usage)
+      .catch(err => console.error('Failed to log title token usage:', err));
+  }
+
+  return cleanTitle(response.message.content) || fallbackTitle(firstMessage);
+}
+
+/**
+ * Give an untitled conversation a title from its first task
+ *
+ * If the model cannot write a title, the start of the task is used instead.
+ * @param userId The user ID
+ * @param conversationId The conversation ID
+ * @param firstMessage The first task of the conversation
+ * @param config The title model configuration
+ * @returns The title that was stored
+ */
+export async function titleConversation(
+  userId: string,
+  conversationId: string,
+  firstMessage: string,
+  config: SummarizerConfig = DEFAULT_TITLE_CONFIG
+): Promise<string> {
+  let title: string;
+  try {
+    title = await generateConversationTitle(userId, firstMessage, config);
+  } catch (error) {
+    console.error('Error generating conversation title:', error);
+    title = fallbackTitle(firstMessage);
+  }
+
+  const { error } = await updateConversationTitle(userId, conversationId, title);
+  if (!error) {
+    logger.info('Titled conversation', { userId, conversationId, title });
+  }
+
+  return title;
+}
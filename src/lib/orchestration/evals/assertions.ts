@@ -0,0 +1,267 @@
+/**
+ * Eval Assertions
+ *
+ * This module checks the outcome of an eval task against the task's
+ * assertions: the tool calls made, the response text or JSON, the tokens and
+ * cost used, and rubrics scored by a judge model.
+ */
+
+import { withRetry, DEFAULT_RETRY_OPTIONS } from '../retry';
+import { createProvider } from '../providers/registry';
+import { parseJsonOutput } from '../structuredOutput';
+import { GPT41Config, Message, OrchestrationUsage, StopReason } from '../types';
+import { logUsageAndUpdateCost } from '../../billing/tokenUsage';
+import { JsonSchema, validateJsonSchema } from '../../utils/validation';
+import { EvalAssertion, EvalAssertionResult, EvalToolCall } from './types';
+
+/**
+ * Default lowest judge score that passes a rubric
+ */
+export const DEFAULT_JUDGE_MIN_SCORE = 4;
+
+/**
+ * The verdict the judge model must give
+ */
+const JUDGE_VERDICT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'integer', minimum: 1, maximum: 5 },
+    reasoning: { type: 'string' },
+  },
+  required: ['score', 'reasoning'],
+};
+
+/**
+ * What an eval task did, as checked by its assertions
+ */
+export interface EvalOutcome {
+  /** The instruction given to the orchestrator */
+  instruction: string;
+  /** The final response */
+  response: string;
+  /** Why the run stopped */
+  stopReason: StopReason;
+  /** The tool calls made, in order */
+  toolCalls: EvalToolCall[];
+  /** The tokens used */
+  usage: OrchestrationUsage;
+  /** The cost of the tokens used, in US dollars */
+  costUsd: number;
+}
+
+/**
+ * Options for checking assertions
+ */
+export interface AssertionOptions {
+  /** The model configuration of the judge */
+  judge: GPT41Config;
+  /** The user the judge's calls are billed to */
+  userId: string;
+}
+
+/**
+ * Check whether a value includes an expected value: objects must have the
+ * expected keys with matching values, arrays an element matching each
+ * expected element, and other values must be equal
+ * @param actual The value
+ * @param expected The expected value
+ * @returns Whether the value includes the expected value
+ */
+export function includesValue(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) && expected.every((item) => actual.some((candidate) => includesValue(candidate, item)))
+    );
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) return false;
+    return Object.entries(expected).every(([key, value]) =>
+      includesValue((actual as Record<string, unknown>)[key], value)
+    );
+  }
+  return actual === expected;
+}
+
+/**
+ * Describe an assertion for a report
+ * @param assertion The assertion
+ * @returns A short description
+ */
+export function describeAssertion(assertion: EvalAssertion): string {
+  switch (assertion.type) {
+    case 'tool_called': {
+      const args = assertion.arguments ? ` with ${JSON.stringify(assertion.arguments)}` : '';
+      const times = assertion.times !== undefined ? ` ${assertion.times} time(s)` : '';
+      return `calls ${assertion.tool}${args}${times}`;
+    }
+    case 'tool_not_called':
+      return `does not call ${assertion.tool}`;
+    case 'regex':
+      return `response ${assertion.negate ? 'does not match' : 'matches'} /${assertion.pattern}/${assertion.flags ?? ''}`;
+    case 'json':
+      return 'response is JSON matching the expected shape';
+    case 'max_tokens':
+      return `uses at most ${assertion.limit} tokens`;
+    case 'max_cost':
+      return `costs at most $${assertion.limit}`;
+    case 'stop_reason':
+      return `stops with ${assertion.equals}`;
+    case 'judge':
+      return `judge scores at least ${assertion.minScore ?? DEFAULT_JUDGE_MIN_SCORE}/5: ${assertion.rubric}`;
+  }
+}
+
+/**
+ * Build the messages asking the judge to score a response
+ * @param outcome What the task did
+ * @param rubric The rubric
+ * @returns The messages
+ */
+function createJudgeMessages(outcome: EvalOutcome, rubric: string): Message[] {
+  const toolCalls = outcome.toolCalls.length
+    ? outcome.toolCalls
+        .map((call) => `- ${call.name}(${JSON.stringify(call.arguments)})${call.error ? ` failed: ${call.error}` : ''}`)
+        .join('\n')
+    : '(none)';
+
+  return [
+    {
+      role: 'system',
+      content: [
+        'You grade the work of an AI assistant against a rubric.',
+        'Score it from 1 (does not meet the rubric at all) to 5 (fully meets it).',
+        'Respond with only a JSON object: {"score": <1-5>, "reasoning": "<one or two sentences>"}',
+      ].join('\n'),
+    },
+    {
+      role: 'user',
+      content: `Task:\n${outcome.instruction}\n\nTool calls:\n${toolCalls}\n\nAnswer:\n${outcome.response}\n\nRubric:\n${rubric}`,
+    },
+  ];
+}
+
+/**
+ * Have the judge model score a response against a rubric
+ * @param outcome What the task did
+ * @param rubric The rubric
+ * @param options The judge's configuration and the user it is billed to
+ * @returns The score and the judge's reasoning
+ * @throws Error if the judge does not give a valid verdict
+ */
+async function judgeResponse(
+  outcome: EvalOutcome,
+  rubric: string,
+  options: AssertionOptions
+): Promise<{ score: number; reasoning: string }> {
+  const { judge, userId } = options;
+  const provider = createProvider(judge.provider || 'openai', {
+    apiKey: judge.apiKey,
+    endpoint: judge.endpoint,
+  });
+
+  const response = await withRetry(
+    () =>
+      provider.chat({
+        model: judge.model,
+        messages: createJudgeMessages(outcome, rubric),
+        temperature: 0,
+        maxTokens: judge.maxTokens,
+        responseFormat: 'json',
+      }),
+    DEFAULT_RETRY_OPTIONS
+  );
+
+  if (response.usage) {
+    // Log usage asynchronously - don't await to avoid blocking
+    logUsageAndUpdateCost(userId, judge.model, response.usage)
+      .catch(err => console.error('Failed to log judge token usage:', err));
+  }
+
+  const verdict = parseJsonOutput(response.message.content);
+  const errors = validateJsonSchema(verdict, JUDGE_VERDICT_SCHEMA);
+  if (errors.length > 0) {
+    throw new Error(`The judge gave an invalid verdict: ${errors.join('; ')}`);
+  }
+
+  return verdict as { score: number; reasoning: string };
+}
+
+/**
+ * Check one assertion against the outcome of a task
+ * @param assertion The assertion
+ * @param outcome What the task did
+ * @param options The judge's configuration and the user it is billed to
+ * @returns Whether the assertion passed, and why not
+ */
+export async function checkAssertion(
+  assertion: EvalAssertion,
+  outcome: EvalOutcome,
+  options: AssertionOptions
+): Promise<EvalAssertionResult> {
+  const base = { type: assertion.type, description: describeAssertion(assertion) };
+  const result = (passed: boolean, message?: string): EvalAssertionResult => ({
+    ...base,
+    passed,
+    ...(passed || !message ? {} : { message }),
+  });
+
+  switch (assertion.type) {
+    case 'tool_called': {
+      const calls = outcome.toolCalls.filter(
+        (call) =>
+          call.name === assertion.tool &&
+          (!assertion.arguments || includesValue(call.arguments, assertion.arguments))
+      );
+      const passed = assertion.times !== undefined ? calls.length === assertion.times : calls.length > 0;
+      const made = outcome.toolCalls.map((call) => call.name).join(', ') || 'none';
+      return result(passed, `Matching calls: ${calls.length}; tools called: ${made}`);
+    }
+
+    case 'tool_not_called': {
+      const count = outcome.toolCalls.filter((call) => call.name === assertion.tool).length;
+      return result(count === 0, `${assertion.tool} was called ${count} time(s)`);
+    }
+
+    case 'regex': {
+      const matches = new RegExp(assertion.pattern, assertion.flags).test(outcome.response);
+      return result(matches !== Boolean(assertion.negate), `Response: ${outcome.response.slice(0, 200)}`);
+    }
+
+    case 'json': {
+      let value: unknown;
+      try {
+        value = parseJsonOutput(outcome.response);
+      } catch {
+        return result(false, 'The response is not valid JSON');
+      }
+
+      const errors = assertion.schema ? validateJsonSchema(value, assertion.schema as JsonSchema) : [];
+      if (errors.length > 0) {
+        return result(false, errors.join('; '));
+      }
+      if (assertion.contains !== undefined && !includesValue(value, assertion.contains)) {
+        return result(false, `The response does not include ${JSON.stringify(assertion.contains)}`);
+      }
+      return result(true);
+    }
+
+    case 'max_tokens':
+      return result(outcome.usage.totalTokens <= assertion.limit, `Used ${outcome.usage.totalTokens} tokens`);
+
+    case 'max_cost':
+      return result(outcome.costUsd <= assertion.limit, `Cost $${outcome.costUsd.toFixed(6)}`);
+
+    case 'stop_reason':
+      return result(outcome.stopReason === assertion.equals, `Stopped with ${outcome.stopReason}`);
+
+    case 'judge': {
+      const minScore = assertion.minScore ?? DEFAULT_JUDGE_MIN_SCORE;
+      try {
+        const { score, reasoning } = await judgeResponse(outcome, assertion.rubric, options);
+        return { ...base, passed: score >= minScore, score, message: reasoning };
+      } catch (error) {
+        return result(false, `The judge could not score the response: ${(error as Error).message}`);
+      }
+    }
+  }
+}
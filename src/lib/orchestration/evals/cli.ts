@@ -0,0 +1,122 @@
+/**
+ * Eval Command
+ *
+ * Runs an eval suite from the command line and writes its report as JSON and
+ * Markdown, optionally with a comparison to an earlier report:
+ *
+ *   npm run eval -- <suite.yaml|suite.json> [--user <uuid>] [--model gpt-4.1] [--provider openai]
+ *     [--judge-model gpt-4.1] [--concurrency 4] [--label my-change] [--out eval-reports]
+ *     [--baseline eval-reports/suite-main.json] [--min-pass-rate 0.8]
+ *
+ * The configuration, including provider API keys, is read from .env.local, as
+ * in development, since prompt templates and usage logging need the database.
+ * Token usage is billed to the user given with --user, or else to the user
+ * whose ID is in EVAL_USER_ID.
+ * Suites may use stubbed tools and the tools in the tool registry. The
+ * command exits with status 1 if the pass rate is below --min-pass-rate
+ * (default: 0).
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { DEFAULT_GPT41_CONFIG } from '../orchestrator';
+import { GPT41Config } from '../types';
+import { getAllTools } from '../../tools/registry';
+import { runEvalSuite, DEFAULT_EVAL_CONCURRENCY } from './runner';
+import { loadEvalSuite } from './suite';
+import { compareEvalReports, formatEvalComparisonMarkdown, writeEvalReport } from './report';
+import { EvalReport } from './types';
+
+/**
+ * Default directory reports are written to
+ */
+const DEFAULT_REPORT_DIRECTORY = 'eval-reports';
+
+/**
+ * Build a model configuration for a provider, reading its API key from the environment
+ * @param provider The provider name
+ * @param model The model
+ * @returns The configuration; the suite's settings, such as the temperature, apply beneath it
+ */
+function modelConfig(provider: string, model: string): GPT41Config {
+  return {
+    provider,
+    model,
+    // Other providers read their own key from the environment when none is given
+    apiKey: provider === 'openai' ? DEFAULT_GPT41_CONFIG.apiKey : '',
+  };
+}
+
+/**
+ * Run the command
+ * @param argv The command-line arguments, without the program names
+ * @returns The exit status
+ */
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      user: { type: 'string' },
+      model: { type: 'string' },
+      provider: { type: 'string' },
+      'judge-model': { type: 'string' },
+      concurrency: { type: 'string' },
+      label: { type: 'string' },
+      out: { type: 'string' },
+      baseline: { type: 'string' },
+      'min-pass-rate': { type: 'string' },
+    },
+  });
+
+  if (positionals.length !== 1) {
+    console.error('Usage: npm run eval -- <suite.yaml|suite.json> [options]');
+    return 2;
+  }
+
+  const userId = values.user || process.env.EVAL_USER_ID;
+  if (!userId) {
+    console.error('Give the user to bill with --user <uuid> or EVAL_USER_ID');
+    return 2;
+  }
+
+  const suite = await loadEvalSuite(positionals[0]);
+  const provider = values.provider || suite.config?.provider || DEFAULT_GPT41_CONFIG.provider!;
+  const config = modelConfig(provider, values.model || suite.config?.model || DEFAULT_GPT41_CONFIG.model);
+  const judge = values['judge-model'] ? modelConfig(provider, values['judge-model']) : undefined;
+  const outDirectory = values.out || DEFAULT_REPORT_DIRECTORY;
+
+  const report = await runEvalSuite(suite, {
+    config,
+    userId,
+    tools: await getAllTools(),
+    concurrency: values.concurrency ? parseInt(values.concurrency, 10) : DEFAULT_EVAL_CONCURRENCY,
+    judge,
+    label: values.label,
+    onTaskComplete: (result) => console.log(`${result.passed ? 'pass' : 'FAIL'}  ${result.id}`),
+  });
+
+  const { jsonPath, markdownPath } = await writeEvalReport(report, outDirectory);
+  console.log(
+    `\n${report.summary.passed}/${report.summary.tasks} tasks passed; report written to ${jsonPath} and ${markdownPath}`
+  );
+
+  if (values.baseline) {
+    const baseline: EvalReport = JSON.parse(await readFile(values.baseline, 'utf8'));
+    const comparison = formatEvalComparisonMarkdown(compareEvalReports(baseline, report));
+    const comparisonPath = join(outDirectory, `${jsonPath.replace(/^.*[\\/]|\.json$/g, '')}-comparison.md`);
+    await writeFile(comparisonPath, comparison, 'utf8');
+    console.log(`\n${comparison}`);
+  }
+
+  const minPassRate = values['min-pass-rate'] ? parseFloat(values['min-pass-rate']) : 0;
+  return report.summary.passRate < minPassRate ? 1 : 0;
+}
+
+main(process.argv.slice(2))
+  .then((status) => process.exit(status))
+  .catch((error) => {
+    console.error(error);
+    process.exit(2);
+  });
@@ -0,0 +1,13 @@
+/**
+ * Orchestration Evals Module
+ *
+ * This module exports the eval suite format, the suite loader, the runner,
+ * the assertions and the report writers used to measure orchestration
+ * quality across prompt, model and tool changes.
+ */
+
+export * from './types';
+export * from './suite';
+export * from './assertions';
+export * from './runner';
+export * from './report';
@@ -0,0 +1,212 @@
+/**
+ * Eval Reports
+ *
+ * This module summarizes eval results and writes them as JSON, for tools and
+ * diffs, and as Markdown, for people. Two reports of the same suite can be
+ * compared task by task to see what a change fixed or broke.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { EvalComparison, EvalReport, EvalSummary, EvalTaskChange, EvalTaskResult } from './types';
+
+/**
+ * Summarize the results of a suite's tasks
+ * @param tasks The task results
+ * @returns The totals
+ */
+export function summarizeEvalResults(tasks: EvalTaskResult[]): EvalSummary {
+  const passed = tasks.filter((task) => task.passed).length;
+
+  return {
+    tasks: tasks.length,
+    passed,
+    failed: tasks.length - passed,
+    passRate: tasks.length > 0 ? passed / tasks.length : 0,
+    totalTokens: tasks.reduce((total, task) => total + task.usage.totalTokens, 0),
+    costUsd: tasks.reduce((total, task) => total + task.costUsd, 0),
+  };
+}
+
+/**
+ * Format a share as a percentage
+ * @param share The share, from 0 to 1
+ * @returns The percentage
+ */
+function formatPercent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+/**
+ * Format a cost in US dollars
+ * @param cost The cost
+ * @returns The formatted cost
+ */
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(4)}`;
+}
+
+/**
+ * Format a change with its sign
+ * @param delta The change
+ * @param format How to format its size
+ * @returns The formatted change
+ */
+function formatDelta(delta: number, format: (value: number) => string = String): string {
+  return `${delta > 0 ? '+' : delta < 0 ? '-' : '±'}${format(Math.abs(delta))}`;
+}
+
+/**
+ * Escape text for a Markdown table cell
+ * @param text The text
+ * @returns The escaped text, on one line
+ */
+function tableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Format a report as Markdown
+ * @param report The report
+ * @returns The Markdown
+ */
+export function formatEvalReportMarkdown(report: EvalReport): string {
+  const { summary } = report;
+  const lines = [
+    `# Eval report: ${report.suite}`,
+    '',
+    ...(report.label ? [`Label: ${report.label}`, ''] : []),
+    `Model: ${report.provider ? `${report.provider}/` : ''}${report.model}  `,
+    `Started: ${report.startedAt}  `,
+    `Duration: ${(report.durationMs / 1000).toFixed(1)}s`,
+    '',
+    `**${summary.passed}/${summary.tasks} tasks passed (${formatPercent(summary.passRate)})**, ` +
+      `${summary.totalTokens} tokens, ${formatCost(summary.costUsd)}`,
+    '',
+    '| Task | Result | Stop reason | Tokens | Cost | Duration |',
+    '|------|--------|-------------|--------|------|----------|',
+    ...report.tasks.map(
+      (task) =>
+        `| ${tableCell(task.id)} | ${task.passed ? 'pass' : 'FAIL'} | ${task.stopReason} | ` +
+        `${task.usage.totalTokens} | ${formatCost(task.costUsd)} | ${(task.durationMs / 1000).toFixed(1)}s |`
+    ),
+  ];
+
+  const failures = report.tasks.filter((task) => !task.passed);
+  if (failures.length > 0) {
+    lines.push('', '## Failures');
+    failures.forEach((task) => {
+      lines.push('', `### ${task.id}`, '');
+      if (task.error) {
+        lines.push(`- Error: ${task.error}`);
+      }
+      task.assertions
+        .filter((assertion) => !assertion.passed)
+        .forEach((assertion) => {
+          const score = assertion.score !== undefined ? ` (score ${assertion.score})` : '';
+          lines.push(`- ${assertion.description}${score}${assertion.message ? `: ${assertion.message}` : ''}`);
+        });
+    });
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Compare two reports of the same suite
+ * @param baseline The earlier report
+ * @param candidate The later report
+ * @returns The differences
+ */
+export function compareEvalReports(baseline: EvalReport, candidate: EvalReport): EvalComparison {
+  const before = new Map(baseline.tasks.map((task) => [task.id, task]));
+  const after = new Set(candidate.tasks.map((task) => task.id));
+
+  const changeOf = (previous: EvalTaskResult | undefined, current: EvalTaskResult): EvalTaskChange => {
+    if (!previous) return 'added';
+    if (previous.passed === current.passed) return current.passed ? 'passing' : 'failing';
+    return current.passed ? 'fixed' : 'regressed';
+  };
+
+  return {
+    ...(baseline.label ? { baseline: baseline.label } : {}),
+    ...(candidate.label ? { candidate: candidate.label } : {}),
+    passRateDelta: candidate.summary.passRate - baseline.summary.passRate,
+    totalTokensDelta: candidate.summary.totalTokens - baseline.summary.totalTokens,
+    costUsdDelta: candidate.summary.costUsd - baseline.summary.costUsd,
+    tasks: [
+      ...candidate.tasks.map((task) => {
+        const previous = before.get(task.id);
+        return {
+          id: task.id,
+          change: changeOf(previous, task),
+          totalTokensDelta: task.usage.totalTokens - (previous?.usage.totalTokens ?? 0),
+        };
+      }),
+      ...baseline.tasks
+        .filter((task) => !after.has(task.id))
+        .map((task) => ({ id: task.id, change: 'removed' as const, totalTokensDelta: -task.usage.totalTokens })),
+    ],
+  };
+}
+
+/**
+ * Format a comparison of two reports as Markdown
+ * @param comparison The comparison
+ * @returns The Markdown
+ */
+export function formatEvalComparisonMarkdown(comparison: EvalComparison): string {
+  const count = (change: EvalTaskChange) => comparison.tasks.filter((task) => task.change === change).length;
+  const changed = comparison.tasks.filter((task) => task.change !== 'passing' && task.change !== 'failing');
+
+  const lines = [
+    `# Eval comparison: ${comparison.baseline ?? 'baseline'} → ${comparison.candidate ?? 'candidate'}`,
+    '',
+    `Pass rate: ${formatDelta(comparison.passRateDelta * 100, (value) => `${value.toFixed(1)} points`)}  `,
+    `Tokens: ${formatDelta(comparison.totalTokensDelta)}  `,
+    `Cost: ${formatDelta(comparison.costUsdDelta, formatCost)}`,
+    '',
+    `${count('fixed')} fixed, ${count('regressed')} regressed, ${count('added')} added, ${count('removed')} removed`,
+  ];
+
+  if (changed.length > 0) {
+    lines.push(
+      '',
+      '| Task | Change | Tokens |',
+      '|------|--------|--------|',
+      ...changed.map((task) => `| ${tableCell(task.id)} | ${task.change} | ${formatDelta(task.totalTokensDelta)} |`)
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Get a file name part from free text
+ * @param text The text
+ * @returns Lowercase letters, digits and dashes
+ */
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'eval';
+}
+
+/**
+ * Write a report as JSON and Markdown
+ * @param report The report
+ * @param directory The directory to write to; it is created if needed
+ * @returns The paths of the files, named after the suite and label
+ */
+export async function writeEvalReport(
+  report: EvalReport,
+  directory: string
+): Promise<{ jsonPath: string; markdownPath: string }> {
+  const name = slugify(report.label ? `${report.suite}-${report.label}` : report.suite);
+  const jsonPath = join(directory, `${name}.json`);
+  const markdownPath = join(directory, `${name}.md`);
+
+  await mkdir(directory, { recursive: true });
+  await writeFile(jsonPath, `${JSON.stringify(report, null, 2)}\n`, 'utf8');
+  await writeFile(markdownPath, formatEvalReportMarkdown(report), 'utf8');
+
+  return { jsonPath, markdownPath };
+}
@@ -0,0 +1,259 @@
+/**
+ * Eval Runner
+ *
+ * This module runs the tasks of an eval suite through `orchestrate()`, a
+ * bounded number at a time, checks each outcome against the task's
+ * assertions and collects the results into a report.
+ */
+
+import { orchestrate } from '../orchestrator';
+import { GPT41Config, OrchestrationEvent, OrchestrationUsage, Tool } from '../types';
+import { calculateCost } from '../../billing/tokenUsage';
+import { ToolError, ValidationError } from '../../utils/error';
+import { checkAssertion, describeAssertion, EvalOutcome } from './assertions';
+import { summarizeEvalResults } from './report';
+import {
+  EvalAssertionResult,
+  EvalReport,
+  EvalRunOptions,
+  EvalSuite,
+  EvalTask,
+  EvalTaskResult,
+  EvalToolCall,
+  EvalToolStub,
+} from './types';
+
+/**
+ * Default number of tasks run at once
+ */
+export const DEFAULT_EVAL_CONCURRENCY = 4;
+
+/**
+ * The form of a user ID, which token usage is logged against
+ */
+const USER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Create a tool that returns a stub's canned result
+ * @param stub The stub
+ * @returns The tool
+ */
+function createStubTool(stub: EvalToolStub): Tool {
+  return {
+    name: stub.name,
+    description: stub.description ?? `Stubbed tool ${stub.name}`,
+    parameters: stub.parameters ?? {},
+    execute: async () => {
+      if (stub.error) {
+        throw new ToolError(stub.error, stub.name, false);
+      }
+      // A copy, so that one task cannot change the result another task sees
+      return stub.result === undefined ? {} : JSON.parse(JSON.stringify(stub.result));
+    },
+  };
+}
+
+/**
+ * Get the tools available to a task: the suite's, then the task's own
+ * @param suite The suite
+ * @param task The task
+ * @param realTools The real tools, by name
+ * @returns The tools, each name once, a task's tool replacing the suite's
+ * @throws Error if a tool is named that was not passed to the runner
+ */
+function resolveTaskTools(suite: EvalSuite, task: EvalTask, realTools: Map<string, Tool>): Tool[] {
+  const tools = new Map<string, Tool>();
+
+  [...(suite.tools || []), ...(task.tools || [])].forEach((spec) => {
+    if (typeof spec !== 'string') {
+      tools.set(spec.name, createStubTool(spec));
+      return;
+    }
+
+    const tool = realTools.get(spec);
+    if (!tool) {
+      throw new Error(`Task ${task.id} uses tool ${spec}, which was not passed to the eval runner`);
+    }
+    tools.set(spec, tool);
+  });
+
+  return Array.from(tools.values());
+}
+
+/**
+ * Run a function over items, at most a given number at a time
+ * @param items The items
+ * @param limit The most calls in progress at once
+ * @param fn The function
+ * @returns The results, in the order of the items
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Run one task and check its assertions
+ * @param suite The suite the task belongs to
+ * @param task The task
+ * @param config The model configuration under test
+ * @param options How the suite is run
+ * @param realTools The real tools, by name
+ * @returns The outcome of the task
+ */
+async function runEvalTask(
+  suite: EvalSuite,
+  task: EvalTask,
+  config: GPT41Config,
+  options: EvalRunOptions,
+  realTools: Map<string, Tool>
+): Promise<EvalTaskResult> {
+  const { userId } = options;
+  const startedAt = Date.now();
+  const usage: OrchestrationUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const toolCalls: EvalToolCall[] = [];
+  const toolCallIndexes = new Map<string, number>();
+  let costUsd = 0;
+
+  // Tokens and tool calls are collected from the run's events
+  const onEvent = (event: OrchestrationEvent) => {
+    if (event.type === 'usage') {
+      usage.promptTokens += event.usage.promptTokens;
+      usage.completionTokens += event.usage.completionTokens;
+      usage.totalTokens += event.usage.totalTokens;
+      costUsd += calculateCost(event.model, event.usage);
+    } else if (event.type === 'tool_call') {
+      toolCallIndexes.set(event.toolCall.id, toolCalls.length);
+      toolCalls.push({ name: event.toolCall.name, arguments: event.toolCall.arguments });
+    } else if (event.type === 'tool_error') {
+      const index = toolCallIndexes.get(event.result.toolCallId);
+      if (index !== undefined) {
+        toolCalls[index].error = event.result.error?.message;
+      }
+    }
+  };
+
+  let outcome: EvalOutcome;
+  try {
+    const result = await orchestrate(
+      {
+        instruction: task.instruction,
+        context: { userId, additionalContext: task.additionalContext },
+        tools: resolveTaskTools(suite, task, realTools),
+        maxSteps: task.maxSteps,
+        persona: task.persona,
+        persistRun: false,
+        onEvent,
+      },
+      config
+    );
+
+    outcome = {
+      instruction: task.instruction,
+      response: result.response,
+      stopReason: result.stopReason,
+      toolCalls,
+      usage,
+      costUsd,
+    };
+  } catch (error) {
+    return {
+      id: task.id,
+      passed: false,
+      stopReason: 'error',
+      response: '',
+      toolCalls,
+      usage,
+      costUsd,
+      durationMs: Date.now() - startedAt,
+      assertions: [],
+      error: (error as Error).message,
+    };
+  }
+
+  // Assertions are checked in order, so judge calls are not made all at once. An assertion
+  // that cannot be checked fails, rather than ending the suite
+  const assertions: EvalAssertionResult[] = [];
+  for (const assertion of task.assertions) {
+    try {
+      assertions.push(await checkAssertion(assertion, outcome, { judge: options.judge || config, userId }));
+    } catch (error) {
+      assertions.push({
+        type: assertion.type,
+        description: describeAssertion(assertion),
+        passed: false,
+        message: `The assertion could not be checked: ${(error as Error).message}`,
+      });
+    }
+  }
+
+  return {
+    id: task.id,
+    passed: assertions.every((assertion) => assertion.passed),
+    stopReason: outcome.stopReason,
+    response: outcome.response,
+    toolCalls,
+    usage,
+    costUsd,
+    durationMs: Date.now() - startedAt,
+    assertions,
+  };
+}
+
+/**
+ * Run an eval suite
+ *
+ * Runs are not stored, and tasks that cannot be run, such as one naming a
+ * tool that was not passed in, fail without stopping the others. Their token
+ * usage is logged and billed to the given user, like any other run.
+ * @param suite The suite
+ * @param options The model configuration under test, the real tools and how to run the suite
+ * @returns The report, with the tasks in suite order
+ * @throws ValidationError if the user ID is not a UUID
+ */
+export async function runEvalSuite(suite: EvalSuite, options: EvalRunOptions): Promise<EvalReport> {
+  if (!USER_ID_PATTERN.test(options.userId || '')) {
+    throw new ValidationError('Eval runs need the UUID of the user their token usage is billed to', [
+      `Invalid user ID: ${options.userId || '(none)'}`,
+    ]);
+  }
+
+  const config: GPT41Config = { ...suite.config, ...options.config };
+  const realTools = new Map((options.tools || []).map((tool) => [tool.name, tool] as const));
+  const startedAt = new Date();
+
+  const tasks = await mapWithConcurrency(
+    suite.tasks,
+    options.concurrency ?? DEFAULT_EVAL_CONCURRENCY,
+    async (task) => {
+      const result = await runEvalTask(suite, task, config, options, realTools);
+      options.onTaskComplete?.(result);
+      return result;
+    }
+  );
+
+  return {
+    suite: suite.name,
+    ...(options.label ? { label: options.label } : {}),
+    provider: config.provider,
+    model: config.model,
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    summary: summarizeEvalResults(tasks),
+    tasks,
+  };
+}
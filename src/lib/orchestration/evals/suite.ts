@@ -0,0 +1,158 @@
+/**
+ * Eval Suite Loading
+ *
+ * This module reads eval suites from YAML or JSON files and validates them,
+ * so that a mistake in a suite is reported before any model is called.
+ */
+
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { load as loadYaml } from 'js-yaml';
+import { z } from 'zod';
+import { ValidationError } from '../../utils/error';
+import { EvalSuite } from './types';
+
+/**
+ * A tool given by name or as a stub
+ */
+const evalToolSchema = z.union([
+  z.string().min(1),
+  z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    parameters: z.record(z.any()).optional(),
+    result: z.unknown().optional(),
+    error: z.string().optional(),
+  }),
+]);
+
+/**
+ * The assertions a task may make
+ */
+const evalAssertionSchema = z
+  .discriminatedUnion('type', [
+    z.object({
+      type: z.literal('tool_called'),
+      tool: z.string().min(1),
+      arguments: z.record(z.unknown()).optional(),
+      times: z.number().int().nonnegative().optional(),
+    }),
+    z.object({ type: z.literal('tool_not_called'), tool: z.string().min(1) }),
+    z.object({
+      type: z.literal('regex'),
+      pattern: z.string().min(1),
+      flags: z.string().regex(/^[dgimsuy]*$/, 'Invalid regular expression flags').optional(),
+      negate: z.boolean().optional(),
+    }),
+    z.object({ type: z.literal('json'), schema: z.record(z.any()).optional(), contains: z.unknown().optional() }),
+    z.object({ type: z.literal('max_tokens'), limit: z.number().int().positive() }),
+    z.object({ type: z.literal('max_cost'), limit: z.number().positive() }),
+    z.object({
+      type: z.literal('stop_reason'),
+      equals: z.enum([
+        'completed',
+        'step_limit',
+        'token_limit',
+        'timeout',
+        'error',
+        'awaiting_approval',
+        'cancelled',
+        'invalid_output',
+      ]),
+    }),
+    z.object({
+      type: z.literal('judge'),
+      rubric: z.string().min(1),
+      minScore: z.number().min(1).max(5).optional(),
+    }),
+  ])
+  .superRefine((assertion, context) => {
+    if (assertion.type !== 'regex') return;
+
+    try {
+      new RegExp(assertion.pattern, assertion.flags);
+    } catch (error) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['pattern'],
+        message: `Invalid regular expression: ${(error as Error).message}`,
+      });
+    }
+  });
+
+/**
+ * The shape of an eval suite
+ */
+const evalSuiteSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    config: z
+      .object({
+        provider: z.string().optional(),
+        model: z.string().optional(),
+        temperature: z.number().min(0).max(2).optional(),
+        maxTokens: z.number().int().positive().optional(),
+        endpoint: z.string().optional(),
+        timeoutMs: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    tools: z.array(evalToolSchema).optional(),
+    tasks: z
+      .array(
+        z.object({
+          id: z.string().min(1),
+          instruction: z.string().min(1),
+          tools: z.array(evalToolSchema).optional(),
+          additionalContext: z.string().optional(),
+          persona: z.string().optional(),
+          maxSteps: z.number().int().positive().optional(),
+          assertions: z.array(evalAssertionSchema).default([]),
+        })
+      )
+      .min(1),
+  })
+  .superRefine((suite, context) => {
+    const seen = new Set<string>();
+    suite.tasks.forEach((task, index) => {
+      if (seen.has(task.id)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['tasks', index, 'id'],
+          message: `Duplicate task ID: ${task.id}`,
+        });
+      }
+      seen.add(task.id);
+    });
+  });
+
+/**
+ * Validate an eval suite
+ * @param value The parsed suite
+ * @returns The suite
+ * @throws ValidationError listing every problem with the suite
+ */
+export function parseEvalSuite(value: unknown): EvalSuite {
+  const result = evalSuiteSchema.safeParse(value);
+
+  if (!result.success) {
+    const errors = result.error.errors.map((issue) => `${issue.path.join('.') || 'suite'}: ${issue.message}`);
+    throw new ValidationError('Invalid eval suite', errors);
+  }
+
+  return result.data as EvalSuite;
+}
+
+/**
+ * Read an eval suite from a YAML or JSON file
+ * @param path The path of the file; files ending in .json are read as JSON, others as YAML
+ * @returns The suite
+ * @throws ValidationError if the suite is not valid
+ */
+export async function loadEvalSuite(path: string): Promise<EvalSuite> {
+  const contents = await readFile(path, 'utf8');
+  const value = extname(path).toLowerCase() === '.json' ? JSON.parse(contents) : loadYaml(contents);
+
+  return parseEvalSuite(value);
+}
@@ -0,0 +1,220 @@
+/**
+ * Evaluation Types
+ *
+ * This module defines eval suites, the tasks and assertions they contain, and
+ * the reports produced by running them, so that changes to prompts, models
+ * and tools can be measured and compared.
+ */
+
+import { JsonSchema } from '../../utils/validation';
+import { GPT41Config, OrchestrationUsage, StopReason, Tool } from '../types';
+
+/**
+ * A tool declared by the suite that returns a canned result instead of doing anything
+ */
+export interface EvalToolStub {
+  /** The name of the tool */
+  name: string;
+  /** What the tool does, shown to the model */
+  description?: string;
+  /** The tool's parameters, in the format of `Tool.parameters` */
+  parameters?: Tool['parameters'];
+  /** The result returned for every call */
+  result?: unknown;
+  /** Fail every call with this message instead */
+  error?: string;
+}
+
+/**
+ * A check on the outcome of a task
+ */
+export type EvalAssertion =
+  /** The tool was called, with arguments including these, a given number of times or at least once */
+  | { type: 'tool_called'; tool: string; arguments?: Record<string, unknown>; times?: number }
+  /** The tool was not called */
+  | { type: 'tool_not_called'; tool: string }
+  /** The response matches a regular expression, or does not when `negate` is set */
+  | { type: 'regex'; pattern: string; flags?: string; negate?: boolean }
+  /** The response is JSON that matches a schema and includes the given values */
+  | { type: 'json'; schema?: JsonSchema; contains?: unknown }
+  /** The run used at most this many tokens */
+  | { type: 'max_tokens'; limit: number }
+  /** The run cost at most this many US dollars */
+  | { type: 'max_cost'; limit: number }
+  /** The run stopped for this reason */
+  | { type: 'stop_reason'; equals: StopReason }
+  /** A judge model scores the response against a rubric, from 1 to 5, at least `minScore` (default: 4) */
+  | { type: 'judge'; rubric: string; minScore?: number };
+
+/**
+ * One task of an eval suite
+ */
+export interface EvalTask {
+  /** A stable identifier, used to compare reports */
+  id: string;
+  /** The instruction given to the orchestrator */
+  instruction: string;
+  /** The tools available: the names of real tools passed to the runner, or stubs */
+  tools?: Array<string | EvalToolStub>;
+  /** Additional context for the system prompt */
+  additionalContext?: string;
+  /** The persona the system prompt is rendered with */
+  persona?: string;
+  /** The maximum number of model calls */
+  maxSteps?: number;
+  /** The checks the outcome must pass */
+  assertions: EvalAssertion[];
+}
+
+/**
+ * A suite of eval tasks
+ */
+export interface EvalSuite {
+  /** The name of the suite */
+  name: string;
+  /** What the suite covers */
+  description?: string;
+  /** The model configuration to use, overridden by the runner's; API keys do not belong here */
+  config?: Partial<Omit<GPT41Config, 'apiKey'>>;
+  /** Tools available to every task, besides the task's own */
+  tools?: Array<string | EvalToolStub>;
+  /** The tasks */
+  tasks: EvalTask[];
+}
+
+/**
+ * How a suite is run
+ */
+export interface EvalRunOptions {
+  /** The model configuration under test */
+  config: GPT41Config;
+  /** The real tools tasks may refer to by name */
+  tools?: Tool[];
+  /** How many tasks run at once (default: 4) */
+  concurrency?: number;
+  /** The model configuration of the judge (default: that under test) */
+  judge?: GPT41Config;
+  /** The ID of the user the runs' token usage is logged and billed to */
+  userId: string;
+  /** A label for the report, such as the change being evaluated */
+  label?: string;
+  /** Called as each task finishes */
+  onTaskComplete?: (result: EvalTaskResult) => void;
+}
+
+/**
+ * The outcome of one assertion
+ */
+export interface EvalAssertionResult {
+  /** The kind of assertion */
+  type: EvalAssertion['type'];
+  /** What was checked */
+  description: string;
+  /** Whether the check passed */
+  passed: boolean;
+  /** Why the check failed, or the judge's reasoning */
+  message?: string;
+  /** The judge's score */
+  score?: number;
+}
+
+/**
+ * A tool call made during a task
+ */
+export interface EvalToolCall {
+  /** The name of the tool */
+  name: string;
+  /** The arguments of the call */
+  arguments: Record<string, unknown>;
+  /** The error, if the call failed */
+  error?: string;
+}
+
+/**
+ * The outcome of one task
+ */
+export interface EvalTaskResult {
+  /** The task's identifier */
+  id: string;
+  /** Whether every assertion passed */
+  passed: boolean;
+  /** Why the run stopped */
+  stopReason: StopReason;
+  /** The final response */
+  response: string;
+  /** The tool calls made, in order */
+  toolCalls: EvalToolCall[];
+  /** The tokens used by the run's own model calls; not by sub-agents or the judge */
+  usage: OrchestrationUsage;
+  /** The cost of the tokens used, in US dollars */
+  costUsd: number;
+  /** How long the task took in milliseconds */
+  durationMs: number;
+  /** The outcome of each assertion, in order */
+  assertions: EvalAssertionResult[];
+  /** The error, if the task could not be run */
+  error?: string;
+}
+
+/**
+ * Totals across the tasks of a report
+ */
+export interface EvalSummary {
+  /** The number of tasks */
+  tasks: number;
+  /** The number of tasks that passed */
+  passed: number;
+  /** The number of tasks that failed */
+  failed: number;
+  /** The share of tasks that passed, from 0 to 1 */
+  passRate: number;
+  /** The tokens used by all tasks */
+  totalTokens: number;
+  /** The cost of all tasks, in US dollars */
+  costUsd: number;
+}
+
+/**
+ * The report of a suite run
+ */
+export interface EvalReport {
+  /** The name of the suite */
+  suite: string;
+  /** The label given to the run */
+  label?: string;
+  /** The provider under test */
+  provider?: string;
+  /** The model under test */
+  model: string;
+  /** When the run started */
+  startedAt: string;
+  /** How long the run took in milliseconds */
+  durationMs: number;
+  /** Totals across the tasks */
+  summary: EvalSummary;
+  /** The outcome of each task, in suite order */
+  tasks: EvalTaskResult[];
+}
+
+/**
+ * How a task's outcome changed between two reports
+ */
+export type EvalTaskChange = 'fixed' | 'regressed' | 'passing' | 'failing' | 'added' | 'removed';
+
+/**
+ * The differences between two reports of the same suite
+ */
+export interface EvalComparison {
+  /** The label of the earlier report */
+  baseline?: string;
+  /** The label of the later report */
+  candidate?: string;
+  /** The change in pass rate, from -1 to 1 */
+  passRateDelta: number;
+  /** The change in tokens used */
+  totalTokensDelta: number;
+  /** The change in cost, in US dollars */
+  costUsdDelta: number;
+  /** How each task changed, in the candidate's order followed by removed tasks */
+  tasks: Array<{ id: string; change: EvalTaskChange; totalTokensDelta: number }>;
+}
@@ -6,9 +6,12 @@
  * the primary call fails.
  */
 
-import { Tool, ToolCall, ToolCallResult, GPT41Config } from './types';
+import { Message, Tool, ToolCall, ToolCallResult, GPT41Config } from './types';
 import { withRetry, DEFAULT_RETRY_OPTIONS } from './retry';
-import { NanoClassifierConfig, ClassificationResult } from './nanoClassifier';
+import { NanoClassifierConfig, ClassificationResult, ClassifyOptions } from './nanoClassifier';
+import { formatExampleMessages } from './classifierExamples';
+import { isAbortError, withAbort } from './cancellation';
+import { toolBreakerKey, withCircuitBreaker } from './circuitBreaker';
 
 /**
  * Options for fallback behavior
@@ -24,6 +27,8 @@ export interface FallbackOptions<T> {
   throwOnFallbackFailure?: boolean;
   /** Context information to include in error logs */
   context?: any;
+  /** Abort signal; once aborted, errors are rethrown instead of falling back */
+  signal?: AbortSignal;
 }
 
 /**
@@ -42,14 +47,21 @@ export async function withFallback<T>(
     fallbackFn,
     throwOnFallbackFailure = true,
     context,
+    signal,
   } = options;
 
   try {
     // Try the primary function first
     return await fn();
   } catch (error) {
-    // Log the error
     const err = error instanceof Error ? error : new Error(String(error));
+
+    // A cancelled run gets no fallback
+    if (signal?.aborted || isAbortError(err)) {
+      throw err;
+    }
+
+    // Log the error
     logError(err, context);
 
     // If there's a fallback function, try it
@@ -92,6 +104,8 @@ export async function withFallback<T>(
 export interface NanoFallbackOptions<T extends string> extends FallbackOptions<ClassificationResult<T>> {
   /** Configuration for GPT-4.1 (used as fallback) */
   gpt41Config?: Partial<GPT41Config>;
+  /** The examples shown to GPT-4.1 and how its answer is interpreted */
+  classifyOptions?: ClassifyOptions<T>;
 }
 
 /**
@@ -117,21 +131,21 @@ export async function withNanoFallback<T extends string>(
   nanoConfig?: Partial<NanoClassifierConfig>,
   options: NanoFallbackOptions<T> = {}
 ): Promise<ClassificationResult<T>> {
-  const { gpt41Config, ...fallbackOptions } = options;
+  const { gpt41Config, classifyOptions, ...fallbackOptions } = options;
 
   // Create a fallback function that uses GPT-4.1 instead of nano
   const fallbackFn = async (): Promise<ClassificationResult<T>> => {
     // Import dynamically to avoid circular dependencies
     const { callGPT41API } = await import('./orchestrator');
+    const { getClassifierPrompt, interpretClassification } = await import('./nanoClassifier');
 
-    // Create messages for the API
-    const messages = [
+    // Create messages for the API, with the examples as earlier turns
+    const messages: Message[] = [
       {
         role: 'system',
-        content: prompt ||
-          `Classify the following text into one of these categories: ${labels.join(', ')}. ` +
-          'Respond with ONLY the category name, nothing else.',
+        content: prompt || (await getClassifierPrompt(labels, classifyOptions)),
       },
+      ...formatExampleMessages(classifyOptions?.examples ?? []),
       {
         role: 'user',
         content: text,
@@ -149,30 +163,8 @@ export async function withNanoFallback<T extends string>(
       }
     );
 
-    // Extract the classification label from the response
-    const content = response.choices[0].message.content.trim();
-
-    // Find the matching label (case-insensitive)
-    const matchedLabel = labels.find(
-      (label) => label.toLowerCase() === content.toLowerCase()
-    );
-
-    if (!matchedLabel) {
-      throw new Error(`Classification failed: response "${content}" did not match any of the provided labels: ${labels.join(', ')}`);
-    }
-
-    // Extract token usage
-    const usage = response.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
-
-    return {
-      label: matchedLabel,
-      usage: {
-        promptTokens: usage.prompt_tokens,
-        completionTokens: usage.completion_tokens,
-        totalTokens: usage.total_tokens,
-      },
-      rawResponse: response,
-    };
+    // An answer that matches no label abstains, as it does for nano
+    return interpretClassification(response, labels, classifyOptions);
   };
 
   // Use the generic fallback wrapper
@@ -198,6 +190,8 @@ export interface ToolFallbackOptions extends FallbackOptions<ToolCallResult> {
   defaultResult?: any;
   /** Message to include in the error */
   errorMessage?: string;
+  /** The maximum number of retries for the tool call */
+  maxRetries?: number;
 }
 
 /**
@@ -215,6 +209,8 @@ export async function withToolFallback(
   const {
     defaultResult,
     errorMessage = 'Tool call failed',
+    signal,
+    maxRetries = DEFAULT_RETRY_OPTIONS.maxRetries,
     ...fallbackOptions
   } = options;
 
@@ -233,12 +229,16 @@ export async function withToolFallback(
   // For tests, we might want to bypass the retry mechanism
   const retryOptions = process.env.NODE_ENV === 'test'
     ? { ...DEFAULT_RETRY_OPTIONS, maxRetries: 0 }
-    : DEFAULT_RETRY_OPTIONS;
+    : { ...DEFAULT_RETRY_OPTIONS, maxRetries };
 
   // Create a function that executes the tool with retry
   const executeWithRetry = () => withRetry(
-    () => tool.execute(toolCall.arguments),
-    retryOptions
+    () =>
+      withCircuitBreaker(toolBreakerKey(tool.name), () =>
+        withAbort(tool.execute(toolCall.arguments, { signal }), signal)
+      ),
+    retryOptions,
+    signal
   );
 
   // Use the generic fallback wrapper
@@ -247,6 +247,7 @@ export async function withToolFallback(
       executeWithRetry,
       {
         ...fallbackOptions,
+        signal,
         context: {
           type: 'tool-call',
           toolName: toolCall.name,
@@ -1,6 +1,35 @@
 export * from './types';
 export * from './orchestrator';
 export * from './utils';
+export * from './promptTemplates';
 export * from './retry';
+export * from './retryPolicy';
+export * from './circuitBreaker';
+export * from './modelFallback';
+export * from './modelCall';
+export * from './modelRegistry';
+export * from './tokenizer';
+export * from './contextWindow';
 export * from './contextIntegration';
+export * from './summarization';
+export * from './conversationTitles';
+export * from './toolOutput';
+export * from './toolArguments';
+export * from './toolScheduler';
+export * from './runContext';
+export * from './agentTool';
+export * from './cassette';
 export * from './nanoClassifier';
+export * from './classifierExamples';
+export * from './classifierCache';
+export * from './streaming';
+export * from './budget';
+export * from './providers';
+export * from './runStore';
+export * from './approval';
+export * from './cancellation';
+export * from './planner';
+export * from './router';
+export * from './structuredOutput';
+export * from './jobs';
+export * from './evals';
@@ -0,0 +1,163 @@
+/**
+ * Job callback URL checks
+ *
+ * Callback URLs come from API callers and are requested by the server, so a
+ * URL could point the server at itself, the private network or a cloud
+ * metadata service. Its host is resolved and every address it resolves to
+ * must be public. When JOB_CALLBACK_ALLOWED_HOSTS is set (a comma-separated
+ * list of host names), the host must also be on that list.
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { ValidationError } from '../../utils/error';
+
+/**
+ * Resolves a host name to its IP addresses
+ */
+export type HostResolver = (host: string) => Promise<string[]>;
+
+/**
+ * IPv4 ranges that are not publicly routable, as [network, prefix length]
+ */
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, including cloud metadata services
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // Documentation
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['198.51.100.0', 24], // Documentation
+  ['203.0.113.0', 24], // Documentation
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved and broadcast
+];
+
+const resolveWithDns: HostResolver = async (host) =>
+  (await lookup(host, { all: true, verbatim: true })).map((entry) => entry.address);
+
+let resolveHost: HostResolver = resolveWithDns;
+
+/**
+ * Convert a dotted IPv4 address to a number
+ * @param address The address
+ * @returns The address as an unsigned 32-bit number
+ */
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+/**
+ * Check whether an IPv4 address is in a range that is not publicly routable
+ * @param address The address
+ * @returns Whether the address is private, loopback, link-local or reserved
+ */
+function isPrivateIPv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return PRIVATE_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size);
+  });
+}
+
+/**
+ * Check whether an IPv6 address is in a range that is not publicly routable
+ * @param address The address
+ * @returns Whether the address is unspecified, loopback, unique local, link-local or multicast,
+ *   or an IPv4-mapped address in a private range
+ */
+function isPrivateIPv6(address: string): boolean {
+  const normalized = address.toLowerCase().split('%')[0];
+
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateIPv4(mapped[1]);
+  }
+
+  if (normalized === '::' || normalized === '::1') {
+    return true;
+  }
+
+  const firstGroup = parseInt(normalized.split(':')[0] || '0', 16);
+  return (
+    (firstGroup & 0xfe00) === 0xfc00 || // Unique local (fc00::/7)
+    (firstGroup & 0xffc0) === 0xfe80 || // Link-local (fe80::/10)
+    (firstGroup & 0xff00) === 0xff00 // Multicast (ff00::/8)
+  );
+}
+
+/**
+ * Check whether an IP address is in a range that is not publicly routable
+ * @param address The IPv4 or IPv6 address
+ * @returns Whether the address is not public
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPrivateIPv4(address);
+  if (version === 6) return isPrivateIPv6(address);
+  return true;
+}
+
+/**
+ * Get the hosts callbacks may be sent to, if they are restricted
+ * @returns The allowed host names, or undefined if any public host is allowed
+ */
+function getAllowedHosts(): string[] | undefined {
+  const hosts = (process.env.JOB_CALLBACK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  return hosts.length > 0 ? hosts : undefined;
+}
+
+/**
+ * Check that a callback URL may be requested by the server
+ * @param url The callback URL
+ * @throws ValidationError if the URL is not http(s), its host is not allowed, or it
+ *   cannot be resolved or resolves to an address that is not public
+ */
+export async function assertCallbackUrlAllowed(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ValidationError('Invalid callback URL', [`Not a URL: ${url}`]);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new ValidationError('Invalid callback URL', ['Callback URL must use http or https']);
+  }
+
+  // URL keeps IPv6 hosts in brackets
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  const allowedHosts = getAllowedHosts();
+  if (allowedHosts && !allowedHosts.includes(host)) {
+    throw new ValidationError('Invalid callback URL', [`Callback host ${host} is not allowed`]);
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : await resolveHost(host);
+  } catch {
+    throw new ValidationError('Invalid callback URL', [`Callback host ${host} could not be resolved`]);
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new ValidationError('Invalid callback URL', [
+      `Callback host ${host} resolves to an address that is not public`,
+    ]);
+  }
+}
+
+/**
+ * Replace the host resolver (for testing)
+ * @param resolver The resolver to use, or null to resolve with DNS again
+ */
+export function setHostResolverForTesting(resolver: HostResolver | null): void {
+  resolveHost = resolver ?? resolveWithDns;
+}
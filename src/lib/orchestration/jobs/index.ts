@@ -0,0 +1,13 @@
+/**
+ * Orchestration Jobs Module
+ *
+ * This module exports the job queue interface, the in-process and Postgres
+ * backends, the worker and the queue selection used by async orchestration.
+ */
+
+export * from './types';
+export * from './memory';
+export * from './postgres';
+export * from './worker';
+export * from './callbackUrl';
+export * from './queue';
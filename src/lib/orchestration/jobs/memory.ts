@@ -0,0 +1,135 @@
+/**
+ * In-process job queue
+ *
+ * Keeps jobs in memory so that async orchestration works locally without
+ * extra services. Jobs do not survive a restart of the process; use the
+ * Postgres queue when they must.
+ */
+
+import { randomUUID } from 'crypto';
+import { markRunFailed } from '../runStore';
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  EnqueueOptions,
+  JobQueue,
+  JobStatus,
+  OrchestrationJob,
+  OrchestrationJobPayload,
+} from './types';
+
+/**
+ * Options for the in-process queue
+ */
+export interface InMemoryJobQueueOptions {
+  /** Called after each job is enqueued, e.g. to start processing it */
+  onEnqueue?: (job: OrchestrationJob) => void;
+  /** The current time in milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * An in-process queue that also exposes its jobs for inspection
+ */
+export interface InMemoryJobQueue extends JobQueue {
+  /** Get a job by ID */
+  getJob(jobId: string): OrchestrationJob | undefined;
+}
+
+/**
+ * Create an in-process job queue
+ * @param options Optional queue options
+ * @returns The job queue
+ */
+export function createInMemoryJobQueue(options: InMemoryJobQueueOptions = {}): InMemoryJobQueue {
+  const { onEnqueue, now = Date.now } = options;
+  const jobs = new Map<string, OrchestrationJob>();
+
+  const getClaimedJob = (jobId: string): OrchestrationJob => {
+    const job = jobs.get(jobId);
+
+    if (!job) {
+      throw new Error(`Job '${jobId}' does not exist`);
+    }
+
+    return job;
+  };
+
+  const isExpired = (job: OrchestrationJob): boolean =>
+    job.status === 'running' && job.lockedUntil !== null && Date.parse(job.lockedUntil) < now();
+
+  return {
+    name: 'memory',
+
+    async enqueue(payload: OrchestrationJobPayload, enqueueOptions: EnqueueOptions = {}) {
+      const job: OrchestrationJob = {
+        id: randomUUID(),
+        payload,
+        status: 'queued',
+        attempts: 0,
+        maxAttempts: enqueueOptions.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        lockedUntil: null,
+        lastError: null,
+      };
+
+      jobs.set(job.id, job);
+      onEnqueue?.(job);
+
+      return { ...job };
+    },
+
+    async claim(leaseMs: number) {
+      // Give up on jobs whose worker stopped responding on their last attempt
+      for (const job of jobs.values()) {
+        if (isExpired(job) && job.attempts >= job.maxAttempts) {
+          job.status = 'failed';
+          job.lockedUntil = null;
+          job.lastError = 'Worker stopped before finishing the job';
+          await markRunFailed(job.payload.runId, job.lastError).catch((error) =>
+            console.error(`Failed to mark run ${job.payload.runId} as failed:`, error)
+          );
+        }
+      }
+
+      // Maps iterate in insertion order, so the oldest job comes first
+      for (const job of jobs.values()) {
+        if ((job.status === 'queued' || isExpired(job)) && job.attempts < job.maxAttempts) {
+          job.status = 'running';
+          job.attempts += 1;
+          job.lockedUntil = new Date(now() + leaseMs).toISOString();
+          return { ...job };
+        }
+      }
+
+      return null;
+    },
+
+    async renew(jobId: string, leaseMs: number) {
+      const job = getClaimedJob(jobId);
+      if (job.status !== 'running') {
+        return false;
+      }
+
+      job.lockedUntil = new Date(now() + leaseMs).toISOString();
+      return true;
+    },
+
+    async complete(jobId: string) {
+      const job = getClaimedJob(jobId);
+      job.status = 'completed';
+      job.lockedUntil = null;
+    },
+
+    async fail(jobId: string, error: Error): Promise<JobStatus> {
+      const job = getClaimedJob(jobId);
+      job.status = job.attempts >= job.maxAttempts ? 'failed' : 'queued';
+      job.lockedUntil = null;
+      job.lastError = error.message;
+      return job.status;
+    },
+
+    getJob(jobId: string) {
+      const job = jobs.get(jobId);
+      return job ? { ...job } : undefined;
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Postgres job queue
+ *
+ * Stores jobs in the `orchestration_jobs` table so they survive restarts and
+ * can be processed by any worker. Jobs are claimed with the
+ * `claim_orchestration_job` function, which uses SKIP LOCKED so concurrent
+ * workers never take the same job.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { Database, Json } from '../../types/database.types';
+import { SUPABASE_URL, SUPABASE_SERVICE_KEY } from '../../config/env';
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  EnqueueOptions,
+  JobQueue,
+  JobStatus,
+  OrchestrationJob,
+  OrchestrationJobPayload,
+} from './types';
+
+type JobRow = Database['public']['Tables']['orchestration_jobs']['Row'];
+type SupabaseClient = ReturnType<typeof createClient<Database>>;
+
+// Initialize Supabase client
+let supabase: SupabaseClient | null = null;
+
+try {
+  // Use service role key for admin operations
+  supabase = createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+} catch (error) {
+  console.error('Failed to initialize Supabase client for orchestration jobs:', error);
+}
+
+/**
+ * Convert a stored row to a job
+ * @param row The row from the database
+ * @returns The job
+ */
+function toJob(row: JobRow): OrchestrationJob {
+  return {
+    id: row.id,
+    payload: row.payload as unknown as OrchestrationJobPayload,
+    status: row.status as JobStatus,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    lockedUntil: row.locked_until,
+    lastError: row.last_error,
+  };
+}
+
+/**
+ * Create a job queue backed by the `orchestration_jobs` table
+ * @param client Optional Supabase client (default: the service role client)
+ * @returns The job queue
+ * @throws Error if no Supabase client is available
+ */
+export function createPostgresJobQueue(client: SupabaseClient | null = supabase): JobQueue {
+  if (!client) {
+    throw new Error('The Postgres job queue requires a Supabase connection');
+  }
+
+  return {
+    name: 'postgres',
+
+    async enqueue(payload: OrchestrationJobPayload, options: EnqueueOptions = {}) {
+      const { data, error } = await client
+        .from('orchestration_jobs')
+        .insert({
+          run_id: payload.runId,
+          user_id: payload.userId,
+          payload: payload as unknown as Json,
+          max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      return toJob(data);
+    },
+
+    async claim(leaseMs: number) {
+      const { data, error } = await client.rpc('claim_orchestration_job', {
+        lease_seconds: Math.ceil(leaseMs / 1000),
+      });
+
+      if (error) throw error;
+      return data && data.length > 0 ? toJob(data[0]) : null;
+    },
+
+    async renew(jobId: string, leaseMs: number) {
+      const { data, error } = await client
+        .from('orchestration_jobs')
+        .update({ locked_until: new Date(Date.now() + leaseMs).toISOString(), updated_at: new Date().toISOString() })
+        .eq('id', jobId)
+        .eq('status', 'running')
+        .select('id');
+
+      if (error) throw error;
+      return data.length > 0;
+    },
+
+    async complete(jobId: string) {
+      const now = new Date().toISOString();
+      const { error } = await client
+        .from('orchestration_jobs')
+        .update({ status: 'completed', locked_until: null, updated_at: now, completed_at: now })
+        .eq('id', jobId);
+
+      if (error) throw error;
+    },
+
+    async fail(jobId: string, failure: Error): Promise<JobStatus> {
+      const { data: row, error: fetchError } = await client
+        .from('orchestration_jobs')
+        .select('attempts, max_attempts')
+        .eq('id', jobId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const now = new Date().toISOString();
+      const status: JobStatus = row.attempts >= row.max_attempts ? 'failed' : 'queued';
+      const { error } = await client
+        .from('orchestration_jobs')
+        .update({
+          status,
+          locked_until: null,
+          last_error: failure.message,
+          updated_at: now,
+          completed_at: status === 'failed' ? now : null,
+        })
+        .eq('id', jobId);
+
+      if (error) throw error;
+      return status;
+    },
+  };
+}
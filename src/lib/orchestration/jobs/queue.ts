@@ -0,0 +1,99 @@
+/**
+ * Job Queue Selection Module
+ *
+ * This module selects the queue backend from the ORCHESTRATION_JOB_QUEUE
+ * environment variable ('memory' by default, or 'postgres') and enqueues
+ * async orchestration runs.
+ */
+
+import { randomUUID } from 'crypto';
+import { createQueuedRun } from '../runStore';
+import { createInMemoryJobQueue } from './memory';
+import { createPostgresJobQueue } from './postgres';
+import { EnqueueOptions, JobQueue, OrchestrationJobPayload } from './types';
+import { processJobs } from './worker';
+
+/**
+ * Name of the queue backend used when none is configured
+ */
+export const DEFAULT_JOB_QUEUE = 'memory';
+
+let jobQueue: JobQueue | null = null;
+
+// The in-process worker drains the memory queue in the background
+let draining = false;
+let drainRequested = false;
+
+/**
+ * Start processing the in-process queue, unless it is already being processed
+ * @param queue The queue to process
+ */
+function startInProcessWorker(queue: JobQueue): void {
+  drainRequested = true;
+  if (draining) return;
+
+  draining = true;
+  void (async () => {
+    try {
+      // Drain again if a job was enqueued while the last drain was finishing
+      while (drainRequested) {
+        drainRequested = false;
+        await processJobs(queue);
+      }
+    } catch (error) {
+      console.error('In-process job worker failed:', error);
+    } finally {
+      draining = false;
+    }
+  })();
+}
+
+/**
+ * Get the configured job queue
+ * @returns The job queue
+ * @throws Error if the configured backend is unknown
+ */
+export function getJobQueue(): JobQueue {
+  if (!jobQueue) {
+    const backend = process.env.ORCHESTRATION_JOB_QUEUE || DEFAULT_JOB_QUEUE;
+
+    if (backend === 'postgres') {
+      jobQueue = createPostgresJobQueue();
+    } else if (backend === 'memory') {
+      const queue = createInMemoryJobQueue({ onEnqueue: () => startInProcessWorker(queue) });
+      jobQueue = queue;
+    } else {
+      throw new Error(`Job queue '${backend}' is not supported`);
+    }
+  }
+
+  return jobQueue;
+}
+
+/**
+ * Replace the job queue (for testing)
+ * @param queue The queue to use, or null to select one from the environment again
+ */
+export function setJobQueueForTesting(queue: JobQueue | null): void {
+  jobQueue = queue;
+}
+
+/**
+ * Queue an orchestration run for a worker
+ *
+ * The run is stored in the `queued` state straight away, so it can be polled
+ * with GET /api/runs/[id] before a worker picks it up.
+ * @param payload What to run, without a run ID
+ * @param options Optional enqueue options
+ * @returns The IDs of the run and the job
+ */
+export async function enqueueOrchestrationJob(
+  payload: Omit<OrchestrationJobPayload, 'runId'>,
+  options?: EnqueueOptions
+): Promise<{ runId: string; jobId: string }> {
+  const runId = randomUUID();
+  await createQueuedRun(runId, payload.userId, payload.instruction);
+
+  const job = await getJobQueue().enqueue({ ...payload, runId }, options);
+  return { runId, jobId: job.id };
+}
@@ -0,0 +1,134 @@
+/**
+ * Job Queue Types
+ *
+ * This module defines the queue interface used to run orchestrations
+ * asynchronously, so that long tasks are not bound by HTTP request timeouts.
+ */
+
+import { JsonSchema } from '../../utils/validation';
+
+/**
+ * The lifecycle state of a job
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Everything a worker needs to run an orchestration
+ */
+export interface OrchestrationJobPayload {
+  /** The ID of the run the job executes */
+  runId: string;
+  /** The user the run belongs to */
+  userId: string;
+  /** The user's instruction */
+  instruction: string;
+  /** The conversation thread whose messages are used as context */
+  conversationId?: string;
+  /** Optional additional context for the system prompt */
+  additionalContext?: string;
+  /** The persona the system prompt is rendered with */
+  persona?: string;
+  /** Maximum number of retries for failed tool calls */
+  maxRetries?: number;
+  /** Maximum number of model calls */
+  maxSteps?: number;
+  /** Time limit for the run in milliseconds */
+  maxWallClockMs?: number;
+  /** Token budget for the run */
+  maxTotalTokens?: number;
+  /** Whether to plan tool calls up front */
+  planner?: boolean;
+  /** Whether to route the instruction to a model tier and tool subset */
+  routing?: boolean;
+  /** JSON Schema the final answer must match */
+  outputSchema?: JsonSchema;
+  /** How many times an answer that does not match the schema is sent back */
+  maxOutputRetries?: number;
+  /** URL that receives the result with a POST once the job ends */
+  callbackUrl?: string;
+}
+
+/**
+ * A queued orchestration job
+ */
+export interface OrchestrationJob {
+  /** The ID of the job */
+  id: string;
+  /** What to run */
+  payload: OrchestrationJobPayload;
+  /** The lifecycle state of the job */
+  status: JobStatus;
+  /** How many times a worker has claimed the job */
+  attempts: number;
+  /** How many claims are allowed before the job fails */
+  maxAttempts: number;
+  /** When the current claim expires, as an ISO timestamp */
+  lockedUntil: string | null;
+  /** The error from the last failed attempt */
+  lastError: string | null;
+}
+
+/**
+ * Options for enqueuing a job
+ */
+export interface EnqueueOptions {
+  /** How many attempts to allow (default: 3) */
+  maxAttempts?: number;
+}
+
+/**
+ * A queue backend for orchestration jobs
+ *
+ * A claimed job is leased to one worker, which renews the lease while the
+ * job runs. If the worker crashes before completing or failing the job, the
+ * lease runs out and the job is claimed again, until it has used all of its
+ * attempts.
+ */
+export interface JobQueue {
+  /** The name of the backend */
+  readonly name: string;
+  /**
+   * Add a job to the queue
+   * @param payload What to run
+   * @param options Optional enqueue options
+   * @returns The queued job
+   */
+  enqueue(payload: OrchestrationJobPayload, options?: EnqueueOptions): Promise<OrchestrationJob>;
+  /**
+   * Claim the oldest available job
+   * @param leaseMs How long the worker may hold the job before it is retried
+   * @returns The claimed job, or null if none is available
+   */
+  claim(leaseMs: number): Promise<OrchestrationJob | null>;
+  /**
+   * Extend the lease of a claimed job that is still running
+   * @param jobId The ID of the job
+   * @param leaseMs How long from now the worker may hold the job
+   * @returns Whether the job was still running and its lease was extended
+   */
+  renew(jobId: string, leaseMs: number): Promise<boolean>;
+  /**
+   * Mark a claimed job as done
+   * @param jobId The ID of the job
+   */
+  complete(jobId: string): Promise<void>;
+  /**
+   * Release a claimed job after an error, queueing it again if it has
+   * attempts left
+   * @param jobId The ID of the job
+   * @param error The error that ended the attempt
+   * @returns The status of the job afterwards
+   */
+  fail(jobId: string, error: Error): Promise<JobStatus>;
+}
+
+/**
+ * The default number of attempts for a job
+ */
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * The default lease for a claimed job; the worker renews it while the job
+ * runs, so it only bounds how long a crashed worker holds the job
+ */
+export const DEFAULT_JOB_LEASE_MS = 15 * 60 * 1000;
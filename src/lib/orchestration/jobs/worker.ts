@@ -0,0 +1,247 @@
+/**
+ * Orchestration job worker
+ *
+ * Claims jobs from a queue and runs them with orchestrate(). The run is
+ * recorded under the run ID returned when the job was enqueued, so clients
+ * can poll GET /api/runs/[id]; a callback URL, if given, receives the result.
+ */
+
+import { orchestrate } from '../orchestrator';
+import { combineMemoryWithInstruction } from '../contextIntegration';
+import {
+  clearRunSteps,
+  getRunStatusForStopReason,
+  getStoredRun,
+  markRunCancelled,
+  markRunFailed,
+  RunStatus,
+} from '../runStore';
+import { OrchestrationResult } from '../types';
+import { getToolRegistry } from '../../tools/registry';
+import { assertCallbackUrlAllowed } from './callbackUrl';
+import { DEFAULT_JOB_LEASE_MS, JobQueue, OrchestrationJob } from './types';
+
+/**
+ * How long to wait for a callback URL to accept the result
+ */
+const CALLBACK_TIMEOUT_MS = 10000;
+
+/**
+ * How many times the lease of a running job is renewed per lease, so one
+ * slow or failed renewal does not let it expire
+ */
+const LEASE_RENEWALS_PER_LEASE = 3;
+
+/**
+ * The body POSTed to a job's callback URL
+ */
+export interface JobCallbackBody {
+  /** The ID of the run */
+  runId: string;
+  /** The status the run ended in, or 'failed' when the job gave up after all its attempts */
+  status: RunStatus;
+  /** The orchestration result, when the job ran to the end */
+  result?: OrchestrationResult;
+  /** The last error, when the job failed */
+  error?: string;
+}
+
+/**
+ * Options for processing jobs
+ */
+export interface ProcessJobsOptions {
+  /** The maximum number of jobs to process (default: no limit) */
+  maxJobs?: number;
+  /** How long each claimed job is leased for */
+  leaseMs?: number;
+}
+
+/**
+ * Run the orchestration described by a job
+ * @param job The claimed job
+ * @returns The orchestration result
+ */
+export async function runOrchestrationJob(job: OrchestrationJob): Promise<OrchestrationResult> {
+  const { payload } = job;
+
+  // A retry after a crash starts the run again from the beginning
+  if (job.attempts > 1) {
+    await clearRunSteps(payload.runId);
+  }
+
+  const tools = await getToolRegistry().getAllTools(payload.userId);
+  const memory = await combineMemoryWithInstruction(
+    payload.userId,
+    payload.instruction,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    payload.conversationId
+  );
+
+  return orchestrate({
+    instruction: payload.instruction,
+    context: {
+      userId: payload.userId,
+      memory,
+      additionalContext: payload.additionalContext,
+    },
+    tools,
+    persona: payload.persona,
+    maxRetries: payload.maxRetries ?? 2,
+    maxSteps: payload.maxSteps,
+    maxWallClockMs: payload.maxWallClockMs,
+    maxTotalTokens: payload.maxTotalTokens,
+    planner: payload.planner,
+    routing: payload.routing,
+    outputSchema: payload.outputSchema,
+    maxOutputRetries: payload.maxOutputRetries,
+    runId: payload.runId,
+  });
+}
+
+/**
+ * Run a claimed job, renewing its lease until the run ends
+ *
+ * Renewal failures are logged; if the lease still runs out, the job may be
+ * claimed again by another worker.
+ * @param queue The job queue
+ * @param job The claimed job
+ * @param leaseMs How long each renewal extends the lease for
+ * @param run Runs the job
+ * @returns The result of the run
+ */
+async function withLeaseRenewal<T>(
+  queue: JobQueue,
+  job: OrchestrationJob,
+  leaseMs: number,
+  run: () => Promise<T>
+): Promise<T> {
+  const renew = async () => {
+    try {
+      if (!(await queue.renew(job.id, leaseMs))) {
+        console.error(`Orchestration job ${job.id} is no longer running; its lease was not renewed`);
+      }
+    } catch (error) {
+      console.error(`Failed to renew the lease of orchestration job ${job.id}:`, error);
+    }
+  };
+  const timer = setInterval(renew, Math.max(1, Math.floor(leaseMs / LEASE_RENEWALS_PER_LEASE)));
+
+  try {
+    return await run();
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+/**
+ * POST the outcome of a job to its callback URL
+ *
+ * Delivery is best effort: failures are logged and never fail the job. The
+ * URL is checked again before sending, as its host may resolve differently
+ * than when the job was enqueued, and redirects are not followed.
+ * @param url The callback URL
+ * @param body The outcome of the job
+ */
+export async function sendJobCallback(url: string, body: JobCallbackBody): Promise<void> {
+  try {
+    await assertCallbackUrlAllowed(url);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      redirect: 'manual',
+      signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      console.error(`Job callback for run ${body.runId} returned ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Job callback for run ${body.runId} failed:`, error);
+  }
+}
+
+/**
+ * Claim and run the next job in the queue
+ * @param queue The job queue
+ * @param leaseMs How long the job is leased for, renewed while it runs
+ * @returns Whether a job was claimed
+ */
+export async function processNextJob(
+  queue: JobQueue,
+  leaseMs: number = DEFAULT_JOB_LEASE_MS
+): Promise<boolean> {
+  const job = await queue.claim(leaseMs);
+  if (!job) return false;
+
+  const { payload } = job;
+
+  // Skip runs that were cancelled while they were queued
+  const run = await getStoredRun(payload.runId, payload.userId);
+  if (run?.status === 'cancelled') {
+    await queue.complete(job.id);
+    return true;
+  }
+
+  // A run whose worker stopped after cancellation was requested is not started again
+  if (run?.cancel_requested_at) {
+    await markRunCancelled(payload.runId);
+    await queue.complete(job.id);
+    return true;
+  }
+
+  try {
+    const result = await withLeaseRenewal(queue, job, leaseMs, () => runOrchestrationJob(job));
+    await queue.complete(job.id);
+
+    if (payload.callbackUrl) {
+      await sendJobCallback(payload.callbackUrl, {
+        runId: payload.runId,
+        status: getRunStatusForStopReason(result.stopReason),
+        result,
+      });
+    }
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error(`Orchestration job ${job.id} failed on attempt ${job.attempts}:`, err);
+
+    // Try again later unless the job has used all of its attempts
+    const status = await queue.fail(job.id, err);
+    if (status === 'failed') {
+      await markRunFailed(payload.runId, err.message).catch((markError) =>
+        console.error(`Failed to mark run ${payload.runId} as failed:`, markError)
+      );
+
+      if (payload.callbackUrl) {
+        await sendJobCallback(payload.callbackUrl, {
+          runId: payload.runId,
+          status: 'failed',
+          error: err.message,
+        });
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Process jobs until the queue is empty or the limit is reached
+ * @param queue The job queue
+ * @param options Optional limits
+ * @returns The number of jobs processed
+ */
+export async function processJobs(queue: JobQueue, options: ProcessJobsOptions = {}): Promise<number> {
+  const { maxJobs = Number.POSITIVE_INFINITY, leaseMs = DEFAULT_JOB_LEASE_MS } = options;
+  let processed = 0;
+
+  while (processed < maxJobs && (await processNextJob(queue, leaseMs))) {
+    processed += 1;
+  }
+
+  return processed;
+}
@@ -0,0 +1,95 @@
+/**
+ * Model calls
+ *
+ * Every call the orchestration makes to a model goes through callModel: the
+ * models of the fallback chain are tried in order, and each is fitted to its
+ * context window, guarded by its provider's circuit breaker and retried on the
+ * retry budget of the run.
+ */
+
+import { logger } from '../utils/logger';
+import { withRetry, DEFAULT_RETRY_OPTIONS } from './retry';
+import { getRetryBudget } from './retryPolicy';
+import { providerBreakerKey, withCircuitBreaker } from './circuitBreaker';
+import { callWithModelFallback, resolveModelChain } from './modelFallback';
+import { DEFAULT_MODEL } from './modelRegistry';
+import { fitMessagesToContext } from './contextWindow';
+import { createProvider, DEFAULT_PROVIDER } from './providers/registry';
+import { ChatRequest, ChatResponse } from './providers/types';
+import { GPT41Config } from './types';
+
+/**
+ * What to send to the model; the model settings come from the configuration
+ */
+export type ModelCallRequest = Omit<ChatRequest, 'model' | 'temperature' | 'maxTokens' | 'signal'>;
+
+/**
+ * Send a request to a model, falling back to the next model in the chain when it fails
+ *
+ * Once part of an answer has been streamed, another model cannot take over.
+ * @param request The messages, tools and response options to send
+ * @param config The model configuration, with its fallback models
+ * @param signal Optional abort signal of the run; it cancels the request and any retries
+ * @returns The normalized model response, naming the model that answered
+ * @throws CircuitOpenError if the provider's circuit breaker is open, or the error of
+ *   the last model tried if no model answered
+ */
+export async function callModel(
+  request: ModelCallRequest,
+  config: Partial<GPT41Config>,
+  signal?: AbortSignal
+): Promise<ChatResponse> {
+  // Retries on every model draw on the run's budget, even under a per-model timeout
+  const retryOptions = { ...DEFAULT_RETRY_OPTIONS, budget: getRetryBudget(signal) };
+  const tools = request.tools ?? [];
+
+  let streamed = false;
+  const onDelta = request.onDelta;
+  const onStreamDelta = onDelta
+    ? (delta: string) => {
+        streamed = true;
+        onDelta(delta);
+      }
+    : undefined;
+
+  return callWithModelFallback(
+    resolveModelChain(config),
+    (link, linkSignal) => {
+      const model = link.model || DEFAULT_MODEL;
+      const providerName = link.provider || DEFAULT_PROVIDER;
+      const provider = createProvider(providerName, {
+        apiKey: link.apiKey,
+        endpoint: link.endpoint,
+      });
+
+      // Each model in the chain has its own context window
+      const { messages } = fitMessagesToContext(request.messages, tools, { model, maxTokens: link.maxTokens });
+
+      const makeApiCall = () =>
+        withCircuitBreaker(providerBreakerKey(providerName), () =>
+          provider.chat({
+            ...request,
+            model,
+            messages,
+            temperature: link.temperature,
+            maxTokens: link.maxTokens,
+            onDelta: onStreamDelta,
+            signal: linkSignal,
+          })
+        );
+
+      return withRetry(makeApiCall, retryOptions, linkSignal).catch((error) => {
+        logger.error('Model call failed', {
+          provider: provider.name,
+          model,
+          messageCount: request.messages.length,
+          toolCount: tools.length,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      });
+    },
+    signal,
+    () => !streamed
+  );
+}
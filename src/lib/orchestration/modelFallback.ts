@@ -0,0 +1,148 @@
+/**
+ * Model fallback chain
+ *
+ * A GPT41Config can list fallback models, e.g. a second vendor and then a
+ * cheaper model. When a model fails, times out or has its provider's circuit
+ * breaker open, the next model in the chain is tried, so a run gets a real
+ * answer rather than an apology.
+ */
+
+import { logger } from '../utils/logger';
+import { isAbortError } from './cancellation';
+import { GPT41Config } from './types';
+import { DEFAULT_PROVIDER } from './providers/registry';
+
+/**
+ * Error thrown when a model in the chain does not answer within its timeout
+ */
+export class ModelTimeoutError extends Error {
+  model: string;
+  timeoutMs: number;
+
+  constructor(model: string, timeoutMs: number) {
+    super(`${model} did not answer within ${timeoutMs}ms`);
+    // Classified as a retryable timeout rather than a cancellation
+    this.name = 'TimeoutError';
+    this.model = model;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Build the ordered chain of models to try for a configuration
+ *
+ * Each fallback inherits the settings of the primary model that it does not
+ * override, such as the temperature or the timeout. The API key and endpoint
+ * are only inherited by fallbacks of the same provider; a fallback to another
+ * provider uses its own, or the provider's defaults.
+ * @param config The primary model configuration
+ * @returns The primary model followed by its fallbacks
+ */
+export function resolveModelChain(config: Partial<GPT41Config>): Array<Partial<GPT41Config>> {
+  const { fallbackModels = [], ...primary } = config;
+  const settings = { ...primary, apiKey: undefined, endpoint: undefined };
+  const primaryProvider = primary.provider || DEFAULT_PROVIDER;
+
+  return [
+    primary,
+    ...fallbackModels.map((fallback) =>
+      (fallback.provider || primaryProvider) === primaryProvider
+        ? { ...primary, ...fallback }
+        : { ...settings, ...fallback }
+    ),
+  ];
+}
+
+/**
+ * Run a call with a time limit, aborting it when the limit is reached
+ * @param fn The call, given a signal that aborts when the time is up or the run is cancelled
+ * @param model The model being called, for the error message
+ * @param timeoutMs The time limit in milliseconds, or undefined for none
+ * @param signal Optional abort signal of the run
+ * @returns The result of the call
+ * @throws ModelTimeoutError if the call does not finish in time
+ */
+async function withModelTimeout<T>(
+  fn: (signal?: AbortSignal) => Promise<T>,
+  model: string,
+  timeoutMs?: number,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!timeoutMs) {
+    return fn(signal);
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  }
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new ModelTimeoutError(model, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Try each model in the chain in order until one answers
+ * @param chain The models to try, as built by resolveModelChain
+ * @param call Makes the call to one model, with the signal to pass on to it
+ * @param signal Optional abort signal of the run; cancellation is never retried on another model
+ * @param canFallBack Optional check made before moving on, e.g. false once part of an answer was streamed
+ * @returns The result from the first model that answered
+ * @throws The error of the last model tried if none answered
+ */
+export async function callWithModelFallback<T>(
+  chain: Array<Partial<GPT41Config>>,
+  call: (link: Partial<GPT41Config>, signal?: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+  canFallBack: () => boolean = () => true
+): Promise<T> {
+  let lastError: unknown;
+
+  for (let index = 0; index < chain.length; index++) {
+    const link = chain[index];
+
+    try {
+      return await withModelTimeout(
+        (linkSignal) => call(link, linkSignal),
+        link.model || 'The model',
+        link.timeoutMs,
+        signal
+      );
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) {
+        throw error;
+      }
+
+      lastError = error;
+      const next = chain[index + 1];
+      if (!next || !canFallBack()) {
+        break;
+      }
+
+      logger.warn('Model call failed, falling back to the next model', {
+        model: link.model,
+        provider: link.provider,
+        fallbackModel: next.model,
+        fallbackProvider: next.provider,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  throw lastError;
+}
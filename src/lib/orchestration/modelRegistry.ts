@@ -0,0 +1,114 @@
+/**
+ * Model registry
+ *
+ * Describes the models the orchestrator can call: how large their context
+ * window is, how many tokens they can generate, and which tokenizer encoding
+ * counts their tokens. Models are matched by the longest registered prefix,
+ * so dated snapshots such as 'gpt-4.1-2025-04-14' resolve to their family.
+ */
+
+/**
+ * A BPE encoding used to count tokens
+ */
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base';
+
+/**
+ * What the orchestrator needs to know about a model
+ */
+export interface ModelInfo {
+  /** The total number of tokens the model accepts, prompt and output combined */
+  contextWindow: number;
+  /** The maximum number of tokens the model can generate in one response */
+  maxOutputTokens: number;
+  /** The encoding that counts the model's tokens */
+  encoding: TokenizerEncoding;
+  /**
+   * The share of extra tokens to allow for when the encoding only approximates
+   * the model's own tokenizer, e.g. 0.2 for 20%
+   */
+  tokenMargin?: number;
+}
+
+/**
+ * The model used when a configuration does not name one
+ */
+export const DEFAULT_MODEL = 'gpt-4-1106-preview';
+
+/**
+ * Assumed for models that are not registered: small enough for most local models
+ */
+export const DEFAULT_MODEL_INFO: ModelInfo = {
+  contextWindow: 8192,
+  maxOutputTokens: 2048,
+  encoding: 'cl100k_base',
+  tokenMargin: 0.1,
+};
+
+/**
+ * Registered models, by model name prefix
+ */
+const models = new Map<string, ModelInfo>([
+  ['gpt-4.1', { contextWindow: 1047576, maxOutputTokens: 32768, encoding: 'o200k_base' }],
+  ['gpt-4o', { contextWindow: 128000, maxOutputTokens: 16384, encoding: 'o200k_base' }],
+  ['o3', { contextWindow: 200000, maxOutputTokens: 100000, encoding: 'o200k_base' }],
+  ['o4-mini', { contextWindow: 200000, maxOutputTokens: 100000, encoding: 'o200k_base' }],
+  ['gpt-4-turbo', { contextWindow: 128000, maxOutputTokens: 4096, encoding: 'cl100k_base' }],
+  ['gpt-4-1106', { contextWindow: 128000, maxOutputTokens: 4096, encoding: 'cl100k_base' }],
+  ['gpt-4-0125', { contextWindow: 128000, maxOutputTokens: 4096, encoding: 'cl100k_base' }],
+  ['gpt-4-32k', { contextWindow: 32768, maxOutputTokens: 4096, encoding: 'cl100k_base' }],
+  ['gpt-4', { contextWindow: 8192, maxOutputTokens: 4096, encoding: 'cl100k_base' }],
+  ['gpt-3.5-turbo', { contextWindow: 16385, maxOutputTokens: 4096, encoding: 'cl100k_base' }],
+  // Anthropic does not publish its tokenizer, so counts are approximate
+  ['claude-3', { contextWindow: 200000, maxOutputTokens: 4096, encoding: 'cl100k_base', tokenMargin: 0.2 }],
+  ['claude-3-5', { contextWindow: 200000, maxOutputTokens: 8192, encoding: 'cl100k_base', tokenMargin: 0.2 }],
+  ['claude-3-7', { contextWindow: 200000, maxOutputTokens: 64000, encoding: 'cl100k_base', tokenMargin: 0.2 }],
+  ['claude-sonnet-4', { contextWindow: 200000, maxOutputTokens: 64000, encoding: 'cl100k_base', tokenMargin: 0.2 }],
+  ['claude-opus-4', { contextWindow: 200000, maxOutputTokens: 32000, encoding: 'cl100k_base', tokenMargin: 0.2 }],
+]);
+
+/**
+ * Register a model or model family, or override a built-in one
+ * @param prefix The model name, or a prefix shared by a family of models
+ * @param info What the orchestrator needs to know about the model
+ */
+export function registerModel(prefix: string, info: ModelInfo): void {
+  models.set(prefix, info);
+}
+
+/**
+ * Look up a model by the longest registered prefix of its name
+ * @param model The model name
+ * @returns The model's information, or DEFAULT_MODEL_INFO if it is not registered
+ */
+export function getModelInfo(model: string = DEFAULT_MODEL): ModelInfo {
+  let match: { prefix: string; info: ModelInfo } | undefined;
+
+  for (const [prefix, info] of models) {
+    if (model.startsWith(prefix) && (!match || prefix.length > match.prefix.length)) {
+      match = { prefix, info };
+    }
+  }
+
+  return match?.info ?? DEFAULT_MODEL_INFO;
+}
+
+/**
+ * Get the number of tokens to set aside for the model's response
+ * @param model The model name
+ * @param maxTokens The maximum number of tokens requested, if any
+ * @returns The output reserve, capped at what the model can generate
+ */
+export function getOutputReserve(model?: string, maxTokens?: number): number {
+  const { maxOutputTokens } = getModelInfo(model);
+  return Math.min(maxTokens ?? maxOutputTokens, maxOutputTokens);
+}
+
+/**
+ * Get the number of tokens a prompt may use, leaving room for the response
+ * @param model The model name
+ * @param maxTokens The maximum number of tokens requested for the response, if any
+ * @returns The prompt token limit
+ */
+export function getPromptTokenLimit(model?: string, maxTokens?: number): number {
+  return Math.max(0, getModelInfo(model).contextWindow - getOutputReserve(model, maxTokens));
+}
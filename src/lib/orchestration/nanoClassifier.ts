@@ -1,11 +1,32 @@
 import { withRetry, DEFAULT_RETRY_OPTIONS } from './retry';
 import { withNanoFallback } from './fallback';
-import { extractTokenUsage, logUsageAndUpdateCost } from '../billing/tokenUsage';
+import { logUsageAndUpdateCost } from '../billing/tokenUsage';
+import { createProvider } from './providers/registry';
+import { ChatRequest, ChatResponse, TokenLogprob } from './providers/types';
+import { Message, OrchestrationUsage, Tool } from './types';
+import {
+  BATCH_CLASSIFIER_PROMPT,
+  CLASSIFIER_PROMPT,
+  FUNCTION_CLASSIFIER_PROMPT,
+  MULTI_LABEL_CLASSIFIER_PROMPT,
+  renderPrompt,
+} from './promptTemplates';
+import { countTokens } from './tokenizer';
+import {
+  ClassifierExample,
+  formatBatchExampleMessages,
+  formatExampleMessages,
+  formatFunctionCallExampleMessages,
+  resolveClassifierExamples,
+} from './classifierExamples';
+import { cacheClassification, classificationCacheKey, getCachedClassification, withClassificationCache } from './classifierCache';
 
 /**
  * Configuration for the GPT-4.1-nano classifier
  */
 export interface NanoClassifierConfig {
+  /** The name of the LLM provider to use (default: 'openai') */
+  provider?: string;
   /** The API key */
   apiKey: string;
   /** The model to use */
@@ -14,18 +35,80 @@ export interface NanoClassifierConfig {
   temperature?: number;
   /** The maximum number of tokens to generate */
   maxTokens?: number;
-  /** The API endpoint */
+  /** The API endpoint (defaults to the provider's endpoint) */
   endpoint?: string;
 }
 
 /**
- * Result of a classification operation
+ * The label of a classification that abstained
  */
-export interface ClassificationResult<T extends string> {
-  /** The classification label */
-  label: T;
-  /** The confidence score (if available) */
+export const UNKNOWN_LABEL = 'unknown';
+
+/**
+ * Default confidence a label needs to be kept in multi-label classification
+ */
+export const DEFAULT_MULTI_LABEL_THRESHOLD = 0.5;
+
+/**
+ * Default number of texts classified per request by classifyBatch
+ */
+export const DEFAULT_MAX_BATCH_SIZE = 20;
+
+/**
+ * Options for a classification
+ */
+export interface ClassifyOptions<T extends string = string> {
+  /** The name of the classifier: its registered examples are used and its cache hits and misses counted together */
+  classifier?: string;
+  /** Labelled examples shown to the model, after the classifier's registered ones */
+  examples?: ClassifierExample<T>[];
+  /** Cache results for this many milliseconds; results are not cached when unset */
+  cacheTtlMs?: number;
+  /** The persona whose prompt template overrides apply */
+  persona?: string;
+  /** Find every label that applies instead of only one (default: false) */
+  multiLabel?: boolean;
+  /** The confidence a label needs to be kept in multi-label classification (default: 0.5) */
+  threshold?: number;
+  /** Abstain when the confidence in the label is below this (default: 0, never abstain) */
+  minConfidence?: number;
+}
+
+/**
+ * Options for a batch classification
+ */
+export interface BatchClassifyOptions<T extends string = string> extends ClassifyOptions<T> {
+  /** The most texts classified in one request (default: 20) */
+  maxBatchSize?: number;
+}
+
+/**
+ * Options for a classification by function calling
+ */
+export interface FunctionCallingClassifyOptions<T extends string>
+  extends Pick<ClassifyOptions<T>, 'classifier' | 'examples' | 'cacheTtlMs' | 'persona'> {
+  /** The function name to use */
+  functionName: string;
+  /** The parameter name for the classification */
+  parameterName: string;
+  /** The possible classification labels */
+  labels: T[];
+  /** Description of the classification task (default: rendered from the classifier.function template) */
+  description?: string;
+}
+
+/**
+ * Fields shared by every classification result
+ */
+interface ClassificationDetails<T extends string> {
+  /** Every label that applies, for multi-label classification */
+  labels?: T[];
+  /** The confidence in the label, from the model's token probabilities (if available) */
   confidence?: number;
+  /** The confidence in each label the model gave, for multi-label classification (if available) */
+  scores?: Partial<Record<T, number>>;
+  /** Whether the result came from the cache, using no tokens */
+  cached?: boolean;
   /** Token usage information */
   usage: {
     /** Number of prompt tokens used */
@@ -39,30 +122,264 @@ export interface ClassificationResult<T extends string> {
   rawResponse?: any;
 }
 
+/**
+ * A classification that found a label
+ */
+export interface LabeledClassification<T extends string> extends ClassificationDetails<T> {
+  /** The classification label; the most confident one for multi-label classification */
+  label: T;
+  /** The classifier did not abstain */
+  abstained?: false;
+}
+
+/**
+ * A classification where the answer matched no label, or too weakly
+ */
+export interface AbstainedClassification<T extends string> extends ClassificationDetails<T> {
+  /** Always UNKNOWN_LABEL */
+  label: typeof UNKNOWN_LABEL;
+  /** The classifier abstained */
+  abstained: true;
+}
+
+/**
+ * Result of a classification operation
+ */
+export type ClassificationResult<T extends string> = LabeledClassification<T> | AbstainedClassification<T>;
+
+/**
+ * A part of the model's answer naming one label
+ */
+interface AnswerPart {
+  /** The text of the part */
+  text: string;
+  /** The probability of the part's tokens, if available */
+  confidence?: number;
+}
+
 /**
  * Default GPT-4.1-nano configuration
  */
 const DEFAULT_NANO_CONFIG: NanoClassifierConfig = {
+  provider: 'openai',
   apiKey: process.env.OPENAI_API_KEY || '',
   model: 'gpt-4.1-nano', // Use the GPT-4.1-nano model
   temperature: 0.3, // Lower temperature for more deterministic classification
   maxTokens: 50, // Classification typically needs few tokens
-  endpoint: 'https://api.openai.com/v1/chat/completions',
 };
 
+/**
+ * Get the probability the model gave a span of its answer
+ * @param content The answer
+ * @param logprobs The answer's tokens with their log probabilities
+ * @param start The start of the span
+ * @param end The end of the span
+ * @returns The product of the probabilities of the tokens overlapping the span, or undefined if unknown
+ */
+function spanConfidence(
+  content: string,
+  logprobs: TokenLogprob[] | undefined,
+  start: number,
+  end: number
+): number | undefined {
+  // The tokens can only be placed in the answer if they spell it exactly
+  if (!logprobs || logprobs.length === 0 || logprobs.map((entry) => entry.token).join('') !== content) {
+    return undefined;
+  }
+
+  let offset = 0;
+  let sum = 0;
+  let overlapping = 0;
+  for (const { token, logprob } of logprobs) {
+    const tokenEnd = offset + token.length;
+    if (offset < end && tokenEnd > start) {
+      sum += logprob;
+      overlapping++;
+    }
+    offset = tokenEnd;
+  }
+
+  return overlapping > 0 ? Math.exp(sum) : undefined;
+}
+
+/**
+ * Split a span of the model's answer into the labels it names
+ * @param content The answer
+ * @param logprobs The answer's tokens with their log probabilities
+ * @param start The start of the span
+ * @param end The end of the span
+ * @param multiLabel Whether the span may name several labels, separated by commas or line breaks
+ * @returns The parts of the span
+ */
+function splitAnswer(
+  content: string,
+  logprobs: TokenLogprob[] | undefined,
+  start: number,
+  end: number,
+  multiLabel: boolean
+): AnswerPart[] {
+  const parts: AnswerPart[] = [];
+  const pattern = multiLabel ? /[^,\n]+/g : /[^]+/g;
+  const span = content.slice(start, end);
+
+  for (const match of Array.from(span.matchAll(pattern))) {
+    const text = match[0].trim();
+    if (!text) continue;
+
+    const partStart = start + match.index! + match[0].indexOf(text);
+    parts.push({ text, confidence: spanConfidence(content, logprobs, partStart, partStart + text.length) });
+  }
+  return parts;
+}
+
+/**
+ * Turn the labels named in an answer into a classification result
+ * @param parts The parts of the answer
+ * @param labels The possible classification labels
+ * @param options The classification options
+ * @param usage The token usage
+ * @param rawResponse The raw response from the API
+ * @returns The classification result, abstaining if no label matched or the confidence is too low
+ */
+function toClassificationResult<T extends string>(
+  parts: AnswerPart[],
+  labels: T[],
+  options: ClassifyOptions<T>,
+  usage: OrchestrationUsage,
+  rawResponse?: ChatResponse['rawResponse']
+): ClassificationResult<T> {
+  const { multiLabel = false, threshold = DEFAULT_MULTI_LABEL_THRESHOLD, minConfidence = 0 } = options;
+  const findLabel = (text: string) => labels.find((label) => label.toLowerCase() === text.toLowerCase());
+  const isConfident = (confidence?: number) => confidence === undefined || confidence >= minConfidence;
+
+  if (!multiLabel) {
+    const label = parts.length === 1 ? findLabel(parts[0].text) : undefined;
+    const confidence = parts[0]?.confidence;
+
+    return label && isConfident(confidence)
+      ? { label, confidence, usage, rawResponse }
+      : { label: UNKNOWN_LABEL, abstained: true, confidence, usage, rawResponse };
+  }
+
+  // The same label named twice keeps its highest confidence
+  const scores: Partial<Record<T, number>> = {};
+  const found: T[] = [];
+  for (const part of parts) {
+    const label = findLabel(part.text);
+    if (!label) continue;
+
+    if (!found.includes(label)) found.push(label);
+    if (part.confidence !== undefined) {
+      scores[label] = Math.max(scores[label] ?? 0, part.confidence);
+    }
+  }
+
+  // Labels without a confidence are kept; the model named them
+  const kept = found.filter((label) => scores[label] === undefined || scores[label]! >= threshold);
+  const best = kept.reduce<T | undefined>(
+    (current, label) => (current === undefined || (scores[label] ?? 0) > (scores[current] ?? 0) ? label : current),
+    undefined
+  );
+  const confidence = best === undefined ? undefined : scores[best];
+
+  return best !== undefined && isConfident(confidence)
+    ? { label: best, labels: kept, confidence, scores, usage, rawResponse }
+    : { label: UNKNOWN_LABEL, abstained: true, labels: [], confidence, scores, usage, rawResponse };
+}
+
+/**
+ * Interpret a model's answer to a classification prompt
+ * @param response The model's response
+ * @param labels The possible classification labels
+ * @param options The classification options
+ * @returns The classification result, abstaining if the answer matched no label or too weakly
+ */
+export function interpretClassification<T extends string>(
+  response: ChatResponse,
+  labels: T[],
+  options: ClassifyOptions<T> = {}
+): ClassificationResult<T> {
+  const content = response.message.content;
+  const parts = splitAnswer(content, response.logprobs, 0, content.length, Boolean(options.multiLabel));
+
+  return toClassificationResult(
+    parts,
+    labels,
+    options,
+    response.usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    response.rawResponse
+  );
+}
+
+/**
+ * Get the default system prompt for a classification, from the template
+ * version that applies to the user and persona
+ * @param labels The possible classification labels
+ * @param options The classification options
+ * @param userId Optional user whose template overrides apply
+ * @returns The prompt
+ */
+export async function getClassifierPrompt(
+  labels: string[],
+  options: ClassifyOptions = {},
+  userId?: string
+): Promise<string> {
+  const name = options.multiLabel ? MULTI_LABEL_CLASSIFIER_PROMPT : CLASSIFIER_PROMPT;
+  const rendered = await renderPrompt(name, { labels }, { userId, persona: options.persona });
+  return rendered.content;
+}
+
+/**
+ * Get everything that decides a classification's answer, for its cache key
+ * @param mode How the text is classified: 'text', 'function' or 'batch'
+ * @param text The text to classify
+ * @param labels The possible classification labels
+ * @param prompt The classification prompt, if one was given
+ * @param config The classifier configuration
+ * @param options The classification options
+ * @param examples The examples shown to the model
+ * @returns The inputs of the classification
+ */
+function getCacheInputs(
+  mode: string,
+  text: string,
+  labels: string[],
+  prompt: string | undefined,
+  config: NanoClassifierConfig,
+  options: ClassifyOptions,
+  examples: ClassifierExample[]
+): Record<string, unknown> {
+  return {
+    mode,
+    classifier: options.classifier,
+    provider: config.provider,
+    model: config.model,
+    temperature: config.temperature,
+    prompt,
+    labels,
+    examples,
+    multiLabel: options.multiLabel,
+    threshold: options.threshold,
+    minConfidence: options.minConfidence,
+    text,
+  };
+}
+
 /**
  * Internal implementation of text classification using GPT-4.1-nano
  * @param text The text to classify
  * @param labels The possible classification labels
  * @param prompt The classification prompt (optional)
  * @param config The classifier configuration
+ * @param options The classification options
  * @returns The classification result
  */
 async function classifyTextInternal<T extends string>(
   text: string,
   labels: T[],
   prompt?: string,
-  config: Partial<NanoClassifierConfig> = {}
+  config: Partial<NanoClassifierConfig> = {},
+  options: ClassifyOptions<T> = {}
 ): Promise<ClassificationResult<T>> {
   // Merge the provided config with the default config
   const mergedConfig: NanoClassifierConfig = {
@@ -71,61 +388,42 @@ async function classifyTextInternal<T extends string>(
   };
 
   // Create a default prompt if none is provided
-  const classificationPrompt = prompt ||
-    `Classify the following text into one of these categories: ${labels.join(', ')}. ` +
-    'Respond with ONLY the category name, nothing else.';
+  const classificationPrompt = prompt || (await getClassifierPrompt(labels, options));
 
-  // Create the messages for the API
-  const messages = [
+  // Create the messages for the API, with the examples as earlier turns
+  const messages: Message[] = [
     {
       role: 'system',
       content: classificationPrompt,
     },
+    ...formatExampleMessages(options.examples ?? []),
     {
       role: 'user',
       content: text,
     },
   ];
 
-  // Call the API with retry logic
+  // Call the API with retry logic, asking for token probabilities to score the answer
   const response = await withRetry(
-    () => callNanoAPI(messages, mergedConfig),
+    () => callNanoAPI(messages, mergedConfig, { logprobs: true }),
     DEFAULT_RETRY_OPTIONS
   );
 
-  // Extract the classification label from the response
-  const content = response.choices[0].message.content.trim();
-
-  // Find the matching label (case-insensitive)
-  const matchedLabel = labels.find(
-    (label) => label.toLowerCase() === content.toLowerCase()
-  );
-
-  if (!matchedLabel) {
-    throw new Error(`Classification failed: response "${content}" did not match any of the provided labels: ${labels.join(', ')}`);
-  }
-
-  // Extract token usage
-  const usage = response.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
-
-  return {
-    label: matchedLabel,
-    usage: {
-      promptTokens: usage.prompt_tokens,
-      completionTokens: usage.completion_tokens,
-      totalTokens: usage.total_tokens,
-    },
-    rawResponse: response,
-  };
+  return interpretClassification(response, labels, options);
 }
 
 /**
  * Classifies text using GPT-4.1-nano with fallback to GPT-4.1
+ *
+ * An answer that matches no label, or whose confidence is below
+ * `minConfidence`, abstains with UNKNOWN_LABEL instead of failing. With
+ * `cacheTtlMs`, the result for the same text and settings is reused.
  * @param text The text to classify
  * @param labels The possible classification labels
  * @param prompt The classification prompt (optional)
  * @param config The classifier configuration
  * @param userId Optional user ID for token usage logging
+ * @param options The classification options
  * @returns The classification result
  */
 export async function classifyText<T extends string>(
@@ -133,27 +431,44 @@ export async function classifyText<T extends string>(
   labels: T[],
   prompt?: string,
   config: Partial<NanoClassifierConfig> = {},
-  userId?: string
+  userId?: string,
+  options: ClassifyOptions<T> = {}
 ): Promise<ClassificationResult<T>> {
-  // Use the nano fallback wrapper
-  const result = await withNanoFallback(
-    classifyTextInternal,
-    text,
-    labels,
-    prompt,
-    config,
-    {
-      logError: (error) => console.error('Nano classification failed:', error),
-      context: {
-        text: text.substring(0, 100) + (text.length > 100 ? '...' : ''),
+  const mergedConfig = { ...DEFAULT_NANO_CONFIG, ...config };
+
+  // Examples are checked up front, so a mistake in them does not fall back to GPT-4.1
+  const examples = resolveClassifierExamples(labels, options);
+  const classifyOptions = { ...options, examples };
+
+  // The prompt is rendered up front, so a new template version is not answered from the cache
+  const classificationPrompt = prompt || (await getClassifierPrompt(labels, options, userId));
+
+  const result = await withClassificationCache(
+    options.classifier,
+    getCacheInputs('text', text, labels, classificationPrompt, mergedConfig, options, examples),
+    options.cacheTtlMs,
+    () =>
+      // Use the nano fallback wrapper
+      withNanoFallback(
+        (text: string, labels: T[], prompt?: string, config?: Partial<NanoClassifierConfig>) =>
+          classifyTextInternal(text, labels, prompt, config, classifyOptions),
+        text,
         labels,
-      },
-    }
+        classificationPrompt,
+        config,
+        {
+          logError: (error) => console.error('Nano classification failed:', error),
+          context: {
+            text: text.substring(0, 100) + (text.length > 100 ? '...' : ''),
+            labels,
+          },
+          classifyOptions,
+        }
+      )
   );
 
-  // Log token usage if userId is provided
-  if (userId && result.usage) {
-    const mergedConfig = { ...DEFAULT_NANO_CONFIG, ...config };
+  // Log token usage if userId is provided; a cached result used none
+  if (userId && result.usage && !result.cached) {
     // Log usage asynchronously - don't await to avoid blocking
     logUsageAndUpdateCost(userId, mergedConfig.model, result.usage)
       .catch(err => console.error('Failed to log nano classifier token usage:', err));
@@ -163,35 +478,255 @@ export async function classifyText<T extends string>(
 }
 
 /**
- * Call the GPT-4.1-nano API
- * @param messages The messages to send
- * @param config The API configuration
- * @returns The API response
+ * Split tokens between items in proportion to their weights
+ *
+ * Uses the largest remainder, so the shares are whole and add up to the total.
+ * @param total The tokens to split
+ * @param weights The weight of each item; an even split if they are all zero
+ * @returns The tokens of each item
  */
-async function callNanoAPI(
-  messages: { role: string; content: string }[],
-  config: NanoClassifierConfig
-): Promise<any> {
-  const response = await fetch(config.endpoint!, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${config.apiKey}`,
+function allocateTokens(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  const exact = weights.map((weight) => (sum > 0 ? (total * weight) / sum : total / weights.length));
+  const shares = exact.map(Math.floor);
+
+  let remaining = total - shares.reduce((acc, share) => acc + share, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - shares[index] }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (remaining <= 0) break;
+    shares[index]++;
+    remaining--;
+  }
+  return shares;
+}
+
+/**
+ * Add token usage to a result
+ * @param result The result
+ * @param usage The usage to add
+ * @returns The result with the usage added
+ */
+function addUsage<T extends string>(result: ClassificationResult<T>, usage: OrchestrationUsage): ClassificationResult<T> {
+  return {
+    ...result,
+    usage: {
+      promptTokens: result.usage.promptTokens + usage.promptTokens,
+      completionTokens: result.usage.completionTokens + usage.completionTokens,
+      totalTokens: result.usage.totalTokens + usage.totalTokens,
     },
-    body: JSON.stringify({
-      model: config.model,
-      messages: messages,
-      temperature: config.temperature,
-      max_tokens: config.maxTokens,
-    }),
+  };
+}
+
+/**
+ * Put a text on one line for a batch
+ * @param text The text
+ * @returns The text with its whitespace collapsed
+ */
+function formatBatchText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Classify one request's worth of texts with GPT-4.1-nano
+ *
+ * Texts the answer leaves out, or all of them if the request fails, are
+ * classified one at a time instead.
+ * @param texts The texts to classify
+ * @param labels The possible classification labels
+ * @param systemPrompt The rendered batch prompt
+ * @param prompt Instructions added to the batch prompt (optional)
+ * @param config The classifier configuration
+ * @param userId Optional user ID for token usage logging
+ * @param options The classification options
+ * @param examples The examples shown to the model
+ * @returns The classification results, in the order of the texts
+ */
+async function classifyChunk<T extends string>(
+  texts: string[],
+  labels: T[],
+  systemPrompt: string,
+  prompt: string | undefined,
+  config: NanoClassifierConfig,
+  userId: string | undefined,
+  options: ClassifyOptions<T>,
+  examples: ClassifierExample<T>[]
+): Promise<ClassificationResult<T>[]> {
+  const classifyEach = (indexes: number[]) =>
+    Promise.all(indexes.map((index) => classifyText(texts[index], labels, prompt, config, userId, options)));
+
+  // Each text goes on its own numbered line
+  const lines = texts.map((text, index) => `${index + 1}: ${formatBatchText(text)}`);
+  const messages: Message[] = [
+    { role: 'system', content: systemPrompt },
+    ...formatBatchExampleMessages(examples, formatBatchText),
+    { role: 'user', content: lines.join('\n') },
+  ];
+
+  let response: ChatResponse;
+  try {
+    response = await withRetry(() => callNanoAPI(messages, config, { logprobs: true }), DEFAULT_RETRY_OPTIONS);
+  } catch (error) {
+    console.error('Nano batch classification failed, classifying texts one at a time:', error);
+    return classifyEach(texts.map((_, index) => index));
+  }
+
+  const usage = response.usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  if (userId && response.usage) {
+    logUsageAndUpdateCost(userId, config.model, response.usage)
+      .catch(err => console.error('Failed to log nano batch classifier token usage:', err));
+  }
+
+  // Find the answer line of each text, keeping the first for a number given twice
+  const content = response.message.content;
+  const answers: Array<{ start: number; end: number; tokens: number } | undefined> = texts.map(() => undefined);
+  let offset = 0;
+  for (const line of content.split('\n')) {
+    const match = line.match(/^(\s*(\d+)\s*[:.)-]\s*)(.*?)\s*$/);
+    const index = match ? Number(match[2]) - 1 : -1;
+    if (match && index >= 0 && index < texts.length && !answers[index]) {
+      const start = offset + match[1].length;
+      answers[index] = { start, end: start + match[3].length, tokens: countTokens(line) };
+    }
+    offset += line.length + 1;
+  }
+
+  // The request's tokens are split between the texts: the prompt by the
+  // length of each text plus an even share of the instructions, the
+  // completion by the length of each answer
+  const sharedTokens = countTokens(systemPrompt) / texts.length;
+  const promptTokens = allocateTokens(
+    usage.promptTokens,
+    lines.map((line) => countTokens(line) + sharedTokens)
+  );
+  const completionTokens = allocateTokens(
+    usage.completionTokens,
+    answers.map((answer) => answer?.tokens ?? 0)
+  );
+
+  const results = texts.map((_, index): ClassificationResult<T> | undefined => {
+    const answer = answers[index];
+    if (!answer) return undefined;
+
+    const parts = splitAnswer(content, response.logprobs, answer.start, answer.end, Boolean(options.multiLabel));
+    const noUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    return toClassificationResult(parts, labels, options, noUsage, response.rawResponse);
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`GPT-4.1-nano API error: ${response.status} ${errorText}`);
+  const missing = results.flatMap((result, index) => (result ? [] : [index]));
+  if (missing.length > 0) {
+    const retried = await classifyEach(missing);
+    missing.forEach((index, position) => {
+      results[index] = retried[position];
+    });
+  }
+
+  return results.map((result, index) =>
+    addUsage(result!, {
+      promptTokens: promptTokens[index],
+      completionTokens: completionTokens[index],
+      totalTokens: promptTokens[index] + completionTokens[index],
+    })
+  );
+}
+
+/**
+ * Classifies many texts with GPT-4.1-nano, several per request
+ *
+ * Each result carries its share of its request's token usage, so the usage
+ * of the results adds up to that of the requests made. With `cacheTtlMs`,
+ * only the texts without a cached result are sent.
+ * @param texts The texts to classify
+ * @param labels The possible classification labels
+ * @param prompt Instructions added to the batch prompt, such as what the labels mean (optional)
+ * @param config The classifier configuration
+ * @param userId Optional user ID for token usage logging
+ * @param options The classification and batching options
+ * @returns The classification results, in the order of the texts
+ */
+export async function classifyBatch<T extends string>(
+  texts: string[],
+  labels: T[],
+  prompt?: string,
+  config: Partial<NanoClassifierConfig> = {},
+  userId?: string,
+  options: BatchClassifyOptions<T> = {}
+): Promise<ClassificationResult<T>[]> {
+  // Texts classified one at a time are not cached again under their own key
+  const { maxBatchSize = DEFAULT_MAX_BATCH_SIZE, cacheTtlMs, ...classifyOptions } = options;
+  const mergedConfig: NanoClassifierConfig = {
+    ...DEFAULT_NANO_CONFIG,
+    ...config,
+  };
+  const examples = resolveClassifierExamples(labels, classifyOptions);
+
+  const { content: systemPrompt } = await renderPrompt(
+    BATCH_CLASSIFIER_PROMPT,
+    { labels, instructions: prompt, multiLabel: Boolean(options.multiLabel) },
+    { userId, persona: options.persona }
+  );
+
+  const keys = cacheTtlMs
+    ? texts.map((text) =>
+        classificationCacheKey(
+          getCacheInputs('batch', text, labels, systemPrompt, mergedConfig, classifyOptions, examples)
+        )
+      )
+    : [];
+  const results: Array<ClassificationResult<T> | undefined> = cacheTtlMs
+    ? await Promise.all(keys.map((key) => getCachedClassification<T>(options.classifier, key)))
+    : texts.map(() => undefined);
+  const pending = results.flatMap((result, index) => (result ? [] : [index]));
+
+  const size = Math.max(1, maxBatchSize);
+  for (let start = 0; start < pending.length; start += size) {
+    const indexes = pending.slice(start, start + size);
+    const chunk = await classifyChunk(
+      indexes.map((index) => texts[index]),
+      labels,
+      systemPrompt,
+      prompt,
+      mergedConfig,
+      userId,
+      classifyOptions,
+      examples
+    );
+
+    for (const [position, index] of indexes.entries()) {
+      results[index] = chunk[position];
+      if (cacheTtlMs) {
+        await cacheClassification(options.classifier, keys[index], chunk[position], cacheTtlMs);
+      }
+    }
   }
+  return results as ClassificationResult<T>[];
+}
+
+/**
+ * Call the GPT-4.1-nano model through the configured provider
+ * @param messages The messages to send
+ * @param config The API configuration
+ * @param options Tools and tool choice for function calling, or token probabilities (optional)
+ * @returns The normalized model response
+ */
+async function callNanoAPI(
+  messages: Message[],
+  config: NanoClassifierConfig,
+  options: Pick<ChatRequest, 'tools' | 'toolChoice' | 'logprobs'> = {}
+): Promise<ChatResponse> {
+  const provider = createProvider(config.provider || DEFAULT_NANO_CONFIG.provider, {
+    apiKey: config.apiKey,
+    endpoint: config.endpoint,
+  });
 
-  return await response.json();
+  return provider.chat({
+    model: config.model,
+    messages,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    ...options,
+  });
 }
 
 /**
@@ -203,16 +738,7 @@ async function callNanoAPI(
  */
 async function classifyWithFunctionCallingInternal<T extends string>(
   text: string,
-  options: {
-    /** The function name to use */
-    functionName: string;
-    /** The parameter name for the classification */
-    parameterName: string;
-    /** The possible classification labels */
-    labels: T[];
-    /** Description of the classification task */
-    description?: string;
-  },
+  options: FunctionCallingClassifyOptions<T> & { description: string },
   config: Partial<NanoClassifierConfig> = {}
 ): Promise<ClassificationResult<T>> {
   // Merge the provided config with the default config
@@ -221,25 +747,23 @@ async function classifyWithFunctionCallingInternal<T extends string>(
     ...config,
   };
 
-  // Create the function definition
-  const functionDefinition = {
+  // Describe the classification as a tool the model is forced to call
+  const classificationTool: Tool = {
     name: options.functionName,
-    description: options.description || `Classify text into one of these categories: ${options.labels.join(', ')}`,
+    description: options.description,
     parameters: {
-      type: 'object',
-      properties: {
-        [options.parameterName]: {
-          type: 'string',
-          enum: options.labels,
-          description: 'The classification label',
-        },
+      [options.parameterName]: {
+        type: 'string',
+        enum: options.labels,
+        description: 'The classification label',
       },
-      required: [options.parameterName],
     },
+    execute: async () => undefined,
   };
 
-  // Create the messages for the API
-  const messages = [
+  // Create the messages for the API, with the examples as earlier calls
+  const messages: Message[] = [
+    ...formatFunctionCallExampleMessages(options.examples ?? [], options.functionName, options.parameterName),
     {
       role: 'user',
       content: text,
@@ -248,36 +772,32 @@ async function classifyWithFunctionCallingInternal<T extends string>(
 
   // Call the API with retry logic
   const response = await withRetry(
-    () => callNanoAPIWithFunctions(messages, [functionDefinition], mergedConfig),
+    () => callNanoAPI(messages, mergedConfig, {
+      tools: [classificationTool],
+      toolChoice: { name: options.functionName },
+    }),
     DEFAULT_RETRY_OPTIONS
   );
 
   // Extract the function call from the response
-  const functionCall = response.choices[0].message.function_call;
+  const functionCall = response.message.toolCalls?.[0];
 
   if (!functionCall || functionCall.name !== options.functionName) {
     throw new Error('Classification failed: expected function call not found in response');
   }
 
-  // Parse the function arguments
-  const args = JSON.parse(functionCall.arguments);
-  const label = args[options.parameterName];
+  const label = functionCall.arguments[options.parameterName];
+
+  const usage = response.usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
 
   if (!options.labels.includes(label)) {
-    throw new Error(`Classification failed: response "${label}" did not match any of the provided labels: ${options.labels.join(', ')}`);
+    return { label: UNKNOWN_LABEL, abstained: true, usage, rawResponse: response.rawResponse };
   }
 
-  // Extract token usage
-  const usage = response.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
-
   return {
     label: label as T,
-    usage: {
-      promptTokens: usage.prompt_tokens,
-      completionTokens: usage.completion_tokens,
-      totalTokens: usage.total_tokens,
-    },
-    rawResponse: response,
+    usage,
+    rawResponse: response.rawResponse,
   };
 }
 
@@ -291,45 +811,50 @@ async function classifyWithFunctionCallingInternal<T extends string>(
  */
 export async function classifyWithFunctionCalling<T extends string>(
   text: string,
-  options: {
-    /** The function name to use */
-    functionName: string;
-    /** The parameter name for the classification */
-    parameterName: string;
-    /** The possible classification labels */
-    labels: T[];
-    /** Description of the classification task */
-    description?: string;
-  },
+  options: FunctionCallingClassifyOptions<T>,
   config: Partial<NanoClassifierConfig> = {},
   userId?: string
 ): Promise<ClassificationResult<T>> {
-  // Create a simple prompt for the fallback
-  const prompt = options.description ||
-    `Classify text into one of these categories: ${options.labels.join(', ')}`;
-
-  // Use the nano fallback wrapper
-  const result = await withNanoFallback(
-    // We need to adapt the function signature to match what withNanoFallback expects
-    (text: string, labels: T[], prompt?: string, config?: Partial<NanoClassifierConfig>) =>
-      classifyWithFunctionCallingInternal(text, options, config),
-    text,
-    options.labels,
-    prompt,
-    config,
-    {
-      logError: (error) => console.error('Nano function calling classification failed:', error),
-      context: {
-        text: text.substring(0, 100) + (text.length > 100 ? '...' : ''),
-        functionName: options.functionName,
-        labels: options.labels,
-      },
-    }
+  // The description is also the prompt for the fallback
+  const prompt =
+    options.description ||
+    (await renderPrompt(FUNCTION_CLASSIFIER_PROMPT, { labels: options.labels }, { userId, persona: options.persona }))
+      .content;
+  const mergedConfig = { ...DEFAULT_NANO_CONFIG, ...config };
+
+  // Examples are checked up front, so a mistake in them does not fall back to GPT-4.1
+  const examples = resolveClassifierExamples(options.labels, options);
+  const classifyOptions = { ...options, description: prompt, examples };
+  const cacheInputs = {
+    ...getCacheInputs('function', text, options.labels, prompt, mergedConfig, options, examples),
+    functionName: options.functionName,
+    parameterName: options.parameterName,
+  };
+
+  const result = await withClassificationCache(options.classifier, cacheInputs, options.cacheTtlMs, () =>
+    // Use the nano fallback wrapper
+    withNanoFallback(
+      // We need to adapt the function signature to match what withNanoFallback expects
+      (text: string, labels: T[], prompt?: string, config?: Partial<NanoClassifierConfig>) =>
+        classifyWithFunctionCallingInternal(text, classifyOptions, config),
+      text,
+      options.labels,
+      prompt,
+      config,
+      {
+        logError: (error) => console.error('Nano function calling classification failed:', error),
+        context: {
+          text: text.substring(0, 100) + (text.length > 100 ? '...' : ''),
+          functionName: options.functionName,
+          labels: options.labels,
+        },
+        classifyOptions: { examples },
+      }
+    )
   );
 
-  // Log token usage if userId is provided
-  if (userId && result.usage) {
-    const mergedConfig = { ...DEFAULT_NANO_CONFIG, ...config };
+  // Log token usage if userId is provided; a cached result used none
+  if (userId && result.usage && !result.cached) {
     // Log usage asynchronously - don't await to avoid blocking
     logUsageAndUpdateCost(userId, mergedConfig.model, result.usage)
       .catch(err => console.error('Failed to log nano function calling token usage:', err));
@@ -337,39 +862,3 @@ export async function classifyWithFunctionCalling<T extends string>(
 
   return result;
 }
-
-/**
- * Call the GPT-4.1-nano API with function calling
- * @param messages The messages to send
- * @param functions The functions to include
- * @param config The API configuration
- * @returns The API response
- */
-async function callNanoAPIWithFunctions(
-  messages: { role: string; content: string }[],
-  functions: any[],
-  config: NanoClassifierConfig
-): Promise<any> {
-  const response = await fetch(config.endpoint!, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${config.apiKey}`,
-    },
-    body: JSON.stringify({
-      model: config.model,
-      messages: messages,
-      functions: functions,
-      function_call: { name: functions[0].name }, // Force the model to call the function
-      temperature: config.temperature,
-      max_tokens: config.maxTokens,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`GPT-4.1-nano API error: ${response.status} ${errorText}`);
-  }
-
-  return await response.json();
-}
\ No newline at end of file
@@ -6,94 +6,94 @@ import {
   ToolCall,
   ToolCallResult,
   GPT41Config,
+  OrchestrationEvent,
+  OrchestrationCheckpoint,
+  ApprovalDecision,
+  StopReason,
+  PlanExecution,
 } from './types';
 import {
-  formatToolsForAPI,
-  createSystemMessage,
-  formatMessagesForAPI,
-  parseToolCalls,
+  createToolParametersSchema,
+  describeTools,
   findToolByName,
-  createToolResultMessage,
 } from './utils';
-import { withRetry, DEFAULT_RETRY_OPTIONS } from './retry';
+import { DEFAULT_RETRY_OPTIONS } from './retry';
+import { attachRetryBudget, createRetryBudget } from './retryPolicy';
+import { filterAvailableTools } from './circuitBreaker';
+import { callModel } from './modelCall';
+import { DEFAULT_MODEL } from './modelRegistry';
 import { withFallback, withToolFallback } from './fallback';
-import { extractTokenUsage, logUsageAndUpdateCost } from '../billing/tokenUsage';
+import { BudgetTracker, BudgetTimeoutError, withDeadline, createBudgetSummary } from './budget';
+import { ChatResponse } from './providers/types';
+import { RunRecorder } from './runStore';
+import {
+  requiresApproval,
+  createApprovalSummary,
+  createRejectedToolResult,
+  serializeToolResults,
+  restoreToolResults,
+} from './approval';
+import {
+  isAbortError,
+  withAbort,
+  createCancellationSummary,
+  RunCancelledError,
+  registerActiveRun,
+  unregisterActiveRun,
+} from './cancellation';
+import { runPlan } from './planner';
+import { applyRoute, DEFAULT_ROUTER_CONFIG, routeInstruction } from './router';
+import { produceStructuredOutput, toJsonSchema } from './structuredOutput';
+import { createFittedToolResultMessages, withToolOutputReader } from './toolOutput';
+import { attachRunContext } from './runContext';
+import { ToolArgumentsError, validateToolArguments } from './toolArguments';
+import { scheduleToolCalls, ToolCallLimits, ToolTimeoutError, withToolTimeout } from './toolScheduler';
+import { ORCHESTRATOR_PROMPT, RenderedPrompt, renderPrompt } from './promptTemplates';
+import { logUsageAndUpdateCost } from '../billing/tokenUsage';
 
 /**
  * Default GPT-4.1 configuration
  */
-const DEFAULT_GPT41_CONFIG: GPT41Config = {
+export const DEFAULT_GPT41_CONFIG: GPT41Config = {
+  provider: 'openai',
   apiKey: process.env.OPENAI_API_KEY || '',
-  model: 'gpt-4-1106-preview', // Use the appropriate model ID for GPT-4.1
+  model: DEFAULT_MODEL,
   temperature: 0.7,
   maxTokens: 4000,
-  endpoint: 'https://api.openai.com/v1/chat/completions',
 };
 
 /**
- * Send a request to the GPT-4.1 API
+ * Send a request to the configured model provider
+ *
+ * If the model fails, times out or its provider's circuit breaker is open,
+ * the fallback models in the configuration are tried in order. The messages
+ * are fitted to the context window of each model before it is called.
  * @param messages The messages to send
  * @param tools The tools to include
  * @param config The GPT-4.1 configuration
- * @returns The API response
+ * @param onDelta Optional listener for streamed text; when set, the response is streamed
+ * @param signal Optional abort signal that cancels the request and any retries
+ * @returns The normalized model response, naming the model that answered
+ * @throws The error of the last model tried if no model answered
  */
 export async function callGPT41API(
   messages: Message[],
   tools: Tool[],
-  config: GPT41Config = DEFAULT_GPT41_CONFIG
-): Promise<any> {
-  const formattedMessages = formatMessagesForAPI(messages);
-  const formattedTools = formatToolsForAPI(tools);
-
-  // Define the primary API call function
-  const makeApiCall = async () => {
-    const response = await fetch(config.endpoint || DEFAULT_GPT41_CONFIG.endpoint!, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: config.model,
-        messages: formattedMessages,
-        tools: formattedTools,
-        temperature: config.temperature ?? DEFAULT_GPT41_CONFIG.temperature,
-        max_tokens: config.maxTokens ?? DEFAULT_GPT41_CONFIG.maxTokens,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`GPT-4.1 API error: ${response.status} ${errorText}`);
-    }
-
-    return await response.json();
-  };
-
-  // Use the fallback wrapper with retry
-  const response = await withFallback(
-    () => withRetry(makeApiCall, DEFAULT_RETRY_OPTIONS),
+  config: Partial<GPT41Config> = DEFAULT_GPT41_CONFIG,
+  onDelta?: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<ChatResponse> {
+  return callModel(
+    { messages, tools, onDelta },
     {
-      logError: (error) => console.error('GPT-4.1 API call failed:', error),
-      fallbackValue: {
-        choices: [
-          {
-            message: {
-              role: 'assistant',
-              content: 'I apologize, but I encountered an issue processing your request. Please try again or rephrase your instruction.',
-            },
-          },
-        ],
-      },
-      context: {
-        type: 'gpt-4.1-api-call',
-        messageCount: messages.length,
-        toolCount: tools.length,
-      },
-    }
+      ...config,
+      model: config.model || DEFAULT_GPT41_CONFIG.model,
+      provider: config.provider || DEFAULT_GPT41_CONFIG.provider,
+      temperature: config.temperature ?? DEFAULT_GPT41_CONFIG.temperature,
+      maxTokens: config.maxTokens ?? DEFAULT_GPT41_CONFIG.maxTokens,
+    },
+    signal
   );
-
-  return response;
 }
 
 /**
@@ -101,124 +101,555 @@ export async function callGPT41API(
  * @param toolCall The tool call to execute
  * @param tools The available tools
  * @param maxRetries The maximum number of retries
- * @returns The result of the tool call
+ * @param signal Optional abort signal passed on to the tool
+ * @param timeoutMs Optional time limit for the call, including retries, in milliseconds
+ * @returns The call as the tool received it, with its validated arguments and their defaults, and
+ * its result; a call with invalid arguments fails with a ToolArgumentsError and one that runs out of
+ * time with a ToolTimeoutError
  */
 async function executeToolCall(
   toolCall: ToolCall,
   tools: Tool[],
-  maxRetries: number = DEFAULT_RETRY_OPTIONS.maxRetries
-): Promise<ToolCallResult> {
+  maxRetries: number = DEFAULT_RETRY_OPTIONS.maxRetries,
+  signal?: AbortSignal,
+  timeoutMs?: number
+): Promise<{ toolCall: ToolCall; result: ToolCallResult }> {
+  // Invalid arguments go back to the model to correct instead of reaching the tool
+  const tool = findToolByName(tools, toolCall.name);
+  let validatedCall = toolCall;
+  if (tool) {
+    try {
+      validatedCall = { ...toolCall, arguments: validateToolArguments(toolCall, createToolParametersSchema(tool)) };
+    } catch (error) {
+      return {
+        toolCall,
+        result: { toolCallId: toolCall.id, toolName: toolCall.name, result: null, error: error as ToolArgumentsError },
+      };
+    }
+  }
+
   // Use the tool fallback wrapper
-  return withToolFallback(toolCall, tools, {
-    // Default result to return if the tool call fails
-    defaultResult: {
-      message: 'The operation could not be completed. Please try again or use a different approach.',
-    },
-    // Log errors
-    logError: (error) => console.error(`Tool call '${toolCall.name}' failed:`, error),
-    // Context information for logging
-    context: {
-      toolName: toolCall.name,
-      arguments: toolCall.arguments,
+  const execute = (callSignal?: AbortSignal) =>
+    withToolFallback(validatedCall, tools, {
+      // Default result to return if the tool call fails
+      defaultResult: {
+        message: 'The operation could not be completed. Please try again or use a different approach.',
+      },
+      // Log errors
+      logError: (error) => console.error(`Tool call '${toolCall.name}' failed:`, error),
+      // Context information for logging
+      context: {
+        toolName: toolCall.name,
+        arguments: validatedCall.arguments,
+      },
+      maxRetries,
+      signal: callSignal,
+    });
+
+  try {
+    return { toolCall: validatedCall, result: await withToolTimeout(execute, toolCall.name, timeoutMs, signal) };
+  } catch (error) {
+    if (!(error instanceof ToolTimeoutError)) {
+      throw error;
+    }
+    // The model is told the call timed out, so it can try something else
+    console.error(`Tool call '${toolCall.name}' timed out after ${timeoutMs}ms`);
+    return { toolCall: validatedCall, result: { toolCallId: toolCall.id, toolName: toolCall.name, result: null, error } };
+  }
+}
+
+/**
+ * Execute tool calls in parallel, within the run's and each tool's limits
+ * @param toolCalls The tool calls to execute
+ * @param tools The available tools
+ * @param maxRetries The maximum number of retries
+ * @param onEvent Optional listener for tool call progress events
+ * @param recorder Optional recorder for the run trace
+ * @param signal Optional abort signal that cancels the tool calls
+ * @param limits Optional concurrency and time limits for the calls
+ * @returns The results of the tool calls, in the order of the calls
+ */
+async function executeToolCalls(
+  toolCalls: ToolCall[],
+  tools: Tool[],
+  maxRetries: number = DEFAULT_RETRY_OPTIONS.maxRetries,
+  onEvent?: (event: OrchestrationEvent) => void,
+  recorder?: RunRecorder,
+  signal?: AbortSignal,
+  limits?: ToolCallLimits
+): Promise<ToolCallResult[]> {
+  // Execute each tool call, reporting progress as each one starts and finishes
+  return scheduleToolCalls(
+    toolCalls,
+    tools,
+    async (toolCall, policy) => {
+      onEvent?.({ type: 'tool_call', toolCall });
+      const startedAt = Date.now();
+      // The validated arguments are recorded, so a cassette of the run matches the calls the tools get on replay
+      const executed = await executeToolCall(toolCall, tools, maxRetries, signal, policy.timeoutMs);
+      const { result } = executed;
+      recorder?.recordToolCall(executed.toolCall, result, Date.now() - startedAt);
+      onEvent?.(result.error ? { type: 'tool_error', result } : { type: 'tool_result', result });
+      return result;
     },
-  });
+    limits
+  );
 }
 
 /**
- * Process a response from GPT-4.1
- * @param response The API response
+ * Process a response from the model
+ *
+ * Tool calls to tools that require approval are not executed; they are
+ * returned as pending so the run can pause for the user.
+ * @param response The normalized model response
  * @param tools The available tools
  * @param maxRetries The maximum number of retries
- * @returns The processed response and any tool results
+ * @param onEvent Optional listener for tool call progress events
+ * @param recorder Optional recorder for the run trace
+ * @param signal Optional abort signal that cancels the tool calls
+ * @param limits Optional concurrency and time limits for the tool calls
+ * @returns The processed response, any tool results and any tool calls awaiting approval
  */
 async function processGPT41Response(
-  response: any,
+  response: ChatResponse,
   tools: Tool[],
-  maxRetries: number = DEFAULT_RETRY_OPTIONS.maxRetries
-): Promise<{ message: Message; toolResults: ToolCallResult[] }> {
-  const assistantMessage = response.choices[0].message;
-
-  // Parse the message
+  maxRetries: number = DEFAULT_RETRY_OPTIONS.maxRetries,
+  onEvent?: (event: OrchestrationEvent) => void,
+  recorder?: RunRecorder,
+  signal?: AbortSignal,
+  limits?: ToolCallLimits
+): Promise<{ message: Message; toolResults: ToolCallResult[]; pendingToolCalls: ToolCall[] }> {
   const message: Message = {
-    role: 'assistant',
-    content: assistantMessage.content || '',
+    ...response.message,
+    content: response.message.content || '',
   };
 
-  // If there are tool calls, parse and execute them
-  const toolResults: ToolCallResult[] = [];
+  const toolCalls = message.toolCalls || [];
+  const pendingToolCalls = toolCalls.filter((toolCall) =>
+    requiresApproval(findToolByName(tools, toolCall.name))
+  );
 
-  if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
-    message.toolCalls = parseToolCalls(assistantMessage.tool_calls);
+  // Execute the tool calls that do not need approval
+  const toolResults = await executeToolCalls(
+    toolCalls.filter((toolCall) => !pendingToolCalls.includes(toolCall)),
+    tools,
+    maxRetries,
+    onEvent,
+    recorder,
+    signal,
+    limits
+  );
 
-    // Execute each tool call
-    const toolCallPromises = message.toolCalls.map((toolCall) =>
-      executeToolCall(toolCall, tools, maxRetries)
-    );
+  return { message, toolResults, pendingToolCalls };
+}
 
-    const results = await Promise.all(toolCallPromises);
-    toolResults.push(...results);
-  }
+/**
+ * Carry out the user's decisions on the tool calls a run paused for
+ *
+ * Approved calls run with the (possibly edited) arguments, which are also
+ * written back to the assistant message; rejected calls fail with the
+ * user's reason so the model can respond to it.
+ * @param messages The saved conversation; edited arguments are applied in place
+ * @param pendingToolCalls The tool calls that were awaiting approval
+ * @param decisions The user's decisions
+ * @param tools The available tools
+ * @param maxRetries The maximum number of retries
+ * @param onEvent Optional listener for tool call progress events
+ * @param recorder Optional recorder for the run trace
+ * @param signal Optional abort signal that cancels the tool calls
+ * @param limits Optional concurrency and time limits for the tool calls
+ * @returns The results of the decided tool calls
+ */
+async function applyApprovalDecisions(
+  messages: Message[],
+  pendingToolCalls: ToolCall[],
+  decisions: ApprovalDecision[],
+  tools: Tool[],
+  maxRetries: number = DEFAULT_RETRY_OPTIONS.maxRetries,
+  onEvent?: (event: OrchestrationEvent) => void,
+  recorder?: RunRecorder,
+  signal?: AbortSignal,
+  limits?: ToolCallLimits
+): Promise<ToolCallResult[]> {
+  const approved: ToolCall[] = [];
+  const rejected: ToolCallResult[] = [];
+
+  pendingToolCalls.forEach((toolCall) => {
+    const decision = decisions.find((made) => made.toolCallId === toolCall.id);
+
+    if (decision?.action !== 'approve') {
+      const result = createRejectedToolResult(toolCall, decision?.reason);
+      recorder?.recordToolCall(toolCall, result, 0);
+      onEvent?.({ type: 'tool_error', result });
+      rejected.push(result);
+      return;
+    }
+
+    const approvedCall = decision.arguments
+      ? { ...toolCall, arguments: decision.arguments }
+      : toolCall;
+
+    // Keep the conversation consistent with the arguments actually used
+    messages.forEach((message) => {
+      message.toolCalls = message.toolCalls?.map((call) =>
+        call.id === toolCall.id ? approvedCall : call
+      );
+    });
+
+    approved.push(approvedCall);
+  });
 
-  return { message, toolResults };
+  const results = await executeToolCalls(approved, tools, maxRetries, onEvent, recorder, signal, limits);
+  return [...results, ...rejected];
 }
 
 /**
  * Orchestrate a user instruction into a sequence of tool calls
  * @param request The orchestration request
+ * @param baseConfig The model configuration; routing may choose another model tier
  * @returns The orchestration result
  */
-export async function orchestrate(
-  request: OrchestrationRequest,
-  config: GPT41Config = DEFAULT_GPT41_CONFIG
-): Promise<OrchestrationResult> {
-  const { instruction, context, tools, maxRetries = DEFAULT_RETRY_OPTIONS.maxRetries } = request;
+export async function orchestrate<T = unknown>(
+  request: OrchestrationRequest<T>,
+  baseConfig: GPT41Config = DEFAULT_GPT41_CONFIG
+): Promise<OrchestrationResult<T>> {
+  const {
+    instruction,
+    context,
+    tools: availableTools,
+    maxRetries = DEFAULT_RETRY_OPTIONS.maxRetries,
+    onEvent,
+    maxSteps,
+    maxWallClockMs,
+    maxTotalTokens,
+    persistRun,
+    runId,
+    resumeFrom,
+    signal: requestSignal,
+    planner,
+    routing,
+    retryBudget,
+    systemPrompt: customSystemPrompt,
+    persona,
+    parentRun,
+    maxToolConcurrency,
+    toolTimeoutMs,
+    maxOutputRetries = resumeFrom?.checkpoint.maxOutputRetries,
+  } = request;
+  const toolLimits: ToolCallLimits = { maxConcurrency: maxToolConcurrency, timeoutMs: toolTimeoutMs };
+  // A resumed run keeps the output schema it was started with
+  const outputSchema = request.outputSchema ?? resumeFrom?.checkpoint.outputSchema;
   const { userId, memory = [], additionalContext } = context;
 
+  // A failing listener must never break the orchestration itself
+  const emit = onEvent
+    ? (event: OrchestrationEvent) => {
+        try {
+          onEvent(event);
+        } catch (error) {
+          console.error('Orchestration event listener failed:', error);
+        }
+      }
+    : undefined;
+
+  // Record the run and its step-level trace, nested under the run that delegated it
+  const depth = parentRun ? parentRun.depth + 1 : 0;
+  const recorder = new RunRecorder(userId, {
+    persist: persistRun,
+    runId: resumeFrom?.runId ?? runId,
+    parentRunId: parentRun?.runId,
+    depth,
+  });
+
+  // The state to save if the run pauses for approval
+  let checkpoint: OrchestrationCheckpoint | undefined;
+
+  // Cancel the run when the request is aborted or the run is cancelled by ID
+  const controller = new AbortController();
+  const signal = controller.signal;
+  const abortFromRequest = () => controller.abort(requestSignal?.reason);
+  if (requestSignal?.aborted) {
+    abortFromRequest();
+  } else {
+    requestSignal?.addEventListener('abort', abortFromRequest, { once: true });
+  }
+  registerActiveRun(recorder.id, userId, controller);
+
+  // Every retried call in the run shares one retry budget through the run's signal;
+  // a sub-agent draws on the budget of the run that delegated to it
+  const runRetryBudget = parentRun?.retryBudget ?? createRetryBudget(retryBudget);
+  attachRetryBudget(signal, runRetryBudget);
+  emit?.({ type: 'run_started', runId: recorder.id });
+
   // Define the primary orchestration function
   const runOrchestration = async (): Promise<OrchestrationResult> => {
-    // Initialize the conversation
-    const messages: Message[] = [
-      {
-        role: 'system',
-        content: createSystemMessage(tools, additionalContext),
-      },
-      ...memory,
-      {
-        role: 'user',
-        content: instruction,
-      },
-    ];
+    const runBudget = resumeFrom?.checkpoint.budget ?? { maxSteps, maxWallClockMs, maxTotalTokens };
+
+    // Route the instruction to a model tier and tool subset, keeping the route when resuming
+    const routerConfig = typeof routing === 'object' ? routing : DEFAULT_ROUTER_CONFIG;
+    const route = resumeFrom
+      ? resumeFrom.checkpoint.route
+      : routing
+        ? await routeInstruction(instruction, availableTools, baseConfig, routerConfig, userId)
+        : undefined;
+    const { tools, config } = route
+      ? applyRoute(route, availableTools, baseConfig, routerConfig)
+      : { tools: availableTools, config: baseConfig };
+    if (route && !resumeFrom) {
+      emit?.({ type: 'route_selected', route });
+    }
+
+    // Initialize the conversation, or restore it when resuming after approval
+    let messages: Message[];
+    if (resumeFrom) {
+      recorder.continueFrom(resumeFrom.checkpoint);
+      messages = resumeFrom.checkpoint.messages.map((message) => ({ ...message }));
+    } else {
+      // Render the system prompt from the template version that applies to the user and persona
+      let systemPrompt = customSystemPrompt;
+      let prompt: RenderedPrompt | undefined;
+      if (systemPrompt === undefined) {
+        prompt = await renderPrompt(
+          ORCHESTRATOR_PROMPT,
+          { tools: describeTools(filterAvailableTools(tools)), additionalContext },
+          { userId, persona }
+        );
+        systemPrompt = prompt.content;
+      }
+      recorder.start(instruction, systemPrompt, config.model, prompt);
+
+      messages = [
+        {
+          role: 'system',
+          content: systemPrompt,
+        },
+        ...memory,
+        {
+          role: 'user',
+          content: instruction,
+        },
+      ];
+    }
 
     // Track all tool calls and errors
-    const allToolResults: ToolCallResult[] = [];
-    const errors: Error[] = [];
+    const allToolResults: ToolCallResult[] = resumeFrom
+      ? restoreToolResults(resumeFrom.checkpoint.toolResults)
+      : [];
+    const errors: Error[] = allToolResults
+      .filter((result) => result.error)
+      .map((result) => result.error as Error);
+
+    // Enforce the step, time and token budgets for this run; a sub-agent's tokens also count against its parent's
+    const budget = new BudgetTracker(runBudget, undefined, parentRun?.budget);
+    if (resumeFrom) {
+      budget.restore(resumeFrom.checkpoint.stepsUsed, resumeFrom.checkpoint.usage.totalTokens);
+    }
+
+    // Let sub-agents started by the run's tools nest under it and draw on its budget
+    attachRunContext(signal, {
+      runId: recorder.id,
+      userId,
+      depth,
+      persist: persistRun ?? true,
+      budget,
+      retryBudget: runRetryBudget,
+    });
+
+    // Count model calls made besides the conversation itself against the budgets and bill them
+    const recordModelCall = (
+      callMessages: Message[],
+      response: ChatResponse | undefined,
+      durationMs: number,
+      error?: Error
+    ) => {
+      budget.recordStep();
+      // Fallback models may have answered instead of the configured one
+      const model = response?.model || config.model;
+      recorder.recordModelCall(
+        model,
+        callMessages,
+        response?.message,
+        response?.usage,
+        durationMs,
+        error
+      );
+
+      if (response?.usage) {
+        budget.recordTokens(response.usage.totalTokens);
+        logUsageAndUpdateCost(userId, model, response.usage)
+          .catch(err => console.error('Failed to log token usage:', err));
+        emit?.({ type: 'usage', iteration: budget.stepsUsed, model, usage: response.usage });
+      }
+    };
+
+    // Fit large tool results to their tools' output policies before the model sees them
+    const createToolResultMessages = (results: ToolCallResult[]) =>
+      createFittedToolResultMessages(results, tools, {
+        userId,
+        runId: recorder.id,
+        model: config.model,
+        canCallModel: () => !signal.aborted && !budget.exhausted(),
+        onModelCall: recordModelCall,
+        signal,
+      });
+
+    // Run or reject the tool calls the run paused for
+    if (resumeFrom) {
+      try {
+        const decidedResults = await applyApprovalDecisions(
+          messages,
+          resumeFrom.checkpoint.pendingToolCalls,
+          resumeFrom.decisions,
+          tools,
+          maxRetries,
+          emit,
+          recorder,
+          signal,
+          toolLimits
+        );
+
+        allToolResults.push(...decidedResults);
+        decidedResults.forEach((result) => {
+          if (result.error) errors.push(result.error);
+        });
+        messages.push(...(await createToolResultMessages(decidedResults)));
+      } catch (error) {
+        // A cancelled run stops at the top of the loop below
+        if (!isAbortError(error)) throw error;
+      }
+    }
+
+    // In planner mode, plan the tool calls up front and execute the plan
+    let planExecution: PlanExecution | undefined;
+    if (planner && !resumeFrom) {
+      try {
+        const outcome = await runPlan({
+          instruction,
+          // Tools that need approval are left to the conversation below
+          tools: filterAvailableTools(tools).filter((tool) => !requiresApproval(tool)),
+          config,
+          additionalContext,
+          maxReplans: typeof planner === 'object' ? planner.maxReplans : undefined,
+          executeToolCalls: (toolCalls) =>
+            executeToolCalls(toolCalls, tools, maxRetries, emit, recorder, signal, toolLimits),
+          canCallModel: () => !signal.aborted && !budget.exhausted(),
+          onModelCall: recordModelCall,
+          onPlan: (plan) => emit?.({ type: 'plan_created', plan }),
+          signal,
+        });
+
+        planExecution = outcome.execution;
+        allToolResults.push(...outcome.toolResults);
+        outcome.toolResults.forEach((result) => {
+          if (result.error) errors.push(result.error);
+        });
+
+        // Give the model the results so it can answer or carry on from them
+        if (outcome.toolCalls.length > 0) {
+          messages.push({ role: 'assistant', content: '', toolCalls: outcome.toolCalls });
+          messages.push(...(await createToolResultMessages(outcome.toolResults)));
+        }
+      } catch (error) {
+        // A cancelled run stops at the top of the loop below; otherwise carry on without a plan
+        if (!isAbortError(error)) {
+          console.error('Planning failed, continuing without a plan:', error);
+        }
+      }
+    }
 
     // Continue the conversation until no more tool calls are needed
     let finalResponse = '';
+    let lastAssistantContent = '';
+    let stopReason: StopReason = 'completed';
+    let pendingApproval: ToolCall[] = [];
     let continueConversation = true;
 
     while (continueConversation) {
+      // A run cancelled from another process stops between steps
+      if (!signal.aborted && (await recorder.cancelRequested())) {
+        controller.abort(new RunCancelledError());
+      }
+      if (signal.aborted) {
+        stopReason = 'cancelled';
+        break;
+      }
+
+      const exhausted = budget.exhausted();
+      if (exhausted) {
+        stopReason = exhausted;
+        break;
+      }
+
+      budget.recordStep();
+      const iteration = budget.stepsUsed;
+      // The reader for stored tool results joins once a result was too large to show
+      const runTools = withToolOutputReader(tools, messages, userId, config.model);
+
       try {
-        // Call the GPT-4.1 API
-        const apiResponse = await callGPT41API(messages, tools, config);
+        // Call the GPT-4.1 API, streaming text deltas when someone is listening
+        const callStartedAt = Date.now();
+        let apiResponse: ChatResponse;
+        try {
+          apiResponse = await withDeadline(
+            withAbort(
+              callGPT41API(
+                messages,
+                // Hide tools whose circuit breaker is open
+                filterAvailableTools(runTools),
+                config,
+                emit ? (delta) => emit({ type: 'token', delta }) : undefined,
+                signal
+              ),
+              signal
+            ),
+            budget.remainingMs(),
+            controller
+          );
+        } catch (error) {
+          recorder.recordModelCall(
+            config.model,
+            messages,
+            undefined,
+            undefined,
+            Date.now() - callStartedAt,
+            error instanceof Error ? error : new Error(String(error))
+          );
+          throw error;
+        }
+        // Record the model that answered, which may be one of the fallbacks
+        recorder.recordModelCall(
+          apiResponse.model,
+          messages,
+          apiResponse.message,
+          apiResponse.usage,
+          Date.now() - callStartedAt
+        );
 
         // Log token usage if available
         if (apiResponse.usage) {
-          const tokenUsage = extractTokenUsage(apiResponse);
+          const tokenUsage = apiResponse.usage;
+          budget.recordTokens(tokenUsage.totalTokens);
           // Log usage asynchronously - don't await to avoid blocking
-          logUsageAndUpdateCost(userId, config.model, tokenUsage)
+          logUsageAndUpdateCost(userId, apiResponse.model, tokenUsage)
             .catch(err => console.error('Failed to log token usage:', err));
+          emit?.({ type: 'usage', iteration, model: apiResponse.model, usage: tokenUsage });
         }
 
         // Process the response
-        const { message, toolResults } = await processGPT41Response(
-          apiResponse,
-          tools,
-          maxRetries
+        const { message, toolResults, pendingToolCalls } = await withDeadline(
+          withAbort(
+            processGPT41Response(apiResponse, runTools, maxRetries, emit, recorder, signal, toolLimits),
+            signal
+          ),
+          budget.remainingMs(),
+          controller
         );
 
         // Add the assistant message to the conversation
         messages.push(message);
+        if (message.content) {
+          lastAssistantContent = message.content;
+        }
 
         // Track tool results and errors
         allToolResults.push(...toolResults);
@@ -230,16 +661,40 @@ export async function orchestrate(
 
         // If there were tool calls, add the tool results to the conversation
         if (toolResults.length > 0) {
-          const toolResultMessages = toolResults.map(createToolResultMessage);
+          const toolResultMessages = await createToolResultMessages(toolResults);
           messages.push(...toolResultMessages);
-        } else {
+        }
+
+        // Pause until the user decides on the tool calls that need approval
+        if (pendingToolCalls.length > 0) {
+          pendingApproval = pendingToolCalls;
+          stopReason = 'awaiting_approval';
+          emit?.({ type: 'approval_required', toolCalls: pendingToolCalls });
+          break;
+        }
+
+        if (toolResults.length === 0) {
           // No tool calls, so we're done
           continueConversation = false;
           finalResponse = message.content;
         }
       } catch (error) {
+        // Running out of time is a budget stop, not a failure; the deadline aborts the
+        // run's signal so the model call and tools stop with it
+        if (error instanceof BudgetTimeoutError || signal.reason instanceof BudgetTimeoutError) {
+          stopReason = 'timeout';
+          break;
+        }
+
+        // Cancellation ends the run without counting as a failure
+        if (signal.aborted || isAbortError(error)) {
+          stopReason = 'cancelled';
+          break;
+        }
+
         const err = error instanceof Error ? error : new Error(String(error));
         errors.push(err);
+        stopReason = 'error';
         console.error('Orchestration error:', err);
 
         // Add an error message to the conversation
@@ -258,28 +713,120 @@ export async function orchestrate(
       }
     }
 
+    // Produce the final answer as JSON matching the output schema
+    let output: unknown;
+    if (outputSchema && stopReason === 'completed') {
+      try {
+        const outcome = await withAbort(
+          produceStructuredOutput({
+            messages,
+            schema: outputSchema,
+            config,
+            maxRetries: maxOutputRetries,
+            canCallModel: () => !signal.aborted && !budget.exhausted(),
+            onModelCall: recordModelCall,
+            signal,
+          }),
+          signal
+        );
+
+        if (outcome.output !== undefined) {
+          output = outcome.output;
+          finalResponse = outcome.content;
+        } else {
+          stopReason = signal.aborted ? 'cancelled' : budget.exhausted() || 'invalid_output';
+          errors.push(new Error(`The answer did not match the output schema: ${outcome.errors.join('; ')}`));
+        }
+      } catch (error) {
+        if (signal.aborted || isAbortError(error)) {
+          stopReason = 'cancelled';
+        } else {
+          stopReason = 'invalid_output';
+          errors.push(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    }
+
+    if (stopReason === 'awaiting_approval') {
+      // Save everything needed to resume once the user has decided
+      checkpoint = {
+        messages,
+        pendingToolCalls: pendingApproval,
+        toolResults: serializeToolResults(allToolResults),
+        budget: runBudget,
+        maxRetries,
+        stepsUsed: budget.stepsUsed,
+        usage: recorder.totalUsage,
+        traceSteps: recorder.stepCount,
+        ...(route ? { route } : {}),
+        ...(outputSchema ? { outputSchema: toJsonSchema(outputSchema), maxOutputRetries } : {}),
+        options: {
+          persona,
+          planner,
+          routing: routing === undefined ? undefined : Boolean(routing),
+          retryBudget: runRetryBudget.remaining,
+          maxToolConcurrency,
+          toolTimeoutMs,
+        },
+      };
+
+      const summary = createApprovalSummary(pendingApproval);
+      finalResponse = lastAssistantContent ? `${lastAssistantContent}\n\n${summary}` : summary;
+    } else if (stopReason === 'cancelled') {
+      // Report what was done before the run was cancelled
+      const summary = createCancellationSummary(allToolResults);
+      finalResponse = lastAssistantContent ? `${lastAssistantContent}\n\n${summary}` : summary;
+    } else if (stopReason !== 'completed' && stopReason !== 'error' && stopReason !== 'invalid_output') {
+      // End gracefully with a summary of the work done if a budget ran out
+      const summary = createBudgetSummary(stopReason, allToolResults);
+      finalResponse = lastAssistantContent ? `${lastAssistantContent}\n\n${summary}` : summary;
+    }
+
     return {
       response: finalResponse,
       toolCalls: allToolResults,
       errors: errors.length > 0 ? errors : undefined,
+      stopReason,
+      ...(pendingApproval.length > 0 ? { pendingToolCalls: pendingApproval } : {}),
+      ...(planExecution ? { plan: planExecution } : {}),
+      ...(route ? { route } : {}),
+      ...(output !== undefined ? { output } : {}),
     };
   };
 
   // Use the fallback wrapper for the entire orchestration process
-  return withFallback(
-    runOrchestration,
-    {
-      logError: (error) => console.error('Orchestration failed:', error),
-      fallbackValue: {
-        response: 'I apologize, but I encountered an issue processing your request. Please try again or rephrase your instruction.',
-        toolCalls: [],
-        errors: [new Error('Orchestration failed with fallback response')],
-      },
-      context: {
-        type: 'orchestration',
-        userId,
-        instruction: instruction.substring(0, 100) + (instruction.length > 100 ? '...' : ''),
-      },
+  let result: OrchestrationResult;
+  try {
+    result = await withFallback(
+      runOrchestration,
+      {
+        logError: (error) => console.error('Orchestration failed:', error),
+        fallbackValue: {
+          response: 'I apologize, but I encountered an issue processing your request. Please try again or rephrase your instruction.',
+          toolCalls: [],
+          errors: [new Error('Orchestration failed with fallback response')],
+          stopReason: 'error',
+        },
+        context: {
+          type: 'orchestration',
+          userId,
+          instruction: instruction.substring(0, 100) + (instruction.length > 100 ? '...' : ''),
+        },
+      }
+    );
+  } finally {
+    unregisterActiveRun(recorder.id);
+    requestSignal?.removeEventListener('abort', abortFromRequest);
+    // Nothing started by the run outlives it
+    if (!signal.aborted) {
+      controller.abort(new RunCancelledError('The run has ended'));
     }
-  );
+  }
+
+  await recorder.finish(result, result.stopReason === 'awaiting_approval' ? checkpoint : undefined);
+  const recordedResult = { ...result, runId: recorder.id } as OrchestrationResult<T>;
+
+  emit?.({ type: 'done', result: recordedResult });
+
+  return recordedResult;
 }
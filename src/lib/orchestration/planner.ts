@@ -0,0 +1,589 @@
+/**
+ * Planner Mode
+ *
+ * Instead of deciding on tool calls one turn at a time, the model first
+ * submits a task plan: a DAG of steps, each calling one tool with argument
+ * templates that can refer to the results of the steps it depends on. The
+ * plan is validated against the available tools, independent steps run in
+ * parallel, and the model is asked for a new plan when a step fails.
+ */
+
+import {
+  GPT41Config,
+  Message,
+  PlanExecution,
+  PlanStep,
+  PlanStepProgress,
+  TaskPlan,
+  Tool,
+  ToolCall,
+  ToolCallResult,
+} from './types';
+import { findToolByName } from './utils';
+import { callModel } from './modelCall';
+import { ChatResponse } from './providers/types';
+
+/**
+ * Name of the tool the model calls to submit its plan
+ */
+export const PLAN_TOOL_NAME = 'submit_plan';
+
+/**
+ * Default number of plan revisions
+ */
+export const DEFAULT_MAX_REPLANS = 2;
+
+/**
+ * Matches argument templates such as `{{steps.search.result.items.0.url}}`
+ */
+const TEMPLATE_PATTERN = /\{\{\s*steps\.([A-Za-z0-9_-]+)\.result((?:\.[A-Za-z0-9_-]+)*)\s*\}\}/g;
+
+/**
+ * The longest tool result shown to the model when re-planning
+ */
+const MAX_RESULT_PREVIEW_LENGTH = 500;
+
+/**
+ * Options for planning and executing a task
+ */
+export interface RunPlanOptions {
+  /** The user's instruction */
+  instruction: string;
+  /** The tools the plan may use */
+  tools: Tool[];
+  /** The model configuration */
+  config: Partial<GPT41Config>;
+  /** Any additional context to include */
+  additionalContext?: string;
+  /** How many times the plan may be revised (default: 2) */
+  maxReplans?: number;
+  /** Execute tool calls in parallel */
+  executeToolCalls: (toolCalls: ToolCall[]) => Promise<ToolCallResult[]>;
+  /** Checked before each planning call; planning stops when it returns false */
+  canCallModel?: () => boolean;
+  /** Called after each planning call, for budgets, billing and the run trace */
+  onModelCall?: (
+    messages: Message[],
+    response: ChatResponse | undefined,
+    durationMs: number,
+    error?: Error
+  ) => void;
+  /** Called with each valid plan before it is executed */
+  onPlan?: (plan: TaskPlan) => void;
+  /** Aborts planning and execution when signalled */
+  signal?: AbortSignal;
+}
+
+/**
+ * The outcome of planning and executing a task
+ */
+export interface PlanOutcome {
+  /** The plan and its progress */
+  execution: PlanExecution;
+  /** The tool calls that were executed */
+  toolCalls: ToolCall[];
+  /** The results of the executed tool calls */
+  toolResults: ToolCallResult[];
+}
+
+/**
+ * Find the step IDs referenced by the templates in a value
+ * @param value The arguments or part of them
+ * @returns The referenced step IDs
+ */
+function findTemplateReferences(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return Array.from(value.matchAll(TEMPLATE_PATTERN), (match) => match[1]);
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap(findTemplateReferences);
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(findTemplateReferences);
+  }
+
+  return [];
+}
+
+/**
+ * Read a dotted path from a value
+ * @param value The value to read from
+ * @param path The path, such as `.items.0.url`
+ * @returns The value at the path, or undefined if it does not exist
+ */
+function readPath(value: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>(
+      (current, key) =>
+        current !== null && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      value
+    );
+}
+
+/**
+ * Fill in the templates in a step's arguments with the results of earlier steps
+ *
+ * A string that is exactly one template is replaced by the referenced value
+ * itself; templates inside longer strings are replaced by their text.
+ * @param value The arguments or part of them
+ * @param results The results of completed steps, by step ID
+ * @returns The arguments with templates filled in
+ */
+export function resolveStepArguments(value: unknown, results: Map<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{\s*steps\.([A-Za-z0-9_-]+)\.result((?:\.[A-Za-z0-9_-]+)*)\s*\}\}$/);
+    if (whole) {
+      return readPath(results.get(whole[1]), whole[2]);
+    }
+
+    return value.replace(TEMPLATE_PATTERN, (_, stepId: string, path: string) => {
+      const resolved = readPath(results.get(stepId), path);
+      return typeof resolved === 'string' ? resolved : JSON.stringify(resolved ?? null);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveStepArguments(item, results));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveStepArguments(item, results)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Check whether a literal argument matches the type in a parameter schema
+ * @param value The argument value
+ * @param type The JSON schema type
+ * @returns Whether the value has the type
+ */
+function matchesType(value: unknown, type?: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+    case 'integer':
+      return typeof value === 'number';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Validate a plan against the available tools
+ * @param plan The plan to validate
+ * @param tools The tools the plan may use
+ * @param completedStepIds IDs of steps completed under an earlier plan, which may be referenced
+ * @returns The problems found; empty if the plan is valid
+ */
+export function validatePlan(
+  plan: TaskPlan,
+  tools: Tool[],
+  completedStepIds: string[] = []
+): string[] {
+  const errors: string[] = [];
+
+  if (!plan || !Array.isArray(plan.steps) || plan.steps.length === 0) {
+    return ['The plan must contain at least one step.'];
+  }
+
+  const stepIds = new Set<string>();
+
+  plan.steps.forEach((step, index) => {
+    if (!step.id || typeof step.id !== 'string') {
+      errors.push(`Step ${index + 1} has no ID.`);
+      return;
+    }
+
+    if (stepIds.has(step.id) || completedStepIds.includes(step.id)) {
+      errors.push(`Step ID '${step.id}' is used more than once.`);
+    }
+    stepIds.add(step.id);
+  });
+
+  plan.steps.forEach((step) => {
+    const label = `Step '${step.id}'`;
+    const tool = findToolByName(tools, step.tool);
+    const args = step.arguments;
+    const dependsOn = Array.isArray(step.dependsOn) ? step.dependsOn : [];
+
+    if (!Array.isArray(step.dependsOn)) {
+      errors.push(`${label} must list its dependencies in dependsOn.`);
+    }
+
+    dependsOn.forEach((dependency) => {
+      if (dependency === step.id) {
+        errors.push(`${label} depends on itself.`);
+      } else if (!stepIds.has(dependency) && !completedStepIds.includes(dependency)) {
+        errors.push(`${label} depends on unknown step '${dependency}'.`);
+      }
+    });
+
+    findTemplateReferences(args).forEach((reference) => {
+      if (!dependsOn.includes(reference) && !completedStepIds.includes(reference)) {
+        errors.push(`${label} uses the result of '${reference}' without depending on it.`);
+      }
+    });
+
+    if (!tool) {
+      errors.push(`${label} uses unknown tool '${step.tool}'.`);
+      return;
+    }
+
+    if (tool.requiresApproval) {
+      errors.push(`${label} uses '${step.tool}', which requires approval and cannot be planned.`);
+      return;
+    }
+
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+      errors.push(`${label} must have an arguments object.`);
+      return;
+    }
+
+    Object.entries(tool.parameters).forEach(([name, schema]) => {
+      if (!schema?.optional && args[name] === undefined) {
+        errors.push(`${label} is missing required argument '${name}' for '${tool.name}'.`);
+      }
+    });
+
+    Object.entries(args).forEach(([name, value]) => {
+      const schema = tool.parameters[name];
+
+      if (!schema) {
+        errors.push(`${label} passes unknown argument '${name}' to '${tool.name}'.`);
+      } else if (findTemplateReferences(value).length === 0 && !matchesType(value, schema.type)) {
+        errors.push(`${label} passes argument '${name}' with the wrong type; expected ${schema.type}.`);
+      }
+    });
+  });
+
+  // Dependencies must form a DAG
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stepsById = new Map(plan.steps.map((step) => [step.id, step]));
+
+  const hasCycle = (stepId: string): boolean => {
+    if (visited.has(stepId)) return false;
+    if (visiting.has(stepId)) return true;
+
+    visiting.add(stepId);
+    const dependencies = stepsById.get(stepId)?.dependsOn;
+    const cyclic = (Array.isArray(dependencies) ? dependencies : []).some(hasCycle);
+    visiting.delete(stepId);
+    visited.add(stepId);
+
+    return cyclic;
+  };
+
+  if (plan.steps.some((step) => hasCycle(step.id))) {
+    errors.push('The step dependencies contain a cycle.');
+  }
+
+  return errors;
+}
+
+/**
+ * Create the tool the model calls to submit its plan
+ * @param tools The tools the plan may use
+ * @returns The plan submission tool
+ */
+function createPlanTool(tools: Tool[]): Tool {
+  return {
+    name: PLAN_TOOL_NAME,
+    description: 'Submit the plan of tool calls that accomplishes the task',
+    parameters: {
+      steps: {
+        type: 'array',
+        description: 'The steps of the plan',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'A short unique ID, such as "search"' },
+            description: { type: 'string', description: 'What the step is for' },
+            tool: { type: 'string', enum: tools.map((tool) => tool.name) },
+            arguments: { type: 'object', description: 'The arguments for the tool' },
+            dependsOn: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'IDs of the steps whose results this step needs',
+            },
+          },
+          required: ['id', 'tool', 'arguments', 'dependsOn'],
+        },
+      },
+    },
+    execute: async () => undefined,
+  };
+}
+
+/**
+ * Create the system prompt for the planner
+ * @param tools The tools the plan may use
+ * @param additionalContext Any additional context to include
+ * @returns The system prompt
+ */
+function createPlannerPrompt(tools: Tool[], additionalContext?: string): string {
+  const toolDescriptions = tools
+    .map((tool) => `${tool.name}: ${tool.description}\nParameters: ${JSON.stringify(tool.parameters)}`)
+    .join('\n\n');
+
+  return `You are a planner that breaks a user's task into tool calls before any of them run.
+
+Available tools:
+${toolDescriptions}
+
+${additionalContext ? `Additional context:\n${additionalContext}\n` : ''}
+Call ${PLAN_TOOL_NAME} with the steps needed to accomplish the task.
+Steps without dependencies run in parallel, so only list a dependency when a step needs another step's result.
+To use the result of an earlier step, set an argument to "{{steps.<id>.result}}", or to a path inside it such as "{{steps.<id>.result.items.0.url}}", and list that step in dependsOn.`;
+}
+
+/**
+ * Describe a tool result briefly for the planner
+ * @param result The tool result
+ * @returns The result as truncated JSON
+ */
+function previewResult(result: unknown): string {
+  const text = JSON.stringify(result) ?? 'null';
+  return text.length > MAX_RESULT_PREVIEW_LENGTH
+    ? `${text.substring(0, MAX_RESULT_PREVIEW_LENGTH)}...`
+    : text;
+}
+
+/**
+ * Ask the model for a plan
+ * @param messages The planner conversation
+ * @param tools The tools the plan may use
+ * @param config The model configuration
+ * @param signal Optional abort signal
+ * @returns The model response and the submitted plan, if any
+ */
+async function requestPlan(
+  messages: Message[],
+  tools: Tool[],
+  config: Partial<GPT41Config>,
+  signal?: AbortSignal
+): Promise<{ response: ChatResponse; plan?: TaskPlan }> {
+  const response = await callModel(
+    { messages, tools: [createPlanTool(tools)], toolChoice: { name: PLAN_TOOL_NAME } },
+    config,
+    signal
+  );
+
+  const submission = response.message.toolCalls?.find((toolCall) => toolCall.name === PLAN_TOOL_NAME);
+  if (!submission) {
+    return { response };
+  }
+
+  const steps: PlanStep[] = Array.isArray(submission.arguments.steps)
+    ? submission.arguments.steps.map(
+        (step: Partial<PlanStep> | null): PlanStep =>
+          ({
+            ...step,
+            arguments: step?.arguments ?? {},
+            dependsOn: step?.dependsOn ?? [],
+          }) as PlanStep
+      )
+    : [];
+
+  return { response, plan: { steps } };
+}
+
+/**
+ * Plan a task with the model and execute the plan
+ *
+ * Each wave runs every step whose dependencies have completed, in parallel.
+ * Steps that depend on a failed step are skipped. When a plan is invalid or
+ * a step fails, the model is asked for a corrected plan, which may build on
+ * the results of the steps that completed.
+ * @param options The planning options
+ * @returns The plan, its progress and the executed tool calls
+ */
+export async function runPlan(options: RunPlanOptions): Promise<PlanOutcome> {
+  const {
+    instruction,
+    tools,
+    config,
+    additionalContext,
+    maxReplans = DEFAULT_MAX_REPLANS,
+    executeToolCalls,
+    canCallModel = () => true,
+    onModelCall,
+    onPlan,
+    signal,
+  } = options;
+
+  const progress: PlanStepProgress[] = [];
+  const results = new Map<string, unknown>();
+  const toolCalls: ToolCall[] = [];
+  const toolResults: ToolCallResult[] = [];
+
+  const messages: Message[] = [
+    { role: 'system', content: createPlannerPrompt(tools, additionalContext) },
+    { role: 'user', content: instruction },
+  ];
+
+  let plan: TaskPlan | undefined;
+  let validationErrors: string[] = [];
+  let lastPlanFailed = false;
+  let replans = 0;
+
+  for (let attempt = 0; attempt <= maxReplans; attempt++) {
+    if (!canCallModel()) break;
+    if (attempt > 0) replans += 1;
+
+    // Ask for a plan, recording the call whether or not it succeeds
+    const startedAt = Date.now();
+    let submitted: { response: ChatResponse; plan?: TaskPlan };
+    try {
+      submitted = await requestPlan(messages, tools, config, signal);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      onModelCall?.(messages, undefined, Date.now() - startedAt, err);
+      throw err;
+    }
+    onModelCall?.(messages, submitted.response, Date.now() - startedAt);
+    messages.push(submitted.response.message);
+
+    const candidate = submitted.plan;
+    const submission = submitted.response.message.toolCalls?.find(
+      (toolCall) => toolCall.name === PLAN_TOOL_NAME
+    );
+    const errors = candidate
+      ? validatePlan(candidate, tools, Array.from(results.keys()))
+      : [`No plan was submitted; call ${PLAN_TOOL_NAME}.`];
+
+    if (errors.length > 0) {
+      validationErrors = errors;
+      const feedback = `The plan is invalid:\n${errors.map((error) => `- ${error}`).join('\n')}\nSubmit a corrected plan.`;
+      messages.push(
+        submission
+          ? { role: 'tool', content: feedback, toolCallId: submission.id, name: PLAN_TOOL_NAME }
+          : { role: 'user', content: feedback }
+      );
+      continue;
+    }
+
+    plan = candidate as TaskPlan;
+    validationErrors = [];
+    onPlan?.(plan);
+
+    // Execute the plan in waves of independent steps
+    const status = new Map<string, PlanStepProgress>();
+    plan.steps.forEach((step) => {
+      const stepProgress: PlanStepProgress = { stepId: step.id, tool: step.tool, status: 'pending' };
+      status.set(step.id, stepProgress);
+      progress.push(stepProgress);
+    });
+
+    const isDone = (stepId: string) => results.has(stepId);
+    const isBlocked = (stepId: string) => {
+      const state = status.get(stepId)?.status;
+      return state === 'failed' || state === 'skipped';
+    };
+
+    let pending = plan.steps;
+    while (pending.length > 0) {
+      // Skip steps that can no longer run because a dependency failed
+      const blocked = pending.filter((step) => step.dependsOn.some(isBlocked));
+      blocked.forEach((step) => {
+        const stepProgress = status.get(step.id) as PlanStepProgress;
+        stepProgress.status = 'skipped';
+        stepProgress.error = `Skipped because '${step.dependsOn.find(isBlocked)}' did not complete`;
+      });
+
+      const ready = pending.filter(
+        (step) => !blocked.includes(step) && step.dependsOn.every(isDone)
+      );
+      pending = pending.filter((step) => !blocked.includes(step) && !ready.includes(step));
+
+      if (ready.length === 0) {
+        if (blocked.length > 0) continue;
+        break;
+      }
+
+      // Call IDs include the attempt, as a new plan may reuse the ID of a step that failed
+      const waveCalls: ToolCall[] = ready.map((step) => ({
+        id: `plan_${attempt}_${step.id}`,
+        name: step.tool,
+        arguments: resolveStepArguments(step.arguments, results) as Record<string, unknown>,
+      }));
+      const waveResults = await executeToolCalls(waveCalls);
+
+      ready.forEach((step, index) => {
+        const stepProgress = status.get(step.id) as PlanStepProgress;
+        const result = waveResults.find((waveResult) => waveResult.toolCallId === waveCalls[index].id);
+
+        stepProgress.arguments = waveCalls[index].arguments;
+        if (!result || result.error) {
+          stepProgress.status = 'failed';
+          stepProgress.error = result?.error?.message || 'The step produced no result';
+        } else {
+          stepProgress.status = 'completed';
+          stepProgress.result = result.result;
+          results.set(step.id, result.result);
+        }
+      });
+
+      toolCalls.push(...waveCalls);
+      toolResults.push(...waveResults);
+    }
+
+    const unfinished = plan.steps
+      .map((step) => status.get(step.id) as PlanStepProgress)
+      .filter((stepProgress) => stepProgress.status !== 'completed');
+    lastPlanFailed = unfinished.length > 0;
+
+    if (!lastPlanFailed) break;
+
+    // Ask for a new plan that builds on what has been done
+    const completed = progress
+      .filter((stepProgress) => stepProgress.status === 'completed')
+      .map((stepProgress) => `- ${stepProgress.stepId} (${stepProgress.tool}): ${previewResult(stepProgress.result)}`);
+    const failed = unfinished.map(
+      (stepProgress) => `- ${stepProgress.stepId} (${stepProgress.tool}): ${stepProgress.error}`
+    );
+
+    messages.push({
+      role: 'tool',
+      toolCallId: submission?.id,
+      name: PLAN_TOOL_NAME,
+      content: [
+        'Some steps did not complete.',
+        completed.length > 0
+          ? `Completed steps, whose results you can reference:\n${completed.join('\n')}`
+          : 'No steps completed.',
+        `Failed or skipped steps:\n${failed.join('\n')}`,
+        'Submit a new plan for the remaining work. Use new step IDs.',
+      ].join('\n\n'),
+    });
+  }
+
+  return {
+    execution: {
+      plan,
+      steps: progress,
+      replans,
+      status: !plan ? 'invalid' : lastPlanFailed ? 'failed' : 'completed',
+      ...(validationErrors.length > 0 ? { validationErrors } : {}),
+    },
+    toolCalls,
+    toolResults,
+  };
+}
@@ -0,0 +1,710 @@
+/**
+ * Prompt Templates Module
+ *
+ * Prompts are named, versioned templates with typed variables. A template
+ * body uses a small Mustache-like syntax:
+ * - `{{name}}` inserts a variable (lists are joined with commas)
+ * - `{{#name}}...{{/name}}` is rendered only when the variable is set,
+ *   `{{^name}}...{{/name}}` only when it is not
+ * - `{{> other}}` includes another template as a partial
+ *
+ * The built-in templates are version 0. Newer versions are stored in the
+ * `prompt_templates` table, either globally or as overrides for one user,
+ * one persona, or one user's persona. A persona is a named set of variables,
+ * stored in `personas`, that runs can pick to change the agent's behaviour.
+ * Every run records the template versions its prompt was rendered from.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { Database, Json } from '../types/database.types';
+import { SUPABASE_URL, SUPABASE_SERVICE_KEY } from '../config/env';
+import { ApiError, ValidationError } from '../utils/error';
+
+// Initialize Supabase client
+let supabase: ReturnType<typeof createClient<Database>> | null = null;
+
+try {
+  // Use service role key for admin operations
+  supabase = createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+} catch (error) {
+  console.error('Failed to initialize Supabase client for prompt templates:', error);
+}
+
+// For testing purposes
+let _supabaseClientForTesting: ReturnType<typeof createClient<Database>> | null = null;
+
+export function setPromptTemplateSupabaseClientForTesting(client: ReturnType<typeof createClient<Database>> | null) {
+  _supabaseClientForTesting = client;
+}
+
+function getSupabaseClient() {
+  return _supabaseClientForTesting || supabase;
+}
+
+/**
+ * The type of a template variable
+ */
+export type PromptVariableType = 'string' | 'number' | 'boolean' | 'list';
+
+/**
+ * The value of a template variable
+ */
+export type PromptValue = string | number | boolean | string[];
+
+/**
+ * A variable a template accepts
+ */
+export interface PromptVariable {
+  /** The type values must have */
+  type: PromptVariableType;
+  /** Whether rendering fails without a value (default: false) */
+  required?: boolean;
+  /** The value used when none is given */
+  default?: PromptValue;
+  /** What the variable is for */
+  description?: string;
+}
+
+/**
+ * One version of a prompt template
+ */
+export interface PromptTemplate {
+  /** The name of the template, such as 'orchestrator' */
+  name: string;
+  /** The version; 0 for the built-in template */
+  version: number;
+  /** The template text */
+  body: string;
+  /** The variables the template accepts, by name */
+  variables: Record<string, PromptVariable>;
+  /** The user the version is an override for, if any */
+  userId?: string;
+  /** The persona the version is an override for, if any */
+  persona?: string;
+}
+
+/**
+ * Whose versions of the templates to use
+ */
+export interface PromptScope {
+  /** The user whose overrides apply */
+  userId?: string;
+  /** The persona whose variables and overrides apply */
+  persona?: string;
+}
+
+/**
+ * A rendered prompt and the template versions it came from
+ */
+export interface RenderedPrompt {
+  /** The prompt text */
+  content: string;
+  /** The name of the template */
+  template: string;
+  /** The version of the template */
+  version: number;
+  /** The version of every template rendered, including partials, by name */
+  versions: Record<string, number>;
+  /** The persona the prompt was rendered for, if any */
+  persona?: string;
+}
+
+/**
+ * A persona: a named set of template variables, such as the agent's role
+ */
+export interface Persona {
+  /** The name runs pick the persona by */
+  name: string;
+  /** What the persona is for */
+  description?: string;
+  /** The variables given to every template rendered for the persona */
+  variables: Record<string, PromptValue>;
+  /** The user the persona belongs to; undefined for a persona available to everyone */
+  userId?: string;
+}
+
+/**
+ * The names personas may have
+ */
+export const PERSONA_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+/**
+ * The name of the orchestrator's system prompt template
+ */
+export const ORCHESTRATOR_PROMPT = 'orchestrator';
+
+/**
+ * The name of the classifier's system prompt template
+ */
+export const CLASSIFIER_PROMPT = 'classifier';
+
+/**
+ * The name of the multi-label classifier's system prompt template
+ */
+export const MULTI_LABEL_CLASSIFIER_PROMPT = 'classifier.multi_label';
+
+/**
+ * The name of the batch classifier's system prompt template
+ */
+export const BATCH_CLASSIFIER_PROMPT = 'classifier.batch';
+
+/**
+ * The name of the template describing the function of a function calling classification
+ */
+export const FUNCTION_CLASSIFIER_PROMPT = 'classifier.function';
+
+/**
+ * The name of the router's task complexity prompt template
+ */
+export const ROUTER_COMPLEXITY_PROMPT = 'router.complexity';
+
+/**
+ * The name of the router's task domain prompt template
+ */
+export const ROUTER_DOMAIN_PROMPT = 'router.domain';
+
+/**
+ * How deeply partials may include other partials
+ */
+const MAX_PARTIAL_DEPTH = 5;
+
+/**
+ * The templates used when no stored version applies
+ */
+export const BUILT_IN_PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
+  [ORCHESTRATOR_PROMPT]: {
+    name: ORCHESTRATOR_PROMPT,
+    version: 0,
+    body: `{{role}}
+
+Available tools:
+{{tools}}
+
+{{#additionalContext}}Additional context:
+{{additionalContext}}
+{{/additionalContext}}
+
+{{> orchestrator.guidelines}}`,
+    variables: {
+      role: {
+        type: 'string',
+        default: 'You are an intelligent orchestrator that helps users accomplish tasks by calling appropriate tools.',
+        description: 'Who the agent is',
+      },
+      tools: { type: 'string', required: true, description: 'The available tools, one per line' },
+      additionalContext: { type: 'string', description: 'Context given with the request' },
+    },
+  },
+  'orchestrator.guidelines': {
+    name: 'orchestrator.guidelines',
+    version: 0,
+    body: `When a user gives you an instruction, analyze it carefully and determine which tools to call and in what order.
+Always respond with tool calls when appropriate rather than trying to perform the task yourself.
+If you need more information from the user before you can proceed, ask for it.
+If a tool call fails, try to recover gracefully or suggest alternatives.
+After completing all necessary tool calls, provide a helpful summary of what was done.`,
+    variables: {},
+  },
+  [CLASSIFIER_PROMPT]: {
+    name: CLASSIFIER_PROMPT,
+    version: 0,
+    body: 'Classify the following text into one of these categories: {{labels}}. {{> classifier.answer}}',
+    variables: {
+      labels: { type: 'list', required: true, description: 'The categories to choose from' },
+    },
+  },
+  'classifier.answer': {
+    name: 'classifier.answer',
+    version: 0,
+    body: 'Respond with ONLY the category name, nothing else.',
+    variables: {},
+  },
+  [FUNCTION_CLASSIFIER_PROMPT]: {
+    name: FUNCTION_CLASSIFIER_PROMPT,
+    version: 0,
+    body: 'Classify text into one of these categories: {{labels}}',
+    variables: {
+      labels: { type: 'list', required: true, description: 'The categories to choose from' },
+    },
+  },
+  [MULTI_LABEL_CLASSIFIER_PROMPT]: {
+    name: MULTI_LABEL_CLASSIFIER_PROMPT,
+    version: 0,
+    body:
+      'Classify the following text into every one of these categories that applies: {{labels}}. ' +
+      'Respond with ONLY the category names, separated by commas, or none if no category applies.',
+    variables: {
+      labels: { type: 'list', required: true, description: 'The categories to choose from' },
+    },
+  },
+  [BATCH_CLASSIFIER_PROMPT]: {
+    name: BATCH_CLASSIFIER_PROMPT,
+    version: 0,
+    body: `Classify each of the numbered texts below into {{#multiLabel}}every one of these categories that applies{{/multiLabel}}{{^multiLabel}}one of these categories{{/multiLabel}}: {{labels}}.
+{{#instructions}}{{instructions}}
+{{/instructions}}Respond with one line per text in the form "<number>: <category>"{{#multiLabel}}, listing the categories separated by commas, or none if no category applies{{/multiLabel}}. Write nothing else.`,
+    variables: {
+      labels: { type: 'list', required: true, description: 'The categories to choose from' },
+      instructions: { type: 'string', description: 'What the categories mean or how to choose between them' },
+      multiLabel: { type: 'boolean', default: false, description: 'Whether each text may have several categories' },
+    },
+  },
+  [ROUTER_COMPLEXITY_PROMPT]: {
+    name: ROUTER_COMPLEXITY_PROMPT,
+    version: 0,
+    body:
+      'Classify how demanding this task is for an AI assistant: ' +
+      'simple (a short answer or a single step), moderate (a few steps or tool calls), ' +
+      'or complex (multi-step reasoning, research or planning). {{> classifier.answer}}',
+    variables: {},
+  },
+  [ROUTER_DOMAIN_PROMPT]: {
+    name: ROUTER_DOMAIN_PROMPT,
+    version: 0,
+    body: `Classify the domain of this task into one of these categories:
+{{domains}}
+{{> classifier.answer}}`,
+    variables: {
+      domains: { type: 'string', required: true, description: 'The domains, one per line with what each covers' },
+    },
+  },
+};
+
+/**
+ * A parsed piece of a template body
+ */
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] }
+  | { type: 'partial'; name: string };
+
+/**
+ * Parse a template body
+ * @param body The template text
+ * @returns The parsed nodes
+ * @throws ValidationError if a section is not closed properly
+ */
+function parseTemplate(body: string): TemplateNode[] {
+  const tagPattern = /\{\{\s*([#^/>]?)\s*([\w.-]+)\s*\}\}/g;
+  const root: TemplateNode[] = [];
+  const open: Array<{ name: string; children: TemplateNode[] }> = [{ name: '', children: root }];
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(body)) !== null) {
+    const [tag, sigil, name] = match;
+    const { children } = open[open.length - 1];
+
+    if (match.index > position) {
+      children.push({ type: 'text', text: body.slice(position, match.index) });
+    }
+    position = match.index + tag.length;
+
+    if (sigil === '#' || sigil === '^') {
+      const section = { type: 'section' as const, name, inverted: sigil === '^', children: [] as TemplateNode[] };
+      children.push(section);
+      open.push(section);
+    } else if (sigil === '/') {
+      if (open.length === 1 || open[open.length - 1].name !== name) {
+        throw new ValidationError('Invalid prompt template', [`Unexpected {{/${name}}}`]);
+      }
+      open.pop();
+    } else if (sigil === '>') {
+      children.push({ type: 'partial', name });
+    } else {
+      children.push({ type: 'variable', name });
+    }
+  }
+
+  if (open.length > 1) {
+    throw new ValidationError('Invalid prompt template', [`Section {{#${open[open.length - 1].name}}} is not closed`]);
+  }
+  if (position < body.length) {
+    root.push({ type: 'text', text: body.slice(position) });
+  }
+
+  return root;
+}
+
+/**
+ * Walk the parsed nodes of a template, including those inside sections
+ * @param nodes The nodes to walk
+ * @param visit Called for every node
+ */
+function walkTemplate(nodes: TemplateNode[], visit: (node: TemplateNode) => void): void {
+  nodes.forEach((node) => {
+    visit(node);
+    if (node.type === 'section') {
+      walkTemplate(node.children, visit);
+    }
+  });
+}
+
+/**
+ * Check that a value has a variable's type
+ * @param value The value
+ * @param type The type of the variable
+ * @returns Whether the value has the type
+ */
+function hasType(value: PromptValue, type: PromptVariableType): boolean {
+  return type === 'list'
+    ? Array.isArray(value) && value.every((item) => typeof item === 'string')
+    : typeof value === type;
+}
+
+/**
+ * Check a template before it is stored
+ * @param template The template
+ * @returns The problems found; empty if the template is valid
+ */
+export function validatePromptTemplate(template: Pick<PromptTemplate, 'body' | 'variables'>): string[] {
+  const errors: string[] = [];
+
+  Object.entries(template.variables).forEach(([name, variable]) => {
+    if (variable.default !== undefined && !hasType(variable.default, variable.type)) {
+      errors.push(`The default of ${name} is not a ${variable.type}`);
+    }
+  });
+
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(template.body);
+  } catch (error) {
+    return [...errors, ...(error instanceof ValidationError ? error.details : [String(error)])];
+  }
+
+  walkTemplate(nodes, (node) => {
+    if ((node.type === 'variable' || node.type === 'section') && !template.variables[node.name]) {
+      errors.push(`${node.name} is not a declared variable`);
+    }
+  });
+
+  return Array.from(new Set(errors));
+}
+
+/**
+ * Work out the value of each of a template's variables
+ * @param template The template
+ * @param values The values given
+ * @returns The values, with defaults filled in
+ * @throws ValidationError if a required value is missing or a value has the wrong type
+ */
+function resolveValues(
+  template: PromptTemplate,
+  values: Record<string, PromptValue | undefined>
+): Record<string, PromptValue | undefined> {
+  const errors: string[] = [];
+  const resolved: Record<string, PromptValue | undefined> = {};
+
+  Object.entries(template.variables).forEach(([name, variable]) => {
+    const value = values[name] ?? variable.default;
+
+    if (value === undefined) {
+      if (variable.required) errors.push(`${name} is required`);
+    } else if (!hasType(value, variable.type)) {
+      errors.push(`${name} must be a ${variable.type}`);
+    }
+    resolved[name] = value;
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid variables for prompt template ${template.name}`, errors);
+  }
+
+  return resolved;
+}
+
+/**
+ * Render a template
+ * @param template The template
+ * @param values The variable values
+ * @param partials The templates that may be included as partials, by name
+ * @returns The rendered prompt
+ * @throws ValidationError if the template is invalid, a variable is missing
+ * or has the wrong type, or a partial cannot be found
+ */
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  values: Record<string, PromptValue | undefined> = {},
+  partials: Record<string, PromptTemplate> = {}
+): RenderedPrompt {
+  const versions: Record<string, number> = {};
+
+  const render = (current: PromptTemplate, including: string[]): string => {
+    if (including.includes(current.name) || including.length > MAX_PARTIAL_DEPTH) {
+      throw new ValidationError('Invalid prompt template', [
+        `Partials nest too deeply: ${[...including, current.name].join(' > ')}`,
+      ]);
+    }
+    versions[current.name] = current.version;
+
+    const resolved = resolveValues(current, values);
+    const renderNodes = (nodes: TemplateNode[]): string =>
+      nodes
+        .map((node) => {
+          switch (node.type) {
+            case 'text':
+              return node.text;
+            case 'variable': {
+              const value = resolved[node.name];
+              return Array.isArray(value) ? value.join(', ') : value === undefined ? '' : String(value);
+            }
+            case 'section': {
+              const value = resolved[node.name];
+              const isSet = Array.isArray(value) ? value.length > 0 : Boolean(value);
+              return isSet !== node.inverted ? renderNodes(node.children) : '';
+            }
+            case 'partial': {
+              const partial = partials[node.name];
+              if (!partial) {
+                throw new ValidationError('Invalid prompt template', [`Unknown partial ${node.name}`]);
+              }
+              return render(partial, [...including, current.name]);
+            }
+          }
+        })
+        .join('');
+
+    return renderNodes(parseTemplate(current.body));
+  };
+
+  const content = render(template, []);
+  return { content, template: template.name, version: template.version, versions };
+}
+
+/**
+ * Render a built-in template, without stored versions
+ * @param name The name of the template
+ * @param values The variable values
+ * @returns The prompt text
+ */
+export function renderBuiltInPrompt(name: string, values: Record<string, PromptValue | undefined> = {}): string {
+  return renderPromptTemplate(BUILT_IN_PROMPT_TEMPLATES[name], values, BUILT_IN_PROMPT_TEMPLATES).content;
+}
+
+/**
+ * Convert a stored template row to a template
+ * @param row The row
+ * @returns The template
+ */
+function toPromptTemplate(row: Database['public']['Tables']['prompt_templates']['Row']): PromptTemplate {
+  return {
+    name: row.name,
+    version: row.version,
+    body: row.body,
+    variables: (row.variables ?? {}) as unknown as Record<string, PromptVariable>,
+    userId: row.user_id ?? undefined,
+    persona: row.persona ?? undefined,
+  };
+}
+
+/**
+ * Find the version of a template to use
+ *
+ * The most specific stored version wins: one for the user's persona, then
+ * one for the persona, then one for the user, then a global one; within
+ * each, the newest. The built-in template is used when none is stored or
+ * the store cannot be read.
+ * @param name The name of the template
+ * @param scope The user and persona to find overrides for
+ * @returns The template
+ * @throws ApiError if there is no template with the name, or the persona name is invalid
+ */
+export async function resolvePromptTemplate(name: string, scope: PromptScope = {}): Promise<PromptTemplate> {
+  if (scope.persona && !PERSONA_NAME_PATTERN.test(scope.persona)) {
+    throw new ApiError(`Unknown persona: ${scope.persona}`, 404);
+  }
+
+  const client = getSupabaseClient();
+
+  if (client) {
+    let query = client.from('prompt_templates').select('*').eq('name', name);
+    query = scope.userId ? query.or(`user_id.is.null,user_id.eq.${scope.userId}`) : query.is('user_id', null);
+    query = scope.persona ? query.or(`persona.is.null,persona.eq.${scope.persona}`) : query.is('persona', null);
+
+    const { data, error } = await query.order('version', { ascending: false });
+
+    if (error) {
+      console.error(`Error fetching prompt template ${name}, using the built-in one:`, error);
+    } else {
+      const specificity = (row: { user_id: string | null; persona: string | null }) =>
+        (row.persona ? 2 : 0) + (row.user_id ? 1 : 0);
+      const [best] = [...(data || [])].sort((a, b) => specificity(b) - specificity(a) || b.version - a.version);
+      if (best) return toPromptTemplate(best);
+    }
+  }
+
+  const builtIn = BUILT_IN_PROMPT_TEMPLATES[name];
+  if (!builtIn) {
+    throw new ApiError(`Unknown prompt template: ${name}`, 404);
+  }
+  return builtIn;
+}
+
+/**
+ * Find the versions of the partials a template includes, and of theirs
+ * @param template The template
+ * @param scope The user and persona to find overrides for
+ * @param found The partials found so far
+ * @returns The partials, by name
+ */
+async function resolvePartials(
+  template: PromptTemplate,
+  scope: PromptScope,
+  found: Record<string, PromptTemplate> = {}
+): Promise<Record<string, PromptTemplate>> {
+  const names: string[] = [];
+  walkTemplate(parseTemplate(template.body), (node) => {
+    if (node.type === 'partial' && !found[node.name] && !names.includes(node.name)) {
+      names.push(node.name);
+    }
+  });
+
+  for (const name of names) {
+    if (found[name]) continue;
+    found[name] = await resolvePromptTemplate(name, scope);
+    await resolvePartials(found[name], scope, found);
+  }
+
+  return found;
+}
+
+/**
+ * Get a persona
+ * @param name The name of the persona
+ * @param userId The user; their own persona of that name is preferred over a global one
+ * @returns The persona, or null if there is none or the store is unavailable
+ */
+export async function getPersona(name: string, userId?: string): Promise<Persona | null> {
+  const client = getSupabaseClient();
+  if (!client || !PERSONA_NAME_PATTERN.test(name)) return null;
+
+  let query = client.from('personas').select('*').eq('name', name);
+  query = userId ? query.or(`user_id.is.null,user_id.eq.${userId}`) : query.is('user_id', null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const row = (data || []).find((persona) => persona.user_id) ?? (data || [])[0];
+  return row
+    ? {
+        name: row.name,
+        description: row.description ?? undefined,
+        variables: (row.variables ?? {}) as unknown as Record<string, PromptValue>,
+        userId: row.user_id ?? undefined,
+      }
+    : null;
+}
+
+/**
+ * Render the version of a template that applies to a user and persona
+ *
+ * The persona's variables are given to every template rendered, unless the
+ * caller gives a value of its own.
+ * @param name The name of the template
+ * @param values The variable values
+ * @param scope The user and persona to render for
+ * @returns The rendered prompt and the template versions used
+ * @throws ApiError if the persona or template does not exist
+ */
+export async function renderPrompt(
+  name: string,
+  values: Record<string, PromptValue | undefined>,
+  scope: PromptScope = {}
+): Promise<RenderedPrompt> {
+  const persona = scope.persona ? await getPersona(scope.persona, scope.userId) : null;
+  if (scope.persona && !persona) {
+    throw new ApiError(`Unknown persona: ${scope.persona}`, 404);
+  }
+
+  const template = await resolvePromptTemplate(name, scope);
+  const partials = await resolvePartials(template, scope);
+
+  const given = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+  const rendered = renderPromptTemplate(template, { ...persona?.variables, ...given }, partials);
+
+  return persona ? { ...rendered, persona: persona.name } : rendered;
+}
+
+/**
+ * Store a new version of a template
+ *
+ * Versions are numbered per template name across all scopes, so a name and
+ * version identify the exact text a run was prompted with.
+ * @param template The template, globally or for a user, persona or both
+ * @returns The stored version
+ * @throws ValidationError if the template is invalid
+ * @throws ApiError if the store is unavailable
+ */
+export async function createPromptTemplateVersion(template: Omit<PromptTemplate, 'version'>): Promise<PromptTemplate> {
+  const errors = validatePromptTemplate(template);
+  if (template.persona && !PERSONA_NAME_PATTERN.test(template.persona)) {
+    errors.push(`${template.persona} is not a valid persona name`);
+  }
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid prompt template ${template.name}`, errors);
+  }
+
+  const client = getSupabaseClient();
+  if (!client) {
+    throw new ApiError('Prompt template store is unavailable', 503);
+  }
+
+  const { data: latest, error: latestError } = await client
+    .from('prompt_templates')
+    .select('version')
+    .eq('name', template.name)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) throw latestError;
+
+  const { data, error } = await client
+    .from('prompt_templates')
+    .insert({
+      name: template.name,
+      version: (latest?.version ?? 0) + 1,
+      body: template.body,
+      variables: template.variables as unknown as Json,
+      user_id: template.userId ?? null,
+      persona: template.persona ?? null,
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return toPromptTemplate(data);
+}
+
+/**
+ * Create or update a persona
+ * @param persona The persona, for one user or, without a user ID, for everyone
+ * @returns The stored persona
+ * @throws ValidationError if the name is invalid
+ * @throws ApiError if the store is unavailable
+ */
+export async function savePersona(persona: Persona): Promise<Persona> {
+  if (!PERSONA_NAME_PATTERN.test(persona.name)) {
+    throw new ValidationError('Invalid persona', [`${persona.name} is not a valid persona name`]);
+  }
+
+  const client = getSupabaseClient();
+  if (!client) {
+    throw new ApiError('Prompt template store is unavailable', 503);
+  }
+
+  const { error } = await client.from('personas').upsert(
+    {
+      name: persona.name,
+      description: persona.description ?? null,
+      variables: persona.variables as unknown as Json,
+      user_id: persona.userId ?? null,
+    },
+    { onConflict: 'user_id,name' }
+  );
+
+  if (error) throw error;
+  return persona;
+}
@@ -0,0 +1,371 @@
+/**
+ * Anthropic messages provider
+ *
+ * Translates the orchestrator's messages and tools to the Anthropic Messages
+ * API and normalizes the response, including streamed responses.
+ */
+
+import { ApiError } from '../../utils/error';
+import { parseRetryAfter } from '../retryPolicy';
+import { readServerSentEvents } from '../streaming';
+import { Message, ToolCall } from '../types';
+import { parseToolArguments } from '../toolArguments';
+import { createToolParametersSchema } from '../utils';
+import { ChatRequest, ChatResponse, LLMProvider, ProviderOptions } from './types';
+
+/**
+ * Default Anthropic messages endpoint
+ */
+export const DEFAULT_ANTHROPIC_ENDPOINT = 'https://api.anthropic.com/v1/messages';
+
+/**
+ * Anthropic API version sent with every request
+ */
+export const ANTHROPIC_API_VERSION = '2023-06-01';
+
+/**
+ * Anthropic requires max_tokens; used when the request does not set one
+ */
+const DEFAULT_ANTHROPIC_MAX_TOKENS = 4096;
+
+/**
+ * A content block in an Anthropic message
+ */
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
+
+/**
+ * A message in the Anthropic wire format
+ */
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+/**
+ * A tool in the Anthropic wire format
+ */
+interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: ReturnType<typeof createToolParametersSchema>;
+}
+
+/**
+ * The body of a request to the Anthropic Messages API
+ */
+interface AnthropicRequestBody {
+  model: string;
+  messages: AnthropicMessage[];
+  max_tokens: number;
+  temperature?: number;
+  system?: string;
+  tools?: AnthropicTool[];
+  tool_choice?: { type: 'tool'; name: string };
+  stream?: boolean;
+}
+
+/**
+ * A content block in an Anthropic response; the input of a streamed tool call
+ * is its unparsed JSON text
+ */
+type AnthropicResponseBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown };
+
+/**
+ * Token usage reported by the Anthropic API
+ */
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+/**
+ * The body of an Anthropic Messages API response
+ */
+interface AnthropicResponseBody {
+  content?: AnthropicResponseBlock[];
+  stop_reason?: string | null;
+  usage?: AnthropicUsage;
+}
+
+/**
+ * An event in a streamed Anthropic response
+ */
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message?: { usage?: AnthropicUsage } }
+  | { type: 'content_block_start'; index: number; content_block: AnthropicResponseBlock }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | { type: 'message_delta'; delta?: { stop_reason?: string | null }; usage?: AnthropicUsage }
+  | { type: 'error'; error?: { message?: string } }
+  | { type: 'ping' };
+
+/**
+ * Convert orchestrator messages to Anthropic's system prompt and message list
+ *
+ * Anthropic takes the system prompt separately, expects tool results as user
+ * content blocks and requires user and assistant turns to alternate, so
+ * consecutive messages with the same role are merged.
+ * @param messages The messages to convert
+ * @returns The system prompt and messages in Anthropic format
+ */
+export function formatMessagesForAnthropic(messages: Message[]): {
+  system?: string;
+  messages: AnthropicMessage[];
+} {
+  const systemParts: string[] = [];
+  const formatted: AnthropicMessage[] = [];
+
+  const append = (role: 'user' | 'assistant', blocks: AnthropicContentBlock[]) => {
+    if (blocks.length === 0) return;
+
+    const last = formatted[formatted.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      formatted.push({ role, content: blocks });
+    }
+  };
+
+  messages.forEach((message, index) => {
+    switch (message.role) {
+      case 'system':
+        // Leading system messages form the system prompt; later ones are
+        // passed to the model as user-visible notes
+        if (formatted.length === 0) {
+          systemParts.push(message.content);
+        } else {
+          append('user', [{ type: 'text', text: `[System note] ${message.content}` }]);
+        }
+        break;
+
+      case 'tool':
+        append('user', [
+          {
+            type: 'tool_result',
+            tool_use_id: message.toolCallId || `tool_${index}`,
+            content: message.content,
+            ...(message.content.startsWith('Error:') ? { is_error: true } : {}),
+          },
+        ]);
+        break;
+
+      case 'assistant': {
+        const blocks: AnthropicContentBlock[] = [];
+        if (message.content) {
+          blocks.push({ type: 'text', text: message.content });
+        }
+        (message.toolCalls || []).forEach((toolCall) => {
+          blocks.push({
+            type: 'tool_use',
+            id: toolCall.id,
+            name: toolCall.name,
+            input: toolCall.arguments,
+          });
+        });
+        append('assistant', blocks);
+        break;
+      }
+
+      default:
+        append('user', [{ type: 'text', text: message.content }]);
+    }
+  });
+
+  return {
+    system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+    messages: formatted,
+  };
+}
+
+/**
+ * Convert an Anthropic messages response body into a normalized response
+ * @param body The response body
+ * @param model The requested model
+ * @returns The normalized response
+ */
+function toChatResponse(body: AnthropicResponseBody, model: string): ChatResponse {
+  const blocks = body.content || [];
+
+  const content = blocks
+    .filter((block) => block.type === 'text')
+    .map((block) => block.text)
+    .join('');
+
+  const toolCalls: ToolCall[] = blocks
+    .filter((block) => block.type === 'tool_use')
+    .map((block) => {
+      const parsed = parseToolArguments(block.input);
+      return {
+        id: block.id,
+        name: block.name,
+        arguments: parsed.arguments,
+        ...(parsed.error ? { argumentsError: parsed.error } : {}),
+      };
+    });
+
+  const response: ChatResponse = {
+    message: {
+      role: 'assistant',
+      content,
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    },
+    finishReason: body.stop_reason || undefined,
+    model,
+    rawResponse: body,
+  };
+
+  if (body.usage) {
+    const promptTokens = body.usage.input_tokens || 0;
+    const completionTokens = body.usage.output_tokens || 0;
+    response.usage = {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    };
+  }
+
+  return response;
+}
+
+/**
+ * Read a streamed Anthropic messages response into a complete response body
+ * @param response The fetch response with a `text/event-stream` body
+ * @param onDelta Called with each chunk of assistant text as it arrives
+ * @returns The assembled response body
+ */
+async function readAnthropicStream(
+  response: Response,
+  onDelta: (delta: string) => void
+): Promise<AnthropicResponseBody> {
+  const content: AnthropicResponseBlock[] = [];
+  const usage: AnthropicUsage = {};
+  const body: AnthropicResponseBody = { content, usage };
+  const partialJson: string[] = [];
+
+  await readServerSentEvents(response, (data) => {
+    const event: AnthropicStreamEvent = JSON.parse(data);
+
+    switch (event.type) {
+      case 'message_start':
+        Object.assign(usage, event.message?.usage);
+        break;
+
+      case 'content_block_start':
+        content[event.index] = { ...event.content_block };
+        partialJson[event.index] = '';
+        break;
+
+      case 'content_block_delta': {
+        const block = content[event.index];
+        if (event.delta.type === 'text_delta') {
+          if (block.type === 'text') {
+            block.text = (block.text || '') + event.delta.text;
+          }
+          onDelta(event.delta.text);
+        } else if (event.delta.type === 'input_json_delta') {
+          partialJson[event.index] += event.delta.partial_json;
+        }
+        break;
+      }
+
+      case 'content_block_stop': {
+        const block = content[event.index];
+        if (block?.type === 'tool_use' && partialJson[event.index]) {
+          // Parsed, and repaired if need be, with the rest of the response
+          block.input = partialJson[event.index];
+        }
+        break;
+      }
+
+      case 'message_delta':
+        body.stop_reason = event.delta?.stop_reason;
+        Object.assign(usage, event.usage);
+        break;
+
+      case 'error':
+        throw new Error(`anthropic stream error: ${event.error?.message || data}`);
+    }
+  });
+
+  return body;
+}
+
+/**
+ * Create a provider that talks to the Anthropic Messages API
+ * @param options The provider options
+ * @returns The provider
+ */
+export function createAnthropicProvider(options: ProviderOptions = {}): LLMProvider {
+  const endpoint = options.endpoint || DEFAULT_ANTHROPIC_ENDPOINT;
+  const apiKey = options.apiKey || process.env.ANTHROPIC_API_KEY || '';
+
+  return {
+    name: 'anthropic',
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+      const { model, messages, tools = [], toolChoice, temperature, maxTokens, onDelta, signal } = request;
+      const { system, messages: anthropicMessages } = formatMessagesForAnthropic(messages);
+
+      const body: AnthropicRequestBody = {
+        model,
+        messages: anthropicMessages,
+        max_tokens: maxTokens ?? DEFAULT_ANTHROPIC_MAX_TOKENS,
+        temperature,
+        ...(system ? { system } : {}),
+      };
+
+      if (tools.length > 0 && toolChoice !== 'none') {
+        body.tools = tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: createToolParametersSchema(tool),
+        }));
+
+        if (typeof toolChoice === 'object') {
+          body.tool_choice = { type: 'tool', name: toolChoice.name };
+        }
+      }
+
+      if (onDelta) {
+        body.stream = true;
+      }
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': ANTHROPIC_API_VERSION,
+          ...options.headers,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        // Pass on how long the server asked us to wait before retrying
+        const retryAfterMs = parseRetryAfter(response.headers?.get('retry-after'));
+        throw new ApiError(
+          `anthropic API error: ${response.status} ${errorText}`,
+          response.status,
+          retryAfterMs !== undefined ? { retryAfterMs } : undefined
+        );
+      }
+
+      const responseBody: AnthropicResponseBody = onDelta
+        ? await readAnthropicStream(response, onDelta)
+        : await response.json();
+
+      return toChatResponse(responseBody, model);
+    },
+  };
+}
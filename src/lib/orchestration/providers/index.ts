@@ -0,0 +1,12 @@
+/**
+ * LLM Providers Module
+ *
+ * This module exports the provider interface, the built-in adapters and the
+ * registry used to select a provider by name.
+ */
+
+export * from './types';
+export * from './registry';
+export * from './openai';
+export * from './anthropic';
+export * from './mock';
@@ -0,0 +1,130 @@
+/**
+ * Scripted mock provider
+ *
+ * Returns pre-defined responses in order without touching the network, so
+ * orchestration can be exercised deterministically in tests and CI.
+ */
+
+import { OrchestrationUsage, ToolCall } from '../types';
+import { throwIfAborted } from '../cancellation';
+import { ChatRequest, ChatResponse, LLMProvider, TokenLogprob } from './types';
+
+/**
+ * One scripted model turn
+ */
+export interface MockProviderResponse {
+  /** The assistant text to return */
+  content?: string;
+  /** Tool calls to return; IDs are generated when omitted */
+  toolCalls?: Array<Omit<ToolCall, 'id'> & { id?: string }>;
+  /** Token usage to report; estimated from the text when omitted */
+  usage?: OrchestrationUsage;
+  /** Token log probabilities to return */
+  logprobs?: TokenLogprob[];
+  /** Fail this turn with the given error instead of responding */
+  error?: Error | string;
+}
+
+/**
+ * A script of responses, or a function choosing the response for each call
+ */
+export type MockProviderScript =
+  | MockProviderResponse[]
+  | ((request: ChatRequest, callIndex: number) => MockProviderResponse);
+
+/**
+ * A mock provider that also records the requests it received
+ */
+export interface MockProvider extends LLMProvider {
+  /** Every request passed to chat(), in order */
+  requests: ChatRequest[];
+}
+
+/**
+ * Estimate tokens deterministically for scripted turns without usage
+ * @param text The text to measure
+ * @returns A stable token estimate
+ */
+function estimateMockTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Create a scripted mock provider
+ *
+ * Without a script, the provider echoes the last user message back.
+ * @param script The responses to return, in order
+ * @returns The mock provider
+ */
+export function createMockProvider(script?: MockProviderScript): MockProvider {
+  const requests: ChatRequest[] = [];
+
+  const nextResponse = (request: ChatRequest, callIndex: number): MockProviderResponse => {
+    if (!script) {
+      const lastUser = [...request.messages].reverse().find((message) => message.role === 'user');
+      return { content: `Mock response to: ${lastUser?.content ?? ''}` };
+    }
+
+    if (typeof script === 'function') {
+      return script(request, callIndex);
+    }
+
+    if (callIndex >= script.length) {
+      throw new Error(`Mock provider script exhausted after ${script.length} responses`);
+    }
+
+    return script[callIndex];
+  };
+
+  return {
+    name: 'mock',
+    requests,
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+      throwIfAborted(request.signal);
+
+      const callIndex = requests.length;
+      requests.push(request);
+
+      const turn = nextResponse(request, callIndex);
+
+      if (turn.error) {
+        throw turn.error instanceof Error ? turn.error : new Error(turn.error);
+      }
+
+      const content = turn.content || '';
+
+      // Stream the content word by word when someone is listening
+      const { onDelta } = request;
+      if (onDelta && content) {
+        (content.match(/\s*\S+\s*/g) || [content]).forEach((delta) => onDelta(delta));
+      }
+
+      const toolCalls: ToolCall[] | undefined = turn.toolCalls?.map((toolCall, index) => ({
+        id: toolCall.id || `mock_call_${callIndex}_${index}`,
+        name: toolCall.name,
+        arguments: toolCall.arguments,
+      }));
+
+      const promptTokens = estimateMockTokens(
+        request.messages.map((message) => message.content).join('\n')
+      );
+      const completionTokens = estimateMockTokens(content + JSON.stringify(toolCalls || []));
+
+      return {
+        message: {
+          role: 'assistant',
+          content,
+          ...(toolCalls && toolCalls.length > 0 ? { toolCalls } : {}),
+        },
+        usage: turn.usage || {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+        finishReason: toolCalls && toolCalls.length > 0 ? 'tool_calls' : 'stop',
+        ...(turn.logprobs ? { logprobs: turn.logprobs } : {}),
+        model: request.model,
+      };
+    },
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * OpenAI chat-completions provider
+ *
+ * Also used for OpenAI-compatible servers such as Ollama and vLLM, which
+ * accept the same request and response shapes.
+ */
+
+import { ApiError } from '../../utils/error';
+import { parseRetryAfter } from '../retryPolicy';
+import { readChatCompletionStream } from '../streaming';
+import { formatMessagesForAPI, formatToolsForAPI, parseToolCalls } from '../utils';
+import { ChatRequest, ChatResponse, LLMProvider, ProviderOptions, TokenLogprob } from './types';
+
+/**
+ * Default OpenAI chat-completions endpoint
+ */
+export const DEFAULT_OPENAI_ENDPOINT = 'https://api.openai.com/v1/chat/completions';
+
+/**
+ * Default endpoint for a local OpenAI-compatible server (Ollama)
+ */
+export const DEFAULT_OPENAI_COMPATIBLE_ENDPOINT = 'http://localhost:11434/v1/chat/completions';
+
+/**
+ * The body of a chat-completions request
+ */
+interface OpenAIRequestBody {
+  model: string;
+  messages: ReturnType<typeof formatMessagesForAPI>;
+  temperature?: number;
+  max_tokens?: number;
+  tools?: ReturnType<typeof formatToolsForAPI>;
+  tool_choice?: { type: 'function'; function: { name: string } };
+  response_format?: { type: 'json_object' };
+  logprobs?: boolean;
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+}
+
+/**
+ * A tool call in a chat-completions response
+ */
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+/**
+ * The body of a chat-completions response
+ */
+export interface OpenAIResponseBody {
+  model?: string;
+  choices: {
+    message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason?: string | null;
+    logprobs?: { content?: TokenLogprob[] | null } | null;
+  }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+/**
+ * Convert a chat-completions response body into a normalized response
+ * @param body The response body
+ * @param model The requested model
+ * @returns The normalized response
+ */
+function toChatResponse(body: OpenAIResponseBody, model: string): ChatResponse {
+  const choice = body.choices[0];
+  const apiMessage = choice.message || {};
+
+  const response: ChatResponse = {
+    message: {
+      role: 'assistant',
+      content: apiMessage.content || '',
+    },
+    finishReason: choice.finish_reason || undefined,
+    model,
+    rawResponse: body,
+  };
+
+  if (Array.isArray(choice.logprobs?.content)) {
+    response.logprobs = choice.logprobs.content.map((entry) => ({
+      token: entry.token,
+      logprob: entry.logprob,
+    }));
+  }
+
+  if (apiMessage.tool_calls && apiMessage.tool_calls.length > 0) {
+    response.message.toolCalls = parseToolCalls(apiMessage.tool_calls);
+  }
+
+  if (body.usage) {
+    response.usage = {
+      promptTokens: body.usage.prompt_tokens || 0,
+      completionTokens: body.usage.completion_tokens || 0,
+      totalTokens: body.usage.total_tokens || 0,
+    };
+  }
+
+  return response;
+}
+
+/**
+ * Create a provider that talks to the OpenAI chat-completions API
+ * @param options The provider options
+ * @param name The name to report for the provider
+ * @returns The provider
+ */
+export function createOpenAIProvider(
+  options: ProviderOptions = {},
+  name: string = 'openai'
+): LLMProvider {
+  const endpoint = options.endpoint || DEFAULT_OPENAI_ENDPOINT;
+  const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+
+  return {
+    name,
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+      const {
+        model,
+        messages,
+        tools = [],
+        toolChoice,
+        temperature,
+        maxTokens,
+        responseFormat,
+        logprobs,
+        onDelta,
+        signal,
+      } = request;
+
+      const body: OpenAIRequestBody = {
+        model,
+        messages: formatMessagesForAPI(messages),
+        temperature,
+        max_tokens: maxTokens,
+      };
+
+      if (tools.length > 0 && toolChoice !== 'none') {
+        body.tools = formatToolsForAPI(tools);
+
+        if (typeof toolChoice === 'object') {
+          body.tool_choice = { type: 'function', function: { name: toolChoice.name } };
+        }
+      }
+
+      if (responseFormat === 'json') {
+        body.response_format = { type: 'json_object' };
+      }
+
+      if (logprobs) {
+        body.logprobs = true;
+      }
+
+      if (onDelta) {
+        body.stream = true;
+        body.stream_options = { include_usage: true };
+      }
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          ...options.headers,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        // Pass on how long the server asked us to wait before retrying
+        const retryAfterMs = parseRetryAfter(response.headers?.get('retry-after'));
+        throw new ApiError(
+          `${name} API error: ${response.status} ${errorText}`,
+          response.status,
+          retryAfterMs !== undefined ? { retryAfterMs } : undefined
+        );
+      }
+
+      const responseBody: OpenAIResponseBody = onDelta
+        ? await readChatCompletionStream(response, onDelta)
+        : await response.json();
+
+      return toChatResponse(responseBody, model);
+    },
+  };
+}
+
+/**
+ * Create a provider for a local OpenAI-compatible server such as Ollama or vLLM
+ * @param options The provider options; the API key is optional
+ * @returns The provider
+ */
+export function createOpenAICompatibleProvider(options: ProviderOptions = {}): LLMProvider {
+  return createOpenAIProvider(
+    {
+      ...options,
+      endpoint:
+        options.endpoint ||
+        process.env.OPENAI_COMPATIBLE_ENDPOINT ||
+        DEFAULT_OPENAI_COMPATIBLE_ENDPOINT,
+      apiKey: options.apiKey ?? process.env.OPENAI_COMPATIBLE_API_KEY ?? '',
+    },
+    'openai-compatible'
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * LLM Provider Registry Module
+ *
+ * This module maps provider names to factories so that model configurations
+ * can select a backend by name.
+ */
+
+import { createAnthropicProvider } from './anthropic';
+import { createMockProvider } from './mock';
+import { createOpenAIProvider, createOpenAICompatibleProvider } from './openai';
+import { LLMProvider, ProviderFactory, ProviderOptions } from './types';
+
+/**
+ * Name of the provider used when a configuration does not name one
+ */
+export const DEFAULT_PROVIDER = 'openai';
+
+/**
+ * Registry of provider factories
+ */
+const providerFactories = new Map<string, ProviderFactory>([
+  ['openai', (options) => createOpenAIProvider(options)],
+  ['anthropic', (options) => createAnthropicProvider(options)],
+  ['openai-compatible', (options) => createOpenAICompatibleProvider(options)],
+  ['mock', () => createMockProvider()],
+]);
+
+/**
+ * Register a provider factory, replacing any existing one with the same name
+ * @param name The name of the provider
+ * @param factory The factory function
+ */
+export function registerProviderFactory(name: string, factory: ProviderFactory): void {
+  providerFactories.set(name, factory);
+}
+
+/**
+ * Check whether a provider is registered
+ * @param name The name of the provider
+ * @returns True if a factory is registered under the name
+ */
+export function hasProvider(name: string): boolean {
+  return providerFactories.has(name);
+}
+
+/**
+ * Get the factory registered under a name
+ * @param name The name of the provider
+ * @returns The factory, or undefined if none is registered
+ */
+export function getProviderFactory(name: string): ProviderFactory | undefined {
+  return providerFactories.get(name);
+}
+
+/**
+ * Get the names of all registered providers
+ * @returns The provider names
+ */
+export function getProviderNames(): string[] {
+  return Array.from(providerFactories.keys());
+}
+
+/**
+ * Create a provider using a registered factory
+ * @param name The name of the provider (default: 'openai')
+ * @param options Options passed to the factory
+ * @returns The created provider
+ * @throws Error if the provider is not registered
+ */
+export function createProvider(
+  name: string = DEFAULT_PROVIDER,
+  options?: ProviderOptions
+): LLMProvider {
+  const factory = providerFactories.get(name);
+
+  if (!factory) {
+    throw new Error(`LLM provider '${name}' is not registered`);
+  }
+
+  return factory(options);
+}
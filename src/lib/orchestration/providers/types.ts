@@ -0,0 +1,86 @@
+/**
+ * LLM provider type definitions
+ */
+
+import { Message, Tool, OrchestrationUsage } from '../types';
+
+/**
+ * A generated token and its log probability
+ */
+export interface TokenLogprob {
+  /** The token text */
+  token: string;
+  /** The natural log of the token's probability */
+  logprob: number;
+}
+
+/**
+ * A request for a single chat completion
+ */
+export interface ChatRequest {
+  /** The model to use */
+  model: string;
+  /** The conversation so far */
+  messages: Message[];
+  /** The tools the model may call */
+  tools?: Tool[];
+  /** Force a call to the named tool, or disable tool calls with 'none' */
+  toolChoice?: 'auto' | 'none' | { name: string };
+  /** The temperature to use */
+  temperature?: number;
+  /** The maximum number of tokens to generate */
+  maxTokens?: number;
+  /** Ask for a JSON object instead of free text; providers without a JSON mode rely on the prompt */
+  responseFormat?: 'text' | 'json';
+  /** Ask for the log probability of each generated token; providers without them ignore this */
+  logprobs?: boolean;
+  /** Listener for streamed text; when set, the provider streams its response */
+  onDelta?: (delta: string) => void;
+  /** Aborts the request when signalled */
+  signal?: AbortSignal;
+}
+
+/**
+ * The normalized result of a chat completion
+ */
+export interface ChatResponse {
+  /** The assistant message, including any parsed tool calls */
+  message: Message;
+  /** Token usage reported by the provider, if any */
+  usage?: OrchestrationUsage;
+  /** Why the model stopped generating */
+  finishReason?: string;
+  /** The generated tokens with their log probabilities, when requested and supported */
+  logprobs?: TokenLogprob[];
+  /** The model that produced the response */
+  model: string;
+  /** The raw response body from the provider */
+  rawResponse?: unknown;
+}
+
+/**
+ * A chat model backend: OpenAI, Anthropic, a local server or a mock
+ */
+export interface LLMProvider {
+  /** The name the provider is registered under */
+  name: string;
+  /** Run a chat completion, with tool calling and optional streaming */
+  chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+/**
+ * Options used to construct a provider
+ */
+export interface ProviderOptions {
+  /** The API key */
+  apiKey?: string;
+  /** The API endpoint */
+  endpoint?: string;
+  /** Extra headers to send with each request */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Provider factory function type
+ */
+export type ProviderFactory = (options?: ProviderOptions) => LLMProvider;
@@ -1,4 +1,11 @@
 import { RetryOptions } from './types';
+import { isAbortError, throwIfAborted, RunCancelledError } from './cancellation';
+import { classifyError, getRetryBudget, isRetriesExhausted, markRetriesExhausted } from './retryPolicy';
+
+/**
+ * Longest server-requested delay to wait for when none is configured
+ */
+const DEFAULT_MAX_RETRY_AFTER_MS = 30000;
 
 /**
  * Default retry options
@@ -8,15 +15,33 @@ export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
   initialDelayMs: 1000,
   backoffFactor: 2,
   maxDelayMs: 10000,
+  jitter: 'full',
+  maxRetryAfterMs: DEFAULT_MAX_RETRY_AFTER_MS,
 };
 
 /**
  * Sleep for a specified number of milliseconds
  * @param ms The number of milliseconds to sleep
+ * @param signal Optional abort signal that ends the sleep early
  * @returns A promise that resolves after the specified time
  */
-const sleep = (ms: number): Promise<void> => {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RunCancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RunCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 };
 
 /**
@@ -33,40 +58,98 @@ export const calculateRetryDelay = (
   return Math.min(delay, options.maxDelayMs);
 };
 
+/**
+ * Randomise a retry delay
+ * @param delay The delay in milliseconds
+ * @param jitter The jitter strategy: none, full (0 to delay) or equal (half to delay)
+ * @param random The random number source
+ * @returns The randomised delay in milliseconds
+ */
+export const applyJitter = (
+  delay: number,
+  jitter: RetryOptions['jitter'] = 'full',
+  random: () => number = Math.random
+): number => {
+  if (jitter === 'none') {
+    return delay;
+  }
+  if (jitter === 'equal') {
+    return Math.round(delay / 2 + random() * (delay / 2));
+  }
+  return Math.round(random() * delay);
+};
+
 /**
  * Execute a function with retry logic
+ *
+ * Only errors classified as retryable are retried; a server-supplied delay is
+ * used instead of the backoff when present, and every retry is taken from the
+ * retry budget of the run, if there is one.
  * @param fn The function to execute
  * @param options The retry options
+ * @param signal Optional abort signal; cancellation is never retried
  * @returns The result of the function
  * @throws The last error encountered if all retries fail
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
-  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  signal?: AbortSignal
 ): Promise<T> {
+  const maxRetryAfterMs = options.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS;
+  const budget = options.budget ?? getRetryBudget(signal);
   let lastError: Error | undefined;
+  let delay = 0;
 
   for (let attempt = 0; attempt <= options.maxRetries; attempt++) {
     try {
       // If this is a retry attempt, wait before trying again
       if (attempt > 0) {
-        const delay = calculateRetryDelay(attempt - 1, options);
-        await sleep(delay);
+        await sleep(delay, signal);
       }
 
       // Execute the function
+      throwIfAborted(signal);
       return await fn();
     } catch (error) {
       // Store the error for potential re-throw
       lastError = error instanceof Error ? error : new Error(String(error));
-      
+
+      // A cancelled run must stop immediately
+      if (isAbortError(lastError) || signal?.aborted) {
+        throw lastError;
+      }
+
       // Log the error and retry information
       console.error(`Attempt ${attempt + 1}/${options.maxRetries + 1} failed:`, lastError);
-      
-      // If this was the last attempt, we'll fall through and throw the error
+
+      if (attempt === options.maxRetries) {
+        break;
+      }
+
+      // Give up at once on errors that cannot succeed, or that an inner call already retried
+      const { kind, retryable, retryAfterMs } = classifyError(lastError);
+      if (!retryable || isRetriesExhausted(lastError)) {
+        console.error(`Not retrying ${kind} error`);
+        break;
+      }
+
+      if (retryAfterMs !== undefined && retryAfterMs > maxRetryAfterMs) {
+        console.error(`Not retrying: the server asked to wait ${retryAfterMs}ms`);
+        break;
+      }
+
+      if (budget && !budget.tryConsume()) {
+        console.error('Not retrying: the retry budget for this run is used up');
+        break;
+      }
+
+      delay = retryAfterMs ?? applyJitter(calculateRetryDelay(attempt, options), options.jitter);
     }
   }
 
   // If we get here, all attempts failed
-  throw lastError || new Error('All retry attempts failed');
+  const finalError = lastError || new Error('All retry attempts failed');
+  markRetriesExhausted(finalError);
+  throw finalError;
 }
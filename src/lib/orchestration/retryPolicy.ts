@@ -0,0 +1,235 @@
+/**
+ * Retry policy for orchestration calls
+ *
+ * Decides whether a failed call is worth retrying and how long to wait first.
+ * Errors are classified by HTTP status, network failure, timeout or their
+ * own `retryable` flag, as on `ToolError`; server-supplied `Retry-After` delays are honoured;
+ * and every retry in a run draws on a shared retry budget, so retries cannot
+ * multiply across nested calls.
+ */
+
+import { ToolError } from '../utils/error';
+import { isAbortError } from './cancellation';
+
+/**
+ * What kind of failure an error represents
+ */
+export type RetryErrorKind =
+  | 'rate_limit'
+  | 'server'
+  | 'timeout'
+  | 'network'
+  | 'auth'
+  | 'client'
+  | 'tool'
+  | 'circuit_open'
+  | 'cancelled'
+  | 'unknown';
+
+/**
+ * How an error should be retried
+ */
+export interface ErrorClassification {
+  /** What kind of failure the error represents */
+  kind: RetryErrorKind;
+  /** Whether the call may succeed if retried */
+  retryable: boolean;
+  /** The delay requested by the server, in milliseconds */
+  retryAfterMs?: number;
+}
+
+/**
+ * Default number of retries a single run may make across all of its calls
+ */
+export const DEFAULT_RUN_RETRY_BUDGET = 10;
+
+/**
+ * Network error codes from Node and undici that are worth retrying
+ */
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+/**
+ * Parse a Retry-After header value
+ * @param value The header value: a number of seconds or an HTTP date
+ * @param now The current time in milliseconds
+ * @returns The delay in milliseconds, or undefined if the value is not valid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Read a property of an error, whatever was thrown
+ * @param error The error
+ * @param key The name of the property
+ * @returns The value of the property, or undefined if the error is not an object
+ */
+function getErrorProperty(error: unknown, key: string): unknown {
+  return typeof error === 'object' && error !== null ? (error as Record<string, unknown>)[key] : undefined;
+}
+
+/**
+ * Get the HTTP status carried by an error, if any
+ * @param error The error
+ * @returns The status code, or undefined
+ */
+function getStatusCode(error: unknown): number | undefined {
+  const status = getErrorProperty(error, 'statusCode') ?? getErrorProperty(error, 'status');
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Classify an error to decide whether and when to retry it
+ * @param error The error to classify
+ * @returns The classification
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (isAbortError(error)) {
+    return { kind: 'cancelled', retryable: false };
+  }
+
+  // Matched by name, as the circuit breaker module depends on this one
+  if (getErrorProperty(error, 'name') === 'CircuitOpenError') {
+    return { kind: 'circuit_open', retryable: false };
+  }
+
+  if (error instanceof ToolError) {
+    return { kind: 'tool', retryable: error.retryable };
+  }
+
+  const status = getStatusCode(error);
+  if (status !== undefined) {
+    const retryAfterMs = getErrorProperty(getErrorProperty(error, 'details'), 'retryAfterMs');
+    const withDelay = typeof retryAfterMs === 'number' ? { retryAfterMs } : {};
+
+    if (status === 429) return { kind: 'rate_limit', retryable: true, ...withDelay };
+    if (status === 408 || status === 504) return { kind: 'timeout', retryable: true, ...withDelay };
+    if (status >= 500) return { kind: 'server', retryable: true, ...withDelay };
+    if (status === 401 || status === 403) return { kind: 'auth', retryable: false };
+    if (status >= 400) return { kind: 'client', retryable: false };
+  }
+
+  const code = getErrorProperty(error, 'code') ?? getErrorProperty(getErrorProperty(error, 'cause'), 'code');
+  const name = getErrorProperty(error, 'name');
+  if (name === 'TimeoutError' || code === 'ETIMEDOUT') {
+    return { kind: 'timeout', retryable: true };
+  }
+  if (
+    (typeof code === 'string' && RETRYABLE_NETWORK_CODES.has(code)) ||
+    (error instanceof TypeError && /fetch failed|network/i.test(error.message))
+  ) {
+    return { kind: 'network', retryable: true };
+  }
+
+  // Errors we know nothing about keep the previous behaviour and are retried,
+  // unless they say they cannot succeed
+  return { kind: 'unknown', retryable: getErrorProperty(error, 'retryable') !== false };
+}
+
+/**
+ * A number of retries shared by every call in a run
+ */
+export interface RetryBudget {
+  /** The retries left */
+  readonly remaining: number;
+  /** The retries used so far */
+  readonly used: number;
+  /**
+   * Take one retry from the budget
+   * @returns Whether a retry was available
+   */
+  tryConsume(): boolean;
+}
+
+/**
+ * Create a retry budget
+ * @param maxRetries The number of retries the budget allows
+ * @returns The retry budget
+ */
+export function createRetryBudget(maxRetries: number = DEFAULT_RUN_RETRY_BUDGET): RetryBudget {
+  let used = 0;
+
+  return {
+    get remaining() {
+      return Math.max(0, maxRetries - used);
+    },
+    get used() {
+      return used;
+    },
+    tryConsume() {
+      if (used >= maxRetries) {
+        return false;
+      }
+      used++;
+      return true;
+    },
+  };
+}
+
+/**
+ * Retry budgets by the abort signal of the run they belong to
+ */
+const retryBudgets = new WeakMap<AbortSignal, RetryBudget>();
+
+/**
+ * Share a retry budget with every retried call that receives a run's signal
+ * @param signal The run's abort signal
+ * @param budget The retry budget for the run
+ */
+export function attachRetryBudget(signal: AbortSignal, budget: RetryBudget): void {
+  retryBudgets.set(signal, budget);
+}
+
+/**
+ * Get the retry budget of the run a signal belongs to
+ * @param signal The abort signal passed to the call, if any
+ * @returns The run's retry budget, or undefined if it has none
+ */
+export function getRetryBudget(signal?: AbortSignal): RetryBudget | undefined {
+  return signal ? retryBudgets.get(signal) : undefined;
+}
+
+/**
+ * Errors that were already retried as far as allowed
+ */
+const exhaustedErrors = new WeakSet<Error>();
+
+/**
+ * Mark an error as having used up its retries, so outer retry loops give up
+ * @param error The error
+ */
+export function markRetriesExhausted(error: Error): void {
+  exhaustedErrors.add(error);
+}
+
+/**
+ * Check whether an error has already used up its retries
+ * @param error The error
+ * @returns Whether an inner retry loop already gave up on the error
+ */
+export function isRetriesExhausted(error: unknown): boolean {
+  return error instanceof Error && exhaustedErrors.has(error);
+}
@@ -0,0 +1,250 @@
+/**
+ * Instruction router
+ *
+ * Before a run starts, the router classifies the instruction by complexity
+ * and domain with the nano classifier, then picks a model tier and the subset
+ * of tools relevant to it. Routing rules are declarative: the first rule whose
+ * conditions match the classification wins, so cheap tasks never reach the
+ * expensive model or see every registered tool.
+ */
+
+import { classifyText, NanoClassifierConfig } from './nanoClassifier';
+import { renderPrompt, ROUTER_COMPLEXITY_PROMPT, ROUTER_DOMAIN_PROMPT } from './promptTemplates';
+import { ExtendedTool } from '../tools/types';
+import { logger } from '../utils/logger';
+import { GPT41Config, OrchestrationUsage, Tool } from './types';
+
+/**
+ * How demanding an instruction is
+ */
+export type TaskComplexity = 'simple' | 'moderate' | 'complex';
+
+/**
+ * The complexity labels, from least to most demanding
+ */
+export const TASK_COMPLEXITIES: TaskComplexity[] = ['simple', 'moderate', 'complex'];
+
+/**
+ * A routing rule: when its conditions match, the run uses its tier and tools
+ */
+export interface RoutingRule {
+  /** The name of the rule, reported in the route */
+  name: string;
+  /** Conditions on the classification; omitted conditions match anything */
+  when?: {
+    /** Complexities the rule applies to */
+    complexity?: TaskComplexity[];
+    /** Domains the rule applies to */
+    domain?: string[];
+  };
+  /** The model tier to use, by name */
+  tier: string;
+  /** The tools to offer; omit to offer every available tool */
+  tools?: {
+    /** Tool categories to include */
+    categories?: string[];
+    /** Tool names to include */
+    names?: string[];
+  };
+}
+
+/**
+ * Configuration for the router
+ */
+export interface RouterConfig {
+  /** Model tiers by name; each overrides the run's model configuration */
+  tiers: Record<string, Partial<GPT41Config>>;
+  /** The domains to classify instructions into, with a description of each */
+  domains: Record<string, string>;
+  /** The routing rules, in order of precedence */
+  rules: RoutingRule[];
+  /** Configuration for the nano classifier */
+  classifier?: Partial<NanoClassifierConfig>;
+}
+
+/**
+ * The route chosen for an instruction
+ */
+export interface RouteDecision {
+  /** The name of the rule that matched, or 'default' if none did */
+  rule: string;
+  /** The model tier chosen */
+  tier: string;
+  /** The model the run uses */
+  model: string;
+  /** The classified complexity, if classification succeeded */
+  complexity?: TaskComplexity;
+  /** The classified domain, if classification succeeded */
+  domain?: string;
+  /** Whether the instruction was classified; if not, only unconditional rules apply */
+  classified: boolean;
+  /** The names of the tools offered to the model */
+  tools: string[];
+  /** The number of tools that were available before routing */
+  availableToolCount: number;
+  /** Tokens spent on classification */
+  usage: OrchestrationUsage;
+}
+
+/**
+ * The tier used when no rule matches
+ */
+const DEFAULT_TIER = 'standard';
+
+/**
+ * Default router configuration
+ *
+ * Simple tasks go to a smaller model; anything else keeps the run's model.
+ */
+export const DEFAULT_ROUTER_CONFIG: RouterConfig = {
+  tiers: {
+    fast: { model: 'gpt-4.1-mini' },
+    standard: {},
+  },
+  domains: {
+    general: 'conversation, questions and writing that need no external data',
+    research: 'looking up current information on the web or from external services',
+    communication: 'sending or drafting messages, emails and notifications',
+    data: 'calculations, transforming or analysing data',
+    files: 'reading, writing or organising files',
+  },
+  rules: [
+    { name: 'simple-general', when: { complexity: ['simple'], domain: ['general'] }, tier: 'fast', tools: { names: [] } },
+    { name: 'research', when: { domain: ['research'] }, tier: DEFAULT_TIER, tools: { categories: ['external_api', 'utility'] } },
+    { name: 'communication', when: { domain: ['communication'] }, tier: DEFAULT_TIER, tools: { categories: ['communication', 'utility'] } },
+    { name: 'data', when: { domain: ['data'] }, tier: DEFAULT_TIER, tools: { categories: ['data_processing', 'utility'] } },
+    { name: 'files', when: { domain: ['files'] }, tier: DEFAULT_TIER, tools: { categories: ['file_system', 'utility'] } },
+  ],
+};
+
+/**
+ * Find the first rule matching a classification
+ * @param rules The routing rules, in order of precedence
+ * @param complexity The classified complexity, if any
+ * @param domain The classified domain, if any
+ * @returns The matching rule, or undefined if none matches
+ */
+export function matchRoutingRule(
+  rules: RoutingRule[],
+  complexity?: TaskComplexity,
+  domain?: string
+): RoutingRule | undefined {
+  return rules.find(({ when = {} }) => {
+    if (when.complexity && !(complexity && when.complexity.includes(complexity))) {
+      return false;
+    }
+    if (when.domain && !(domain && when.domain.includes(domain))) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Select the tools a rule offers
+ * @param tools The available tools
+ * @param rule The rule that matched, if any
+ * @returns The tools to offer to the model
+ */
+export function selectRouteTools(tools: Tool[], rule?: RoutingRule): Tool[] {
+  if (!rule?.tools) {
+    return tools;
+  }
+
+  const { categories = [], names = [] } = rule.tools;
+  return tools.filter((tool) => {
+    const category = (tool as Partial<ExtendedTool>).category;
+    return names.includes(tool.name) || (category !== undefined && categories.includes(category));
+  });
+}
+
+/**
+ * Apply a route to a run's tools and model configuration
+ * @param route The chosen route
+ * @param tools The available tools
+ * @param config The run's model configuration
+ * @param routerConfig The router configuration the route was chosen with
+ * @returns The tools and model configuration for the run
+ */
+export function applyRoute(
+  route: RouteDecision,
+  tools: Tool[],
+  config: GPT41Config,
+  routerConfig: RouterConfig = DEFAULT_ROUTER_CONFIG
+): { tools: Tool[]; config: GPT41Config } {
+  return {
+    tools: tools.filter((tool) => route.tools.includes(tool.name)),
+    config: { ...config, ...routerConfig.tiers[route.tier], model: route.model },
+  };
+}
+
+/**
+ * Classify an instruction and choose its model tier and tools
+ *
+ * Classification failures are not fatal: the instruction is routed with only
+ * the rules that have no conditions, or to the default tier with every tool.
+ * @param instruction The instruction to route
+ * @param tools The available tools
+ * @param config The run's model configuration
+ * @param routerConfig The router configuration
+ * @param userId Optional user ID for token usage logging
+ * @returns The chosen route
+ */
+export async function routeInstruction(
+  instruction: string,
+  tools: Tool[],
+  config: GPT41Config,
+  routerConfig: RouterConfig = DEFAULT_ROUTER_CONFIG,
+  userId?: string
+): Promise<RouteDecision> {
+  const domains = Object.keys(routerConfig.domains);
+  const usage: OrchestrationUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  let complexity: TaskComplexity | undefined;
+  let domain: string | undefined;
+  try {
+    const [complexityPrompt, domainPrompt] = await Promise.all([
+      renderPrompt(ROUTER_COMPLEXITY_PROMPT, {}, { userId }),
+      renderPrompt(
+        ROUTER_DOMAIN_PROMPT,
+        { domains: domains.map((name) => `- ${name}: ${routerConfig.domains[name]}`).join('\n') },
+        { userId }
+      ),
+    ]);
+    const [complexityResult, domainResult] = await Promise.all([
+      classifyText(instruction, TASK_COMPLEXITIES, complexityPrompt.content, routerConfig.classifier, userId),
+      classifyText(instruction, domains, domainPrompt.content, routerConfig.classifier, userId),
+    ]);
+
+    // A classifier that abstains leaves its side of the rules unmatched
+    complexity = complexityResult.abstained ? undefined : complexityResult.label;
+    domain = domainResult.abstained ? undefined : domainResult.label;
+    for (const result of [complexityResult, domainResult]) {
+      usage.promptTokens += result.usage.promptTokens;
+      usage.completionTokens += result.usage.completionTokens;
+      usage.totalTokens += result.usage.totalTokens;
+    }
+  } catch (error) {
+    logger.warn('Instruction classification failed, routing without it', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const rule = matchRoutingRule(routerConfig.rules, complexity, domain);
+  const tier = rule?.tier ?? DEFAULT_TIER;
+  const route: RouteDecision = {
+    rule: rule?.name ?? 'default',
+    tier,
+    model: routerConfig.tiers[tier]?.model ?? config.model,
+    ...(complexity ? { complexity } : {}),
+    ...(domain ? { domain } : {}),
+    classified: complexity !== undefined,
+    tools: selectRouteTools(tools, rule).map((tool) => tool.name),
+    availableToolCount: tools.length,
+    usage,
+  };
+
+  logger.info('Routed instruction', { userId, ...route });
+
+  return route;
+}
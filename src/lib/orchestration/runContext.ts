@@ -0,0 +1,51 @@
+/**
+ * Run context for nested orchestrations
+ *
+ * A run shares what a sub-agent started from one of its tools needs to know
+ * about it (who it runs for, how deeply it is nested, the budgets it draws
+ * on) through its abort signal, the one value every tool receives.
+ */
+
+import type { BudgetTracker } from './budget';
+import type { RetryBudget } from './retryPolicy';
+
+/**
+ * What a run shares with the sub-agents it delegates to
+ */
+export interface RunContext {
+  /** The ID of the run */
+  runId: string;
+  /** The user the run belongs to; sub-agent usage is billed to them */
+  userId: string;
+  /** How deeply the run is nested: 0 for a top-level run, 1 for its sub-agents, and so on */
+  depth: number;
+  /** Whether the run and its trace are stored */
+  persist: boolean;
+  /** The budget the run draws on; sub-agent tokens are counted against it */
+  budget: BudgetTracker;
+  /** The retry budget the run draws on; sub-agents take their retries from it */
+  retryBudget: RetryBudget;
+}
+
+/**
+ * Run contexts by the abort signal of the run they belong to
+ */
+const runContexts = new WeakMap<AbortSignal, RunContext>();
+
+/**
+ * Share a run's context with every tool that receives its signal
+ * @param signal The run's abort signal
+ * @param context The context of the run
+ */
+export function attachRunContext(signal: AbortSignal, context: RunContext): void {
+  runContexts.set(signal, context);
+}
+
+/**
+ * Get the context of the run a signal belongs to
+ * @param signal The abort signal passed to the tool, if any
+ * @returns The run's context, or undefined if the signal does not belong to a run
+ */
+export function getRunContext(signal?: AbortSignal): RunContext | undefined {
+  return signal ? runContexts.get(signal) : undefined;
+}
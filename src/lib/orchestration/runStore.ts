@@ -0,0 +1,635 @@
+/**
+ * Run Persistence Module
+ *
+ * This module records every orchestration run in the `runs` table together
+ * with a step-level trace in `run_steps`: each model call (messages in and
+ * out, model, token usage, latency) and each tool call (arguments, result,
+ * error, duration).
+ */
+
+import { randomUUID } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { Database, Json } from '../types/database.types';
+import { SUPABASE_URL, SUPABASE_SERVICE_KEY } from '../config/env';
+import { ApiError } from '../utils/error';
+import { cancelActiveRun } from './cancellation';
+import type { RenderedPrompt } from './promptTemplates';
+import {
+  ApprovalDecision,
+  Message,
+  OrchestrationCheckpoint,
+  OrchestrationResult,
+  OrchestrationUsage,
+  StopReason,
+  ToolCall,
+  ToolCallResult,
+} from './types';
+
+// Initialize Supabase client
+let supabase: ReturnType<typeof createClient<Database>> | null = null;
+
+try {
+  // Use service role key for admin operations
+  supabase = createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+} catch (error) {
+  console.error('Failed to initialize Supabase client for runs:', error);
+}
+
+// For testing purposes
+let _supabaseClientForTesting: ReturnType<typeof createClient<Database>> | null = null;
+
+export function setSupabaseClientForTesting(client: ReturnType<typeof createClient<Database>> | null) {
+  _supabaseClientForTesting = client;
+}
+
+function getSupabaseClient() {
+  return _supabaseClientForTesting || supabase;
+}
+
+/**
+ * The lifecycle state of a run
+ */
+export type RunStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'awaiting_approval'
+  | 'cancelled';
+
+/**
+ * Get the status a run ends in
+ * @param stopReason Why the run stopped
+ * @returns The status of the run
+ */
+export function getRunStatusForStopReason(stopReason: StopReason): RunStatus {
+  if (stopReason === 'awaiting_approval') return 'awaiting_approval';
+  if (stopReason === 'error' || stopReason === 'invalid_output') return 'failed';
+  if (stopReason === 'cancelled') return 'cancelled';
+  return 'completed';
+}
+
+/**
+ * A run row as stored in the database
+ */
+export type RunRecord = Database['public']['Tables']['runs']['Row'];
+
+/**
+ * A run step row as stored in the database
+ */
+export type RunStepRecord = Database['public']['Tables']['run_steps']['Row'];
+
+/**
+ * One step of a run trace
+ */
+export interface RunStep {
+  /** The position of the step in the run */
+  stepIndex: number;
+  /** Whether the step is a model call or a tool call */
+  stepType: 'model_call' | 'tool_call';
+  /** The orchestration loop iteration the step belongs to */
+  iteration: number;
+  /** The model that was called (model calls only) */
+  model?: string;
+  /** The tool that was called (tool calls only) */
+  toolName?: string;
+  /** The ID of the tool call (tool calls only) */
+  toolCallId?: string;
+  /** The messages sent to the model, or the tool arguments */
+  input: unknown;
+  /** The assistant message, or the tool result */
+  output: unknown;
+  /** The error message, if the step failed */
+  error?: string;
+  /** Token usage reported for the model call */
+  usage?: OrchestrationUsage;
+  /** How long the step took in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Convert a value to JSON that can be stored in a JSONB column
+ * @param value The value to convert
+ * @returns The JSON value, or a description if it cannot be serialized
+ */
+function toJson(value: unknown): Json {
+  if (value === undefined) return null;
+
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return { unserializable: String(value) };
+  }
+}
+
+/**
+ * A query on runs that can be filtered by the stored approval decisions
+ */
+interface DecisionsFilter<Q> {
+  is(column: 'approval_decisions', value: null): Q;
+  eq(column: 'approval_decisions', value: string): Q;
+}
+
+/**
+ * Restrict a query on runs to rows whose approval decisions are unchanged
+ * @param query The query to restrict
+ * @param previous The stored decisions the caller read
+ * @returns The restricted query
+ */
+function matchDecisions<Q extends DecisionsFilter<Q>>(query: Q, previous: Json | null): Q {
+  return previous === null
+    ? query.is('approval_decisions', null)
+    : query.eq('approval_decisions', JSON.stringify(previous));
+}
+
+/**
+ * Records a single orchestration run and its trace
+ *
+ * Writes are queued so that steps are stored in order after the run row
+ * exists. A storage failure is logged and never interrupts the run.
+ */
+export class RunRecorder {
+  /** The ID of the run */
+  readonly id: string;
+  /** The steps recorded so far */
+  readonly steps: RunStep[] = [];
+
+  private readonly userId: string;
+  private readonly persist: boolean;
+  private readonly parentRunId: string | null;
+  private readonly depth: number;
+  private stepOffset = 0;
+  private iteration = 0;
+  private usage: OrchestrationUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a recorder for a new run
+   * @param userId The user the run belongs to
+   * @param options Whether to store the run (default: true), an optional run ID and,
+   * for a sub-agent run, the run it is nested under and its depth
+   */
+  constructor(
+    userId: string,
+    options: { persist?: boolean; runId?: string; parentRunId?: string; depth?: number } = {}
+  ) {
+    this.id = options.runId || randomUUID();
+    this.userId = userId;
+    this.persist = options.persist ?? true;
+    this.parentRunId = options.parentRunId ?? null;
+    this.depth = options.depth ?? 0;
+  }
+
+  /**
+   * Record the start of the run, creating its row or updating the row of a
+   * queued run
+   * @param instruction The user's instruction
+   * @param systemPrompt The system prompt sent to the model
+   * @param model The model used for the run
+   * @param prompt The template versions the system prompt was rendered from, if it was
+   */
+  start(instruction: string, systemPrompt: string, model: string, prompt?: RenderedPrompt): void {
+    this.enqueue(async (client) => {
+      const { error } = await client.from('runs').upsert({
+        id: this.id,
+        user_id: this.userId,
+        instruction,
+        system_prompt: systemPrompt,
+        model,
+        status: 'running',
+        parent_run_id: this.parentRunId,
+        depth: this.depth,
+        prompt_template: prompt?.template ?? null,
+        prompt_version: prompt?.version ?? null,
+        prompt_versions: toJson(prompt?.versions ?? null),
+        persona: prompt?.persona ?? null,
+        started_at: new Date().toISOString(),
+      });
+      if (error) throw error;
+    });
+  }
+
+  /**
+   * Continue recording a run that paused for approval
+   * @param checkpoint The state saved when the run paused
+   */
+  continueFrom(checkpoint: OrchestrationCheckpoint): void {
+    this.stepOffset = checkpoint.traceSteps;
+    this.iteration = checkpoint.stepsUsed;
+    this.usage = { ...checkpoint.usage };
+  }
+
+  /**
+   * The number of trace steps recorded for the run, including before a pause
+   */
+  get stepCount(): number {
+    return this.stepOffset + this.steps.length;
+  }
+
+  /**
+   * The token usage recorded for the run, including before a pause
+   */
+  get totalUsage(): OrchestrationUsage {
+    return { ...this.usage };
+  }
+
+  /**
+   * Record a model call
+   * @param model The model that was called
+   * @param messages The messages sent to the model
+   * @param message The assistant message that came back, if any
+   * @param usage The token usage for the call, if reported
+   * @param durationMs How long the call took
+   * @param error The error, if the call failed
+   */
+  recordModelCall(
+    model: string,
+    messages: Message[],
+    message: Message | undefined,
+    usage: OrchestrationUsage | undefined,
+    durationMs: number,
+    error?: Error
+  ): void {
+    this.iteration += 1;
+
+    if (usage) {
+      this.usage = {
+        promptTokens: this.usage.promptTokens + usage.promptTokens,
+        completionTokens: this.usage.completionTokens + usage.completionTokens,
+        totalTokens: this.usage.totalTokens + usage.totalTokens,
+      };
+    }
+
+    this.addStep({
+      stepType: 'model_call',
+      iteration: this.iteration,
+      model,
+      input: [...messages],
+      output: message,
+      error: error?.message,
+      usage,
+      durationMs,
+    });
+  }
+
+  /**
+   * Record a tool call made during the latest model iteration
+   * @param toolCall The tool call
+   * @param result The result of the tool call
+   * @param durationMs How long the tool took
+   */
+  recordToolCall(toolCall: ToolCall, result: ToolCallResult, durationMs: number): void {
+    this.addStep({
+      stepType: 'tool_call',
+      iteration: this.iteration,
+      toolName: toolCall.name,
+      toolCallId: toolCall.id,
+      input: toolCall.arguments,
+      output: result.result,
+      error: result.error?.message,
+      durationMs,
+    });
+  }
+
+  /**
+   * Record the end of the run, or its pause for approval, and wait for all
+   * pending writes
+   * @param result The orchestration result
+   * @param checkpoint The state to resume from, if the run paused for approval
+   */
+  async finish(result: OrchestrationResult, checkpoint?: OrchestrationCheckpoint): Promise<void> {
+    const stopReason: StopReason = result.stopReason;
+    const status = getRunStatusForStopReason(stopReason);
+
+    this.enqueue(async (client) => {
+      const { error } = await client
+        .from('runs')
+        .update({
+          status,
+          response: result.response,
+          stop_reason: stopReason,
+          prompt_tokens: this.usage.promptTokens,
+          completion_tokens: this.usage.completionTokens,
+          total_tokens: this.usage.totalTokens,
+          error: result.errors?.map((err) => err.message).join('; ') || null,
+          pending_tool_calls: toJson(result.pendingToolCalls ?? null),
+          approval_decisions: null,
+          checkpoint: toJson(checkpoint ?? null),
+          cancel_requested_at: null,
+          completed_at: status === 'awaiting_approval' ? null : new Date().toISOString(),
+        })
+        .eq('id', this.id);
+      if (error) throw error;
+    });
+
+    await this.writes;
+  }
+
+  /**
+   * Check whether cancellation of the run was requested from another process
+   *
+   * A failed check is logged and treated as no request, so it never interrupts the run.
+   * @returns Whether a cancel request is stored for the run
+   */
+  async cancelRequested(): Promise<boolean> {
+    const client = getSupabaseClient();
+    if (!this.persist || !client) return false;
+
+    try {
+      const { data, error } = await client
+        .from('runs')
+        .select('cancel_requested_at')
+        .eq('id', this.id)
+        .maybeSingle();
+      if (error) throw error;
+      return Boolean(data?.cancel_requested_at);
+    } catch (error) {
+      console.error(`Failed to check run ${this.id} for a cancel request:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Add a step to the trace and queue it for storage
+   * @param step The step without its index
+   */
+  private addStep(step: Omit<RunStep, 'stepIndex'>): void {
+    const runStep: RunStep = { ...step, stepIndex: this.stepCount };
+    this.steps.push(runStep);
+
+    this.enqueue(async (client) => {
+      const { error } = await client.from('run_steps').insert({
+        run_id: this.id,
+        user_id: this.userId,
+        step_index: runStep.stepIndex,
+        step_type: runStep.stepType,
+        iteration: runStep.iteration,
+        model: runStep.model ?? null,
+        tool_name: runStep.toolName ?? null,
+        tool_call_id: runStep.toolCallId ?? null,
+        input: toJson(runStep.input),
+        output: toJson(runStep.output),
+        error: runStep.error ?? null,
+        prompt_tokens: runStep.usage?.promptTokens ?? null,
+        completion_tokens: runStep.usage?.completionTokens ?? null,
+        total_tokens: runStep.usage?.totalTokens ?? null,
+        duration_ms: Math.round(runStep.durationMs),
+      });
+      if (error) throw error;
+    });
+  }
+
+  /**
+   * Queue a database write after the previous ones
+   * @param write The write to perform
+   */
+  private enqueue(
+    write: (client: ReturnType<typeof createClient<Database>>) => Promise<void>
+  ): void {
+    const client = getSupabaseClient();
+    if (!this.persist || !client) return;
+
+    this.writes = this.writes
+      .then(() => write(client))
+      .catch((error) => console.error(`Failed to store run ${this.id}:`, error));
+  }
+}
+
+/**
+ * Get a stored run belonging to a user
+ * @param runId The ID of the run
+ * @param userId The user the run must belong to
+ * @returns The run, or null if it does not exist or storage is unavailable
+ */
+export async function getStoredRun(runId: string, userId: string): Promise<RunRecord | null> {
+  const client = getSupabaseClient();
+  if (!client) return null;
+
+  const { data, error } = await client
+    .from('runs')
+    .select('*')
+    .eq('id', runId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Create the row of a run that will be executed later by a worker
+ * @param runId The ID of the run
+ * @param userId The user the run belongs to
+ * @param instruction The user's instruction
+ */
+export async function createQueuedRun(runId: string, userId: string, instruction: string): Promise<void> {
+  const client = getSupabaseClient();
+  if (!client) return;
+
+  const { error } = await client.from('runs').insert({
+    id: runId,
+    user_id: userId,
+    instruction,
+    status: 'queued',
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Delete the trace of an attempt at a run, so that a retry starts afresh
+ * @param runId The ID of the run
+ */
+export async function clearRunSteps(runId: string): Promise<void> {
+  const client = getSupabaseClient();
+  if (!client) return;
+
+  const { error } = await client.from('run_steps').delete().eq('run_id', runId);
+
+  if (error) throw error;
+}
+
+/**
+ * Mark a run as failed when it could not be executed at all
+ * @param runId The ID of the run
+ * @param message The reason the run failed
+ */
+export async function markRunFailed(runId: string, message: string): Promise<void> {
+  const client = getSupabaseClient();
+  if (!client) return;
+
+  const { error } = await client
+    .from('runs')
+    .update({
+      status: 'failed',
+      stop_reason: 'error',
+      error: message,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', runId);
+
+  if (error) throw error;
+}
+
+/**
+ * Mark a run as cancelled when it was stopped before it could finish
+ * @param runId The ID of the run
+ */
+export async function markRunCancelled(runId: string): Promise<void> {
+  const client = getSupabaseClient();
+  if (!client) return;
+
+  const { error } = await client
+    .from('runs')
+    .update({
+      status: 'cancelled',
+      stop_reason: 'cancelled',
+      cancel_requested_at: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', runId);
+
+  if (error) throw error;
+}
+
+/**
+ * Save the approval decisions made so far for a paused run
+ *
+ * The save is a compare-and-set: it only applies while the stored decisions
+ * are still those the caller read, so concurrent decisions are not lost.
+ * @param runId The ID of the run
+ * @param decisions All decisions made so far
+ * @param previous The stored decisions the caller read
+ * @returns Whether the run was still awaiting approval with the previous decisions
+ */
+export async function saveApprovalDecisions(
+  runId: string,
+  decisions: ApprovalDecision[],
+  previous: Json | null
+): Promise<boolean> {
+  const client = getSupabaseClient();
+  if (!client) return false;
+
+  const query = client
+    .from('runs')
+    .update({ approval_decisions: toJson(decisions) })
+    .eq('id', runId)
+    .eq('status', 'awaiting_approval');
+  const { data, error } = await matchDecisions(query, previous).select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/**
+ * Move a paused run back to running so that exactly one caller resumes it
+ * @param runId The ID of the run
+ * @param decisions The final approval decisions
+ * @param previous The stored decisions the caller read
+ * @returns Whether this caller claimed the run with the previous decisions
+ */
+export async function claimRunForResume(
+  runId: string,
+  decisions: ApprovalDecision[],
+  previous: Json | null
+): Promise<boolean> {
+  const client = getSupabaseClient();
+  if (!client) return false;
+
+  const query = client
+    .from('runs')
+    .update({ status: 'running', approval_decisions: toJson(decisions) })
+    .eq('id', runId)
+    .eq('status', 'awaiting_approval');
+  const { data, error } = await matchDecisions(query, previous).select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/**
+ * Cancel a run that is queued or paused for approval
+ * @param runId The ID of the run
+ * @param userId The user the run must belong to
+ * @returns Whether the run was queued or awaiting approval and is now cancelled
+ */
+export async function cancelStoredRun(runId: string, userId: string): Promise<boolean> {
+  const client = getSupabaseClient();
+  if (!client) return false;
+
+  const { data, error } = await client
+    .from('runs')
+    .update({
+      status: 'cancelled',
+      stop_reason: 'cancelled',
+      pending_tool_calls: null,
+      checkpoint: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', runId)
+    .eq('user_id', userId)
+    .in('status', ['queued', 'awaiting_approval'])
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/**
+ * Ask the process running a run to cancel it
+ * @param runId The ID of the run
+ * @param userId The user the run must belong to
+ * @returns Whether the run was running and the request was stored
+ */
+export async function requestRunCancellation(runId: string, userId: string): Promise<boolean> {
+  const client = getSupabaseClient();
+  if (!client) return false;
+
+  const { data, error } = await client
+    .from('runs')
+    .update({ cancel_requested_at: new Date().toISOString() })
+    .eq('id', runId)
+    .eq('user_id', userId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/**
+ * Cancel a run, whether it is in progress, queued or paused for approval
+ *
+ * A run in progress in this process is aborted at once. A run in progress
+ * in a worker or on another instance gets a stored cancel request, which
+ * the process running it checks between steps.
+ * @param runId The ID of the run
+ * @param userId The user the run must belong to
+ * @returns 'cancelling' if an in-flight run was asked to stop and will stop at
+ * the next opportunity, or 'cancelled' if a queued or paused run was cancelled
+ * @throws ApiError if the run does not exist or has already ended
+ */
+export async function cancelRun(runId: string, userId: string): Promise<'cancelling' | 'cancelled'> {
+  if (cancelActiveRun(runId, userId)) {
+    return 'cancelling';
+  }
+
+  const run = await getStoredRun(runId, userId);
+
+  if (!run) {
+    throw new ApiError('Run not found', 404);
+  }
+
+  if (run.status === 'running' && (await requestRunCancellation(runId, userId))) {
+    return 'cancelling';
+  }
+
+  const cancellable = run.status === 'queued' || run.status === 'awaiting_approval';
+  if (cancellable && (await cancelStoredRun(runId, userId))) {
+    return 'cancelled';
+  }
+
+  // The run moved on since it was read, so report the status it has now
+  const current = await getStoredRun(runId, userId);
+  throw new ApiError('Run is not in progress', 409, { status: current?.status ?? run.status });
+}
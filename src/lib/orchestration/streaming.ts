@@ -0,0 +1,243 @@
+/**
+ * Streaming support for the orchestration engine
+ *
+ * This module reads streamed responses from model APIs and encodes
+ * orchestration progress events as Server-Sent Events for clients.
+ */
+
+import type { OpenAIResponseBody, OpenAIToolCall } from './providers/openai';
+import { OrchestrationEvent, OrchestrationResult } from './types';
+
+/**
+ * Headers to send with a Server-Sent Events response
+ */
+export const SSE_HEADERS: Record<string, string> = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
+
+/**
+ * One chunk of a streamed chat-completions response
+ */
+interface ChatCompletionChunk {
+  model?: string;
+  usage?: OpenAIResponseBody['usage'];
+  choices?: {
+    delta?: {
+      content?: string | null;
+      /** Tool calls arrive in fragments keyed by index */
+      tool_calls?: {
+        index?: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }[];
+    };
+    finish_reason?: string | null;
+  }[];
+}
+
+/**
+ * Read a Server-Sent Events response body, passing each event's data on
+ * @param response The fetch response with a `text/event-stream` body
+ * @param onData Called with the data and event name of each event
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onData: (data: string, event?: string) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+
+  let buffer = '';
+  let eventName: string | undefined;
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+
+    // A blank line ends the current event
+    if (!trimmed) {
+      eventName = undefined;
+      return;
+    }
+
+    if (trimmed.startsWith('event:')) {
+      eventName = trimmed.slice('event:'.length).trim();
+      return;
+    }
+
+    if (!trimmed.startsWith('data:')) {
+      return;
+    }
+
+    const data = trimmed.slice('data:'.length).trim();
+    if (data && data !== '[DONE]') {
+      onData(data, eventName);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Process every complete line, keeping any partial line in the buffer
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    handleLine(buffer);
+  }
+}
+
+/**
+ * Read a streamed chat-completions response and assemble it into the same
+ * shape as a non-streamed response
+ * @param response The fetch response with a `text/event-stream` body
+ * @param onDelta Called with each chunk of assistant text as it arrives
+ * @returns The assembled API response
+ */
+export async function readChatCompletionStream(
+  response: Response,
+  onDelta?: (delta: string) => void
+): Promise<OpenAIResponseBody> {
+  let content = '';
+  let finishReason: string | null = null;
+  let usage: OpenAIResponseBody['usage'];
+  let model: string | undefined;
+  const toolCalls: OpenAIToolCall[] = [];
+
+  await readServerSentEvents(response, (data) => {
+    const chunk: ChatCompletionChunk = JSON.parse(data);
+
+    if (chunk.model) {
+      model = chunk.model;
+    }
+
+    // The final chunk carries usage when stream_options.include_usage is set
+    if (chunk.usage) {
+      usage = chunk.usage;
+    }
+
+    const choice = chunk.choices?.[0];
+    if (!choice) {
+      return;
+    }
+
+    if (choice.finish_reason) {
+      finishReason = choice.finish_reason;
+    }
+
+    const delta = choice.delta || {};
+
+    if (delta.content) {
+      content += delta.content;
+      onDelta?.(delta.content);
+    }
+
+    // Tool calls arrive in fragments keyed by index
+    if (delta.tool_calls) {
+      for (const fragment of delta.tool_calls) {
+        const index = fragment.index ?? 0;
+        const existing: OpenAIToolCall = toolCalls[index] || {
+          id: '',
+          type: 'function',
+          function: { name: '', arguments: '' },
+        };
+
+        if (fragment.id) existing.id = fragment.id;
+        if (fragment.function?.name) existing.function.name += fragment.function.name;
+        if (fragment.function?.arguments) existing.function.arguments += fragment.function.arguments;
+
+        toolCalls[index] = existing;
+      }
+    }
+  });
+
+  const message: { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] } = {
+    role: 'assistant',
+    content: content || null,
+  };
+
+  const completedToolCalls = toolCalls.filter(Boolean);
+  if (completedToolCalls.length > 0) {
+    message.tool_calls = completedToolCalls;
+  }
+
+  return {
+    ...(model ? { model } : {}),
+    choices: [
+      {
+        message,
+        finish_reason: finishReason,
+      },
+    ],
+    ...(usage ? { usage } : {}),
+  };
+}
+
+/**
+ * Format an orchestration event as a Server-Sent Event frame
+ * @param event The event to format
+ * @returns The SSE frame
+ */
+export function formatServerSentEvent(event: OrchestrationEvent | { type: 'error'; message: string }): string {
+  // Error instances serialize to {} by default, so flatten them explicitly
+  const data = JSON.stringify(event, (_key, value) =>
+    value instanceof Error ? { name: value.name, message: value.message } : value
+  );
+
+  return `event: ${event.type}\ndata: ${data}\n\n`;
+}
+
+/**
+ * Create a Server-Sent Events stream for an orchestration run
+ * @param run Starts the orchestration, forwarding events to the given listener
+ * @returns A stream of SSE frames that closes when the run finishes
+ */
+export function createOrchestrationEventStream(
+  run: (onEvent: (event: OrchestrationEvent) => void) => Promise<OrchestrationResult>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+
+      const send = (event: OrchestrationEvent | { type: 'error'; message: string }) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event)));
+        } catch {
+          // The client went away; keep the run going but stop writing
+          closed = true;
+        }
+      };
+
+      try {
+        await run(send);
+      } catch (error) {
+        send({
+          type: 'error',
+          message: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+}
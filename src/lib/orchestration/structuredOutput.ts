@@ -0,0 +1,205 @@
+/**
+ * Structured output for orchestration runs
+ *
+ * When a caller supplies an output schema, the final answer is produced again
+ * in JSON mode, parsed and validated against the schema. Answers that do not
+ * match are sent back to the model with the validation errors, up to a limit,
+ * so integrators get a machine-readable object instead of free text.
+ */
+
+import { z } from 'zod';
+import { callModel } from './modelCall';
+import { ChatResponse } from './providers/types';
+import { GPT41Config, Message, OutputSchema } from './types';
+import { JsonSchema, validateJsonSchema, zodToJsonSchema } from '../utils/validation';
+
+/**
+ * Default number of times an invalid answer is sent back for correction
+ */
+export const DEFAULT_MAX_OUTPUT_RETRIES = 2;
+
+/**
+ * The result of validating an answer against an output schema
+ */
+export type OutputValidation<T> = { success: true; data: T } | { success: false; errors: string[] };
+
+/**
+ * Options for producing a structured answer
+ */
+export interface StructuredOutputOptions<T> {
+  /** The conversation so far, ending with the model's free-text answer */
+  messages: Message[];
+  /** The schema the answer must match */
+  schema: OutputSchema<T>;
+  /** The model configuration */
+  config: Partial<GPT41Config>;
+  /** How many times an invalid answer is sent back for correction (default: 2) */
+  maxRetries?: number;
+  /** Checked before each model call; stops when it returns false */
+  canCallModel?: () => boolean;
+  /** Called after each model call, for budgets, billing and the run trace */
+  onModelCall?: (
+    messages: Message[],
+    response: ChatResponse | undefined,
+    durationMs: number,
+    error?: Error
+  ) => void;
+  /** Aborts the model calls when signalled */
+  signal?: AbortSignal;
+}
+
+/**
+ * The outcome of producing a structured answer
+ */
+export interface StructuredOutputOutcome<T> {
+  /** The validated answer, if the model produced one */
+  output?: T;
+  /** The JSON text of the last answer */
+  content: string;
+  /** The validation errors of the last answer; empty if it was valid */
+  errors: string[];
+  /** The number of model calls made */
+  attempts: number;
+}
+
+/**
+ * Check whether an output schema is a Zod schema
+ * @param schema The output schema
+ * @returns Whether the schema is a Zod schema
+ */
+export function isZodSchema(schema: OutputSchema<unknown>): schema is z.ZodType<unknown, z.ZodTypeDef, unknown> {
+  return schema instanceof z.ZodType;
+}
+
+/**
+ * Get the JSON Schema form of an output schema
+ * @param schema The output schema
+ * @returns The schema as JSON Schema
+ */
+export function toJsonSchema(schema: OutputSchema<unknown>): JsonSchema {
+  return isZodSchema(schema) ? zodToJsonSchema(schema) : schema;
+}
+
+/**
+ * Validate a parsed answer against an output schema
+ * @param value The parsed answer
+ * @param schema The output schema
+ * @returns The typed answer, or the validation errors
+ */
+export function validateOutput<T>(value: unknown, schema: OutputSchema<T>): OutputValidation<T> {
+  if (isZodSchema(schema)) {
+    const result = schema.safeParse(value);
+    return result.success
+      ? { success: true, data: result.data as T }
+      : {
+          success: false,
+          errors: result.error.issues.map(
+            (issue) => `${['$', ...issue.path].join('.')}: ${issue.message}`
+          ),
+        };
+  }
+
+  const errors = validateJsonSchema(value, schema);
+  return errors.length === 0 ? { success: true, data: value as T } : { success: false, errors };
+}
+
+/**
+ * Parse the JSON in a model answer, allowing for a Markdown code fence
+ * @param content The model's answer
+ * @returns The parsed value
+ * @throws SyntaxError if the answer is not valid JSON
+ */
+export function parseJsonOutput(content: string): unknown {
+  const fenced = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return JSON.parse(fenced ? fenced[1] : content);
+}
+
+/**
+ * Build the instruction asking for the answer as JSON
+ * @param schema The JSON Schema the answer must match
+ * @returns The instruction
+ */
+function createOutputInstruction(schema: JsonSchema): string {
+  return [
+    'Give your final answer as a single JSON object that matches this JSON Schema.',
+    'Respond with only the JSON object, no other text.',
+    '',
+    JSON.stringify(schema, null, 2),
+  ].join('\n');
+}
+
+/**
+ * Build the message sending an invalid answer back for correction
+ * @param errors The validation errors
+ * @returns The correction message
+ */
+function createCorrectionInstruction(errors: string[]): string {
+  return [
+    'That answer does not match the JSON Schema:',
+    ...errors.map((error) => `- ${error}`),
+    'Respond again with only a corrected JSON object.',
+  ].join('\n');
+}
+
+/**
+ * Produce the final answer as JSON matching an output schema
+ * @param options The conversation, schema, model configuration and callbacks
+ * @returns The validated answer, or the errors of the last attempt
+ */
+export async function produceStructuredOutput<T>(
+  options: StructuredOutputOptions<T>
+): Promise<StructuredOutputOutcome<T>> {
+  const {
+    schema,
+    config,
+    maxRetries = DEFAULT_MAX_OUTPUT_RETRIES,
+    canCallModel = () => true,
+    onModelCall,
+    signal,
+  } = options;
+
+  const messages: Message[] = [
+    ...options.messages,
+    { role: 'user', content: createOutputInstruction(toJsonSchema(schema)) },
+  ];
+
+  let content = '';
+  let errors: string[] = ['No answer was produced'];
+  let attempts = 0;
+
+  while (attempts <= maxRetries && canCallModel()) {
+    attempts++;
+
+    const startedAt = Date.now();
+    let response: ChatResponse;
+    try {
+      response = await callModel({ messages, responseFormat: 'json' }, config, signal);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      onModelCall?.(messages, undefined, Date.now() - startedAt, err);
+      throw err;
+    }
+    onModelCall?.(messages, response, Date.now() - startedAt);
+
+    content = response.message.content;
+
+    let value: unknown;
+    try {
+      value = parseJsonOutput(content);
+    } catch (error) {
+      errors = [`$: the answer is not valid JSON (${error instanceof Error ? error.message : String(error)})`];
+      messages.push({ role: 'assistant', content }, { role: 'user', content: createCorrectionInstruction(errors) });
+      continue;
+    }
+
+    const validation = validateOutput(value, schema);
+    if (validation.success) {
+      return { output: validation.data, content, errors: [], attempts };
+    }
+
+    errors = validation.errors;
+    messages.push({ role: 'assistant', content }, { role: 'user', content: createCorrectionInstruction(errors) });
+  }
+
+  return { content, errors, attempts };
+}
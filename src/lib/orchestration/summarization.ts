@@ -0,0 +1,262 @@
+/**
+ * Rolling Conversation Summary Module
+ *
+ * When a conversation no longer fits the prompt, its oldest turns are
+ * condensed by the nano model into a rolling summary stored in
+ * `conversation_summaries`, one per conversation thread. Each refresh folds only the messages that left
+ * the verbatim window since the last refresh into the existing summary, and
+ * its token usage is billed to the user.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '../types/database.types';
+import { SUPABASE_URL, SUPABASE_SERVICE_KEY } from '../config/env';
+import { logger } from '../utils/logger';
+import { logUsageAndUpdateCost } from '../billing/tokenUsage';
+import { ChatMessage } from '../memories';
+import { callModel } from './modelCall';
+import { ChatResponse } from './providers/types';
+import { Message } from './types';
+
+// Initialize Supabase client
+let supabase: ReturnType<typeof createClient<Database>> | null = null;
+
+try {
+  // Use service role key for admin operations
+  supabase = createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+} catch (error) {
+  console.error('Failed to initialize Supabase client for conversation summaries:', error);
+}
+
+// For testing purposes
+let _supabaseClientForTesting: ReturnType<typeof createClient<Database>> | null = null;
+
+export function setSummarySupabaseClientForTesting(client: ReturnType<typeof createClient<Database>> | null) {
+  _supabaseClientForTesting = client;
+}
+
+function getSupabaseClient() {
+  return _supabaseClientForTesting || supabase;
+}
+
+/**
+ * The rolling summary of a user's conversation
+ */
+export interface ConversationSummary {
+  /** The summary text */
+  summary: string;
+  /** The creation time of the last message the summary covers */
+  summarizedThrough: string;
+  /** The number of messages the summary covers */
+  messageCount: number;
+  /** The model that wrote the summary */
+  model: string;
+}
+
+/**
+ * Configuration for the model that writes summaries
+ */
+export interface SummarizerConfig {
+  /** The name of the LLM provider to use (default: 'openai') */
+  provider?: string;
+  /** The API key */
+  apiKey?: string;
+  /** The model to use */
+  model: string;
+  /** The maximum length of the summary in tokens */
+  maxTokens: number;
+  /** The temperature to use */
+  temperature?: number;
+  /** The API endpoint (defaults to the provider's endpoint) */
+  endpoint?: string;
+}
+
+/**
+ * Default summarizer configuration: the cheap nano model
+ */
+export const DEFAULT_SUMMARIZER_CONFIG: SummarizerConfig = {
+  provider: 'openai',
+  apiKey: process.env.OPENAI_API_KEY || '',
+  model: 'gpt-4.1-nano',
+  maxTokens: 500,
+  temperature: 0.2,
+};
+
+/**
+ * Maximum number of messages folded into the summary in one refresh;
+ * any older backlog is folded in by the following refreshes
+ */
+export const SUMMARY_BATCH_SIZE = 50;
+
+/**
+ * Create the message that carries the summary into the prompt
+ * @param summary The summary text
+ * @returns A system message with the summary
+ */
+export function createSummaryMessage(summary: string): Message {
+  return {
+    role: 'system',
+    content: `Summary of the earlier conversation:\n${summary}`,
+  };
+}
+
+/**
+ * Get the rolling summary of a user's conversation
+ * @param userId The user ID
+ * @param conversationId The conversation ID; without it, the summary of the messages outside any conversation
+ * @returns The summary, or null if there is none or it could not be read
+ */
+export async function getConversationSummary(
+  userId: string,
+  conversationId?: string
+): Promise<ConversationSummary | null> {
+  const client = getSupabaseClient();
+  if (!client) {
+    return null;
+  }
+
+  const query = client
+    .from('conversation_summaries')
+    .select('*')
+    .eq('user_id', userId);
+
+  const { data, error } = await (conversationId
+    ? query.eq('conversation_id', conversationId)
+    : query.is('conversation_id', null)
+  ).maybeSingle();
+
+  if (error) {
+    console.error('Error fetching conversation summary:', error);
+    return null;
+  }
+
+  return data
+    ? {
+        summary: data.summary,
+        summarizedThrough: data.summarized_through,
+        messageCount: data.message_count,
+        model: data.model,
+      }
+    : null;
+}
+
+/**
+ * Store the rolling summary of a user's conversation
+ * @param userId The user ID
+ * @param conversationId The conversation ID, if any
+ * @param summary The summary to store
+ */
+async function saveConversationSummary(
+  userId: string,
+  conversationId: string | undefined,
+  summary: ConversationSummary
+): Promise<void> {
+  const client = getSupabaseClient();
+  if (!client) {
+    return;
+  }
+
+  const { error } = await client.from('conversation_summaries').upsert(
+    {
+      user_id: userId,
+      conversation_id: conversationId ?? null,
+      summary: summary.summary,
+      summarized_through: summary.summarizedThrough,
+      message_count: summary.messageCount,
+      model: summary.model,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'user_id,conversation_id' }
+  );
+
+  if (error) {
+    console.error('Error saving conversation summary:', error);
+  }
+}
+
+/**
+ * Write a transcript of messages for the summarizer
+ * @param messages The messages
+ * @returns One line per message, prefixed with its role
+ */
+function formatTranscript(messages: Array<Pick<Message, 'role' | 'content'>>): string {
+  return messages
+    .map((message) => `${message.role.charAt(0).toUpperCase()}${message.role.slice(1)}: ${message.content}`)
+    .join('\n');
+}
+
+/**
+ * Fold new messages into a summary with the summarizer model
+ * @param previousSummary The current summary, if any
+ * @param messages The messages to add to it, oldest first
+ * @param config The summarizer configuration
+ * @returns The updated summary text and the model response it came from
+ */
+export async function summarizeMessages(
+  previousSummary: string | undefined,
+  messages: Array<Pick<Message, 'role' | 'content'>>,
+  config: SummarizerConfig = DEFAULT_SUMMARIZER_CONFIG
+): Promise<{ summary: string; response: ChatResponse }> {
+  const prompt: Message[] = [
+    {
+      role: 'system',
+      content:
+        'You maintain a running summary of a conversation between a user and an assistant. ' +
+        'Update the summary with the new messages. Keep facts, decisions, preferences, names, ' +
+        'open tasks and anything the assistant promised to do; drop small talk. ' +
+        `Write plain prose of at most ${Math.floor(config.maxTokens * 0.75)} words and respond with only the summary.`,
+    },
+    {
+      role: 'user',
+      content: `Current summary:\n${previousSummary || '(none yet)'}\n\nNew messages:\n${formatTranscript(messages)}`,
+    },
+  ];
+
+  const response = await callModel({ messages: prompt }, config);
+
+  return { summary: response.message.content.trim(), response };
+}
+
+/**
+ * Fold the messages that left the verbatim window into a user's summary,
+ * store it and bill its token usage to the user
+ * @param userId The user ID
+ * @param previous The current summary, if any
+ * @param messages The messages to fold in, oldest first
+ * @param config The summarizer configuration
+ * @param conversationId The conversation the messages belong to, if any
+ * @returns The updated summary
+ */
+export async function refreshConversationSummary(
+  userId: string,
+  previous: ConversationSummary | null,
+  messages: ChatMessage[],
+  config: SummarizerConfig = DEFAULT_SUMMARIZER_CONFIG,
+  conversationId?: string
+): Promise<ConversationSummary> {
+  const { summary, response } = await summarizeMessages(previous?.summary, messages, config);
+
+  if (response.usage) {
+    // Log usage asynchronously - don't await to avoid blocking
+    logUsageAndUpdateCost(userId, config.model, response.usage)
+      .catch(err => console.error('Failed to log summarization token usage:', err));
+  }
+
+  const updated: ConversationSummary = {
+    summary,
+    summarizedThrough: messages[messages.length - 1]?.created_at || new Date().toISOString(),
+    messageCount: (previous?.messageCount ?? 0) + messages.length,
+    model: config.model,
+  };
+  await saveConversationSummary(userId, conversationId, updated);
+
+  logger.info('Refreshed conversation summary', {
+    userId,
+    conversationId,
+    foldedMessages: messages.length,
+    messageCount: updated.messageCount,
+    model: config.model,
+  });
+
+  return updated;
+}
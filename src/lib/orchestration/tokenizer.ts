@@ -0,0 +1,197 @@
+/**
+ * Tokenizer
+ *
+ * Counts tokens with the BPE encoding of each model family, so prompts can be
+ * budgeted exactly against the model's context window. Messages and tool
+ * schemas are counted the way the chat completions API bills them.
+ */
+
+import { Tiktoken, TiktokenBPE } from 'js-tiktoken/lite';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+import { getModelInfo, TokenizerEncoding } from './modelRegistry';
+import { formatToolsForAPI } from './utils';
+import { Message, Tool } from './types';
+
+/**
+ * Tokens added to every message for its role and delimiters
+ */
+const TOKENS_PER_MESSAGE = 3;
+
+/**
+ * Tokens added to a message that carries a name
+ */
+const TOKENS_PER_NAME = 1;
+
+/**
+ * Tokens that prime the model's reply after the last message
+ */
+const TOKENS_PER_REPLY = 3;
+
+/**
+ * Tokens added for each tool call in an assistant message
+ */
+const TOKENS_PER_TOOL_CALL = 3;
+
+/**
+ * Tokens added for the tool definitions block, when any tools are sent
+ */
+const TOKENS_PER_TOOL_BLOCK = 12;
+
+/**
+ * Runs of characters without whitespace are encoded in pieces of this length.
+ * BPE merging is quadratic in the length of a run, so a long base64 blob or
+ * repeated character would otherwise take seconds to count.
+ */
+const MAX_RUN_LENGTH = 100;
+
+/**
+ * The rank tables of each encoding
+ */
+const RANKS: Record<TokenizerEncoding, TiktokenBPE> = {
+  o200k_base: o200kBase,
+  cl100k_base: cl100kBase,
+};
+
+/**
+ * Encoders by encoding, created on first use as building one is expensive
+ */
+const encoders = new Map<TokenizerEncoding, Tiktoken>();
+
+/**
+ * Get the encoder for an encoding
+ * @param encoding The encoding
+ * @returns The encoder
+ */
+function getEncoder(encoding: TokenizerEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = new Tiktoken(RANKS[encoding]);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Split text into pieces that encode quickly, cutting long runs without whitespace
+ * @param text The text
+ * @returns The pieces, in order
+ */
+function splitLongRuns(text: string): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(new RegExp(`\\S{${MAX_RUN_LENGTH + 1},}`, 'g'))) {
+    const index = match.index ?? 0;
+    if (index > start) {
+      pieces.push(text.slice(start, index));
+    }
+    for (let offset = 0; offset < match[0].length; offset += MAX_RUN_LENGTH) {
+      pieces.push(match[0].slice(offset, offset + MAX_RUN_LENGTH));
+    }
+    start = index + match[0].length;
+  }
+
+  if (start < text.length) {
+    pieces.push(text.slice(start));
+  }
+  return pieces;
+}
+
+/**
+ * Encode text with a model's encoding
+ * @param text The text to encode
+ * @param model The model whose encoding to use
+ * @returns The token IDs
+ */
+export function encodeText(text: string, model?: string): number[] {
+  const encoder = getEncoder(getModelInfo(model).encoding);
+  return splitLongRuns(text).flatMap((piece) => encoder.encode(piece));
+}
+
+/**
+ * Decode token IDs back into text
+ * @param tokens The token IDs
+ * @param model The model whose encoding to use
+ * @returns The text
+ */
+export function decodeTokens(tokens: number[], model?: string): string {
+  return getEncoder(getModelInfo(model).encoding).decode(tokens);
+}
+
+/**
+ * Count the tokens in a piece of text
+ * @param text The text to count
+ * @param model The model whose encoding to use
+ * @returns The number of tokens
+ */
+export function countTokens(text: string, model?: string): number {
+  if (!text) {
+    return 0;
+  }
+  return encodeText(text, model).length;
+}
+
+/**
+ * Shorten text to at most a number of tokens
+ * @param text The text to shorten
+ * @param maxTokens The maximum number of tokens to keep
+ * @param model The model whose encoding to use
+ * @returns The text, cut at a token boundary if it was too long
+ */
+export function truncateToTokens(text: string, maxTokens: number, model?: string): string {
+  const tokens = encodeText(text, model);
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+  return decodeTokens(tokens.slice(0, Math.max(0, maxTokens)), model);
+}
+
+/**
+ * Count the tokens a single message adds to a prompt
+ * @param message The message
+ * @param model The model whose encoding to use
+ * @returns The number of tokens, including the message overhead
+ */
+export function countMessageTokens(message: Message, model?: string): number {
+  let tokens = TOKENS_PER_MESSAGE + countTokens(message.role, model) + countTokens(message.content, model);
+
+  if (message.name) {
+    tokens += TOKENS_PER_NAME + countTokens(message.name, model);
+  }
+  if (message.toolCallId) {
+    tokens += countTokens(message.toolCallId, model);
+  }
+  for (const toolCall of message.toolCalls ?? []) {
+    tokens +=
+      TOKENS_PER_TOOL_CALL +
+      countTokens(toolCall.id, model) +
+      countTokens(toolCall.name, model) +
+      countTokens(JSON.stringify(toolCall.arguments), model);
+  }
+
+  return tokens;
+}
+
+/**
+ * Count the tokens of a conversation as sent to the model
+ * @param messages The messages
+ * @param model The model whose encoding to use
+ * @returns The number of tokens, including the reply priming
+ */
+export function countMessagesTokens(messages: Message[], model?: string): number {
+  return messages.reduce((total, message) => total + countMessageTokens(message, model), TOKENS_PER_REPLY);
+}
+
+/**
+ * Count the tokens of the tool definitions sent with a request
+ * @param tools The tools
+ * @param model The model whose encoding to use
+ * @returns The number of tokens, or 0 when there are no tools
+ */
+export function countToolTokens(tools: Tool[], model?: string): number {
+  if (tools.length === 0) {
+    return 0;
+  }
+  return TOKENS_PER_TOOL_BLOCK + countTokens(JSON.stringify(formatToolsForAPI(tools)), model);
+}
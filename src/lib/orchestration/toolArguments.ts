@@ -0,0 +1,243 @@
+/**
+ * Tool call arguments
+ *
+ * Models sometimes produce arguments that are not quite JSON (trailing
+ * commas, single quotes, unquoted keys, Python literals, output cut off
+ * mid-object) or that do not match the tool's parameters. Arguments are
+ * repaired where that can be done safely, filled in with the parameters'
+ * defaults and validated before the tool runs; when they are still invalid
+ * the call fails with errors the model can act on, instead of the tool
+ * crashing on them.
+ */
+
+import { ToolCall } from './types';
+import { ToolError } from '../utils/error';
+import { JsonSchema, validateJsonSchema } from '../utils/validation';
+
+/**
+ * Arguments parsed from a model's tool call
+ */
+export interface ParsedToolArguments {
+  /** The arguments; empty if they could not be parsed */
+  arguments: Record<string, unknown>;
+  /** Why the arguments could not be parsed */
+  error?: string;
+}
+
+/**
+ * Error returned to the model when a tool call's arguments are invalid
+ */
+export class ToolArgumentsError extends ToolError {
+  errors: string[];
+
+  constructor(toolName: string, errors: string[]) {
+    super(
+      [
+        `Invalid arguments for tool ${toolName}:`,
+        ...errors.map((error) => `- ${error}`),
+        'Correct the arguments and call the tool again.',
+      ].join('\n'),
+      toolName,
+      // Retrying the same arguments cannot help; the model has to change them
+      false
+    );
+    this.name = 'ToolArgumentsError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Literals from other languages that models write in place of JSON's
+ */
+const LITERALS: Record<string, string> = {
+  true: 'true',
+  True: 'true',
+  false: 'false',
+  False: 'false',
+  null: 'null',
+  None: 'null',
+  undefined: 'null',
+  NaN: 'null',
+};
+
+/**
+ * Characters that must be escaped inside a JSON string
+ */
+const STRING_ESCAPES: Record<string, string> = {
+  '"': '\\"',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+};
+
+/**
+ * Repair common mistakes in JSON written by a model
+ *
+ * Handles code fences and other text around the JSON, comments, single
+ * quotes, unquoted keys, Python and JavaScript literals, raw line breaks in
+ * strings, trailing commas and output that stops before the JSON is closed.
+ * @param text The text to repair
+ * @returns The repaired text, which may still not be valid JSON
+ */
+export function repairJson(text: string): string {
+  // Text around the JSON, such as a code fence or an explanation, is dropped
+  let input = text.trim();
+  const start = input.search(/[[{]/);
+  if (start > 0) {
+    input = input.slice(start);
+  }
+
+  let output = '';
+  const closers: string[] = [];
+  const dropTrailingComma = () => {
+    output = output.replace(/,\s*$/, '');
+  };
+
+  let index = 0;
+  while (index < input.length) {
+    const char = input[index];
+    const next = input[index + 1];
+
+    // Strings, in either quote, are rewritten in double quotes
+    if (char === '"' || char === "'") {
+      let value = '';
+      index++;
+      while (index < input.length && input[index] !== char) {
+        const current = input[index];
+        if (current === '\\') {
+          const escaped = input[index + 1];
+          if (escaped !== undefined) {
+            value += escaped === "'" ? "'" : `\\${escaped}`;
+          }
+          index += 2;
+          continue;
+        }
+        value += STRING_ESCAPES[current] ?? current;
+        index++;
+      }
+      output += `"${value}"`;
+      index++;
+      continue;
+    }
+
+    if (char === '/' && next === '/') {
+      while (index < input.length && input[index] !== '\n') index++;
+      continue;
+    }
+    if (char === '/' && next === '*') {
+      const end = input.indexOf('*/', index + 2);
+      index = end === -1 ? input.length : end + 2;
+      continue;
+    }
+
+    if (char === '{' || char === '[') {
+      closers.push(char === '{' ? '}' : ']');
+      output += char;
+      index++;
+      continue;
+    }
+    if (char === '}' || char === ']') {
+      dropTrailingComma();
+      if (closers[closers.length - 1] === char) closers.pop();
+      output += char;
+      index++;
+      if (closers.length === 0) break;
+      continue;
+    }
+
+    // Bare words are literals, or keys when a colon follows
+    if (/[A-Za-z_$]/.test(char)) {
+      const word = input.slice(index).match(/^[\w$]+/)![0];
+      index += word.length;
+      const isKey = /^\s*:/.test(input.slice(index));
+      output += isKey ? `"${word}"` : LITERALS[word] ?? word;
+      continue;
+    }
+
+    output += char;
+    index++;
+  }
+
+  // Close whatever the model left open
+  dropTrailingComma();
+  if (/:\s*$/.test(output)) {
+    output += 'null';
+  }
+  return output + closers.reverse().join('');
+}
+
+/**
+ * Parse the arguments of a model's tool call, repairing them if needed
+ * @param raw The arguments as given by the provider: a JSON string, or an already parsed object
+ * @returns The arguments, or the error if they are not a JSON object even after repair
+ */
+export function parseToolArguments(raw: unknown): ParsedToolArguments {
+  if (raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '')) {
+    return { arguments: {} };
+  }
+
+  let value: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch (error) {
+      try {
+        value = JSON.parse(repairJson(raw));
+      } catch {
+        return { arguments: {}, error: `The arguments are not valid JSON: ${(error as Error).message}` };
+      }
+    }
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { arguments: {}, error: 'The arguments must be a JSON object' };
+  }
+  return { arguments: value as Record<string, unknown> };
+}
+
+/**
+ * Fill in the defaults of a schema's missing properties, at every level
+ * @param value The value
+ * @param schema The schema, whose properties may have a `default`
+ * @returns A copy of the value with the defaults filled in
+ */
+export function applyJsonSchemaDefaults(value: unknown, schema: JsonSchema): unknown {
+  if (Array.isArray(value) && schema.items) {
+    return value.map((item) => applyJsonSchemaDefaults(item, schema.items!));
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value) || !schema.properties) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+  Object.entries(schema.properties).forEach(([key, property]) => {
+    if (result[key] === undefined && property.default !== undefined) {
+      result[key] = JSON.parse(JSON.stringify(property.default));
+    }
+    if (result[key] !== undefined) {
+      result[key] = applyJsonSchemaDefaults(result[key], property);
+    }
+  });
+  return result;
+}
+
+/**
+ * Validate a tool call's arguments against the tool's parameters
+ * @param toolCall The tool call
+ * @param schema The JSON Schema of the tool's parameters
+ * @returns The arguments with defaults filled in
+ * @throws ToolArgumentsError listing every problem with the arguments, or why they could not be parsed
+ */
+export function validateToolArguments(toolCall: ToolCall, schema: JsonSchema): Record<string, unknown> {
+  if (toolCall.argumentsError) {
+    throw new ToolArgumentsError(toolCall.name, [toolCall.argumentsError]);
+  }
+
+  const withDefaults = applyJsonSchemaDefaults(toolCall.arguments, schema) as Record<string, unknown>;
+  const errors = validateJsonSchema(withDefaults, schema);
+
+  if (errors.length > 0) {
+    throw new ToolArgumentsError(toolCall.name, errors);
+  }
+  return withDefaults;
+}
@@ -0,0 +1,473 @@
+/**
+ * Tool Output Policy Module
+ *
+ * Tool results are given back to the model as JSON. A result larger than its
+ * tool's limit is fitted before it reaches the conversation: long arrays and
+ * strings are shortened while every key is kept, or, for tools that opt in,
+ * the nano model summarizes it. The full result is stored under a reference
+ * ID, and the model can read it page by page with the `read_tool_output` tool.
+ */
+
+import { randomUUID } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '../types/database.types';
+import { SUPABASE_URL, SUPABASE_SERVICE_KEY } from '../config/env';
+import { ToolError } from '../utils/error';
+import { logger } from '../utils/logger';
+import { callModel } from './modelCall';
+import { ChatResponse } from './providers/types';
+import { DEFAULT_SUMMARIZER_CONFIG, SummarizerConfig } from './summarization';
+import { countTokens, decodeTokens, encodeText, truncateToTokens } from './tokenizer';
+import { createToolResultMessage, findToolByName } from './utils';
+import { Message, Tool, ToolCallResult, ToolOutputPolicy } from './types';
+
+// Initialize Supabase client
+let supabase: ReturnType<typeof createClient<Database>> | null = null;
+
+try {
+  // Use service role key for admin operations
+  supabase = createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+} catch (error) {
+  console.error('Failed to initialize Supabase client for tool outputs:', error);
+}
+
+// For testing purposes
+let _supabaseClientForTesting: ReturnType<typeof createClient<Database>> | null = null;
+
+export function setToolOutputSupabaseClientForTesting(client: ReturnType<typeof createClient<Database>> | null) {
+  _supabaseClientForTesting = client;
+}
+
+function getSupabaseClient() {
+  return _supabaseClientForTesting || supabase;
+}
+
+/**
+ * The name of the tool that reads stored tool results page by page
+ */
+export const READ_TOOL_OUTPUT_TOOL = 'read_tool_output';
+
+/**
+ * The policy of tools that do not set their own
+ */
+export const DEFAULT_TOOL_OUTPUT_POLICY: Required<ToolOutputPolicy> = {
+  maxTokens: 2000,
+  summarize: false,
+  pageTokens: 2000,
+};
+
+/**
+ * Oversized results are summarized from at most this many tokens
+ */
+const MAX_SUMMARY_INPUT_TOKENS = 16000;
+
+/**
+ * The array and string limits tried in turn when shortening a result
+ */
+const COMPACTION_STEPS: Array<{ maxItems: number; maxChars: number }> = [
+  { maxItems: 20, maxChars: 1000 },
+  { maxItems: 10, maxChars: 500 },
+  { maxItems: 5, maxChars: 200 },
+  { maxItems: 3, maxChars: 100 },
+  { maxItems: 1, maxChars: 50 },
+];
+
+/**
+ * Recently stored results, so that reading them back does not need the database
+ */
+const MAX_CACHED_OUTPUTS = 200;
+const cachedOutputs = new Map<string, StoredToolOutput>();
+
+/**
+ * A full tool result stored for paging
+ */
+export interface StoredToolOutput {
+  /** The reference ID of the result */
+  id: string;
+  /** The user the result belongs to */
+  userId: string;
+  /** The run that produced the result, if any */
+  runId?: string;
+  /** The tool that produced the result */
+  toolName: string;
+  /** The ID of the tool call that produced the result */
+  toolCallId: string;
+  /** The result as JSON */
+  content: string;
+  /** The size of the content in tokens */
+  totalTokens: number;
+  /** The size of each page in tokens */
+  pageTokens: number;
+}
+
+/**
+ * One page of a stored tool result
+ */
+export interface ToolOutputPage {
+  /** The reference ID of the result */
+  reference: string;
+  /** The page number, starting at 1 */
+  page: number;
+  /** The number of pages */
+  pages: number;
+  /** The text of the page */
+  content: string;
+}
+
+/**
+ * Where tool results are fitted and stored
+ */
+export interface ToolOutputContext {
+  /** The user the results belong to */
+  userId: string;
+  /** The run that produced the results, if any */
+  runId?: string;
+  /** The model the results are given to, which sets the tokenizer */
+  model?: string;
+  /** The model that summarizes results of tools that opt in */
+  summarizer?: SummarizerConfig;
+  /** Checked before a summary is written; results are truncated instead when it returns false */
+  canCallModel?: () => boolean;
+  /** Called after each summary, for budgets, billing and the run trace */
+  onModelCall?: (
+    messages: Message[],
+    response: ChatResponse | undefined,
+    durationMs: number,
+    error?: Error
+  ) => void;
+  /** Aborts the summaries when signalled */
+  signal?: AbortSignal;
+}
+
+/**
+ * Shorten the arrays and strings of a value, keeping every key
+ * @param value The value, as parsed from JSON
+ * @param maxItems The number of items kept of each array
+ * @param maxChars The number of characters kept of each string
+ * @returns The shortened value
+ */
+function compactValue(value: unknown, maxItems: number, maxChars: number): unknown {
+  if (typeof value === 'string') {
+    return value.length > maxChars ? `${value.slice(0, maxChars)}…` : value;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, maxItems).map((item) => compactValue(item, maxItems, maxChars));
+    if (value.length > maxItems) {
+      items.push(`… ${value.length - maxItems} more items`);
+    }
+    return items;
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, compactValue(item, maxItems, maxChars)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Fit a JSON result into a number of tokens, keeping its structure where possible
+ * @param content The result as JSON
+ * @param maxTokens The number of tokens the result may use
+ * @param model The model whose encoding to use
+ * @returns The shortened JSON, or its first tokens if even the smallest structure is too large
+ */
+export function truncateToolOutput(content: string, maxTokens: number, model?: string): string {
+  if (countTokens(content, model) <= maxTokens) {
+    return content;
+  }
+
+  const value = JSON.parse(content);
+  if (typeof value !== 'string') {
+    for (const { maxItems, maxChars } of COMPACTION_STEPS) {
+      const compacted = JSON.stringify(compactValue(value, maxItems, maxChars));
+      if (countTokens(compacted, model) <= maxTokens) {
+        return compacted;
+      }
+    }
+  }
+
+  return truncateToTokens(content, maxTokens, model);
+}
+
+/**
+ * Store a full tool result so the model can page through it
+ * @param output The result to store, without its reference ID
+ * @returns The stored result
+ */
+export async function storeToolOutput(output: Omit<StoredToolOutput, 'id'>): Promise<StoredToolOutput> {
+  const stored: StoredToolOutput = { id: randomUUID(), ...output };
+
+  cachedOutputs.set(stored.id, stored);
+  if (cachedOutputs.size > MAX_CACHED_OUTPUTS) {
+    // Maps keep insertion order, so the first key is the oldest
+    cachedOutputs.delete(cachedOutputs.keys().next().value as string);
+  }
+
+  const client = getSupabaseClient();
+  if (client) {
+    const { error } = await client.from('tool_outputs').insert({
+      id: stored.id,
+      user_id: stored.userId,
+      run_id: stored.runId ?? null,
+      tool_name: stored.toolName,
+      tool_call_id: stored.toolCallId,
+      content: stored.content,
+      total_tokens: stored.totalTokens,
+      page_tokens: stored.pageTokens,
+    });
+
+    if (error) {
+      console.error('Error storing tool output:', error);
+    }
+  }
+
+  return stored;
+}
+
+/**
+ * Get a stored tool result
+ * @param reference The reference ID of the result
+ * @param userId The user the result must belong to
+ * @returns The result, or null if the user has no result with that ID
+ */
+export async function getStoredToolOutput(reference: string, userId: string): Promise<StoredToolOutput | null> {
+  const cached = cachedOutputs.get(reference);
+  if (cached) {
+    return cached.userId === userId ? cached : null;
+  }
+
+  const client = getSupabaseClient();
+  if (!client) {
+    return null;
+  }
+
+  const { data, error } = await client
+    .from('tool_outputs')
+    .select('*')
+    .eq('id', reference)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching tool output:', error);
+    return null;
+  }
+
+  return data
+    ? {
+        id: data.id,
+        userId: data.user_id,
+        runId: data.run_id ?? undefined,
+        toolName: data.tool_name,
+        toolCallId: data.tool_call_id,
+        content: data.content,
+        totalTokens: data.total_tokens,
+        pageTokens: data.page_tokens,
+      }
+    : null;
+}
+
+/**
+ * Read one page of a stored tool result
+ * @param output The stored result
+ * @param page The page number, starting at 1
+ * @param model The model whose encoding to use
+ * @returns The page
+ */
+export function readToolOutputPage(output: StoredToolOutput, page: number, model?: string): ToolOutputPage {
+  const pages = Math.max(1, Math.ceil(output.totalTokens / output.pageTokens));
+  const tokens = encodeText(output.content, model);
+  const start = (page - 1) * output.pageTokens;
+
+  return {
+    reference: output.id,
+    page,
+    pages,
+    content: decodeTokens(tokens.slice(start, start + output.pageTokens), model),
+  };
+}
+
+/**
+ * Create the tool that reads stored tool results page by page
+ * @param userId The user whose results the tool may read
+ * @param model The model the pages are given to, which sets the tokenizer
+ * @returns The tool
+ */
+export function createReadToolOutputTool(userId: string, model?: string): Tool {
+  return {
+    name: READ_TOOL_OUTPUT_TOOL,
+    description:
+      'Read a page of a tool result that was too large to show in full. ' +
+      'Use the reference and page numbers given with the shortened result.',
+    parameters: {
+      reference: { type: 'string', description: 'The reference of the stored result' },
+      page: { type: 'integer', minimum: 1, description: 'The page to read, starting at 1' },
+    },
+    execute: async (args) => {
+      const output = await getStoredToolOutput(String(args.reference), userId);
+      if (!output) {
+        throw new ToolError(`No stored tool result with reference ${args.reference}`, READ_TOOL_OUTPUT_TOOL, false);
+      }
+
+      const page = readToolOutputPage(output, Math.max(1, Math.floor(Number(args.page)) || 1), model);
+      if (page.page > page.pages) {
+        throw new ToolError(`The result has only ${page.pages} pages`, READ_TOOL_OUTPUT_TOOL, false);
+      }
+      return page;
+    },
+  };
+}
+
+/**
+ * Add the tool that reads stored results once the conversation refers to one
+ * @param tools The tools of the run
+ * @param messages The conversation
+ * @param userId The user whose results the tool may read
+ * @param model The model the pages are given to
+ * @returns The tools, with the reader added if a result was stored
+ */
+export function withToolOutputReader(tools: Tool[], messages: Message[], userId: string, model?: string): Tool[] {
+  const hasStoredOutput = messages.some(
+    (message) => message.role === 'tool' && message.content.includes(`call ${READ_TOOL_OUTPUT_TOOL} with`)
+  );
+  if (!hasStoredOutput || findToolByName(tools, READ_TOOL_OUTPUT_TOOL)) {
+    return tools;
+  }
+  return [...tools, createReadToolOutputTool(userId, model)];
+}
+
+/**
+ * Summarize an oversized tool result with the nano model
+ * @param toolName The tool that produced the result
+ * @param content The result as JSON
+ * @param maxTokens The length of the summary in tokens
+ * @param context Where the result is fitted
+ * @returns The summary
+ */
+async function summarizeToolOutput(
+  toolName: string,
+  content: string,
+  maxTokens: number,
+  context: ToolOutputContext
+): Promise<string> {
+  const config = context.summarizer ?? DEFAULT_SUMMARIZER_CONFIG;
+  const messages: Message[] = [
+    {
+      role: 'system',
+      content:
+        `Summarize the result of the ${toolName} tool for an assistant that called it. ` +
+        'Keep names, numbers, identifiers, URLs and anything needed to act on the result. ' +
+        `Write at most ${Math.floor(maxTokens * 0.75)} words and respond with only the summary.`,
+    },
+    { role: 'user', content: truncateToTokens(content, MAX_SUMMARY_INPUT_TOKENS, config.model) },
+  ];
+
+  const startedAt = Date.now();
+  let response: ChatResponse;
+  try {
+    response = await callModel({ messages }, { ...config, maxTokens }, context.signal);
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    context.onModelCall?.(messages, undefined, Date.now() - startedAt, err);
+    throw err;
+  }
+  context.onModelCall?.(messages, response, Date.now() - startedAt);
+
+  return response.message.content.trim();
+}
+
+/**
+ * Create the message for a tool result, fitting it to its tool's output policy
+ *
+ * Results within the limit, errors and pages read back are given as they are.
+ * Larger results are stored in full, then summarized or shortened, with a
+ * note telling the model how to read the rest.
+ * @param result The result of the tool call
+ * @param tools The tools of the run
+ * @param context Where the result is fitted and stored
+ * @returns A message representing the tool result
+ */
+export async function createFittedToolResultMessage(
+  result: ToolCallResult,
+  tools: Tool[],
+  context: ToolOutputContext
+): Promise<Message> {
+  const message = createToolResultMessage(result);
+  if (result.error || message.content === undefined) {
+    return message;
+  }
+
+  // Pages are sized to fit already and are shown as plain text
+  if (result.toolName === READ_TOOL_OUTPUT_TOOL) {
+    const page = result.result as ToolOutputPage;
+    return {
+      ...message,
+      content: `Page ${page.page} of ${page.pages} of ${page.reference}:\n${page.content}`,
+    };
+  }
+
+  const policy = { ...DEFAULT_TOOL_OUTPUT_POLICY, ...findToolByName(tools, result.toolName)?.outputPolicy };
+  // Every token is at least one character, so short results need no counting
+  if (message.content.length <= policy.maxTokens) {
+    return message;
+  }
+  const totalTokens = countTokens(message.content, context.model);
+  if (totalTokens <= policy.maxTokens) {
+    return message;
+  }
+
+  const stored = await storeToolOutput({
+    userId: context.userId,
+    runId: context.runId,
+    toolName: result.toolName,
+    toolCallId: result.toolCallId,
+    content: message.content,
+    totalTokens,
+    pageTokens: policy.pageTokens,
+  });
+  const pages = Math.ceil(totalTokens / policy.pageTokens);
+  const note =
+    `[Result of ${totalTokens} tokens shortened to fit. The full result is stored as ${stored.id} ` +
+    `in ${pages} pages; call ${READ_TOOL_OUTPUT_TOOL} with {"reference":"${stored.id}","page":1} to read it.]`;
+  const available = Math.max(1, policy.maxTokens - countTokens(note, context.model) - 1);
+
+  let content: string | undefined;
+  if (policy.summarize && (context.canCallModel?.() ?? true)) {
+    try {
+      content = `Summary: ${await summarizeToolOutput(result.toolName, message.content, available, context)}`;
+    } catch (error) {
+      // The shortened result is still useful when the summary cannot be written
+      console.error('Error summarizing tool output:', error);
+    }
+  }
+  content ??= truncateToolOutput(message.content, available, context.model);
+
+  logger.info('Fitted a tool result to its output policy', {
+    toolName: result.toolName,
+    totalTokens,
+    maxTokens: policy.maxTokens,
+    reference: stored.id,
+    summarized: policy.summarize && content.startsWith('Summary: '),
+  });
+
+  return { ...message, content: `${content}\n${note}` };
+}
+
+/**
+ * Create the messages for tool results, fitting each to its tool's output policy
+ * @param results The results of the tool calls
+ * @param tools The tools of the run
+ * @param context Where the results are fitted and stored
+ * @returns The messages, in the order of the results
+ */
+export async function createFittedToolResultMessages(
+  results: ToolCallResult[],
+  tools: Tool[],
+  context: ToolOutputContext
+): Promise<Message[]> {
+  return Promise.all(results.map((result) => createFittedToolResultMessage(result, tools, context)));
+}
@@ -0,0 +1,206 @@
+/**
+ * Tool call scheduling
+ *
+ * The tool calls of one model turn run in parallel, but no more than the
+ * run's limit at once, no more than a tool's own limit for each tool, and
+ * tools marked sequential on their own. Calls that run past their time limit
+ * are aborted and fail, so the model can carry on without them.
+ */
+
+import { Tool, ToolCall } from './types';
+import { ExtendedTool } from '../tools/types';
+import { ToolError } from '../utils/error';
+import { attachRetryBudget, getRetryBudget } from './retryPolicy';
+import { attachRunContext, getRunContext } from './runContext';
+import { findToolByName } from './utils';
+
+/**
+ * Default number of tool calls a run makes at once
+ */
+export const DEFAULT_MAX_TOOL_CONCURRENCY = 5;
+
+/**
+ * Limits on the tool calls of a run
+ */
+export interface ToolCallLimits {
+  /** The most tool calls that run at once (default: 5) */
+  maxConcurrency?: number;
+  /** The time limit for calls to tools without their own `timeoutMs`, in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * How the calls to one tool are run
+ */
+export interface ToolExecutionPolicy {
+  /** The time limit for each call in milliseconds, or undefined for none */
+  timeoutMs?: number;
+  /** The most calls to the tool that run at once */
+  maxConcurrency: number;
+  /** Whether each call runs on its own */
+  sequential: boolean;
+}
+
+/**
+ * Error returned to the model when a tool call does not finish in time
+ */
+export class ToolTimeoutError extends ToolError {
+  timeoutMs: number;
+
+  constructor(toolName: string, timeoutMs: number) {
+    // Not retried: a call that hung once would most likely hang again
+    super(`Tool ${toolName} did not finish within ${timeoutMs}ms`, toolName, false);
+    this.name = 'ToolTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Get how the calls to a tool are run
+ * @param tool The tool, if it exists
+ * @param limits The run's limits
+ * @returns The tool's policy, its own settings taking precedence over the run's
+ */
+export function getToolExecutionPolicy(tool: Tool | undefined, limits: ToolCallLimits = {}): ToolExecutionPolicy {
+  const { timeoutMs, maxConcurrency, sequential } = (tool || {}) as Partial<ExtendedTool>;
+
+  return {
+    timeoutMs: timeoutMs ?? limits.timeoutMs,
+    maxConcurrency: maxConcurrency ?? Infinity,
+    sequential: Boolean(sequential),
+  };
+}
+
+/**
+ * Run a tool call with a time limit, aborting it when the limit is reached
+ * @param fn The call, given a signal that aborts when the time is up or the run is cancelled
+ * @param toolName The name of the tool, for the error
+ * @param timeoutMs The time limit in milliseconds, or undefined for none
+ * @param signal Optional abort signal of the run
+ * @returns The result of the call
+ * @throws ToolTimeoutError if the call does not finish in time
+ */
+export async function withToolTimeout<T>(
+  fn: (signal?: AbortSignal) => Promise<T>,
+  toolName: string,
+  timeoutMs?: number,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!timeoutMs) {
+    return fn(signal);
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  }
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  // The call still draws on the run's retry budget and can start sub-agents
+  const budget = getRetryBudget(signal);
+  if (budget) attachRetryBudget(controller.signal, budget);
+  const runContext = getRunContext(signal);
+  if (runContext) attachRunContext(controller.signal, runContext);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new ToolTimeoutError(toolName, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Run tool calls within the run's and each tool's concurrency limits
+ *
+ * Calls start in order as limits allow; a call held back by its tool's
+ * limit lets later calls to other tools go ahead, but a sequential call
+ * waits for the calls before it and holds back the calls after it.
+ * @param toolCalls The tool calls
+ * @param tools The available tools
+ * @param run Runs one call
+ * @param limits The run's limits
+ * @returns The results, in the order of the calls
+ */
+export function scheduleToolCalls<R>(
+  toolCalls: ToolCall[],
+  tools: Tool[],
+  run: (toolCall: ToolCall, policy: ToolExecutionPolicy) => Promise<R>,
+  limits: ToolCallLimits = {}
+): Promise<R[]> {
+  const maxConcurrency = Math.max(1, limits.maxConcurrency ?? DEFAULT_MAX_TOOL_CONCURRENCY);
+  const policies = toolCalls.map((toolCall) => getToolExecutionPolicy(findToolByName(tools, toolCall.name), limits));
+  const results: R[] = new Array(toolCalls.length);
+  const pending = toolCalls.map((_, index) => index);
+  const runningByTool = new Map<string, number>();
+  let running = 0;
+  let exclusive = false;
+
+  return new Promise<R[]>((resolve, reject) => {
+    let failed = false;
+
+    const start = (index: number) => {
+      const { name } = toolCalls[index];
+      running++;
+      exclusive = policies[index].sequential;
+      runningByTool.set(name, (runningByTool.get(name) ?? 0) + 1);
+
+      run(toolCalls[index], policies[index]).then(
+        (result) => {
+          results[index] = result;
+          running--;
+          exclusive = false;
+          runningByTool.set(name, runningByTool.get(name)! - 1);
+          pump();
+        },
+        (error) => {
+          failed = true;
+          reject(error);
+        }
+      );
+    };
+
+    const pump = () => {
+      if (failed) return;
+      if (pending.length === 0 && running === 0) {
+        resolve(results);
+        return;
+      }
+
+      let position = 0;
+      while (position < pending.length && !exclusive && running < maxConcurrency) {
+        const index = pending[position];
+        const policy = policies[index];
+
+        if (policy.sequential) {
+          // Later calls wait until this one has run on its own
+          if (running === 0) {
+            pending.splice(position, 1);
+            start(index);
+          }
+          return;
+        }
+
+        if ((runningByTool.get(toolCalls[index].name) ?? 0) >= policy.maxConcurrency) {
+          position++;
+          continue;
+        }
+
+        pending.splice(position, 1);
+        start(index);
+      }
+    };
+
+    pump();
+  });
+}
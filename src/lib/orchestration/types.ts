@@ -2,6 +2,12 @@
  * Types for the orchestration engine
  */
 
+import type { ZodType, ZodTypeDef } from 'zod';
+import type { RouteDecision, RouterConfig } from './router';
+import type { JsonSchema } from '../utils/validation';
+import type { RetryBudget } from './retryPolicy';
+import type { RunContext } from './runContext';
+
 /**
  * Represents a tool that can be called by the orchestrator
  */
@@ -13,7 +19,31 @@ export interface Tool {
   /** JSON schema for the tool's parameters */
   parameters: Record<string, any>;
   /** Function to execute the tool */
-  execute: (args: Record<string, any>) => Promise<any>;
+  execute: (args: Record<string, unknown>, options?: ToolExecuteOptions) => Promise<unknown>;
+  /** Whether each call must be approved by the user before it runs */
+  requiresApproval?: boolean;
+  /** How large results are fitted before they are given to the model */
+  outputPolicy?: ToolOutputPolicy;
+}
+
+/**
+ * How a tool's result is fitted before it is given back to the model
+ */
+export interface ToolOutputPolicy {
+  /** The largest result, in tokens, given to the model as is (default: 2000) */
+  maxTokens?: number;
+  /** Summarize an oversized result with the nano model instead of truncating it (default: false) */
+  summarize?: boolean;
+  /** The size of the pages the model can read an oversized result in, in tokens (default: 2000) */
+  pageTokens?: number;
+}
+
+/**
+ * Options passed to a tool when it is executed
+ */
+export interface ToolExecuteOptions {
+  /** Aborted when the run is cancelled; long-running tools should stop early */
+  signal?: AbortSignal;
 }
 
 /**
@@ -26,6 +56,8 @@ export interface ToolCall {
   name: string;
   /** The arguments to pass to the tool */
   arguments: Record<string, any>;
+  /** Why the model's arguments could not be parsed; the call fails with this error instead of running */
+  argumentsError?: string;
 }
 
 /**
@@ -70,10 +102,16 @@ export interface OrchestrationContext {
   additionalContext?: string;
 }
 
+/**
+ * The schema a structured answer must match: JSON Schema, or a Zod schema
+ * such as those in utils/validation.ts
+ */
+export type OutputSchema<T = unknown> = ZodType<T, ZodTypeDef, unknown> | JsonSchema;
+
 /**
  * Represents a request to the orchestrator
  */
-export interface OrchestrationRequest {
+export interface OrchestrationRequest<T = unknown> {
   /** The user's instruction */
   instruction: string;
   /** The context for the request */
@@ -82,24 +120,273 @@ export interface OrchestrationRequest {
   tools: Tool[];
   /** The maximum number of retries for failed tool calls */
   maxRetries?: number;
+  /** Listener for progress events; when set, model output is streamed */
+  onEvent?: (event: OrchestrationEvent) => void;
+  /** The maximum number of model calls before the run is stopped (default: 10) */
+  maxSteps?: number;
+  /** The maximum wall-clock time for the run in milliseconds */
+  maxWallClockMs?: number;
+  /** The maximum number of tokens the run may consume across all model calls */
+  maxTotalTokens?: number;
+  /** Whether to store the run and its step-level trace (default: true) */
+  persistRun?: boolean;
+  /** The ID to record the run under, such as that of a queued run (default: a new ID) */
+  runId?: string;
+  /** Resume a run that paused for approval instead of starting a new one */
+  resumeFrom?: OrchestrationResume;
+  /** Aborts the run when signalled; only the tokens already used are billed */
+  signal?: AbortSignal;
+  /** Plan the tool calls up front and run independent steps in parallel */
+  planner?: boolean | PlannerOptions;
+  /** Route the instruction to a model tier and tool subset before the run starts */
+  routing?: boolean | RouterConfig;
+  /** Produce the final answer as JSON matching this schema, returned as `output` */
+  outputSchema?: OutputSchema<T>;
+  /** How many times an answer that does not match the schema is sent back (default: 2) */
+  maxOutputRetries?: number;
+  /** The number of retries the run may make across all of its model and tool calls (default: 10); sub-agents share it */
+  retryBudget?: number;
+  /** The system prompt to use instead of the one rendered from the orchestrator template */
+  systemPrompt?: string;
+  /** The persona whose variables and template overrides the system prompt is rendered with */
+  persona?: string;
+  /** The run that delegated this one to a sub-agent; the run's trace is nested under it */
+  parentRun?: RunContext;
+  /** The most tool calls that run at once; tools may set a lower limit of their own (default: 5) */
+  maxToolConcurrency?: number;
+  /** The time limit for calls to tools that do not set their own `timeoutMs`, in milliseconds (default: none) */
+  toolTimeoutMs?: number;
+}
+
+/**
+ * Options for planner mode
+ */
+export interface PlannerOptions {
+  /** How many times the model may revise an invalid plan or re-plan after a failed step (default: 2) */
+  maxReplans?: number;
+}
+
+/**
+ * One step of a task plan
+ */
+export interface PlanStep {
+  /** Unique ID of the step, used to reference its result */
+  id: string;
+  /** What the step is for */
+  description?: string;
+  /** The tool the step calls */
+  tool: string;
+  /**
+   * The arguments for the tool; strings may contain templates such as
+   * `{{steps.<id>.result}}` or `{{steps.<id>.result.items.0.url}}`
+   */
+  arguments: Record<string, unknown>;
+  /** The IDs of the steps that must complete before this one */
+  dependsOn: string[];
+}
+
+/**
+ * A task plan: a DAG of tool calls
+ */
+export interface TaskPlan {
+  /** The steps of the plan */
+  steps: PlanStep[];
+}
+
+/**
+ * The state of a plan step
+ */
+export type PlanStepStatus = 'pending' | 'completed' | 'failed' | 'skipped';
+
+/**
+ * The progress of one plan step
+ */
+export interface PlanStepProgress {
+  /** The ID of the step */
+  stepId: string;
+  /** The tool the step calls */
+  tool: string;
+  /** The state of the step */
+  status: PlanStepStatus;
+  /** The arguments after templates were filled in */
+  arguments?: Record<string, unknown>;
+  /** The result of the tool call */
+  result?: unknown;
+  /** The error message, if the step failed or was skipped */
+  error?: string;
 }
 
+/**
+ * A plan and the progress made executing it
+ */
+export interface PlanExecution {
+  /** The last valid plan, if the model produced one */
+  plan?: TaskPlan;
+  /** The progress of every step executed or skipped, across all plans */
+  steps: PlanStepProgress[];
+  /** How many times the plan was revised or replaced */
+  replans: number;
+  /** Whether every step of the last plan completed, a step failed, or no valid plan was produced */
+  status: 'completed' | 'failed' | 'invalid';
+  /** Why the last plan was rejected (when status is 'invalid') */
+  validationErrors?: string[];
+}
+
+/**
+ * The limits enforced on a single orchestration run
+ */
+export type OrchestrationBudget = Pick<
+  OrchestrationRequest,
+  'maxSteps' | 'maxWallClockMs' | 'maxTotalTokens'
+>;
+
+/**
+ * Why an orchestration run ended
+ */
+export type StopReason =
+  | 'completed'
+  | 'step_limit'
+  | 'token_limit'
+  | 'timeout'
+  | 'error'
+  | 'awaiting_approval'
+  | 'cancelled'
+  | 'invalid_output';
+
 /**
  * Represents the result of an orchestration
  */
-export interface OrchestrationResult {
+export interface OrchestrationResult<T = unknown> {
   /** The final response to the user */
   response: string;
   /** The tool calls that were made */
   toolCalls: ToolCallResult[];
   /** Any errors that occurred */
   errors?: Error[];
+  /** Why the run ended */
+  stopReason: StopReason;
+  /** The ID of the stored run */
+  runId?: string;
+  /** Tool calls waiting for the user's approval (when stopReason is 'awaiting_approval') */
+  pendingToolCalls?: ToolCall[];
+  /** The task plan and its progress (planner mode only) */
+  plan?: PlanExecution;
+  /** The model tier and tools the instruction was routed to (routing only) */
+  route?: RouteDecision;
+  /** The final answer parsed and validated against the output schema */
+  output?: T;
 }
 
+/**
+ * The user's decision on a tool call that requires approval
+ */
+export type ApprovalDecision =
+  /** Run the tool call, optionally with edited arguments */
+  | { toolCallId: string; action: 'approve'; arguments?: Record<string, unknown> }
+  /** Do not run the tool call; the model is told it was rejected */
+  | { toolCallId: string; action: 'reject'; reason?: string };
+
+/**
+ * The saved state of a run that paused for approval
+ */
+export interface OrchestrationCheckpoint {
+  /** The conversation up to and including the assistant's tool calls */
+  messages: Message[];
+  /** The tool calls waiting for approval */
+  pendingToolCalls: ToolCall[];
+  /** The tool calls completed so far, with errors reduced to their message */
+  toolResults: Array<Omit<ToolCallResult, 'error'> & { error?: string }>;
+  /** The budget the run was started with */
+  budget: OrchestrationBudget;
+  /** The maximum number of retries for failed tool calls */
+  maxRetries?: number;
+  /** Model calls made before the pause */
+  stepsUsed: number;
+  /** Tokens consumed before the pause */
+  usage: OrchestrationUsage;
+  /** The number of trace steps recorded before the pause */
+  traceSteps: number;
+  /** The route chosen when the run started, if it was routed */
+  route?: RouteDecision;
+  /** The output schema of the run, as JSON Schema */
+  outputSchema?: JsonSchema;
+  /** How many times an answer that does not match the schema is sent back */
+  maxOutputRetries?: number;
+  /** The options the run was started with, passed on again when it resumes */
+  options?: CheckpointOptions;
+}
+
+/**
+ * The options of a paused run that are restored when it resumes
+ *
+ * A custom router configuration is not saved, as its tiers may hold API keys;
+ * the route the run took is kept in the checkpoint instead.
+ */
+export type CheckpointOptions = Pick<
+  OrchestrationRequest,
+  'persona' | 'planner' | 'maxToolConcurrency' | 'toolTimeoutMs'
+> & {
+  /** Whether the run was routed */
+  routing?: boolean;
+  /** The retries left in the run's retry budget */
+  retryBudget?: number;
+};
+
+/**
+ * Everything needed to resume a paused run
+ */
+export interface OrchestrationResume {
+  /** The ID of the paused run */
+  runId: string;
+  /** The state saved when the run paused */
+  checkpoint: OrchestrationCheckpoint;
+  /** A decision for every pending tool call */
+  decisions: ApprovalDecision[];
+}
+
+/**
+ * Token usage reported for a single model call
+ */
+export interface OrchestrationUsage {
+  /** Number of prompt tokens used */
+  promptTokens: number;
+  /** Number of completion tokens used */
+  completionTokens: number;
+  /** Total tokens used */
+  totalTokens: number;
+}
+
+/**
+ * Progress events emitted while an orchestration is running
+ */
+export type OrchestrationEvent =
+  /** A chunk of assistant text generated by the model */
+  | { type: 'token'; delta: string }
+  /** A tool call requested by the model is about to be executed */
+  | { type: 'tool_call'; toolCall: ToolCall }
+  /** A tool call finished successfully */
+  | { type: 'tool_result'; result: ToolCallResult }
+  /** A tool call failed */
+  | { type: 'tool_error'; result: ToolCallResult }
+  /** The run started; its ID can be used to cancel it */
+  | { type: 'run_started'; runId: string }
+  /** The model produced a valid task plan (planner mode only) */
+  | { type: 'plan_created'; plan: TaskPlan }
+  /** The instruction was routed to a model tier and tool subset (routing only) */
+  | { type: 'route_selected'; route: RouteDecision }
+  /** The run paused until the user approves or rejects these tool calls */
+  | { type: 'approval_required'; toolCalls: ToolCall[] }
+  /** Token usage for one iteration of the orchestration loop */
+  | { type: 'usage'; iteration: number; model: string; usage: OrchestrationUsage }
+  /** The orchestration finished */
+  | { type: 'done'; result: OrchestrationResult };
+
 /**
  * Configuration for the GPT-4.1 API
  */
 export interface GPT41Config {
+  /** The name of the LLM provider to use (default: 'openai') */
+  provider?: string;
   /** The API key */
   apiKey: string;
   /** The model to use */
@@ -108,8 +395,16 @@ export interface GPT41Config {
   temperature?: number;
   /** The maximum number of tokens to generate */
   maxTokens?: number;
-  /** The API endpoint */
+  /** The API endpoint (defaults to the provider's endpoint) */
   endpoint?: string;
+  /** How long to wait for this model, including retries, before moving on to the next fallback model */
+  timeoutMs?: number;
+  /**
+   * Models to try in order when this one fails, times out or has its provider's
+   * circuit breaker open, e.g. another vendor and then a cheaper model. Each
+   * inherits the settings it does not override.
+   */
+  fallbackModels?: Array<Partial<GPT41Config>>;
 }
 
 /**
@@ -124,4 +419,10 @@ export interface RetryOptions {
   backoffFactor: number;
   /** The maximum delay in milliseconds */
   maxDelayMs: number;
+  /** How to randomise delays so clients do not retry in lockstep (default: 'full') */
+  jitter?: 'none' | 'full' | 'equal';
+  /** Give up instead of waiting when the server asks for a longer delay (default: 30000) */
+  maxRetryAfterMs?: number;
+  /** Retry budget shared with other calls; defaults to the budget of the run the signal belongs to */
+  budget?: RetryBudget;
 }
@@ -1,4 +1,22 @@
 import { Tool, Message, ToolCall, ToolCallResult } from './types';
+import { ORCHESTRATOR_PROMPT, PromptScope, renderPrompt } from './promptTemplates';
+import { parseToolArguments } from './toolArguments';
+import { JsonSchema } from '../utils/validation';
+
+/**
+ * Build the JSON schema object for a tool's parameters
+ * @param tool The tool to describe
+ * @returns A JSON schema of type object
+ */
+export function createToolParametersSchema(tool: Tool): JsonSchema {
+  return {
+    type: 'object',
+    properties: tool.parameters,
+    required: Object.keys(tool.parameters).filter(
+      (key) => !tool.parameters[key].optional
+    ),
+  };
+}
 
 /**
  * Convert tools to the format expected by the OpenAI API
@@ -11,40 +29,37 @@ export function formatToolsForAPI(tools: Tool[]): any[] {
     function: {
       name: tool.name,
       description: tool.description,
-      parameters: {
-        type: 'object',
-        properties: tool.parameters,
-        required: Object.keys(tool.parameters).filter(
-          (key) => !tool.parameters[key].optional
-        ),
-      },
+      parameters: createToolParametersSchema(tool),
     },
   }));
 }
 
 /**
- * Create a system message for the orchestrator
- * @param tools The available tools
- * @param additionalContext Any additional context to include
- * @returns The system message
+ * Describe tools for a system prompt, one per line
+ * @param tools The tools to describe
+ * @returns The name and description of each tool
  */
-export function createSystemMessage(tools: Tool[], additionalContext?: string): string {
-  const toolDescriptions = tools
+export function describeTools(tools: Tool[]): string {
+  return tools
     .map((tool) => `${tool.name}: ${tool.description}`)
     .join('\n');
+}
 
-  return `You are an intelligent orchestrator that helps users accomplish tasks by calling appropriate tools.
-
-Available tools:
-${toolDescriptions}
-
-${additionalContext ? `Additional context:\n${additionalContext}\n` : ''}
-
-When a user gives you an instruction, analyze it carefully and determine which tools to call and in what order.
-Always respond with tool calls when appropriate rather than trying to perform the task yourself.
-If you need more information from the user before you can proceed, ask for it.
-If a tool call fails, try to recover gracefully or suggest alternatives.
-After completing all necessary tool calls, provide a helpful summary of what was done.`;
+/**
+ * Create a system message for the orchestrator from the template version
+ * that applies to the user and persona
+ * @param tools The available tools
+ * @param additionalContext Any additional context to include
+ * @param scope The user and persona whose template overrides apply
+ * @returns The system message
+ */
+export async function createSystemMessage(
+  tools: Tool[],
+  additionalContext?: string,
+  scope: PromptScope = {}
+): Promise<string> {
+  const prompt = await renderPrompt(ORCHESTRATOR_PROMPT, { tools: describeTools(tools), additionalContext }, scope);
+  return prompt.content;
 }
 
 /**
@@ -81,15 +96,23 @@ export function formatMessagesForAPI(messages: Message[]): any[] {
 
 /**
  * Parse tool calls from the OpenAI API response
+ *
+ * Malformed arguments are repaired where possible; a call whose arguments
+ * cannot be parsed is kept with the error, so it fails on its own instead
+ * of failing the whole response.
  * @param toolCalls The tool calls from the API response
  * @returns The parsed tool calls
  */
 export function parseToolCalls(toolCalls: any[]): ToolCall[] {
-  return toolCalls.map((toolCall) => ({
-    id: toolCall.id,
-    name: toolCall.function.name,
-    arguments: JSON.parse(toolCall.function.arguments),
-  }));
+  return toolCalls.map((toolCall) => {
+    const parsed = parseToolArguments(toolCall.function.arguments);
+    return {
+      id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: parsed.arguments,
+      ...(parsed.error ? { argumentsError: parsed.error } : {}),
+    };
+  });
 }
 
 /**
@@ -2,7 +2,7 @@
  * Tests for the Web Search Tool
  */
 
-import { createWebSearchTool, SearchProvider } from '../webSearchTool';
+import { createWebSearchTool, SearchProvider, SearchResults } from '../webSearchTool';
 import { ExtendedTool } from '../types';
 
 // Mock fetch
@@ -88,9 +88,9 @@ describe('Web Search Tool', () => {
   });
 
   test('should return the correct search results', async () => {
-    const results = await webSearchTool.execute({
+    const results = (await webSearchTool.execute({
       query: 'test query',
-    });
+    })) as SearchResults;
 
     expect(results).toHaveProperty('query', 'test query');
     expect(results).toHaveProperty('results');
@@ -331,9 +331,9 @@ describe('Web Search Tool', () => {
     });
 
     // Execute search
-    const results = await googleSearchTool.execute({
+    const results = (await googleSearchTool.execute({
       query: 'google test query',
-    });
+    })) as SearchResults;
 
     // Verify the results
     expect(results).toHaveProperty('query', 'google test query');
@@ -400,9 +400,9 @@ describe('Web Search Tool', () => {
     });
 
     // Should return empty results array
-    const results = await googleSearchTool.execute({
+    const results = (await googleSearchTool.execute({
       query: 'no results query',
-    });
+    })) as SearchResults;
 
     expect(results.results).toHaveLength(0);
   });
@@ -5,6 +5,8 @@
  * with retry logic and fallback values.
  */
 
+import { classifyError } from '../orchestration/retryPolicy';
+
 /**
  * Options for tool error handling
  */
@@ -129,6 +131,11 @@ export async function withToolErrorHandling<T>(
         maxRetries,
         ...context,
       });
+
+      // Errors that cannot succeed, such as a ToolError with retryable: false, are not retried
+      if (!classifyError(lastError).retryable) {
+        break;
+      }
       
       // If this was the last attempt, we'll fall through to the fallback logic
     }
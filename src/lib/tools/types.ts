@@ -42,7 +42,16 @@ export interface ExtendedTool extends Tool {
     /** Time window in milliseconds */
     windowMs: number;
   };
-  
+
+  /** The time limit for each call in milliseconds, including retries; a call that runs over fails */
+  timeoutMs?: number;
+
+  /** The most calls to the tool that run at once within a run */
+  maxConcurrency?: number;
+
+  /** Whether each call must run on its own, with no other tool calls running */
+  sequential?: boolean;
+
   /** Additional metadata */
   metadata?: Record<string, any>;
 }
@@ -74,6 +74,10 @@ export interface WebSearchToolConfig {
     /** Time window in milliseconds */
     windowMs: number;
   };
+  /** The most searches a run makes at once (default: 3) */
+  maxConcurrency?: number;
+  /** The time limit for each search in milliseconds (default: 15000) */
+  timeoutMs?: number;
 }
 
 // Simple in-memory cache for search results
@@ -346,6 +350,8 @@ export function createWebSearchTool(config: WebSearchToolConfig): ExtendedTool {
       }
     },
     rateLimit: config.rateLimit,
+    maxConcurrency: config.maxConcurrency ?? 3,
+    timeoutMs: config.timeoutMs ?? 15000,
     metadata: {
       provider: providerMetadata[provider].name,
       documentation: providerMetadata[provider].documentation,
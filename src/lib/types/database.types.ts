@@ -378,13 +378,461 @@ export interface Database {
           }
         ]
       }
+      runs: {
+        Row: {
+          id: string
+          user_id: string
+          instruction: string
+          system_prompt: string | null
+          status: string
+          response: string | null
+          stop_reason: string | null
+          model: string | null
+          prompt_tokens: number
+          completion_tokens: number
+          total_tokens: number
+          error: string | null
+          pending_tool_calls: Json | null
+          approval_decisions: Json | null
+          checkpoint: Json | null
+          parent_run_id: string | null
+          depth: number
+          prompt_template: string | null
+          prompt_version: number | null
+          prompt_versions: Json | null
+          persona: string | null
+          cancel_requested_at: string | null
+          started_at: string
+          completed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          instruction: string
+          system_prompt?: string | null
+          status?: string
+          response?: string | null
+          stop_reason?: string | null
+          model?: string | null
+          prompt_tokens?: number
+          completion_tokens?: number
+          total_tokens?: number
+          error?: string | null
+          pending_tool_calls?: Json | null
+          approval_decisions?: Json | null
+          checkpoint?: Json | null
+          parent_run_id?: string | null
+          depth?: number
+          prompt_template?: string | null
+          prompt_version?: number | null
+          prompt_versions?: Json | null
+          persona?: string | null
+          cancel_requested_at?: string | null
+          started_at?: string
+          completed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          instruction?: string
+          system_prompt?: string | null
+          status?: string
+          response?: string | null
+          stop_reason?: string | null
+          model?: string | null
+          prompt_tokens?: number
+          completion_tokens?: number
+          total_tokens?: number
+          error?: string | null
+          pending_tool_calls?: Json | null
+          approval_decisions?: Json | null
+          checkpoint?: Json | null
+          parent_run_id?: string | null
+          depth?: number
+          prompt_template?: string | null
+          prompt_version?: number | null
+          prompt_versions?: Json | null
+          persona?: string | null
+          cancel_requested_at?: string | null
+          started_at?: string
+          completed_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "runs_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      run_steps: {
+        Row: {
+          id: string
+          run_id: string
+          user_id: string
+          step_index: number
+          step_type: string
+          iteration: number
+          model: string | null
+          tool_name: string | null
+          tool_call_id: string | null
+          input: Json | null
+          output: Json | null
+          error: string | null
+          prompt_tokens: number | null
+          completion_tokens: number | null
+          total_tokens: number | null
+          duration_ms: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          run_id: string
+          user_id: string
+          step_index: number
+          step_type: string
+          iteration: number
+          model?: string | null
+          tool_name?: string | null
+          tool_call_id?: string | null
+          input?: Json | null
+          output?: Json | null
+          error?: string | null
+          prompt_tokens?: number | null
+          completion_tokens?: number | null
+          total_tokens?: number | null
+          duration_ms?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          run_id?: string
+          user_id?: string
+          step_index?: number
+          step_type?: string
+          iteration?: number
+          model?: string | null
+          tool_name?: string | null
+          tool_call_id?: string | null
+          input?: Json | null
+          output?: Json | null
+          error?: string | null
+          prompt_tokens?: number | null
+          completion_tokens?: number | null
+          total_tokens?: number | null
+          duration_ms?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "run_steps_run_id_fkey"
+            columns: ["run_id"]
+            referencedRelation: "runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "run_steps_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      orchestration_jobs: {
+        Row: {
+          id: string
+          run_id: string
+          user_id: string
+          payload: Json
+          status: string
+          attempts: number
+          max_attempts: number
+          locked_until: string | null
+          last_error: string | null
+          created_at: string
+          updated_at: string
+          completed_at: string | null
+        }
+        Insert: {
+          id?: string
+          run_id: string
+          user_id: string
+          payload: Json
+          status?: string
+          attempts?: number
+          max_attempts?: number
+          locked_until?: string | null
+          last_error?: string | null
+          created_at?: string
+          updated_at?: string
+          completed_at?: string | null
+        }
+        Update: {
+          id?: string
+          run_id?: string
+          user_id?: string
+          payload?: Json
+          status?: string
+          attempts?: number
+          max_attempts?: number
+          locked_until?: string | null
+          last_error?: string | null
+          created_at?: string
+          updated_at?: string
+          completed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orchestration_jobs_run_id_fkey"
+            columns: ["run_id"]
+            referencedRelation: "runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orchestration_jobs_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      conversation_summaries: {
+        Row: {
+          id: string
+          user_id: string
+          conversation_id: string | null
+          summary: string
+          summarized_through: string
+          message_count: number
+          model: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          conversation_id?: string | null
+          summary: string
+          summarized_through: string
+          message_count?: number
+          model: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          conversation_id?: string | null
+          summary?: string
+          summarized_through?: string
+          message_count?: number
+          model?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_summaries_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_summaries_conversation_id_fkey"
+            columns: ["conversation_id"]
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      conversations: {
+        Row: {
+          id: string
+          user_id: string
+          title: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          title?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          title?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      tool_outputs: {
+        Row: {
+          id: string
+          user_id: string
+          run_id: string | null
+          tool_name: string
+          tool_call_id: string
+          content: string
+          total_tokens: number
+          page_tokens: number
+          created_at: string
+        }
+        Insert: {
+          id: string
+          user_id: string
+          run_id?: string | null
+          tool_name: string
+          tool_call_id: string
+          content: string
+          total_tokens: number
+          page_tokens: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          run_id?: string | null
+          tool_name?: string
+          tool_call_id?: string
+          content?: string
+          total_tokens?: number
+          page_tokens?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tool_outputs_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      prompt_templates: {
+        Row: {
+          id: string
+          name: string
+          version: number
+          body: string
+          variables: Json
+          user_id: string | null
+          persona: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          version: number
+          body: string
+          variables?: Json
+          user_id?: string | null
+          persona?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          version?: number
+          body?: string
+          variables?: Json
+          user_id?: string | null
+          persona?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prompt_templates_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      personas: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          variables: Json
+          user_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          variables?: Json
+          user_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          variables?: Json
+          user_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "personas_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      classification_cache: {
+        Row: {
+          key: string
+          classifier: string
+          result: Json
+          expires_at: string
+          created_at: string
+        }
+        Insert: {
+          key: string
+          classifier: string
+          result: Json
+          expires_at: string
+          created_at?: string
+        }
+        Update: {
+          key?: string
+          classifier?: string
+          result?: Json
+          expires_at?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
       // Add other tables as needed
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_orchestration_job: {
+        Args: {
+          lease_seconds: number
+        }
+        Returns: Database["public"]["Tables"]["orchestration_jobs"]["Row"][]
+      }
     }
     Enums: {
       [_ in never]: never
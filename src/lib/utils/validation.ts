@@ -93,3 +93,362 @@ export const WebSearchRequestSchema = z.object({
   numResults: z.number().int().min(1).max(50).optional(),
   safeSearch: z.boolean().optional(),
 });
+
+/**
+ * The value types a JSON Schema can describe
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The subset of JSON Schema understood by validateJsonSchema
+ *
+ * Formats other than JSON_SCHEMA_FORMATS are not checked.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+/**
+ * The string formats validateJsonSchema checks
+ */
+export const JSON_SCHEMA_FORMATS = ['date-time', 'date', 'email', 'uri', 'uuid'] as const;
+
+/**
+ * A string format validateJsonSchema checks
+ */
+export type JsonSchemaFormat = (typeof JSON_SCHEMA_FORMATS)[number];
+
+const FORMAT_SCHEMAS: Record<JsonSchemaFormat, z.ZodString> = {
+  'date-time': z.string().datetime({ offset: true }),
+  date: z.string().date(),
+  email: z.string().email(),
+  uri: z.string().url(),
+  uuid: z.string().uuid(),
+};
+
+/**
+ * The longest pattern a schema may use
+ */
+export const MAX_JSON_SCHEMA_PATTERN_LENGTH = 200;
+
+/**
+ * Check whether the character at an index starts an unbounded quantifier
+ * @param pattern The regular expression source
+ * @param index The index of the character
+ * @returns Whether the character is *, + or a {n,} / {n,m} quantifier
+ */
+function isUnboundedQuantifierAt(pattern: string, index: number): boolean {
+  const char = pattern[index];
+  return char === '*' || char === '+' || /^\{\d+,\d*\}/.test(pattern.slice(index));
+}
+
+/**
+ * Check that a schema pattern can be compiled and is safe to run on untrusted input
+ *
+ * Patterns come from API callers and run on model output, so patterns that can
+ * backtrack catastrophically are refused: repeated groups that themselves contain
+ * a repetition, such as (a+)+, and backreferences.
+ * @param pattern The regular expression source
+ * @returns Why the pattern cannot be used, or undefined if it can
+ */
+export function checkJsonSchemaPattern(pattern: string): string | undefined {
+  if (pattern.length > MAX_JSON_SCHEMA_PATTERN_LENGTH) {
+    return `must be at most ${MAX_JSON_SCHEMA_PATTERN_LENGTH} characters`;
+  }
+
+  try {
+    new RegExp(pattern, 'u');
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  // Whether each open group contains an unbounded quantifier
+  const groups: boolean[] = [];
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+
+    if (char === '\\') {
+      const next = pattern[index + 1];
+      if (/[1-9]/.test(next) || next === 'k') return 'backreferences are not allowed';
+      index++;
+    } else if (char === '[') {
+      // Skip the character class; quantifiers and groups have no meaning inside it
+      for (index++; index < pattern.length && pattern[index] !== ']'; index++) {
+        if (pattern[index] === '\\') index++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const repeatsInside = groups.pop();
+      if (repeatsInside && isUnboundedQuantifierAt(pattern, index + 1)) {
+        return 'nested quantifiers are not allowed';
+      }
+      if (repeatsInside && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (groups.length > 0 && isUnboundedQuantifierAt(pattern, index)) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return undefined;
+}
+
+const JsonSchemaTypeShape = z.enum(['string', 'number', 'integer', 'boolean', 'object', 'array', 'null']);
+
+/**
+ * Schema for JSON Schemas sent by API callers
+ *
+ * Only the keywords validateJsonSchema understands are checked; patterns must
+ * pass checkJsonSchemaPattern and formats must be ones it checks.
+ */
+export const JsonSchemaShape: z.ZodType<JsonSchema> = z.lazy(() =>
+  z
+    .object({
+      type: z.union([JsonSchemaTypeShape, z.array(JsonSchemaTypeShape)]).optional(),
+      description: z.string().optional(),
+      properties: z.record(JsonSchemaShape).optional(),
+      required: z.array(z.string()).optional(),
+      additionalProperties: z.union([z.boolean(), JsonSchemaShape]).optional(),
+      items: JsonSchemaShape.optional(),
+      enum: z.array(z.unknown()).optional(),
+      const: z.unknown().optional(),
+      minimum: z.number().optional(),
+      maximum: z.number().optional(),
+      exclusiveMinimum: z.number().optional(),
+      exclusiveMaximum: z.number().optional(),
+      minLength: z.number().int().min(0).optional(),
+      maxLength: z.number().int().min(0).optional(),
+      pattern: z
+        .string()
+        .superRefine((pattern, ctx) => {
+          const problem = checkJsonSchemaPattern(pattern);
+          if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid pattern: ${problem}` });
+        })
+        .optional(),
+      format: z.enum(JSON_SCHEMA_FORMATS).optional(),
+      minItems: z.number().int().min(0).optional(),
+      maxItems: z.number().int().min(0).optional(),
+      anyOf: z.array(JsonSchemaShape).optional(),
+      oneOf: z.array(JsonSchemaShape).optional(),
+      allOf: z.array(JsonSchemaShape).optional(),
+    })
+    .passthrough()
+);
+
+/**
+ * Get the JSON type of a value
+ * @param value The value
+ * @returns The JSON Schema type name
+ */
+function jsonTypeOf(value: unknown): JsonSchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType | 'undefined';
+}
+
+/**
+ * Validate a value against a JSON Schema
+ * @param value The value to validate
+ * @param schema The schema to validate against
+ * @param path The path of the value, used in error messages
+ * @returns The validation errors; empty if the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = jsonTypeOf(value);
+    const matches = types.some((type) => type === actual || (type === 'number' && actual === 'integer'));
+    if (!matches) {
+      return [`${path}: expected ${types.join(' or ')}, got ${actual}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined) {
+      const problem = checkJsonSchemaPattern(schema.pattern);
+      if (problem) {
+        errors.push(`${path}: the pattern ${schema.pattern} cannot be used: ${problem}`);
+      } else if (!new RegExp(schema.pattern, 'u').test(value)) {
+        errors.push(`${path}: must match the pattern ${schema.pattern}`);
+      }
+    }
+    if (schema.format !== undefined && schema.format in FORMAT_SCHEMAS) {
+      if (!FORMAT_SCHEMAS[schema.format as JsonSchemaFormat].safeParse(value).success) {
+        errors.push(`${path}: must be a valid ${schema.format}`);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (jsonTypeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(propertyValue, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (schema.allOf) {
+    schema.allOf.forEach((subschema) => errors.push(...validateJsonSchema(value, subschema, path)));
+  }
+  if (schema.anyOf && !schema.anyOf.some((subschema) => validateJsonSchema(value, subschema, path).length === 0)) {
+    errors.push(`${path}: must match at least one of the allowed schemas`);
+  }
+  if (schema.oneOf) {
+    const matching = schema.oneOf.filter((subschema) => validateJsonSchema(value, subschema, path).length === 0);
+    if (matching.length !== 1) errors.push(`${path}: must match exactly one of the allowed schemas`);
+  }
+
+  return errors;
+}
+
+/**
+ * Describe a Zod schema as JSON Schema, so it can be shown to a model
+ *
+ * Refinements and transforms cannot be expressed in JSON Schema and are
+ * dropped; validate with the Zod schema itself to enforce them.
+ * @param schema The Zod schema
+ * @returns The equivalent JSON Schema
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const described = (jsonSchema: JsonSchema): JsonSchema =>
+    schema.description ? { ...jsonSchema, description: schema.description } : jsonSchema;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return described(zodToJsonSchema(schema._def.innerType));
+  }
+  if (schema instanceof z.ZodNullable) {
+    return described({ anyOf: [zodToJsonSchema(schema._def.innerType), { type: 'null' }] });
+  }
+  if (schema instanceof z.ZodEffects) {
+    return described(zodToJsonSchema(schema._def.schema));
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    return described({
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])),
+      required: Object.keys(shape).filter((key) => !shape[key].isOptional()),
+      additionalProperties: schema._def.unknownKeys === 'passthrough',
+    });
+  }
+  if (schema instanceof z.ZodString) {
+    const jsonSchema: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') jsonSchema.minLength = check.value;
+      else if (check.kind === 'max') jsonSchema.maxLength = check.value;
+      else if (check.kind === 'regex') jsonSchema.pattern = check.regex.source;
+      else if (check.kind === 'email' || check.kind === 'uuid') jsonSchema.format = check.kind;
+      else if (check.kind === 'url') jsonSchema.format = 'uri';
+      else if (check.kind === 'datetime') jsonSchema.format = 'date-time';
+    }
+    return described(jsonSchema);
+  }
+  if (schema instanceof z.ZodNumber) {
+    const jsonSchema: JsonSchema = { type: 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'int') jsonSchema.type = 'integer';
+      else if (check.kind === 'min') jsonSchema[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      else if (check.kind === 'max') jsonSchema[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    }
+    return described(jsonSchema);
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return described({ type: 'boolean' });
+  }
+  if (schema instanceof z.ZodNull) {
+    return described({ type: 'null' });
+  }
+  if (schema instanceof z.ZodArray) {
+    const jsonSchema: JsonSchema = { type: 'array', items: zodToJsonSchema(schema._def.type) };
+    if (schema._def.minLength) jsonSchema.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) jsonSchema.maxItems = schema._def.maxLength.value;
+    return described(jsonSchema);
+  }
+  if (schema instanceof z.ZodEnum) {
+    return described({ type: 'string', enum: [...schema.options] });
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    return described({ enum: Object.values(schema.enum) });
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return described({ const: schema.value });
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    return described({ anyOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema) });
+  }
+  if (schema instanceof z.ZodRecord) {
+    return described({ type: 'object', additionalProperties: zodToJsonSchema(schema._def.valueType) });
+  }
+
+  // Anything else, including z.any() and z.unknown(), accepts any value
+  return described({});
+}